@@ -6,7 +6,10 @@ import { DragDropProvider } from "@thisbeyond/solid-dnd";
 import MainLayout from "@components/Layout/MainLayout";
 import ChapterList from "@components/Chapters/ChapterList";
 import EditorArea from "@components/Editor/EditorArea";
+import Corkboard from "@components/Chapters/Corkboard";
 import IdeasSidebar from "@components/Ideas/IdeasSidebar";
+import ChapterInspector from "@components/Chapters/ChapterInspector";
+import SearchPanel from "@components/Search/SearchPanel";
 import BookList from "@components/Book/BookList";
 import TopToolbar from "@components/Layout/TopToolbar";
 import SettingsModal from "@components/SettingsModal";
@@ -49,8 +52,14 @@ const App: Component = () => {
             <Show when={bookStore.selectedBook()} fallback={<BookList />}>
               <MainLayout
                 chaptersPanel={<ChapterList />}
-                editorPanel={<EditorArea />}
+                editorPanel={
+                  <Show when={uiStore.showCorkboard()} fallback={<EditorArea />}>
+                    <Corkboard />
+                  </Show>
+                }
                 ideasPanel={<IdeasSidebar />}
+                inspectorPanel={<ChapterInspector />}
+                searchPanel={<SearchPanel />}
               />
             </Show>
           </div>
@@ -0,0 +1,178 @@
+import { Component, createEffect, createSignal, For, on, Show } from "solid-js";
+import { BookSummary } from "../../services/bookManager";
+import { ArchiveMergeSummary, BookArchive, importBookArchive } from "../../utils/archive";
+import "../../styles/themes.css";
+
+interface ArchiveImportDialogProps {
+  archive: BookArchive | null;
+  books: BookSummary[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const ArchiveImportDialog: Component<ArchiveImportDialogProps> = (props) => {
+  const [mode, setMode] = createSignal<"new" | "merge">("new");
+  const [newName, setNewName] = createSignal("");
+  const [targetBookId, setTargetBookId] = createSignal("");
+  const [importing, setImporting] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+  const [summary, setSummary] = createSignal<ArchiveMergeSummary | null>(null);
+
+  // Suggest merging when the archive came from (or shares a name with) a book
+  // we already have, otherwise a new book under a free name
+  createEffect(
+    on(
+      () => props.archive,
+      (archive) => {
+        if (!archive) return;
+
+        const match =
+          props.books.find((book) => book.id === archive.sourceBookId) ||
+          props.books.find((book) => book.name === archive.name);
+        setMode(match ? "merge" : "new");
+        setTargetBookId(match?.id || props.books[0]?.id || "");
+
+        let name = archive.name;
+        for (let n = 2; props.books.some((book) => book.name === name); n++) {
+          name = `${archive.name} (${n})`;
+        }
+        setNewName(name);
+        setError(null);
+        setSummary(null);
+      }
+    )
+  );
+
+  const handleImport = async () => {
+    const archive = props.archive;
+    if (!archive) return;
+
+    const name = newName().trim();
+    if (mode() === "new" && !name) {
+      setError("Book name cannot be empty");
+      return;
+    }
+    if (mode() === "merge" && !targetBookId()) {
+      setError("Choose a book to merge into");
+      return;
+    }
+
+    setImporting(true);
+    setError(null);
+    try {
+      const result = await importBookArchive(
+        archive,
+        mode() === "new" ? { mode: "new", name } : { mode: "merge", bookId: targetBookId() }
+      );
+      props.onImported();
+      if (result.summary) {
+        setSummary(result.summary);
+      } else {
+        props.onClose();
+      }
+    } catch (err) {
+      console.error("Archive import failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to import archive");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Show when={props.archive}>
+      <div class="fixed inset-0 z-[70] flex items-center justify-center p-4">
+        <div class="theme-bg-secondary theme-border-primary theme-shadow-medium max-w-md w-full">
+          <div class="p-6">
+            <h3 class="text-lg font-semibold theme-text-primary mb-2">Import Book Archive</h3>
+            <p class="theme-text-tertiary mb-4 text-sm">
+              "{props.archive?.name}" from {props.archive?.fileName} —{" "}
+              {props.archive?.config.chapters.length} chapters
+            </p>
+
+            <Show when={error()}>
+              <div class="mb-4 theme-alert whitespace-pre-line">{error()}</div>
+            </Show>
+
+            <Show
+              when={!summary()}
+              fallback={
+                <div class="mb-4 text-sm theme-text-secondary space-y-1">
+                  <p>Merge complete. A snapshot of the book was taken beforehand.</p>
+                  <p>Added: {summary()!.added.length}</p>
+                  <p>Updated: {summary()!.updated.length}</p>
+                  <p>Unchanged: {summary()!.unchanged.length}</p>
+                </div>
+              }
+            >
+              <div class="space-y-3 mb-4">
+                <label class="flex items-center text-sm theme-text-secondary">
+                  <input
+                    type="radio"
+                    name="archive-import-mode"
+                    checked={mode() === "new"}
+                    onChange={() => setMode("new")}
+                    class="mr-3"
+                  />
+                  Create a new book
+                </label>
+                <Show when={mode() === "new"}>
+                  <input
+                    type="text"
+                    value={newName()}
+                    onInput={(e) => setNewName(e.currentTarget.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleImport()}
+                    class="w-full px-3 py-2 theme-input"
+                  />
+                </Show>
+
+                <label class="flex items-center text-sm theme-text-secondary">
+                  <input
+                    type="radio"
+                    name="archive-import-mode"
+                    checked={mode() === "merge"}
+                    disabled={props.books.length === 0}
+                    onChange={() => setMode("merge")}
+                    class="mr-3"
+                  />
+                  Merge into an existing book
+                </label>
+                <Show when={mode() === "merge"}>
+                  <select
+                    value={targetBookId()}
+                    onChange={(e) => setTargetBookId(e.currentTarget.value)}
+                    class="w-full text-sm theme-input px-2 py-2"
+                  >
+                    <For each={props.books}>
+                      {(book) => <option value={book.id}>{book.name}</option>}
+                    </For>
+                  </select>
+                  <p class="text-xs theme-text-tertiary">
+                    Matching chapters are replaced by the archive's version, new chapters are
+                    added at the end, and chapters only in the book are kept.
+                  </p>
+                </Show>
+              </div>
+            </Show>
+
+            <div class="flex gap-3 justify-end">
+              <button onClick={props.onClose} class="px-4 py-2 theme-btn-secondary">
+                {summary() ? "Close" : "Cancel"}
+              </button>
+              <Show when={!summary()}>
+                <button
+                  onClick={handleImport}
+                  disabled={importing()}
+                  class="px-4 py-2 theme-btn-primary disabled:opacity-50"
+                >
+                  {importing() ? "Importing..." : "Import"}
+                </button>
+              </Show>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default ArchiveImportDialog;
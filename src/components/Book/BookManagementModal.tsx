@@ -1,9 +1,17 @@
 import { Component, createSignal, createEffect, For, Show } from "solid-js";
 import { bookStore } from "../../stores/bookStore";
+import { settingsStore } from "../../stores/settingsStore";
 import { bookService } from "../../services/bookService";
 import { BookSummary, CloudBookInfo } from "../../services/bookManager";
 import "../../styles/themes.css";
 import { exportBookToFolder, importBookFromFolder } from "../../utils/fileSystem";
+import { exportBookToEpub } from "../../utils/epub";
+import { BookArchive, exportBookToZip, readBookArchive } from "../../utils/archive";
+import ConflictResolutionModal from "../ConflictResolutionModal";
+import SnapshotsModal from "./SnapshotsModal";
+import DocxExportDialog from "./DocxExportDialog";
+import PdfExportDialog from "./PdfExportDialog";
+import ArchiveImportDialog from "./ArchiveImportDialog";
 
 interface BookManagementModalProps {
   isOpen: boolean;
@@ -19,6 +27,13 @@ const BookManagementModal: Component<BookManagementModalProps> = (props) => {
   const [newBookName, setNewBookName] = createSignal("");
   const [showCreateForm, setShowCreateForm] = createSignal(false);
   const [error, setError] = createSignal<string | null>(null);
+  const [conflictCount, setConflictCount] = createSignal(0);
+  const [showConflicts, setShowConflicts] = createSignal(false);
+  const [snapshotsBook, setSnapshotsBook] = createSignal<BookSummary | null>(null);
+  const [docxBook, setDocxBook] = createSignal<BookSummary | null>(null);
+  const [pdfBook, setPdfBook] = createSignal<BookSummary | null>(null);
+  const [importArchive, setImportArchive] = createSignal<BookArchive | null>(null);
+  let archiveInput: HTMLInputElement | undefined;
 
   // Delete dialog state
   const [deleteDialog, setDeleteDialog] = createSignal<{
@@ -38,15 +53,17 @@ const BookManagementModal: Component<BookManagementModalProps> = (props) => {
     setLoading(true);
     setError(null);
     try {
-      const [local, cloud, available] = await Promise.all([
+      const [local, cloud, available, conflicted] = await Promise.all([
         bookService.getLocalBooks(),
         bookService.getCloudBooks(),
         bookService.getAvailableCloudBooks(),
+        bookService.getConflictedChapters(),
       ]);
 
       setLocalBooks(local);
       setCloudBooks(cloud);
       setAvailableCloudBooks(available);
+      setConflictCount(conflicted.length);
     } catch (err) {
       console.error("Failed to load books:", err);
       setError("Failed to load books");
@@ -132,10 +149,15 @@ const BookManagementModal: Component<BookManagementModalProps> = (props) => {
 
   const handleSyncBook = async (book: BookSummary, direction: "push" | "pull") => {
     try {
-      await bookService.syncBookWithCloud(book.id, direction);
+      const summary = await bookService.syncBookWithCloud(book.id, direction);
       await loadBooks();
       // Also refresh the main book store so the book view shows correct sync status
       await bookStore.refetchBooks();
+      if (summary && summary.conflicts.length > 0) {
+        setError(
+          `"${book.name}" pulled with ${summary.conflicts.length} conflicting chapter(s). Your local text was kept.`
+        );
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to sync book");
     }
@@ -245,6 +267,15 @@ const BookManagementModal: Component<BookManagementModalProps> = (props) => {
                   >
                     📋 Duplicate
                   </button>
+                  <button
+                    onClick={() => {
+                      setSnapshotsBook(book);
+                      setShowMenu(false);
+                    }}
+                    class="block w-full text-left px-4 py-2 text-sm theme-menu-item"
+                  >
+                    📸 Snapshots
+                  </button>
 
                   <Show when={book.source !== "local"}>
                     <hr class="my-1" />
@@ -286,6 +317,58 @@ const BookManagementModal: Component<BookManagementModalProps> = (props) => {
                     </button>
                   </Show>
 
+                  <hr class="my-1" />
+                  <button
+                    onClick={async () => {
+                      setShowMenu(false);
+                      const author = prompt(
+                        "Author name for the ebook (optional):",
+                        settingsStore.settings.manuscriptByline ||
+                          settingsStore.settings.manuscriptAuthorName
+                      );
+                      if (author === null) return;
+                      try {
+                        await exportBookToEpub(book.id, { author: author.trim() || undefined });
+                      } catch (e) {
+                        alert("EPUB export failed: " + (e instanceof Error ? e.message : e));
+                      }
+                    }}
+                    class="block w-full text-left px-4 py-2 text-sm theme-menu-item"
+                  >
+                    📚 Export EPUB
+                  </button>
+                  <button
+                    onClick={async () => {
+                      setShowMenu(false);
+                      try {
+                        await exportBookToZip(book.id);
+                      } catch (e) {
+                        alert("Export failed: " + (e instanceof Error ? e.message : e));
+                      }
+                    }}
+                    class="block w-full text-left px-4 py-2 text-sm theme-menu-item"
+                  >
+                    🗜️ Export as .zip
+                  </button>
+                  <button
+                    onClick={() => {
+                      setDocxBook(book);
+                      setShowMenu(false);
+                    }}
+                    class="block w-full text-left px-4 py-2 text-sm theme-menu-item"
+                  >
+                    📄 Export Manuscript (DOCX)
+                  </button>
+                  <button
+                    onClick={() => {
+                      setPdfBook(book);
+                      setShowMenu(false);
+                    }}
+                    class="block w-full text-left px-4 py-2 text-sm theme-menu-item"
+                  >
+                    🖨️ Export Print PDF
+                  </button>
+
                   <hr class="my-1" />
                   <Show when={book.source === "local"}>
                     <button
@@ -347,19 +430,30 @@ const BookManagementModal: Component<BookManagementModalProps> = (props) => {
                 Manage your local and cloud books. Use manual sync to push/pull individual books.
               </p>
             </div>
-            <button
-              onClick={props.onClose}
-              class="theme-text-muted hover:theme-text-tertiary transition-colors"
-            >
-              <svg class="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path
-                  stroke-linecap="round"
-                  stroke-linejoin="round"
-                  stroke-width="2"
-                  d="M6 18L18 6M6 6l12 12"
-                />
-              </svg>
-            </button>
+            <div class="flex items-center gap-4">
+              <Show when={conflictCount() > 0}>
+                <button
+                  onClick={() => setShowConflicts(true)}
+                  class="px-3 py-1 text-sm theme-btn-primary"
+                  title="Resolve chapters changed both locally and in the cloud"
+                >
+                  ⚔️ Resolve Conflicts ({conflictCount()})
+                </button>
+              </Show>
+              <button
+                onClick={props.onClose}
+                class="theme-text-muted hover:theme-text-tertiary transition-colors"
+              >
+                <svg class="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    stroke-linecap="round"
+                    stroke-linejoin="round"
+                    stroke-width="2"
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
           </div>
 
           {/* Tabs */}
@@ -424,6 +518,28 @@ const BookManagementModal: Component<BookManagementModalProps> = (props) => {
                     >
                       Import from Folder
                     </button>
+                    <button
+                      class="px-3 py-1 theme-btn-secondary border rounded"
+                      onClick={() => archiveInput?.click()}
+                    >
+                      Import .zip
+                    </button>
+                    <input
+                      ref={archiveInput}
+                      type="file"
+                      accept=".zip,application/zip"
+                      class="hidden"
+                      onChange={async (e) => {
+                        const file = e.currentTarget.files?.[0];
+                        e.currentTarget.value = "";
+                        if (!file) return;
+                        try {
+                          setImportArchive(await readBookArchive(file));
+                        } catch (err) {
+                          alert("Import failed: " + (err instanceof Error ? err.message : err));
+                        }
+                      }}
+                    />
                   </div>
                 </div>
 
@@ -688,6 +804,39 @@ const BookManagementModal: Component<BookManagementModalProps> = (props) => {
         </div>
       </Show>
 
+      {/* Conflict Resolution */}
+      <ConflictResolutionModal
+        isOpen={showConflicts()}
+        onClose={() => {
+          setShowConflicts(false);
+          loadBooks();
+        }}
+      />
+
+      {/* Snapshots */}
+      <SnapshotsModal
+        isOpen={snapshotsBook() !== null}
+        onClose={() => {
+          setSnapshotsBook(null);
+          loadBooks();
+        }}
+        book={snapshotsBook()}
+      />
+
+      {/* DOCX Export */}
+      <DocxExportDialog book={docxBook()} onClose={() => setDocxBook(null)} />
+
+      {/* PDF Export */}
+      <PdfExportDialog book={pdfBook()} onClose={() => setPdfBook(null)} />
+
+      {/* .zip Import */}
+      <ArchiveImportDialog
+        archive={importArchive()}
+        books={[...localBooks(), ...cloudBooks()]}
+        onClose={() => setImportArchive(null)}
+        onImported={loadBooks}
+      />
+
       {/* Rename Dialog */}
       <Show when={renameDialog().isOpen}>
         <div class="fixed inset-0 z-[70] flex items-center justify-center p-4">
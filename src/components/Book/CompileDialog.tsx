@@ -0,0 +1,159 @@
+import { Component, createEffect, createSignal, Show } from "solid-js";
+import { BookSummary } from "../../services/bookManager";
+import { settingsStore } from "../../stores/settingsStore";
+import {
+  ChapterHeadingStyle,
+  ChapterSeparator,
+  CompileFormat,
+  CompileOptions,
+  compileBook,
+} from "../../utils/compile";
+import "../../styles/themes.css";
+
+interface CompileDialogProps {
+  book: BookSummary | null;
+  onClose: () => void;
+}
+
+const CompileDialog: Component<CompileDialogProps> = (props) => {
+  const [options, setOptions] = createSignal<CompileOptions>(
+    settingsStore.settings.compileOptions
+  );
+  const [compiling, setCompiling] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  // Start from the options used last time
+  createEffect(() => {
+    if (props.book) {
+      setOptions(settingsStore.settings.compileOptions);
+      setError(null);
+    }
+  });
+
+  const update = <K extends keyof CompileOptions>(key: K, value: CompileOptions[K]) => {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleCompile = async () => {
+    const book = props.book;
+    if (!book) return;
+
+    settingsStore.updateSetting("compileOptions", options());
+
+    setCompiling(true);
+    setError(null);
+    try {
+      await compileBook(book.id, options());
+      props.onClose();
+    } catch (err) {
+      console.error("Compile failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to compile book");
+    } finally {
+      setCompiling(false);
+    }
+  };
+
+  return (
+    <Show when={props.book}>
+      <div class="fixed inset-0 z-[70] flex items-center justify-center p-4">
+        <div class="theme-bg-secondary theme-border-primary theme-shadow-medium max-w-md w-full">
+          <div class="p-6">
+            <h3 class="text-lg font-semibold theme-text-primary mb-2">Compile Book</h3>
+            <p class="theme-text-tertiary mb-4 text-sm">
+              Join every chapter of "{props.book?.name}" into a single file.
+            </p>
+
+            <Show when={error()}>
+              <div class="mb-4 theme-alert">{error()}</div>
+            </Show>
+
+            <div class="space-y-3 mb-4">
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Format</span>
+                <select
+                  value={options().format}
+                  onChange={(e) => update("format", e.currentTarget.value as CompileFormat)}
+                  class="text-sm theme-input px-2 py-1"
+                >
+                  <option value="markdown">Markdown (.md)</option>
+                  <option value="html">Standalone HTML (.html)</option>
+                </select>
+              </label>
+
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Chapter headings</span>
+                <select
+                  value={options().headingStyle}
+                  onChange={(e) =>
+                    update("headingStyle", e.currentTarget.value as ChapterHeadingStyle)
+                  }
+                  class="text-sm theme-input px-2 py-1"
+                >
+                  <option value="title">Chapter title</option>
+                  <option value="numbered">Chapter 1</option>
+                  <option value="numbered-title">Chapter 1: Title</option>
+                  <option value="none">None</option>
+                </select>
+              </label>
+
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Between chapters</span>
+                <select
+                  value={options().separator}
+                  onChange={(e) => update("separator", e.currentTarget.value as ChapterSeparator)}
+                  class="text-sm theme-input px-2 py-1"
+                >
+                  <option value="none">Nothing</option>
+                  <option value="rule">Horizontal rule</option>
+                  <option value="ornament">Ornament ❦</option>
+                  <option value="page-break">Page break (when printed)</option>
+                </select>
+              </label>
+
+              <div class="flex items-center">
+                <input
+                  type="checkbox"
+                  id="compile-toc"
+                  checked={options().includeToc}
+                  onChange={(e) => update("includeToc", e.currentTarget.checked)}
+                  class="mr-3"
+                />
+                <label for="compile-toc" class="text-sm theme-text-secondary">
+                  Include a table of contents
+                </label>
+              </div>
+
+              <div class="flex items-center">
+                <input
+                  type="checkbox"
+                  id="compile-strip-title"
+                  checked={options().stripTitleLine}
+                  onChange={(e) => update("stripTitleLine", e.currentTarget.checked)}
+                  class="mr-3"
+                />
+                <label for="compile-strip-title" class="text-sm theme-text-secondary">
+                  Remove the "# Title" line at the top of each chapter
+                </label>
+              </div>
+            </div>
+
+            <div class="flex gap-3 justify-end">
+              <button onClick={props.onClose} class="px-4 py-2 theme-btn-secondary">
+                Cancel
+              </button>
+              <button
+                onClick={handleCompile}
+                disabled={compiling()}
+                class="px-4 py-2 theme-btn-primary disabled:opacity-50"
+              >
+                {compiling() ? "Compiling..." : "Compile"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default CompileDialog;
@@ -0,0 +1,136 @@
+import { Component, createEffect, createSignal, Show } from "solid-js";
+import { BookSummary } from "../../services/bookManager";
+import { settingsStore } from "../../stores/settingsStore";
+import { exportBookToDocx, ManuscriptFont } from "../../utils/docx";
+import "../../styles/themes.css";
+
+interface DocxExportDialogProps {
+  book: BookSummary | null;
+  onClose: () => void;
+}
+
+const DocxExportDialog: Component<DocxExportDialogProps> = (props) => {
+  const [authorName, setAuthorName] = createSignal("");
+  const [byline, setByline] = createSignal("");
+  const [contact, setContact] = createSignal("");
+  const [font, setFont] = createSignal<ManuscriptFont>("courier");
+  const [exporting, setExporting] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  // Prefill from the details used last time
+  createEffect(() => {
+    if (props.book) {
+      setAuthorName(settingsStore.settings.manuscriptAuthorName);
+      setByline(settingsStore.settings.manuscriptByline);
+      setContact(settingsStore.settings.manuscriptContact);
+      setFont(settingsStore.settings.manuscriptFont);
+      setError(null);
+    }
+  });
+
+  const handleExport = async () => {
+    const book = props.book;
+    if (!book || !authorName().trim()) return;
+
+    settingsStore.updateSetting("manuscriptAuthorName", authorName().trim());
+    settingsStore.updateSetting("manuscriptByline", byline().trim());
+    settingsStore.updateSetting("manuscriptContact", contact());
+    settingsStore.updateSetting("manuscriptFont", font());
+
+    setExporting(true);
+    setError(null);
+    try {
+      await exportBookToDocx(book.id, {
+        authorName: authorName().trim(),
+        byline: byline().trim() || undefined,
+        contact: contact(),
+        font: font(),
+      });
+      props.onClose();
+    } catch (err) {
+      console.error("DOCX export failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to export DOCX");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Show when={props.book}>
+      <div class="fixed inset-0 z-[70] flex items-center justify-center p-4">
+        <div class="theme-bg-secondary theme-border-primary theme-shadow-medium max-w-md w-full">
+          <div class="p-6">
+            <h3 class="text-lg font-semibold theme-text-primary mb-2">Export Manuscript (DOCX)</h3>
+            <p class="theme-text-tertiary mb-4 text-sm">
+              "{props.book?.name}" in standard manuscript format, ready to send to agents and
+              editors.
+            </p>
+
+            <Show when={error()}>
+              <div class="mb-4 theme-alert">{error()}</div>
+            </Show>
+
+            <div class="space-y-3 mb-4">
+              <label class="block">
+                <span class="text-sm font-medium theme-text-secondary">Legal name</span>
+                <input
+                  type="text"
+                  value={authorName()}
+                  onInput={(e) => setAuthorName(e.currentTarget.value)}
+                  placeholder="Jane Writer"
+                  class="w-full px-3 py-2 theme-input mt-1"
+                />
+              </label>
+              <label class="block">
+                <span class="text-sm font-medium theme-text-secondary">Byline (optional)</span>
+                <input
+                  type="text"
+                  value={byline()}
+                  onInput={(e) => setByline(e.currentTarget.value)}
+                  placeholder="Pen name, if different"
+                  class="w-full px-3 py-2 theme-input mt-1"
+                />
+              </label>
+              <label class="block">
+                <span class="text-sm font-medium theme-text-secondary">Contact details</span>
+                <textarea
+                  value={contact()}
+                  onInput={(e) => setContact(e.currentTarget.value)}
+                  rows={4}
+                  placeholder={"Street address\nCity, State ZIP\nPhone\nEmail"}
+                  class="w-full px-3 py-2 theme-input mt-1 text-sm"
+                />
+              </label>
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Font</span>
+                <select
+                  value={font()}
+                  onChange={(e) => setFont(e.currentTarget.value as ManuscriptFont)}
+                  class="text-sm theme-input px-2 py-1"
+                >
+                  <option value="courier">Courier 12pt</option>
+                  <option value="times">Times New Roman 12pt</option>
+                </select>
+              </label>
+            </div>
+
+            <div class="flex gap-3 justify-end">
+              <button onClick={props.onClose} class="px-4 py-2 theme-btn-secondary">
+                Cancel
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={!authorName().trim() || exporting()}
+                class="px-4 py-2 theme-btn-primary disabled:opacity-50"
+              >
+                {exporting() ? "Exporting..." : "Export DOCX"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default DocxExportDialog;
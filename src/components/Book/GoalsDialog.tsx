@@ -0,0 +1,168 @@
+import { Component, createEffect, createSignal, Show } from "solid-js";
+import { BookGoals } from "../../services/indexedDB";
+import { goalStore } from "../../stores/goalStore";
+import { dateKey, goalPace, parseDateKey } from "../../utils/writingStats";
+import "../../styles/themes.css";
+
+interface GoalsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatDate = (date: string) =>
+  parseDateKey(date).toLocaleDateString(undefined, { dateStyle: "long" });
+
+const GoalsDialog: Component<GoalsDialogProps> = (props) => {
+  const [targetWords, setTargetWords] = createSignal("");
+  const [deadline, setDeadline] = createSignal("");
+  const [sessionWords, setSessionWords] = createSignal("");
+  const [saving, setSaving] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  // Start from the book's current goals
+  createEffect(() => {
+    if (!props.isOpen) return;
+    const goals = goalStore.goals();
+    setTargetWords(goals.targetWords ? String(goals.targetWords) : "");
+    setDeadline(goals.deadline || "");
+    setSessionWords(goals.sessionWords ? String(goals.sessionWords) : "");
+    setError(null);
+  });
+
+  const parseCount = (value: string) => {
+    const count = parseInt(value, 10);
+    return count > 0 ? count : undefined;
+  };
+
+  const draft = (): BookGoals => ({
+    targetWords: parseCount(targetWords()),
+    deadline: deadline() || undefined,
+    sessionWords: parseCount(sessionWords()),
+  });
+
+  // Pacing for the goals as entered, before they are saved
+  const preview = () => {
+    const { targetWords, deadline } = draft();
+    if (!targetWords) return null;
+    const today = dateKey(Date.now());
+    return goalPace(targetWords, deadline, goalStore.bookWords(), goalStore.days(), today);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await goalStore.saveGoals(draft());
+      props.onClose();
+    } catch (err) {
+      console.error("Failed to save goals:", err);
+      setError("Failed to save goals");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div class="fixed inset-0 z-[70] flex items-center justify-center p-4">
+        <div class="theme-bg-secondary theme-border-primary theme-shadow-medium max-w-md w-full">
+          <div class="p-6">
+            <h3 class="text-lg font-semibold theme-text-primary mb-2">Writing Goals</h3>
+            <p class="theme-text-tertiary mb-4 text-sm">
+              The book has {goalStore.bookWords().toLocaleString()} words so far.
+            </p>
+
+            <Show when={error()}>
+              <div class="mb-4 theme-alert">{error()}</div>
+            </Show>
+
+            <div class="space-y-3 mb-4">
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Target words</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="1000"
+                  value={targetWords()}
+                  onInput={(e) => setTargetWords(e.currentTarget.value)}
+                  placeholder="e.g. 80000"
+                  class="w-40 px-2 py-1 text-sm theme-input"
+                />
+              </label>
+
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Deadline</span>
+                <input
+                  type="date"
+                  value={deadline()}
+                  min={dateKey(Date.now())}
+                  onInput={(e) => setDeadline(e.currentTarget.value)}
+                  class="w-40 px-2 py-1 text-sm theme-input"
+                />
+              </label>
+
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Words per session</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="100"
+                  value={sessionWords()}
+                  onInput={(e) => setSessionWords(e.currentTarget.value)}
+                  placeholder="e.g. 500"
+                  class="w-40 px-2 py-1 text-sm theme-input"
+                />
+              </label>
+            </div>
+
+            <Show when={preview()}>
+              {(pace) => (
+                <p class="mb-4 text-sm theme-text-secondary">
+                  {pace().remaining.toLocaleString()} words to go.
+                  <Show when={pace().dailyTarget}>
+                    {(daily) => (
+                      <>
+                        {" "}
+                        That is {daily().toLocaleString()} words a day for {pace().daysLeft}{" "}
+                        {pace().daysLeft === 1 ? "day" : "days"}, until{" "}
+                        {formatDate(draft().deadline!)}.
+                      </>
+                    )}
+                  </Show>
+                  <Show when={draft().deadline && pace().daysLeft <= 0}>
+                    {" "}
+                    The deadline has passed.
+                  </Show>
+                  <Show when={pace().remaining > 0 && pace().projectedFinish}>
+                    {(finish) => (
+                      <>
+                        {" "}
+                        At your recent {pace().recentPace.toLocaleString()} words a day, you
+                        will finish around {formatDate(finish())}.
+                      </>
+                    )}
+                  </Show>
+                </p>
+              )}
+            </Show>
+
+            <div class="flex justify-end space-x-2">
+              <button onClick={props.onClose} class="px-4 py-2 text-sm theme-btn-secondary">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving()}
+                class="px-4 py-2 text-sm theme-btn-primary disabled:opacity-50"
+              >
+                {saving() ? "Saving..." : "Save Goals"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default GoalsDialog;
@@ -0,0 +1,312 @@
+import { Component, createEffect, createMemo, createSignal, For, Show } from "solid-js";
+import {
+  createBookFromChapters,
+  DEFAULT_CHAPTER_PATTERN,
+  detectChapters,
+  ImportSource,
+  readImportFile,
+  SplitRule,
+  suggestSplitRule,
+} from "../../utils/manuscriptImport";
+import { countWords } from "../../utils/manuscript";
+import "../../styles/themes.css";
+
+interface ImportManuscriptWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (bookId: string) => void;
+}
+
+interface PreviewChapter {
+  title: string;
+  body: string;
+  include: boolean;
+}
+
+const ImportManuscriptWizard: Component<ImportManuscriptWizardProps> = (props) => {
+  const [step, setStep] = createSignal<"files" | "chapters">("files");
+  const [sources, setSources] = createSignal<ImportSource[]>([]);
+  const [bookName, setBookName] = createSignal("");
+  const [ruleKind, setRuleKind] = createSignal<SplitRule["kind"]>("heading");
+  const [headingLevel, setHeadingLevel] = createSignal(1);
+  const [pattern, setPattern] = createSignal(DEFAULT_CHAPTER_PATTERN);
+  const [chapters, setChapters] = createSignal<PreviewChapter[]>([]);
+  const [reading, setReading] = createSignal(false);
+  const [creating, setCreating] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  createEffect(() => {
+    if (props.isOpen) {
+      setStep("files");
+      setSources([]);
+      setBookName("");
+      setError(null);
+    }
+  });
+
+  const rule = (): SplitRule => {
+    switch (ruleKind()) {
+      case "file":
+        return { kind: "file" };
+      case "regex":
+        return { kind: "regex", pattern: pattern() };
+      default:
+        return { kind: "heading", level: headingLevel() };
+    }
+  };
+
+  const detection = createMemo(() => {
+    try {
+      return { chapters: detectChapters(sources(), rule()), error: null };
+    } catch (err) {
+      return { chapters: [], error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  // Re-detecting discards title edits, since chapters may no longer line up
+  createEffect(() => {
+    setChapters(detection().chapters.map((chapter) => ({ ...chapter, include: true })));
+  });
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setReading(true);
+    setError(null);
+    try {
+      const read = await Promise.all(Array.from(files).map(readImportFile));
+      read.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+      setSources(read);
+
+      if (!bookName().trim()) {
+        setBookName(read[0].name.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " "));
+      }
+
+      const suggested = suggestSplitRule(read);
+      setRuleKind(suggested.kind);
+      if (suggested.kind === "heading") setHeadingLevel(suggested.level);
+    } catch (err) {
+      console.error("Failed to read manuscript:", err);
+      setError(err instanceof Error ? err.message : "Failed to read files");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const updateChapter = (index: number, changes: Partial<PreviewChapter>) => {
+    setChapters((prev) =>
+      prev.map((chapter, i) => (i === index ? { ...chapter, ...changes } : chapter))
+    );
+  };
+
+  const included = () => chapters().filter((chapter) => chapter.include);
+
+  const handleCreate = async () => {
+    const name = bookName().trim();
+    if (!name) {
+      setError("Book name cannot be empty");
+      return;
+    }
+    const selected = included().map((chapter) => ({
+      title: chapter.title.trim() || "Untitled",
+      body: chapter.body,
+    }));
+    if (selected.length === 0) {
+      setError("Select at least one chapter to import");
+      return;
+    }
+
+    setCreating(true);
+    setError(null);
+    try {
+      const bookId = await createBookFromChapters(name, selected);
+      props.onImported(bookId);
+    } catch (err) {
+      console.error("Manuscript import failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to create book");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div class="fixed inset-0 z-[70] flex items-center justify-center p-4">
+        <div class="theme-bg-secondary theme-border-primary theme-shadow-medium max-w-2xl w-full max-h-full flex flex-col">
+          <div class="p-6 overflow-y-auto">
+            <h3 class="text-lg font-semibold theme-text-primary mb-2">Import Manuscript</h3>
+            <p class="theme-text-tertiary mb-4 text-sm">
+              {step() === "files"
+                ? "Choose a .docx or .txt file, or several .md files (one per chapter)."
+                : "Check how the manuscript was split into chapters."}
+            </p>
+
+            <Show when={error()}>
+              <div class="mb-4 theme-alert">{error()}</div>
+            </Show>
+
+            <Show when={step() === "files"}>
+              <div class="space-y-4 mb-4">
+                <input
+                  type="file"
+                  multiple
+                  accept=".docx,.txt,.md,.markdown"
+                  onChange={(e) => handleFiles(e.currentTarget.files)}
+                  class="block w-full text-sm theme-text-secondary"
+                />
+                <Show when={reading()}>
+                  <p class="text-sm theme-text-muted">Reading files...</p>
+                </Show>
+                <Show when={sources().length > 0}>
+                  <ul class="text-sm theme-text-secondary space-y-1">
+                    <For each={sources()}>
+                      {(source) => (
+                        <li>
+                          📄 {source.name}{" "}
+                          <span class="theme-text-muted">
+                            ({countWords(source.text).toLocaleString()} words)
+                          </span>
+                        </li>
+                      )}
+                    </For>
+                  </ul>
+                </Show>
+                <label class="block">
+                  <span class="text-sm font-medium theme-text-secondary">Book name</span>
+                  <input
+                    type="text"
+                    value={bookName()}
+                    onInput={(e) => setBookName(e.currentTarget.value)}
+                    class="mt-1 w-full px-3 py-2 theme-input"
+                  />
+                </label>
+              </div>
+            </Show>
+
+            <Show when={step() === "chapters"}>
+              <div class="space-y-3 mb-4">
+                <label class="flex items-center justify-between">
+                  <span class="text-sm font-medium theme-text-secondary">Split chapters</span>
+                  <select
+                    value={ruleKind()}
+                    onChange={(e) => setRuleKind(e.currentTarget.value as SplitRule["kind"])}
+                    class="text-sm theme-input px-2 py-1"
+                  >
+                    <option value="heading">At headings</option>
+                    <option value="regex">At lines matching a pattern</option>
+                    <option value="file">One chapter per file</option>
+                  </select>
+                </label>
+
+                <Show when={ruleKind() === "heading"}>
+                  <label class="flex items-center justify-between">
+                    <span class="text-sm theme-text-secondary">Heading levels</span>
+                    <select
+                      value={headingLevel()}
+                      onChange={(e) => setHeadingLevel(parseInt(e.currentTarget.value, 10))}
+                      class="text-sm theme-input px-2 py-1"
+                    >
+                      <option value={1}># only</option>
+                      <option value={2}># and ##</option>
+                      <option value={3}>#, ## and ###</option>
+                    </select>
+                  </label>
+                </Show>
+
+                <Show when={ruleKind() === "regex"}>
+                  <label class="block">
+                    <span class="text-sm theme-text-secondary">
+                      Regular expression (case-insensitive, tested on each line)
+                    </span>
+                    <input
+                      type="text"
+                      value={pattern()}
+                      onInput={(e) => setPattern(e.currentTarget.value)}
+                      class="mt-1 w-full px-3 py-2 theme-input font-mono text-sm"
+                    />
+                  </label>
+                </Show>
+
+                <Show when={detection().error}>
+                  <div class="theme-alert">{detection().error}</div>
+                </Show>
+
+                <div class="text-sm theme-text-tertiary">
+                  {included().length} of {chapters().length} chapters selected
+                </div>
+                <div class="space-y-2">
+                  <For each={chapters()}>
+                    {(chapter, index) => (
+                      <div class="theme-card p-2 flex items-start gap-3">
+                        <input
+                          type="checkbox"
+                          checked={chapter.include}
+                          onChange={(e) =>
+                            updateChapter(index(), { include: e.currentTarget.checked })
+                          }
+                          class="mt-2"
+                        />
+                        <div class="flex-1 min-w-0">
+                          <input
+                            type="text"
+                            value={chapter.title}
+                            onChange={(e) =>
+                              updateChapter(index(), { title: e.currentTarget.value })
+                            }
+                            class="w-full px-2 py-1 theme-input text-sm font-medium"
+                          />
+                          <p class="text-xs theme-text-muted mt-1 truncate">
+                            {countWords(chapter.body).toLocaleString()} words
+                            {chapter.body ? ` — ${chapter.body.slice(0, 120)}` : ""}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+                  </For>
+                </div>
+              </div>
+            </Show>
+
+            <div class="flex gap-3 justify-end">
+              <button onClick={props.onClose} class="px-4 py-2 theme-btn-secondary">
+                Cancel
+              </button>
+              <Show
+                when={step() === "chapters"}
+                fallback={
+                  <button
+                    onClick={() => {
+                      if (!bookName().trim()) {
+                        setError("Book name cannot be empty");
+                        return;
+                      }
+                      setError(null);
+                      setStep("chapters");
+                    }}
+                    disabled={sources().length === 0 || reading()}
+                    class="px-4 py-2 theme-btn-primary disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                }
+              >
+                <button onClick={() => setStep("files")} class="px-4 py-2 theme-btn-secondary">
+                  Back
+                </button>
+                <button
+                  onClick={handleCreate}
+                  disabled={creating() || included().length === 0}
+                  class="px-4 py-2 theme-btn-primary disabled:opacity-50"
+                >
+                  {creating() ? "Creating..." : "Create Book"}
+                </button>
+              </Show>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default ImportManuscriptWizard;
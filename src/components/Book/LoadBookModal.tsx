@@ -1,7 +1,8 @@
-import { Component, For, Show } from "solid-js";
+import { Component, createSignal, For, Show } from "solid-js";
 import { bookStore } from "../../stores/bookStore";
 import { BookSummary } from "../../services/bookManager";
 import "../../styles/themes.css";
+import ImportManuscriptWizard from "./ImportManuscriptWizard";
 
 interface LoadBookModalProps {
   isOpen: boolean;
@@ -9,11 +10,20 @@ interface LoadBookModalProps {
 }
 
 const LoadBookModal: Component<LoadBookModalProps> = (props) => {
+  const [showImport, setShowImport] = createSignal(false);
+
   const handleSelectBook = (book: BookSummary) => {
     bookStore.selectBookById(book.id);
     props.onClose();
   };
 
+  const handleImported = async (bookId: string) => {
+    setShowImport(false);
+    await bookStore.refetchBooks();
+    bookStore.selectBookById(bookId);
+    props.onClose();
+  };
+
   const getSyncStatusIcon = (status: BookSummary["syncStatus"]) => {
     switch (status) {
       case "in_sync":
@@ -75,7 +85,7 @@ const LoadBookModal: Component<LoadBookModalProps> = (props) => {
                   <div class="theme-text-muted text-4xl mb-4">📚</div>
                   <p class="theme-text-muted">No books found</p>
                   <p class="text-sm theme-text-disabled mt-2">
-                    Create your first book to get started
+                    Create your first book to get started, or import an existing manuscript
                   </p>
                 </div>
               }
@@ -148,15 +158,29 @@ const LoadBookModal: Component<LoadBookModalProps> = (props) => {
             <div class="text-sm theme-text-muted">
               {bookStore.books().length} book{bookStore.books().length !== 1 ? "s" : ""} available
             </div>
-            <button
-              onClick={props.onClose}
-              class="px-4 py-2 text-sm font-medium theme-btn-secondary transition-colors"
-            >
-              Cancel
-            </button>
+            <div class="flex gap-3">
+              <button
+                onClick={() => setShowImport(true)}
+                class="px-4 py-2 text-sm font-medium theme-btn-secondary transition-colors"
+              >
+                Import Manuscript...
+              </button>
+              <button
+                onClick={props.onClose}
+                class="px-4 py-2 text-sm font-medium theme-btn-secondary transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
           </div>
         </div>
       </div>
+
+      <ImportManuscriptWizard
+        isOpen={showImport()}
+        onClose={() => setShowImport(false)}
+        onImported={handleImported}
+      />
     </Show>
   );
 };
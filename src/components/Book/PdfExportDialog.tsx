@@ -0,0 +1,225 @@
+import { Component, createEffect, createSignal, For, Show } from "solid-js";
+import { BookSummary } from "../../services/bookManager";
+import { settingsStore } from "../../stores/settingsStore";
+import {
+  PRINT_FONTS,
+  PrintFontId,
+  PrintLayout,
+  printBookToPdf,
+  TRIM_SIZES,
+  TrimSizeId,
+} from "../../utils/printLayout";
+import "../../styles/themes.css";
+
+interface PdfExportDialogProps {
+  book: BookSummary | null;
+  onClose: () => void;
+}
+
+type MarginKey = "marginTop" | "marginBottom" | "marginInside" | "marginOutside";
+
+const MARGINS: { key: MarginKey; label: string }[] = [
+  { key: "marginTop", label: "Top" },
+  { key: "marginBottom", label: "Bottom" },
+  { key: "marginInside", label: "Inside (gutter)" },
+  { key: "marginOutside", label: "Outside" },
+];
+
+const TOGGLES: {
+  key: "runningHeads" | "pageNumbers" | "dropCaps" | "chaptersOnRecto";
+  label: string;
+}[] = [
+  { key: "runningHeads", label: "Running heads (book title / chapter title)" },
+  { key: "pageNumbers", label: "Page numbers" },
+  { key: "dropCaps", label: "Drop caps at chapter openings" },
+  { key: "chaptersOnRecto", label: "Start chapters on right-hand pages" },
+];
+
+const PdfExportDialog: Component<PdfExportDialogProps> = (props) => {
+  const [layout, setLayout] = createSignal<PrintLayout>(settingsStore.settings.printLayout);
+  const [exporting, setExporting] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  // Start from the layout used last time
+  createEffect(() => {
+    if (props.book) {
+      setLayout(settingsStore.settings.printLayout);
+      setError(null);
+    }
+  });
+
+  const update = <K extends keyof PrintLayout>(key: K, value: PrintLayout[K]) => {
+    setLayout((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleExport = async () => {
+    const book = props.book;
+    if (!book) return;
+
+    settingsStore.updateSetting("printLayout", layout());
+
+    setExporting(true);
+    setError(null);
+    try {
+      await printBookToPdf(
+        book.id,
+        layout(),
+        settingsStore.settings.manuscriptByline || settingsStore.settings.manuscriptAuthorName
+      );
+      props.onClose();
+    } catch (err) {
+      console.error("PDF export failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to prepare PDF");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Show when={props.book}>
+      <div class="fixed inset-0 z-[70] flex items-center justify-center p-4">
+        <div class="theme-bg-secondary theme-border-primary theme-shadow-medium max-w-lg w-full max-h-full overflow-y-auto">
+          <div class="p-6">
+            <h3 class="text-lg font-semibold theme-text-primary mb-2">Export Print PDF</h3>
+            <p class="theme-text-tertiary mb-4 text-sm">
+              Typesets "{props.book?.name}" for print. Choose "Save as PDF" in the print dialog
+              that opens.
+            </p>
+
+            <Show when={error()}>
+              <div class="mb-4 theme-alert">{error()}</div>
+            </Show>
+
+            <div class="space-y-3 mb-4">
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Trim size</span>
+                <select
+                  value={layout().trimSize}
+                  onChange={(e) => update("trimSize", e.currentTarget.value as TrimSizeId)}
+                  class="text-sm theme-input px-2 py-1"
+                >
+                  <For each={Object.entries(TRIM_SIZES)}>
+                    {([id, size]) => <option value={id}>{size.label}</option>}
+                  </For>
+                </select>
+              </label>
+
+              <div>
+                <span class="text-sm font-medium theme-text-secondary">Margins (inches)</span>
+                <div class="grid grid-cols-2 gap-2 mt-1">
+                  <For each={MARGINS}>
+                    {(margin) => (
+                      <label class="flex items-center justify-between text-xs theme-text-tertiary">
+                        <span>{margin.label}</span>
+                        <input
+                          type="number"
+                          min="0.25"
+                          max="2"
+                          step="0.125"
+                          value={layout()[margin.key]}
+                          onInput={(e) => {
+                            const value = parseFloat(e.currentTarget.value);
+                            if (!isNaN(value)) update(margin.key, value);
+                          }}
+                          class="w-20 text-sm theme-input px-2 py-1"
+                        />
+                      </label>
+                    )}
+                  </For>
+                </div>
+              </div>
+
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Body font</span>
+                <select
+                  value={layout().bodyFont}
+                  onChange={(e) => update("bodyFont", e.currentTarget.value as PrintFontId)}
+                  class="text-sm theme-input px-2 py-1"
+                >
+                  <For each={Object.entries(PRINT_FONTS)}>
+                    {([id, font]) => <option value={id}>{font.label}</option>}
+                  </For>
+                </select>
+              </label>
+
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Heading font</span>
+                <select
+                  value={layout().headingFont}
+                  onChange={(e) => update("headingFont", e.currentTarget.value as PrintFontId)}
+                  class="text-sm theme-input px-2 py-1"
+                >
+                  <For each={Object.entries(PRINT_FONTS)}>
+                    {([id, font]) => <option value={id}>{font.label}</option>}
+                  </For>
+                </select>
+              </label>
+
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Font size</span>
+                <select
+                  value={layout().fontSize}
+                  onChange={(e) => update("fontSize", parseFloat(e.currentTarget.value))}
+                  class="text-sm theme-input px-2 py-1"
+                >
+                  <option value={10}>10pt</option>
+                  <option value={10.5}>10.5pt</option>
+                  <option value={11}>11pt</option>
+                  <option value={11.5}>11.5pt</option>
+                  <option value={12}>12pt</option>
+                </select>
+              </label>
+
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Line spacing</span>
+                <select
+                  value={layout().lineHeight}
+                  onChange={(e) => update("lineHeight", parseFloat(e.currentTarget.value))}
+                  class="text-sm theme-input px-2 py-1"
+                >
+                  <option value={1.2}>1.2</option>
+                  <option value={1.3}>1.3</option>
+                  <option value={1.4}>1.4</option>
+                  <option value={1.5}>1.5</option>
+                  <option value={1.6}>1.6</option>
+                </select>
+              </label>
+
+              <For each={TOGGLES}>
+                {(toggle) => (
+                  <div class="flex items-center">
+                    <input
+                      type="checkbox"
+                      id={`pdf-${toggle.key}`}
+                      checked={layout()[toggle.key]}
+                      onChange={(e) => update(toggle.key, e.currentTarget.checked)}
+                      class="mr-3"
+                    />
+                    <label for={`pdf-${toggle.key}`} class="text-sm theme-text-secondary">
+                      {toggle.label}
+                    </label>
+                  </div>
+                )}
+              </For>
+            </div>
+
+            <div class="flex gap-3 justify-end">
+              <button onClick={props.onClose} class="px-4 py-2 theme-btn-secondary">
+                Cancel
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={exporting()}
+                class="px-4 py-2 theme-btn-primary disabled:opacity-50"
+              >
+                {exporting() ? "Preparing..." : "Print to PDF"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default PdfExportDialog;
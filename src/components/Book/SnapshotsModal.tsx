@@ -0,0 +1,350 @@
+import { Component, createEffect, createSignal, For, Show } from "solid-js";
+import { bookService } from "../../services/bookService";
+import { BookSummary, SnapshotChapterChange } from "../../services/bookManager";
+import { BookSnapshot } from "../../services/indexedDB";
+import { bookStore } from "../../stores/bookStore";
+import { chapterStore } from "../../stores/chapterStore";
+import { diffWords } from "../../utils/diff";
+import "../../styles/themes.css";
+
+interface SnapshotsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  book: BookSummary | null;
+}
+
+const STATUS_LABELS: Record<SnapshotChapterChange["status"], string> = {
+  added: "➕ Added",
+  removed: "➖ Removed",
+  changed: "✏️ Changed",
+  unchanged: "Unchanged",
+};
+
+const SnapshotsModal: Component<SnapshotsModalProps> = (props) => {
+  const [snapshots, setSnapshots] = createSignal<BookSnapshot[]>([]);
+  const [selectedId, setSelectedId] = createSignal<string | null>(null);
+  // Snapshot to compare against; empty means the current book
+  const [compareTo, setCompareTo] = createSignal("");
+  const [changes, setChanges] = createSignal<SnapshotChapterChange[]>([]);
+  const [expanded, setExpanded] = createSignal<string | null>(null);
+  const [newLabel, setNewLabel] = createSignal("");
+  const [loading, setLoading] = createSignal(false);
+  const [busy, setBusy] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const loadSnapshots = async () => {
+    const book = props.book;
+    if (!book) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const list = await bookService.getSnapshots(book.id);
+      setSnapshots(list);
+      if (!list.some((snapshot) => snapshot.id === selectedId())) {
+        setSelectedId(list[0]?.id || null);
+      }
+    } catch (err) {
+      console.error("Failed to load snapshots:", err);
+      setError("Failed to load snapshots");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load snapshots when modal opens
+  createEffect(() => {
+    if (props.isOpen && props.book) {
+      loadSnapshots();
+    }
+  });
+
+  const selectedSnapshot = () => snapshots().find((s) => s.id === selectedId()) || null;
+
+  // Recompute the comparison whenever either side changes
+  createEffect(async () => {
+    const book = props.book;
+    const fromId = selectedId();
+    const toId = compareTo();
+    setExpanded(null);
+
+    // Snapshot reloads also refresh the comparison, since a restore changes the book
+    if (!book || !fromId || fromId === toId || snapshots().length === 0) {
+      setChanges([]);
+      return;
+    }
+
+    try {
+      setChanges(await bookService.compareSnapshots(book.id, fromId, toId || undefined));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to compare snapshots");
+    }
+  });
+
+  const handleCreate = async () => {
+    const book = props.book;
+    if (!book || !newLabel().trim()) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const snapshot = await bookService.createSnapshot(book.id, newLabel());
+      setNewLabel("");
+      setSelectedId(snapshot.id);
+      await loadSnapshots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create snapshot");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const book = props.book;
+    const snapshot = selectedSnapshot();
+    if (!book || !snapshot) return;
+    if (!confirm(`Delete the snapshot "${snapshot.label}"? This cannot be undone.`)) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      await bookService.deleteSnapshot(book.id, snapshot.id);
+      if (compareTo() === snapshot.id) setCompareTo("");
+      await loadSnapshots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete snapshot");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    const book = props.book;
+    const snapshot = selectedSnapshot();
+    if (!book || !snapshot) return;
+    if (
+      !confirm(
+        `Restore "${book.name}" to the snapshot "${snapshot.label}"? The current state is saved as a new snapshot first.`
+      )
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      await bookService.restoreSnapshot(book.id, snapshot.id);
+      await bookStore.refetchBooks();
+
+      // Reload the open chapter if it survived the restore
+      const openChapter = chapterStore.selectedChapter();
+      if (
+        bookStore.selectedBookId() === book.id &&
+        openChapter &&
+        snapshot.config.chapters.some((ch) => ch.id === openChapter.id)
+      ) {
+        await chapterStore.selectChapter(openChapter.id);
+      }
+
+      await loadSnapshots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore snapshot");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const countChanged = () => changes().filter((change) => change.status !== "unchanged").length;
+
+  return (
+    <Show when={props.isOpen && props.book}>
+      <div class="fixed inset-0 z-[60]">
+        <div class="theme-bg-secondary w-full h-full overflow-hidden flex flex-col">
+          {/* Header */}
+          <div class="flex items-center justify-between p-6 theme-border-secondary border-b">
+            <div>
+              <h2 class="text-xl font-bold theme-text-primary">Snapshots</h2>
+              <p class="text-sm theme-text-tertiary mt-1">{props.book?.name}</p>
+            </div>
+            <button
+              onClick={props.onClose}
+              class="theme-text-muted hover:theme-text-tertiary transition-colors"
+            >
+              <svg class="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  stroke-width="2"
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+
+          <div class="flex flex-1 overflow-hidden">
+            {/* Snapshot list */}
+            <aside class="w-1/4 p-4 theme-border-secondary border-r overflow-y-auto space-y-2">
+              <div class="flex gap-2 mb-4">
+                <input
+                  type="text"
+                  value={newLabel()}
+                  onInput={(e) => setNewLabel(e.currentTarget.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                  placeholder="e.g. Draft 2 sent to editor"
+                  class="flex-1 min-w-0 px-3 py-2 text-sm theme-input"
+                />
+                <button
+                  onClick={handleCreate}
+                  disabled={!newLabel().trim() || busy()}
+                  class="px-3 py-2 text-sm theme-btn-primary disabled:opacity-50"
+                  title="Take Snapshot"
+                >
+                  📸
+                </button>
+              </div>
+
+              <For
+                each={snapshots()}
+                fallback={
+                  <Show when={!loading()}>
+                    <div class="text-center py-8 theme-text-muted">
+                      <div class="text-4xl mb-4">📸</div>
+                      <p>No snapshots yet.</p>
+                      <p class="text-sm mt-2">Name the current state of the book to keep it.</p>
+                    </div>
+                  </Show>
+                }
+              >
+                {(snapshot) => (
+                  <button
+                    onClick={() => setSelectedId(snapshot.id)}
+                    class={`w-full text-left p-3 border transition-colors ${
+                      selectedId() === snapshot.id ? "theme-card-selected" : "theme-card"
+                    }`}
+                  >
+                    <p class="font-medium theme-text-primary">{snapshot.label}</p>
+                    <p class="text-xs theme-text-tertiary mt-1">
+                      {new Date(snapshot.createdAt).toLocaleString()} •{" "}
+                      {snapshot.config.chapters.length} chapter
+                      {snapshot.config.chapters.length !== 1 ? "s" : ""}
+                    </p>
+                  </button>
+                )}
+              </For>
+            </aside>
+
+            {/* Comparison */}
+            <div class="flex-1 p-6 overflow-y-auto">
+              <Show when={error()}>
+                <div class="mb-4 theme-alert">{error()}</div>
+              </Show>
+
+              <Show when={selectedSnapshot()}>
+                {(snapshot) => (
+                  <div class="space-y-4">
+                    <div class="flex items-center gap-3 text-sm theme-text-secondary">
+                      <span>
+                        Compare <strong>{snapshot().label}</strong> with
+                      </span>
+                      <select
+                        value={compareTo()}
+                        onChange={(e) => setCompareTo(e.currentTarget.value)}
+                        class="text-sm theme-input px-2 py-1"
+                      >
+                        <option value="">Current book</option>
+                        <For each={snapshots().filter((s) => s.id !== snapshot().id)}>
+                          {(other) => <option value={other.id}>{other.label}</option>}
+                        </For>
+                      </select>
+                      <span class="theme-text-muted">
+                        {countChanged()} chapter{countChanged() !== 1 ? "s" : ""} differ
+                      </span>
+                    </div>
+
+                    <For each={changes()}>
+                      {(change) => (
+                        <div class="theme-card">
+                          <button
+                            onClick={() =>
+                              setExpanded(expanded() === change.fileName ? null : change.fileName)
+                            }
+                            disabled={change.status === "unchanged"}
+                            class="w-full flex items-center justify-between p-3 text-left"
+                          >
+                            <span class="font-medium theme-text-primary">{change.title}</span>
+                            <span
+                              class={`text-xs ${
+                                change.status === "unchanged"
+                                  ? "theme-text-muted"
+                                  : "theme-text-secondary"
+                              }`}
+                            >
+                              {STATUS_LABELS[change.status]}
+                            </span>
+                          </button>
+
+                          <Show when={expanded() === change.fileName}>
+                            <div class="px-3 pb-3 text-sm whitespace-pre-wrap typewriter-text theme-text-primary leading-relaxed theme-border-secondary border-t pt-3">
+                              <For each={diffWords(change.before, change.after)}>
+                                {(op) => (
+                                  <span
+                                    classList={{
+                                      "line-through text-red-600": op.type === "delete",
+                                      "underline text-green-600": op.type === "insert",
+                                    }}
+                                  >
+                                    {op.items.join("")}
+                                  </span>
+                                )}
+                              </For>
+                            </div>
+                          </Show>
+                        </div>
+                      )}
+                    </For>
+                  </div>
+                )}
+              </Show>
+
+              <Show when={loading()}>
+                <div class="flex items-center justify-center py-8">
+                  <div class="animate-spin rounded-full h-8 w-8 border-b theme-spinner mr-3"></div>
+                  <span class="theme-text-tertiary">Loading snapshots...</span>
+                </div>
+              </Show>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div class="flex items-center justify-between p-6 theme-border-secondary border-t">
+            <div class="text-sm theme-text-muted">
+              {snapshots().length} snapshot{snapshots().length !== 1 ? "s" : ""}
+              <Show when={props.book?.source === "cloud"}> • stored in Google Drive</Show>
+            </div>
+            <div class="flex gap-3">
+              <button onClick={props.onClose} class="px-4 py-2 theme-btn-secondary">
+                Close
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={!selectedSnapshot() || busy()}
+                class="px-4 py-2 theme-btn-secondary disabled:opacity-50"
+              >
+                Delete
+              </button>
+              <button
+                onClick={handleRestore}
+                disabled={!selectedSnapshot() || busy()}
+                class="px-4 py-2 theme-btn-primary disabled:opacity-50"
+              >
+                Restore This Snapshot
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default SnapshotsModal;
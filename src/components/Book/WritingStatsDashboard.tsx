@@ -0,0 +1,287 @@
+import { Component, createEffect, createSignal, For, Show } from "solid-js";
+import { BookSummary } from "../../services/bookManager";
+import { WritingDay } from "../../services/indexedDB";
+import { ChapterLength, statsService } from "../../services/statsService";
+import {
+  addDays,
+  currentStreak,
+  dailyTotals,
+  dateKey,
+  formatMinutes,
+  lengthHistogram,
+  longestStreak,
+  parseDateKey,
+  READING_WPM,
+  recentSessions,
+  SPEAKING_WPM,
+} from "../../utils/writingStats";
+import "../../styles/themes.css";
+
+interface WritingStatsDashboardProps {
+  book: BookSummary | null;
+  onClose: () => void;
+}
+
+const CALENDAR_WEEKS = 18;
+const CHART_DAYS = 30;
+const SESSIONS_SHOWN = 10;
+
+// Calendar shading by words written that day, from the highest threshold down
+const CALENDAR_LEVELS: [number, string][] = [
+  [1000, "bg-emerald-800"],
+  [500, "bg-emerald-600"],
+  [250, "bg-emerald-400"],
+  [1, "bg-emerald-200"],
+];
+
+const intensity = (words: number) =>
+  CALENDAR_LEVELS.find(([min]) => words >= min)?.[1] || "theme-bg-hover";
+
+const WritingStatsDashboard: Component<WritingStatsDashboardProps> = (props) => {
+  const [days, setDays] = createSignal<WritingDay[]>([]);
+  const [chapters, setChapters] = createSignal<ChapterLength[]>([]);
+  const [loading, setLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  createEffect(async () => {
+    const book = props.book;
+    if (!book) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const [history, lengths] = await Promise.all([
+        statsService.getWritingDays(book.id),
+        statsService.getChapterLengths(book.id),
+      ]);
+      setDays(history);
+      setChapters(lengths);
+    } catch (err) {
+      console.error("Failed to load writing statistics:", err);
+      setError("Failed to load writing statistics");
+    } finally {
+      setLoading(false);
+    }
+  });
+
+  const today = () => dateKey(Date.now());
+  const totals = () => dailyTotals(days(), today(), CHART_DAYS);
+  const lastWeek = () => totals().slice(-7).reduce((sum, day) => sum + day.words, 0);
+  const wordsToday = () => totals()[totals().length - 1]?.words || 0;
+  const chartMax = () => Math.max(1, ...totals().map((day) => day.words));
+
+  const sessions = () => recentSessions(days(), SESSIONS_SHOWN);
+  const averageSession = () => {
+    const all = days().flatMap((day) => day.sessions);
+    return all.length ? Math.round(all.reduce((sum, s) => sum + s.words, 0) / all.length) : 0;
+  };
+
+  const sprints = () =>
+    days()
+      .flatMap((day) => day.sprints || [])
+      .sort((a, b) => b.start - a.start)
+      .slice(0, SESSIONS_SHOWN);
+
+  const bookWords = () => chapters().reduce((sum, chapter) => sum + chapter.words, 0);
+  const histogram = () => lengthHistogram(chapters().map((chapter) => chapter.words));
+  const histogramMax = () => Math.max(1, ...histogram().map((bucket) => bucket.count));
+  const longestChapter = () =>
+    chapters().reduce<ChapterLength | null>((a, b) => (a && a.words >= b.words ? a : b), null);
+
+  // Whole weeks, Sunday first, ending with the current week
+  const calendar = () => {
+    const byDate = new Map(days().map((day) => [day.date, day.added]));
+    const start = addDays(today(), -(CALENDAR_WEEKS - 1) * 7 - parseDateKey(today()).getDay());
+    return Array.from({ length: CALENDAR_WEEKS }, (_, week) =>
+      Array.from({ length: 7 }, (_, weekday) => {
+        const date = addDays(start, week * 7 + weekday);
+        return { date, words: byDate.get(date) || 0, future: date > today() };
+      })
+    );
+  };
+
+  const stat = (label: string, value: string) => (
+    <div class="p-4 theme-card">
+      <p class="text-xs theme-text-muted">{label}</p>
+      <p class="text-2xl font-semibold theme-text-primary mt-1">{value}</p>
+    </div>
+  );
+
+  return (
+    <Show when={props.book}>
+      <div class="fixed inset-0 z-[60]">
+        <div class="theme-bg-secondary w-full h-full overflow-hidden flex flex-col">
+          {/* Header */}
+          <div class="flex items-center justify-between p-6 theme-border-secondary border-b">
+            <div>
+              <h2 class="text-xl font-bold theme-text-primary">Writing Statistics</h2>
+              <p class="text-sm theme-text-tertiary mt-1">{props.book?.name}</p>
+            </div>
+            <button
+              onClick={props.onClose}
+              class="theme-text-muted hover:theme-text-tertiary transition-colors"
+            >
+              <svg class="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  stroke-width="2"
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+
+          <div class="flex-1 p-6 overflow-y-auto space-y-8">
+            <Show when={error()}>
+              <div class="theme-alert">{error()}</div>
+            </Show>
+
+            <Show when={loading()}>
+              <p class="text-sm theme-text-muted">Loading...</p>
+            </Show>
+
+            {/* Summary */}
+            <div class="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {stat("Today", wordsToday().toLocaleString())}
+              {stat("Last 7 days", lastWeek().toLocaleString())}
+              {stat("Current streak", `${currentStreak(days(), today())} days`)}
+              {stat("Longest streak", `${longestStreak(days())} days`)}
+              {stat("Words in book", bookWords().toLocaleString())}
+              {stat("Reading time", formatMinutes(bookWords() / READING_WPM))}
+              {stat("Read aloud", formatMinutes(bookWords() / SPEAKING_WPM))}
+              {stat("Words per session", averageSession().toLocaleString())}
+            </div>
+
+            {/* Streak calendar */}
+            <section>
+              <h3 class="text-sm font-semibold theme-text-secondary mb-3">
+                Last {CALENDAR_WEEKS} weeks
+              </h3>
+              <div class="flex gap-1">
+                <For each={calendar()}>
+                  {(week) => (
+                    <div class="flex flex-col gap-1">
+                      <For each={week}>
+                        {(cell) => (
+                          <div
+                            class={`w-3 h-3 ${cell.future ? "opacity-0" : intensity(cell.words)}`}
+                            title={`${cell.date}: ${cell.words.toLocaleString()} words`}
+                          />
+                        )}
+                      </For>
+                    </div>
+                  )}
+                </For>
+              </div>
+            </section>
+
+            {/* Words per day */}
+            <section>
+              <h3 class="text-sm font-semibold theme-text-secondary mb-3">
+                Words per day, last {CHART_DAYS} days
+              </h3>
+              <div class="flex items-end gap-1 h-32 border-b theme-border-primary">
+                <For each={totals()}>
+                  {(day) => (
+                    <div
+                      class="flex-1 bg-emerald-500"
+                      style={{ height: `${(Math.max(0, day.words) / chartMax()) * 100}%` }}
+                      title={`${day.date}: ${day.words.toLocaleString()} words`}
+                    />
+                  )}
+                </For>
+              </div>
+              <div class="flex justify-between mt-1 text-xs theme-text-muted">
+                <span>{totals()[0]?.date}</span>
+                <span>Today</span>
+              </div>
+            </section>
+
+            <div class="grid md:grid-cols-2 gap-8">
+              {/* Sessions */}
+              <section>
+                <h3 class="text-sm font-semibold theme-text-secondary mb-3">Recent sessions</h3>
+                <For
+                  each={sessions()}
+                  fallback={
+                    <p class="text-sm theme-text-muted">
+                      Sessions appear here as you write and save.
+                    </p>
+                  }
+                >
+                  {(session) => (
+                    <div class="flex items-center justify-between py-2 text-sm border-b theme-border-primary">
+                      <span class="theme-text-secondary">
+                        {new Date(session.start).toLocaleString()}
+                      </span>
+                      <span class="theme-text-muted">
+                        {formatMinutes((session.end - session.start) / 60000)} ·{" "}
+                        {session.words.toLocaleString()} words
+                      </span>
+                    </div>
+                  )}
+                </For>
+
+                <Show when={sprints().length > 0}>
+                  <h3 class="text-sm font-semibold theme-text-secondary mt-6 mb-3">
+                    Recent sprints
+                  </h3>
+                  <For each={sprints()}>
+                    {(sprint) => (
+                      <div class="flex items-center justify-between py-2 text-sm border-b theme-border-primary">
+                        <span class="theme-text-secondary">
+                          {new Date(sprint.start).toLocaleString()}
+                        </span>
+                        <span class="theme-text-muted">
+                          {formatMinutes((sprint.end - sprint.start) / 60000)} of{" "}
+                          {sprint.plannedMinutes} min · {sprint.words.toLocaleString()} words
+                        </span>
+                      </div>
+                    )}
+                  </For>
+                </Show>
+              </section>
+
+              {/* Chapter lengths */}
+              <section>
+                <h3 class="text-sm font-semibold theme-text-secondary mb-3">Chapter lengths</h3>
+                <div class="space-y-1">
+                  <For each={histogram()}>
+                    {(bucket) => (
+                      <div class="flex items-center text-xs">
+                        <span class="w-28 theme-text-muted">
+                          {bucket.from.toLocaleString()}–{bucket.to.toLocaleString()}
+                        </span>
+                        <div class="flex-1 h-3">
+                          <div
+                            class="h-full bg-sky-500"
+                            style={{ width: `${(bucket.count / histogramMax()) * 100}%` }}
+                          />
+                        </div>
+                        <span class="w-8 text-right theme-text-secondary">{bucket.count}</span>
+                      </div>
+                    )}
+                  </For>
+                </div>
+                <Show when={longestChapter()}>
+                  {(chapter) => (
+                    <p class="mt-3 text-xs theme-text-muted">
+                      {chapters().length} chapters, averaging{" "}
+                      {Math.round(bookWords() / chapters().length).toLocaleString()} words
+                      (about {formatMinutes(bookWords() / chapters().length / READING_WPM)} to
+                      read). Longest: {chapter().title}, {chapter().words.toLocaleString()}{" "}
+                      words.
+                    </p>
+                  )}
+                </Show>
+              </section>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default WritingStatsDashboard;
@@ -0,0 +1,207 @@
+import { Component, createSignal, For, Show } from "solid-js";
+import { chapterStore } from "../../stores/chapterStore";
+import { ChapterMetadata } from "../../services/chapterService";
+import { ChapterStatus, LabelColor } from "../../stores/types";
+import {
+  CHAPTER_STATUSES,
+  LABEL_COLORS,
+  collectLabels,
+  collectPovs,
+} from "../../utils/chapterMetadata";
+import { countWords } from "../../utils/manuscript";
+import { stripSceneMarkers } from "../../utils/scenes";
+import "../../styles/themes.css";
+
+const ChapterInspector: Component = () => {
+  const [newLabel, setNewLabel] = createSignal("");
+  const [newLabelColor, setNewLabelColor] = createSignal<LabelColor>("blue");
+
+  const chapter = () => chapterStore.selectedChapter();
+  const bookLabels = () => collectLabels(chapterStore.chapters());
+  const wordCount = () => countWords(stripSceneMarkers(chapter()?.content || ""));
+  const progress = () => {
+    const target = chapter()?.targetWords;
+    return target ? Math.min(100, Math.round((wordCount() / target) * 100)) : 0;
+  };
+
+  const save = async (metadata: ChapterMetadata) => {
+    const current = chapter();
+    if (!current) return;
+    await chapterStore.updateChapter(current.id, metadata);
+  };
+
+  const handleTargetChange = (value: string) => {
+    const target = parseInt(value, 10);
+    save({ targetWords: target > 0 ? target : undefined });
+  };
+
+  // Reuse the color of a label that already exists elsewhere in the book
+  const handleAddLabel = async () => {
+    const current = chapter();
+    const name = newLabel().trim();
+    if (!current || !name) return;
+
+    const labels = current.labels || [];
+    if (!labels.some((label) => label.name === name)) {
+      const existing = bookLabels().find((label) => label.name === name);
+      await save({ labels: [...labels, { name, color: existing?.color || newLabelColor() }] });
+    }
+    setNewLabel("");
+  };
+
+  const handleRemoveLabel = (name: string) => {
+    save({ labels: (chapter()?.labels || []).filter((label) => label.name !== name) });
+  };
+
+  return (
+    <Show
+      when={chapter()}
+      fallback={
+        <div class="p-6 flex items-center justify-center h-full theme-text-muted">
+          <div class="text-center">
+            <div class="text-5xl mb-4">🔎</div>
+            <p class="font-medium text-lg theme-text-secondary">
+              Select a chapter to see its details
+            </p>
+          </div>
+        </div>
+      }
+    >
+      {(current) => (
+        <div class="p-6 space-y-5">
+          <h3 class="text-lg font-semibold theme-text-primary truncate">{current().title}</h3>
+
+          <label class="flex items-center justify-between">
+            <span class="text-sm font-medium theme-text-secondary">Status</span>
+            <select
+              value={current().status || "draft"}
+              onChange={(e) => save({ status: e.currentTarget.value as ChapterStatus })}
+              class="text-sm theme-input px-2 py-1"
+            >
+              <For each={CHAPTER_STATUSES}>
+                {(option) => <option value={option.value}>{option.label}</option>}
+              </For>
+            </select>
+          </label>
+
+          <div>
+            <span class="text-sm font-medium theme-text-secondary">Labels</span>
+            <div class="flex flex-wrap gap-2 mt-2">
+              <For
+                each={current().labels || []}
+                fallback={<span class="text-xs theme-text-disabled">No labels</span>}
+              >
+                {(label) => (
+                  <span class="flex items-center text-xs px-2 py-0.5 border theme-border-primary theme-text-secondary">
+                    <span class={`w-2 h-2 mr-1.5 rounded-full ${LABEL_COLORS[label.color]}`} />
+                    {label.name}
+                    <button
+                      onClick={() => handleRemoveLabel(label.name)}
+                      class="ml-1.5 theme-text-muted theme-hover-text"
+                      title="Remove label"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                )}
+              </For>
+            </div>
+            <div class="flex items-center gap-2 mt-2">
+              <input
+                type="text"
+                list="chapter-label-names"
+                value={newLabel()}
+                onInput={(e) => setNewLabel(e.currentTarget.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddLabel()}
+                placeholder="Add a label..."
+                class="flex-1 min-w-0 px-2 py-1 text-sm theme-input"
+              />
+              <datalist id="chapter-label-names">
+                <For each={bookLabels()}>{(label) => <option value={label.name} />}</For>
+              </datalist>
+              <select
+                value={newLabelColor()}
+                onChange={(e) => setNewLabelColor(e.currentTarget.value as LabelColor)}
+                class="text-sm theme-input px-1 py-1"
+                title="Label color"
+              >
+                <For each={Object.keys(LABEL_COLORS)}>
+                  {(color) => <option value={color}>{color}</option>}
+                </For>
+              </select>
+              <button onClick={handleAddLabel} class="px-2 py-1 text-sm theme-btn-secondary">
+                Add
+              </button>
+            </div>
+          </div>
+
+          <label class="block">
+            <span class="text-sm font-medium theme-text-secondary">POV character</span>
+            <input
+              type="text"
+              list="chapter-pov-names"
+              value={current().pov || ""}
+              onChange={(e) => save({ pov: e.currentTarget.value.trim() })}
+              class="mt-1 w-full px-3 py-2 theme-input"
+            />
+            <datalist id="chapter-pov-names">
+              <For each={collectPovs(chapterStore.chapters())}>
+                {(pov) => <option value={pov} />}
+              </For>
+            </datalist>
+          </label>
+
+          <div>
+            <label class="block">
+              <span class="text-sm font-medium theme-text-secondary">Word target</span>
+              <input
+                type="number"
+                min="0"
+                step="100"
+                value={current().targetWords || ""}
+                onChange={(e) => handleTargetChange(e.currentTarget.value)}
+                placeholder="No target"
+                class="mt-1 w-full px-3 py-2 theme-input"
+              />
+            </label>
+            <div class="mt-2 text-xs theme-text-muted">
+              {wordCount().toLocaleString()} words
+              <Show when={current().targetWords}>
+                {(target) => <> of {target().toLocaleString()} ({progress()}%)</>}
+              </Show>
+            </div>
+            <Show when={current().targetWords}>
+              <div class="mt-1 h-1.5 theme-bg-hover">
+                <div class="h-full bg-emerald-500" style={{ width: `${progress()}%` }} />
+              </div>
+            </Show>
+          </div>
+
+          <label class="block">
+            <span class="text-sm font-medium theme-text-secondary">Synopsis</span>
+            <textarea
+              value={current().synopsis || ""}
+              onChange={(e) => save({ synopsis: e.currentTarget.value.trim() })}
+              rows={3}
+              placeholder="What happens in this chapter?"
+              class="mt-1 w-full px-3 py-2 theme-input resize-y"
+            />
+          </label>
+
+          <label class="block">
+            <span class="text-sm font-medium theme-text-secondary">Notes</span>
+            <textarea
+              value={current().notes || ""}
+              onChange={(e) => save({ notes: e.currentTarget.value })}
+              rows={6}
+              placeholder="Research, reminders, loose ends..."
+              class="mt-1 w-full px-3 py-2 theme-input resize-y"
+            />
+          </label>
+        </div>
+      )}
+    </Show>
+  );
+};
+
+export default ChapterInspector;
@@ -1,10 +1,97 @@
 import { Component, createSignal, For, Show } from "solid-js";
 import { chapterStore } from "../../stores/chapterStore";
-import { Chapter } from "../../stores/types";
+import { Chapter, ChapterStatus, OutlinePart, Scene } from "../../stores/types";
+import { findPartOfChapter, moveToChapter } from "../../utils/outline";
+import {
+  CHAPTER_STATUSES,
+  EMPTY_CHAPTER_FILTER,
+  LABEL_COLORS,
+  chapterStatus,
+  collectLabels,
+  collectPovs,
+  isFilterActive,
+  matchesChapterFilter,
+} from "../../utils/chapterMetadata";
+import SceneDialog, { SCENE_STATUSES } from "./SceneDialog";
 import "../../styles/themes.css";
 
+const SceneItem: Component<{
+  chapter: Chapter;
+  scene: Scene;
+  index: number;
+  onDragStart: (e: DragEvent, chapter: Chapter, scene: Scene) => void;
+  onDragOver: (e: DragEvent) => void;
+  onDrop: (e: DragEvent, chapter: Chapter, index: number) => void;
+  onEdit: (chapter: Chapter, scene: Scene) => void;
+}> = (props) => {
+  const isSelected = () =>
+    chapterStore.selectedChapter()?.id === props.chapter.id &&
+    chapterStore.selectedSceneId() === props.scene.id;
+
+  const statusLabel = () =>
+    SCENE_STATUSES.find((status) => status.value === props.scene.status)?.label;
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete the scene "${props.scene.title}" and its text?`)) return;
+    await chapterStore.deleteScene(props.chapter.id, props.scene.id);
+  };
+
+  return (
+    <div
+      class="ml-6 px-3 py-2 cursor-pointer transition-all duration-200 select-none group relative border text-sm"
+      classList={{
+        "theme-card-selected theme-text-primary": isSelected(),
+        "theme-card theme-text-secondary theme-hover-border": !isSelected(),
+      }}
+      draggable={true}
+      onDragStart={(e) => props.onDragStart(e, props.chapter, props.scene)}
+      onDragOver={props.onDragOver}
+      onDrop={(e) => props.onDrop(e, props.chapter, props.index)}
+      onClick={() => chapterStore.selectChapter(props.chapter.id, props.scene.id)}
+      title={props.scene.synopsis || undefined}
+    >
+      <div class="flex items-center">
+        <span class="mr-2 cursor-grab theme-text-muted">⋮</span>
+        <div class="flex-1 min-w-0">
+          <div class="truncate">{props.scene.title}</div>
+          <div class="text-xs theme-text-muted truncate">
+            {statusLabel()}
+            {props.scene.pov ? ` · ${props.scene.pov}` : ""}
+          </div>
+        </div>
+        <div class="opacity-0 group-hover:opacity-100 transition-opacity flex space-x-1 ml-2">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              props.onEdit(props.chapter, props.scene);
+            }}
+            class="p-1 theme-btn-secondary transition-colors"
+            title="Edit scene details"
+          >
+            ✏️
+          </button>
+          <Show when={props.chapter.scenes.length > 1}>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDelete();
+              }}
+              class="p-1 theme-btn-secondary transition-colors"
+              title="Delete scene"
+            >
+              🗑️
+            </button>
+          </Show>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const ChapterItem: Component<{
   chapter: Chapter;
+  expanded: boolean;
+  onToggleExpanded: () => void;
   onDragStart: (e: DragEvent, chapter: Chapter) => void;
   onDragOver: (e: DragEvent) => void;
   onDrop: (e: DragEvent, targetChapter: Chapter) => void;
@@ -55,6 +142,13 @@ const ChapterItem: Component<{
     }
   };
 
+  const handleAddScene = async () => {
+    const title = prompt("Scene title:", `Scene ${props.chapter.scenes.length + 1}`);
+    if (!title?.trim()) return;
+    await chapterStore.createScene(props.chapter.id, title.trim());
+    if (!props.expanded) props.onToggleExpanded();
+  };
+
   const handleKeyPress = (e: KeyboardEvent) => {
     if (e.key === "Enter") {
       handleSaveEdit();
@@ -74,10 +168,20 @@ const ChapterItem: Component<{
       onDragStart={(e) => !isEditing() && props.onDragStart(e, props.chapter)}
       onDragOver={props.onDragOver}
       onDrop={(e) => props.onDrop(e, props.chapter)}
-      onClick={() => !isEditing() && chapterStore.selectChapter(props.chapter.id)}
+      onClick={() => !isEditing() && chapterStore.selectChapter(props.chapter.id, null)}
     >
       <div class="flex items-center">
         <Show when={!isEditing()}>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              props.onToggleExpanded();
+            }}
+            class="mr-1 w-4 text-xs theme-text-muted"
+            title={props.expanded ? "Hide scenes" : "Show scenes"}
+          >
+            {props.expanded ? "▾" : "▸"}
+          </button>
           <span
             class="mr-3 cursor-grab text-lg transition-colors"
             classList={{
@@ -93,8 +197,44 @@ const ChapterItem: Component<{
           when={isEditing()}
           fallback={
             <div class="flex-1 flex items-center justify-between">
-              <span class="font-medium">{props.chapter.title}</span>
+              <span class="font-medium min-w-0">
+                <span
+                  class={`inline-block w-2 h-2 mr-2 rounded-full ${chapterStatus(props.chapter).color}`}
+                  title={chapterStatus(props.chapter).label}
+                />
+                {props.chapter.title}
+                <Show when={props.chapter.scenes.length > 1}>
+                  <span class="ml-2 text-xs theme-text-muted font-normal">
+                    {props.chapter.scenes.length} scenes
+                  </span>
+                </Show>
+                <Show when={props.chapter.labels?.length || props.chapter.pov}>
+                  <span class="flex items-center flex-wrap gap-1 mt-1 text-xs theme-text-muted font-normal">
+                    <For each={props.chapter.labels || []}>
+                      {(label) => (
+                        <span class="flex items-center px-1.5 border theme-border-primary">
+                          <span class={`w-1.5 h-1.5 mr-1 rounded-full ${LABEL_COLORS[label.color]}`} />
+                          {label.name}
+                        </span>
+                      )}
+                    </For>
+                    <Show when={props.chapter.pov}>
+                      <span>👤 {props.chapter.pov}</span>
+                    </Show>
+                  </span>
+                </Show>
+              </span>
               <div class="opacity-0 group-hover:opacity-100 transition-opacity flex space-x-1 ml-2">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleAddScene();
+                  }}
+                  class="p-1 theme-btn-secondary transition-colors"
+                  title="Add scene"
+                >
+                  ➕
+                </button>
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
@@ -179,9 +319,122 @@ const ChapterItem: Component<{
   );
 };
 
+const PartItem: Component<{
+  part: OutlinePart;
+  expanded: boolean;
+  onToggleExpanded: () => void;
+  onDragStart: (e: DragEvent, part: OutlinePart) => void;
+  onDragOver: (e: DragEvent) => void;
+  onDrop: (e: DragEvent, part: OutlinePart) => void;
+}> = (props) => {
+  const handleRename = async () => {
+    const title = prompt("Part title:", props.part.title);
+    if (!title?.trim() || title.trim() === props.part.title) return;
+    await chapterStore.renamePart(props.part.id, title.trim());
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Remove the part "${props.part.title}"? Its chapters are kept.`)) return;
+    await chapterStore.deletePart(props.part.id);
+  };
+
+  return (
+    <div
+      class="px-3 py-2 cursor-pointer transition-all duration-200 select-none group relative border theme-bg-secondary theme-border-secondary theme-text-primary theme-hover-border"
+      draggable={true}
+      onDragStart={(e) => props.onDragStart(e, props.part)}
+      onDragOver={props.onDragOver}
+      onDrop={(e) => props.onDrop(e, props.part)}
+      onClick={props.onToggleExpanded}
+    >
+      <div class="flex items-center">
+        <span class="mr-1 w-4 text-xs theme-text-muted">{props.expanded ? "▾" : "▸"}</span>
+        <span class="mr-3 cursor-grab text-lg theme-text-muted">⋮⋮</span>
+        <span class="flex-1 font-semibold uppercase tracking-wide text-sm truncate">
+          {props.part.title}
+          <span class="ml-2 text-xs theme-text-muted font-normal normal-case tracking-normal">
+            {props.part.chapterIds.length}{" "}
+            {props.part.chapterIds.length === 1 ? "chapter" : "chapters"}
+          </span>
+        </span>
+        <div class="opacity-0 group-hover:opacity-100 transition-opacity flex space-x-1 ml-2">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleRename();
+            }}
+            class="p-1 theme-btn-secondary transition-colors"
+            title="Rename part"
+          >
+            ✏️
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleDelete();
+            }}
+            class="p-1 theme-btn-secondary transition-colors"
+            title="Remove part"
+          >
+            🗑️
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const ChapterList: Component = () => {
   const [newChapterTitle, setNewChapterTitle] = createSignal("");
   const [draggedChapter, setDraggedChapter] = createSignal<Chapter | null>(null);
+  const [draggedScene, setDraggedScene] = createSignal<Scene | null>(null);
+  const [draggedPart, setDraggedPart] = createSignal<OutlinePart | null>(null);
+  const [expandedChapters, setExpandedChapters] = createSignal<Set<string>>(new Set());
+  const [collapsedParts, setCollapsedParts] = createSignal<Set<string>>(new Set());
+  const [filter, setFilter] = createSignal(EMPTY_CHAPTER_FILTER);
+  const [editingScene, setEditingScene] = createSignal<{ chapterId: string; scene: Scene } | null>(
+    null
+  );
+
+  const toggleExpanded = (chapterId: string) => {
+    const next = new Set(expandedChapters());
+    if (next.has(chapterId)) next.delete(chapterId);
+    else next.add(chapterId);
+    setExpandedChapters(next);
+  };
+
+  const togglePart = (partId: string) => {
+    const next = new Set(collapsedParts());
+    if (next.has(partId)) next.delete(partId);
+    else next.add(partId);
+    setCollapsedParts(next);
+  };
+
+  const chapterById = (id: string) => chapterStore.chapters().find((ch) => ch.id === id);
+
+  const visibleChapter = (id: string) => {
+    const chapter = chapterById(id);
+    return chapter && matchesChapterFilter(chapter, filter()) ? chapter : undefined;
+  };
+
+  const visibleCount = () =>
+    chapterStore.chapters().filter((chapter) => matchesChapterFilter(chapter, filter())).length;
+
+  const updateFilter = (changes: Partial<typeof EMPTY_CHAPTER_FILTER>) =>
+    setFilter({ ...filter(), ...changes });
+
+  const handleAddPart = async () => {
+    const partCount = chapterStore.outline().filter((node) => node.type === "part").length;
+    const title = prompt("Part title:", `Part ${partCount + 1}`);
+    if (!title?.trim()) return;
+    await chapterStore.createPart(title.trim());
+  };
+
+  const clearDrag = () => {
+    setDraggedChapter(null);
+    setDraggedScene(null);
+    setDraggedPart(null);
+  };
 
   const handleAddChapter = async () => {
     if (!newChapterTitle().trim()) {
@@ -199,6 +452,7 @@ const ChapterList: Component = () => {
   };
 
   const handleDragStart = (e: DragEvent, chapter: Chapter) => {
+    clearDrag();
     setDraggedChapter(chapter);
     if (e.dataTransfer) {
       e.dataTransfer.effectAllowed = "move";
@@ -213,41 +467,141 @@ const ChapterList: Component = () => {
     }
   };
 
+  const handleSceneDragStart = (e: DragEvent, chapter: Chapter, scene: Scene) => {
+    e.stopPropagation();
+    clearDrag();
+    setDraggedScene(scene);
+    if (e.dataTransfer) {
+      e.dataTransfer.effectAllowed = "move";
+      e.dataTransfer.setData("text/plain", scene.id);
+    }
+  };
+
+  // Dropping a scene on another scene puts it in that scene's place
+  const handleSceneDrop = async (e: DragEvent, targetChapter: Chapter, targetIndex: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const scene = draggedScene();
+    clearDrag();
+    if (!scene) return;
+
+    await chapterStore.moveScene(scene.id, targetChapter.id, targetIndex);
+  };
+
+  const handlePartDragStart = (e: DragEvent, part: OutlinePart) => {
+    clearDrag();
+    setDraggedPart(part);
+    if (e.dataTransfer) {
+      e.dataTransfer.effectAllowed = "move";
+      e.dataTransfer.setData("text/plain", part.id);
+    }
+  };
+
+  // Top-level position of a chapter, or of the part that holds it
+  const topLevelIndex = (chapterId: string) => {
+    const outline = chapterStore.outline();
+    const part = findPartOfChapter(outline, chapterId);
+    return outline.findIndex((node) => node.id === (part ? part.id : chapterId));
+  };
+
+  // Dropping on a chapter puts the dragged chapter in its place, in the same
+  // part; a dragged part takes the place of the chapter's top-level item
   const handleDrop = async (e: DragEvent, targetChapter: Chapter) => {
     e.preventDefault();
-    const draggedChapterItem = draggedChapter();
 
-    if (!draggedChapterItem || draggedChapterItem.id === targetChapter.id) {
-      setDraggedChapter(null);
+    // A scene dropped on a chapter moves to the end of it
+    const scene = draggedScene();
+    if (scene) {
+      clearDrag();
+      await chapterStore.moveScene(scene.id, targetChapter.id, targetChapter.scenes.length);
       return;
     }
 
-    const currentChapters = chapterStore.chapters();
-    const draggedIndex = currentChapters.findIndex((c) => c.id === draggedChapterItem.id);
-    const targetIndex = currentChapters.findIndex((c) => c.id === targetChapter.id);
+    const part = draggedPart();
+    const draggedChapterItem = draggedChapter();
+    clearDrag();
 
-    if (draggedIndex === -1 || targetIndex === -1) {
-      setDraggedChapter(null);
+    if (part) {
+      await chapterStore.reorderChapters({
+        itemId: part.id,
+        partId: null,
+        index: topLevelIndex(targetChapter.id),
+      });
       return;
     }
 
-    // Create new order array
-    const newChapters = [...currentChapters];
-    const [removed] = newChapters.splice(draggedIndex, 1);
-    newChapters.splice(targetIndex, 0, removed);
+    if (!draggedChapterItem || draggedChapterItem.id === targetChapter.id) return;
 
-    // Extract the new order of IDs
-    const newOrder = newChapters.map((chapter) => chapter.id);
+    await chapterStore.reorderChapters(
+      moveToChapter(chapterStore.outline(), draggedChapterItem.id, targetChapter.id)
+    );
+  };
 
-    try {
-      await chapterStore.reorderChapters(newOrder);
-    } catch (error) {
-      console.error("Failed to reorder chapters:", error);
+  // Chapters dropped on a part header join the end of that part; parts swap places
+  const handlePartDrop = async (e: DragEvent, targetPart: OutlinePart) => {
+    e.preventDefault();
+    const part = draggedPart();
+    const chapter = draggedChapter();
+    clearDrag();
+
+    if (part && part.id !== targetPart.id) {
+      await chapterStore.reorderChapters({
+        itemId: part.id,
+        partId: null,
+        index: chapterStore.outline().findIndex((node) => node.id === targetPart.id),
+      });
+    } else if (chapter) {
+      const chapterIds = targetPart.chapterIds.filter((id) => id !== chapter.id);
+      await chapterStore.reorderChapters({
+        itemId: chapter.id,
+        partId: targetPart.id,
+        index: chapterIds.length,
+      });
     }
+  };
 
-    setDraggedChapter(null);
+  // The strip below the list moves chapters and parts to the end of the book
+  const handleEndDrop = async (e: DragEvent) => {
+    e.preventDefault();
+    const item = draggedPart() || draggedChapter();
+    clearDrag();
+    if (!item) return;
+
+    await chapterStore.reorderChapters({
+      itemId: item.id,
+      partId: null,
+      index: chapterStore.outline().length,
+    });
   };
 
+  const renderChapter = (chapter: Chapter) => (
+    <div class="space-y-1">
+      <ChapterItem
+        chapter={chapter}
+        expanded={expandedChapters().has(chapter.id)}
+        onToggleExpanded={() => toggleExpanded(chapter.id)}
+        onDragStart={handleDragStart}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+      />
+      <Show when={expandedChapters().has(chapter.id)}>
+        <For each={chapter.scenes}>
+          {(scene, index) => (
+            <SceneItem
+              chapter={chapter}
+              scene={scene}
+              index={index()}
+              onDragStart={handleSceneDragStart}
+              onDragOver={handleDragOver}
+              onDrop={handleSceneDrop}
+              onEdit={(chapter, scene) => setEditingScene({ chapterId: chapter.id, scene })}
+            />
+          )}
+        </For>
+      </Show>
+    </div>
+  );
+
   return (
     <div class="p-6 h-full">
       <Show when={chapterStore.loading()}>
@@ -258,9 +612,64 @@ const ChapterList: Component = () => {
         <p class="theme-text-muted">{chapterStore.error()}</p>
       </Show>
 
-      <div class="space-y-2 mb-6">
+      <Show when={chapterStore.chapters().length > 0}>
+        <div class="mb-4 space-y-2">
+          <div class="grid grid-cols-3 gap-2">
+            <select
+              value={filter().status}
+              onChange={(e) =>
+                updateFilter({ status: e.currentTarget.value as ChapterStatus | "" })
+              }
+              class="text-xs theme-input px-1 py-1"
+              title="Filter by status"
+            >
+              <option value="">All statuses</option>
+              <For each={CHAPTER_STATUSES}>
+                {(option) => <option value={option.value}>{option.label}</option>}
+              </For>
+            </select>
+            <select
+              value={filter().label}
+              onChange={(e) => updateFilter({ label: e.currentTarget.value })}
+              class="text-xs theme-input px-1 py-1"
+              title="Filter by label"
+            >
+              <option value="">All labels</option>
+              <For each={collectLabels(chapterStore.chapters())}>
+                {(label) => <option value={label.name}>{label.name}</option>}
+              </For>
+            </select>
+            <select
+              value={filter().pov}
+              onChange={(e) => updateFilter({ pov: e.currentTarget.value })}
+              class="text-xs theme-input px-1 py-1"
+              title="Filter by POV character"
+            >
+              <option value="">All POVs</option>
+              <For each={collectPovs(chapterStore.chapters())}>
+                {(pov) => <option value={pov}>{pov}</option>}
+              </For>
+            </select>
+          </div>
+          <Show when={isFilterActive(filter())}>
+            <div class="flex items-center justify-between text-xs theme-text-muted">
+              <span>
+                Showing {visibleCount()} of {chapterStore.chapters().length} chapters
+              </span>
+              <button
+                onClick={() => setFilter(EMPTY_CHAPTER_FILTER)}
+                class="px-2 py-0.5 theme-btn-secondary"
+              >
+                Clear filters
+              </button>
+            </div>
+          </Show>
+        </div>
+      </Show>
+
+      <div class="space-y-2 mb-6" onDragEnd={clearDrag}>
         <For
-          each={chapterStore.chapters()}
+          each={chapterStore.outline()}
           fallback={
             <div class="text-center p-8 border-2 border-dashed theme-border-primary">
               <div class="text-3xl mb-2">📖</div>
@@ -269,17 +678,69 @@ const ChapterList: Component = () => {
             </div>
           }
         >
-          {(chapter) => (
-            <ChapterItem
-              chapter={chapter}
-              onDragStart={handleDragStart}
-              onDragOver={handleDragOver}
-              onDrop={handleDrop}
-            />
+          {(node) => (
+            <Show
+              when={node.type === "part" && node}
+              fallback={
+                <Show when={visibleChapter(node.id)}>{(chapter) => renderChapter(chapter())}</Show>
+              }
+            >
+              {(part) => (
+                <Show
+                  when={
+                    !isFilterActive(filter()) || part().chapterIds.some((id) => visibleChapter(id))
+                  }
+                >
+                  <div class="space-y-1">
+                    <PartItem
+                      part={part()}
+                      expanded={!collapsedParts().has(part().id)}
+                      onToggleExpanded={() => togglePart(part().id)}
+                      onDragStart={handlePartDragStart}
+                      onDragOver={handleDragOver}
+                      onDrop={handlePartDrop}
+                    />
+                    <Show when={!collapsedParts().has(part().id)}>
+                      <div class="ml-4 space-y-2">
+                        <For
+                          each={part().chapterIds}
+                          fallback={
+                            <p class="px-3 py-2 text-xs theme-text-disabled">
+                              Drop chapters on the part title to add them
+                            </p>
+                          }
+                        >
+                          {(chapterId) => (
+                            <Show when={visibleChapter(chapterId)}>
+                              {(chapter) => renderChapter(chapter())}
+                            </Show>
+                          )}
+                        </For>
+                      </div>
+                    </Show>
+                  </div>
+                </Show>
+              )}
+            </Show>
           )}
         </For>
+        <Show when={draggedChapter() || draggedPart()}>
+          <div
+            class="p-2 text-center text-xs border-2 border-dashed theme-border-primary theme-text-muted"
+            onDragOver={handleDragOver}
+            onDrop={handleEndDrop}
+          >
+            Drop here to move to the end of the book
+          </div>
+        </Show>
       </div>
 
+      <SceneDialog
+        chapterId={editingScene()?.chapterId || ""}
+        scene={editingScene()?.scene || null}
+        onClose={() => setEditingScene(null)}
+      />
+
       <div class="space-y-3">
         <input
           type="text"
@@ -299,6 +760,12 @@ const ChapterList: Component = () => {
         >
           📚 Add Chapter
         </button>
+        <button
+          onClick={handleAddPart}
+          class="w-full theme-btn-secondary font-medium py-2 px-4 transition-colors duration-200"
+        >
+          🗂️ Add Part
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,249 @@
+import { Component, createEffect, createMemo, createSignal, For, Show } from "solid-js";
+import {
+  DragDropProvider,
+  DragDropSensors,
+  DragEventHandler,
+  SortableProvider,
+  closestCenter,
+  createSortable,
+  transformStyle,
+} from "@thisbeyond/solid-dnd";
+import { chapterStore } from "../../stores/chapterStore";
+import { bookStore } from "../../stores/bookStore";
+import { ideaStore } from "../../stores/ideaStore";
+import { uiStore } from "../../stores/uiStore";
+import { ideaService } from "../../services/ideaService";
+import { Chapter, ChapterStatus, OutlinePart } from "../../stores/types";
+import { moveToChapter } from "../../utils/outline";
+import { CHAPTER_STATUSES, chapterStatus } from "../../utils/chapterMetadata";
+import "../../styles/themes.css";
+
+const ChapterCard: Component<{ chapter: Chapter; ideaCount: number }> = (props) => {
+  const sortable = createSortable(props.chapter.id);
+  const [editing, setEditing] = createSignal(false);
+  const [synopsis, setSynopsis] = createSignal("");
+
+  const isSelected = () => chapterStore.selectedChapter()?.id === props.chapter.id;
+
+  const handleOpen = async () => {
+    await chapterStore.selectChapter(props.chapter.id, null);
+    uiStore.toggleCorkboard();
+  };
+
+  const startEditing = () => {
+    setSynopsis(props.chapter.synopsis || "");
+    setEditing(true);
+  };
+
+  const saveSynopsis = async () => {
+    setEditing(false);
+    if (synopsis().trim() === (props.chapter.synopsis || "")) return;
+    await chapterStore.updateChapter(props.chapter.id, { synopsis: synopsis().trim() });
+  };
+
+  return (
+    <div
+      ref={sortable.ref}
+      style={transformStyle(sortable.transform)}
+      class="flex flex-col h-56 border theme-shadow-light transition-opacity duration-200"
+      classList={{
+        "theme-card-selected": isSelected(),
+        "theme-card": !isSelected(),
+        "opacity-50": sortable.isActiveDraggable,
+      }}
+    >
+      <div class={`h-1.5 ${chapterStatus(props.chapter).color}`} />
+
+      {/* Header doubles as the drag handle */}
+      <div
+        {...sortable.dragActivators}
+        class="flex items-center px-3 pt-2 pb-1 cursor-grab select-none touch-none"
+      >
+        <span class="mr-2 theme-text-muted">⋮⋮</span>
+        <button
+          onClick={handleOpen}
+          class="flex-1 text-left font-semibold theme-text-primary truncate hover:underline"
+          title="Open in editor"
+        >
+          {props.chapter.title}
+        </button>
+      </div>
+
+      <div class="flex-1 px-3 py-1 min-h-0">
+        <Show
+          when={editing()}
+          fallback={
+            <p
+              onClick={startEditing}
+              class="h-full overflow-y-auto text-sm whitespace-pre-wrap cursor-text"
+              classList={{
+                "theme-text-secondary": !!props.chapter.synopsis,
+                "theme-text-disabled italic": !props.chapter.synopsis,
+              }}
+              title="Click to edit the synopsis"
+            >
+              {props.chapter.synopsis || "Add a synopsis..."}
+            </p>
+          }
+        >
+          <textarea
+            value={synopsis()}
+            onInput={(e) => setSynopsis(e.currentTarget.value)}
+            onBlur={saveSynopsis}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") {
+                setSynopsis(props.chapter.synopsis || "");
+                setEditing(false);
+              } else if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) e.currentTarget.blur();
+            }}
+            ref={(el) => setTimeout(() => el.focus())}
+            placeholder="What happens in this chapter?"
+            class="w-full h-full px-2 py-1 text-sm theme-input resize-none"
+          />
+        </Show>
+      </div>
+
+      <div class="flex items-center justify-between px-3 py-2 text-xs theme-text-muted">
+        <select
+          value={props.chapter.status || "draft"}
+          onChange={(e) =>
+            chapterStore.updateChapter(props.chapter.id, {
+              status: e.currentTarget.value as ChapterStatus,
+            })
+          }
+          class="text-xs theme-input px-1 py-0.5"
+          title="Chapter status"
+        >
+          <For each={CHAPTER_STATUSES}>
+            {(option) => <option value={option.value}>{option.label}</option>}
+          </For>
+        </select>
+        <span class="flex items-center space-x-3">
+          <Show when={props.chapter.scenes.length > 1}>
+            <span>{props.chapter.scenes.length} scenes</span>
+          </Show>
+          <span title="Ideas for this chapter">💡 {props.ideaCount}</span>
+        </span>
+      </div>
+    </div>
+  );
+};
+
+// A run of cards under one heading: a part, or top-level chapters between parts
+interface CardGroup {
+  part: OutlinePart | null;
+  chapterIds: string[];
+}
+
+const Corkboard: Component = () => {
+  const [ideaCounts, setIdeaCounts] = createSignal<Record<string, number>>({});
+
+  // Recount when chapters change or the open chapter's ideas are edited
+  createEffect(async () => {
+    const book = bookStore.selectedBook();
+    chapterStore.chapters();
+    ideaStore.ideas();
+    if (!book) return;
+
+    try {
+      setIdeaCounts(await ideaService.getIdeaCounts(book.id));
+    } catch (err) {
+      console.error("Failed to count ideas:", err);
+    }
+  });
+
+  const groups = createMemo(() => {
+    const result: CardGroup[] = [];
+    for (const node of chapterStore.outline()) {
+      if (node.type === "part") {
+        result.push({ part: node, chapterIds: node.chapterIds });
+      } else if (result.length > 0 && result[result.length - 1].part === null) {
+        result[result.length - 1].chapterIds.push(node.id);
+      } else {
+        result.push({ part: null, chapterIds: [node.id] });
+      }
+    }
+    return result;
+  });
+
+  const chapterIds = () => chapterStore.chapters().map((chapter) => chapter.id);
+  const chapterById = (id: string) => chapterStore.chapters().find((ch) => ch.id === id);
+
+  // A card dropped on another card takes its place, joining that card's part
+  const handleDragEnd: DragEventHandler = async ({ draggable, droppable }) => {
+    if (!draggable || !droppable || draggable.id === droppable.id) return;
+
+    await chapterStore.reorderChapters(
+      moveToChapter(chapterStore.outline(), String(draggable.id), String(droppable.id))
+    );
+  };
+
+  return (
+    <div class="h-full overflow-y-auto p-2">
+      <div class="flex items-center justify-between mb-4">
+        <h2 class="text-lg font-semibold theme-text-primary">Corkboard</h2>
+        <button
+          onClick={() => uiStore.toggleCorkboard()}
+          class="px-3 py-1.5 text-sm theme-btn-secondary transition-colors"
+        >
+          ✏️ Back to Editor
+        </button>
+      </div>
+
+      <Show
+        when={chapterStore.chapters().length > 0}
+        fallback={
+          <div class="text-center p-8 border-2 border-dashed theme-border-primary">
+            <div class="text-3xl mb-2">🗂️</div>
+            <p class="text-sm theme-text-muted">No chapters yet</p>
+            <p class="text-xs theme-text-disabled mt-1">
+              Add chapters in the chapters panel to plan them here
+            </p>
+          </div>
+        }
+      >
+        <DragDropProvider onDragEnd={handleDragEnd} collisionDetector={closestCenter}>
+          <DragDropSensors />
+          <SortableProvider ids={chapterIds()}>
+            <div class="space-y-6">
+              <For each={groups()}>
+                {(group) => (
+                  <section>
+                    <Show when={group.part}>
+                      {(part) => (
+                        <h3 class="mb-2 text-sm font-semibold uppercase tracking-wide theme-text-secondary">
+                          {part().title}
+                        </h3>
+                      )}
+                    </Show>
+                    <div class="grid gap-4 grid-cols-[repeat(auto-fill,minmax(14rem,1fr))]">
+                      <For
+                        each={group.chapterIds}
+                        fallback={
+                          <p class="text-xs theme-text-disabled">No chapters in this part</p>
+                        }
+                      >
+                        {(chapterId) => (
+                          <Show when={chapterById(chapterId)}>
+                            {(chapter) => (
+                              <ChapterCard
+                                chapter={chapter()}
+                                ideaCount={ideaCounts()[chapterId] || 0}
+                              />
+                            )}
+                          </Show>
+                        )}
+                      </For>
+                    </div>
+                  </section>
+                )}
+              </For>
+            </div>
+          </SortableProvider>
+        </DragDropProvider>
+      </Show>
+    </div>
+  );
+};
+
+export default Corkboard;
@@ -0,0 +1,120 @@
+import { Component, createEffect, createSignal, For, Show } from "solid-js";
+import { chapterStore } from "../../stores/chapterStore";
+import { Scene, SceneStatus } from "../../stores/types";
+import "../../styles/themes.css";
+
+export const SCENE_STATUSES: { value: SceneStatus; label: string }[] = [
+  { value: "outline", label: "Outline" },
+  { value: "draft", label: "Draft" },
+  { value: "revised", label: "Revised" },
+  { value: "final", label: "Final" },
+];
+
+interface SceneDialogProps {
+  chapterId: string;
+  scene: Scene | null;
+  onClose: () => void;
+}
+
+const SceneDialog: Component<SceneDialogProps> = (props) => {
+  const [title, setTitle] = createSignal("");
+  const [synopsis, setSynopsis] = createSignal("");
+  const [pov, setPov] = createSignal("");
+  const [status, setStatus] = createSignal<SceneStatus>("draft");
+
+  createEffect(() => {
+    const scene = props.scene;
+    if (scene) {
+      setTitle(scene.title);
+      setSynopsis(scene.synopsis);
+      setPov(scene.pov);
+      setStatus(scene.status);
+    }
+  });
+
+  const handleSave = async () => {
+    const scene = props.scene;
+    if (!scene) return;
+    if (!title().trim()) {
+      alert("Scene title cannot be empty.");
+      return;
+    }
+
+    await chapterStore.updateScene(props.chapterId, scene.id, {
+      title: title().trim(),
+      synopsis: synopsis().trim(),
+      pov: pov().trim(),
+      status: status(),
+    });
+    props.onClose();
+  };
+
+  return (
+    <Show when={props.scene}>
+      <div class="fixed inset-0 z-[70] flex items-center justify-center p-4">
+        <div class="theme-bg-secondary theme-border-primary theme-shadow-medium max-w-md w-full">
+          <div class="p-6">
+            <h3 class="text-lg font-semibold theme-text-primary mb-4">Scene Details</h3>
+
+            <div class="space-y-3 mb-4">
+              <label class="block">
+                <span class="text-sm font-medium theme-text-secondary">Title</span>
+                <input
+                  type="text"
+                  value={title()}
+                  onInput={(e) => setTitle(e.currentTarget.value)}
+                  class="mt-1 w-full px-3 py-2 theme-input"
+                />
+              </label>
+
+              <label class="block">
+                <span class="text-sm font-medium theme-text-secondary">Synopsis</span>
+                <textarea
+                  value={synopsis()}
+                  onInput={(e) => setSynopsis(e.currentTarget.value)}
+                  rows={4}
+                  placeholder="What happens in this scene?"
+                  class="mt-1 w-full px-3 py-2 theme-input resize-y"
+                />
+              </label>
+
+              <label class="block">
+                <span class="text-sm font-medium theme-text-secondary">POV character</span>
+                <input
+                  type="text"
+                  value={pov()}
+                  onInput={(e) => setPov(e.currentTarget.value)}
+                  class="mt-1 w-full px-3 py-2 theme-input"
+                />
+              </label>
+
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Status</span>
+                <select
+                  value={status()}
+                  onChange={(e) => setStatus(e.currentTarget.value as SceneStatus)}
+                  class="text-sm theme-input px-2 py-1"
+                >
+                  <For each={SCENE_STATUSES}>
+                    {(option) => <option value={option.value}>{option.label}</option>}
+                  </For>
+                </select>
+              </label>
+            </div>
+
+            <div class="flex gap-3 justify-end">
+              <button onClick={props.onClose} class="px-4 py-2 theme-btn-secondary">
+                Cancel
+              </button>
+              <button onClick={handleSave} class="px-4 py-2 theme-btn-primary">
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default SceneDialog;
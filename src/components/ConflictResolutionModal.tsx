@@ -0,0 +1,390 @@
+import { Component, createEffect, createMemo, createSignal, For, Show } from "solid-js";
+import { bookService } from "../services/bookService";
+import { ChapterRecord } from "../services/indexedDB";
+import { bookStore } from "../stores/bookStore";
+import { chapterStore } from "../stores/chapterStore";
+import { ConflictHunk, joinHunks, mergeText, mergeWithoutBase } from "../utils/merge";
+import "../styles/themes.css";
+
+interface ConflictResolutionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onResolved?: () => void;
+}
+
+interface ConflictItem {
+  record: ChapterRecord;
+  bookName: string;
+  chapterTitle: string;
+}
+
+interface HunkResolution {
+  choice: "local" | "cloud" | "edit" | null;
+  text: string;
+}
+
+const ConflictResolutionModal: Component<ConflictResolutionModalProps> = (props) => {
+  const [items, setItems] = createSignal<ConflictItem[]>([]);
+  const [selectedKey, setSelectedKey] = createSignal<string | null>(null);
+  const [resolutions, setResolutions] = createSignal<HunkResolution[]>([]);
+  const [loading, setLoading] = createSignal(false);
+  const [saving, setSaving] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const loadConflicts = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const records = await bookService.getConflictedChapters();
+      const loaded: ConflictItem[] = [];
+
+      for (const record of records) {
+        const book = await bookService.getBookById(record.bookId);
+        const chapter = book?.config.chapters.find((ch) => ch.fileName === record.fileName);
+        loaded.push({
+          record,
+          bookName: book?.name || record.bookId,
+          chapterTitle: chapter?.title || record.fileName,
+        });
+      }
+
+      setItems(loaded);
+      if (!loaded.some((item) => item.record.key === selectedKey())) {
+        setSelectedKey(loaded[0]?.record.key || null);
+      }
+    } catch (err) {
+      console.error("Failed to load conflicts:", err);
+      setError("Failed to load conflicts");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load conflicts when modal opens
+  createEffect(() => {
+    if (props.isOpen) {
+      loadConflicts();
+    }
+  });
+
+  const selectedItem = () => items().find((item) => item.record.key === selectedKey()) || null;
+
+  const merge = createMemo(() => {
+    const item = selectedItem();
+    if (!item || !item.record.conflict) return null;
+    const { baseContent, content, conflict } = item.record;
+    if (baseContent === undefined) return mergeWithoutBase(content, conflict.cloudContent);
+    return mergeText(baseContent, content, conflict.cloudContent);
+  });
+
+  const conflictHunks = () =>
+    (merge()?.hunks.filter((hunk) => hunk.type === "conflict") || []) as ConflictHunk[];
+
+  // Pair each hunk with its position among the conflicts, which keys its resolution
+  const indexedHunks = createMemo(() => {
+    let conflictIndex = 0;
+    return (merge()?.hunks || []).map((hunk) => ({
+      hunk,
+      index: hunk.type === "conflict" ? conflictIndex++ : -1,
+    }));
+  });
+
+  // Start each chapter with every hunk unresolved
+  createEffect(() => {
+    setResolutions(conflictHunks().map(() => ({ choice: null, text: "" })));
+  });
+
+  const resolveHunk = (index: number, choice: HunkResolution["choice"]) => {
+    const hunk = conflictHunks()[index];
+    setResolutions((prev) =>
+      prev.map((resolution, i) => {
+        if (i !== index) return resolution;
+        if (choice === "edit") {
+          // Seed the editor with whatever was chosen so far, or both versions
+          const seed =
+            resolution.choice === "local"
+              ? hunk.local
+              : resolution.choice === "cloud"
+              ? hunk.cloud
+              : resolution.choice === "edit"
+              ? resolution.text.split("\n")
+              : [...hunk.local, ...hunk.cloud];
+          return { choice, text: seed.join("\n") };
+        }
+        return { choice, text: "" };
+      })
+    );
+  };
+
+  const resolveAll = (choice: "local" | "cloud") => {
+    setResolutions(conflictHunks().map(() => ({ choice, text: "" })));
+  };
+
+  // A chapter whose versions now merge cleanly has nothing to pick; saving
+  // keeps the merged text and clears the conflict
+  const allResolved = () =>
+    resolutions().length === conflictHunks().length &&
+    resolutions().every((resolution) => resolution.choice !== null);
+
+  const handleSave = async () => {
+    const item = selectedItem();
+    const result = merge();
+    if (!item || !result || !allResolved()) return;
+
+    const content = joinHunks(result.hunks, (hunk, index) => {
+      const resolution = resolutions()[index];
+      if (resolution.choice === "local") return hunk.local;
+      if (resolution.choice === "cloud") return hunk.cloud;
+      return resolution.text.split("\n");
+    });
+
+    setSaving(true);
+    setError(null);
+    try {
+      await bookService.resolveChapterConflict(item.record.bookId, item.record.fileName, content);
+
+      // Reload the chapter if it is open in the editor
+      const openChapter = chapterStore.selectedChapter();
+      if (
+        bookStore.selectedBookId() === item.record.bookId &&
+        openChapter?.fileName === item.record.fileName
+      ) {
+        await chapterStore.selectChapter(openChapter.id);
+      }
+
+      await loadConflicts();
+      await bookStore.refetchBooks();
+      props.onResolved?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save resolution");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div class="fixed inset-0 z-[60]">
+        <div class="theme-bg-secondary w-full h-full overflow-hidden flex flex-col">
+          {/* Header */}
+          <div class="flex items-center justify-between p-6 theme-border-secondary border-b">
+            <div>
+              <h2 class="text-xl font-bold theme-text-primary">Resolve Conflicts</h2>
+              <p class="text-sm theme-text-tertiary mt-1">
+                These chapters were changed both here and in the cloud. Pick a version for each
+                conflicting section, then save.
+              </p>
+            </div>
+            <button
+              onClick={props.onClose}
+              class="theme-text-muted hover:theme-text-tertiary transition-colors"
+            >
+              <svg class="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  stroke-width="2"
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+
+          <div class="flex flex-1 overflow-hidden">
+            {/* Conflicted chapters */}
+            <aside class="w-1/4 p-4 theme-border-secondary border-r overflow-y-auto space-y-2">
+              <For
+                each={items()}
+                fallback={
+                  <Show when={!loading()}>
+                    <div class="text-center py-8 theme-text-muted">
+                      <div class="text-4xl mb-4">✅</div>
+                      <p>No conflicts to resolve.</p>
+                    </div>
+                  </Show>
+                }
+              >
+                {(item) => (
+                  <button
+                    onClick={() => setSelectedKey(item.record.key)}
+                    class={`w-full text-left p-3 border transition-colors ${
+                      selectedKey() === item.record.key ? "theme-card-selected" : "theme-card"
+                    }`}
+                  >
+                    <p class="font-medium theme-text-primary">{item.chapterTitle}</p>
+                    <p class="text-xs theme-text-tertiary mt-1">{item.bookName}</p>
+                    <p class="text-xs theme-text-muted mt-1">
+                      Detected:{" "}
+                      {new Date(item.record.conflict?.detectedAt || 0).toLocaleString()}
+                    </p>
+                  </button>
+                )}
+              </For>
+            </aside>
+
+            {/* Hunks */}
+            <div class="flex-1 p-6 overflow-y-auto">
+              <Show when={error()}>
+                <div class="mb-4 theme-alert">{error()}</div>
+              </Show>
+
+              <Show when={merge()}>
+                {(result) => (
+                  <div class="space-y-4">
+                    <div class="flex items-center justify-between">
+                      <span class="text-sm theme-text-tertiary">
+                        {result().conflicts > 0
+                          ? `${result().conflicts} conflicting section(s)`
+                          : "The versions now merge without conflicts. Save to keep the merged text."}
+                      </span>
+                      <Show when={result().conflicts > 0}>
+                        <div class="flex gap-2">
+                          <button
+                            onClick={() => resolveAll("local")}
+                            class="px-3 py-1 text-sm theme-btn-secondary"
+                          >
+                            Take all mine
+                          </button>
+                          <button
+                            onClick={() => resolveAll("cloud")}
+                            class="px-3 py-1 text-sm theme-btn-secondary"
+                          >
+                            Take all theirs
+                          </button>
+                        </div>
+                      </Show>
+                    </div>
+
+                    <For each={indexedHunks()}>
+                      {({ hunk, index }) => {
+                        if (hunk.type === "stable") {
+                          return (
+                            <pre class="text-sm whitespace-pre-wrap font-mono theme-text-muted px-3">
+                              {hunk.lines.join("\n")}
+                            </pre>
+                          );
+                        }
+
+                        const resolution = () => resolutions()[index];
+
+                        return (
+                          <div class="theme-card p-4 space-y-3">
+                            <div class="grid grid-cols-2 gap-4">
+                              <div
+                                class={`border p-3 ${
+                                  resolution()?.choice === "local"
+                                    ? "theme-border-focus"
+                                    : "theme-border-primary"
+                                }`}
+                              >
+                                <p class="text-xs font-medium theme-text-tertiary mb-2">
+                                  💾 Mine (this device)
+                                </p>
+                                <pre class="text-sm whitespace-pre-wrap font-mono theme-text-primary">
+                                  {hunk.local.join("\n")}
+                                </pre>
+                              </div>
+                              <div
+                                class={`border p-3 ${
+                                  resolution()?.choice === "cloud"
+                                    ? "theme-border-focus"
+                                    : "theme-border-primary"
+                                }`}
+                              >
+                                <p class="text-xs font-medium theme-text-tertiary mb-2">
+                                  ☁️ Theirs (cloud)
+                                </p>
+                                <pre class="text-sm whitespace-pre-wrap font-mono theme-text-primary">
+                                  {hunk.cloud.join("\n")}
+                                </pre>
+                              </div>
+                            </div>
+
+                            <div class="flex gap-2">
+                              <button
+                                onClick={() => resolveHunk(index, "local")}
+                                class={`px-3 py-1 text-sm ${
+                                  resolution()?.choice === "local"
+                                    ? "theme-btn-primary"
+                                    : "theme-btn-secondary"
+                                }`}
+                              >
+                                Take mine
+                              </button>
+                              <button
+                                onClick={() => resolveHunk(index, "cloud")}
+                                class={`px-3 py-1 text-sm ${
+                                  resolution()?.choice === "cloud"
+                                    ? "theme-btn-primary"
+                                    : "theme-btn-secondary"
+                                }`}
+                              >
+                                Take theirs
+                              </button>
+                              <button
+                                onClick={() => resolveHunk(index, "edit")}
+                                class={`px-3 py-1 text-sm ${
+                                  resolution()?.choice === "edit"
+                                    ? "theme-btn-primary"
+                                    : "theme-btn-secondary"
+                                }`}
+                              >
+                                Edit
+                              </button>
+                            </div>
+
+                            <Show when={resolution()?.choice === "edit"}>
+                              <textarea
+                                value={resolution()!.text}
+                                onInput={(e) => {
+                                  const text = e.currentTarget.value;
+                                  setResolutions((prev) =>
+                                    prev.map((r, i) => (i === index ? { ...r, text } : r))
+                                  );
+                                }}
+                                rows={Math.max(4, hunk.local.length + hunk.cloud.length)}
+                                class="w-full px-3 py-2 theme-input font-mono text-sm"
+                              />
+                            </Show>
+                          </div>
+                        );
+                      }}
+                    </For>
+                  </div>
+                )}
+              </Show>
+
+              <Show when={loading()}>
+                <div class="flex items-center justify-center py-8">
+                  <div class="animate-spin rounded-full h-8 w-8 border-b theme-spinner mr-3"></div>
+                  <span class="theme-text-tertiary">Loading conflicts...</span>
+                </div>
+              </Show>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div class="flex items-center justify-between p-6 theme-border-secondary border-t">
+            <div class="text-sm theme-text-muted">
+              {items().length} chapter{items().length !== 1 ? "s" : ""} in conflict
+            </div>
+            <div class="flex gap-3">
+              <button onClick={props.onClose} class="px-4 py-2 theme-btn-secondary">
+                Close
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!allResolved() || saving()}
+                class="px-4 py-2 theme-btn-primary disabled:opacity-50"
+              >
+                {saving() ? "Saving..." : "Save Resolution"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default ConflictResolutionModal;
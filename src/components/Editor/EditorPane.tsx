@@ -0,0 +1,710 @@
+import {
+  Component,
+  createEffect,
+  createSignal,
+  For,
+  Show,
+  createMemo,
+  onCleanup,
+  untrack,
+} from "solid-js";
+import { chapterStore } from "../../stores/chapterStore";
+import { settingsStore } from "../../stores/settingsStore";
+import { editorStore, FormatType } from "../../stores/editorStore";
+import { bookStore } from "../../stores/bookStore";
+import { goalStore } from "../../stores/goalStore";
+import { sprintStore } from "../../stores/sprintStore";
+import { PaneState, PaneView, SaveState, splitStore } from "../../stores/splitStore";
+import { tabStore } from "../../stores/tabStore";
+import { RevisionKind } from "../../services/revisionService";
+import RevisionHistoryModal from "./RevisionHistoryModal";
+import MarkdownEditor, { EditorChange, MarkdownEditorApi } from "./MarkdownEditor";
+import SourceEditor, { SourceChange, SourceEditorApi } from "./SourceEditor";
+import { getSceneBody, replaceSceneBody, stripSceneMarkers } from "../../utils/scenes";
+import { countWords } from "../../utils/manuscript";
+import { mergeText } from "../../utils/merge";
+import {
+  createEditHistory,
+  EditHistory,
+  HistorySelection,
+  RecordOptions,
+} from "../../utils/editHistory";
+import "../../styles/themes.css";
+
+// Optional: Add Tailwind's typography plugin for better preview styling
+// npm install -D @tailwindcss/typography
+// Then add `require('@tailwindcss/typography')` to plugins in tailwind.config.js
+// The 'prose' class used below will then be available.
+
+interface EditorPaneProps {
+  pane: PaneState;
+}
+
+const SAVE_STATE_LABELS: Record<SaveState, string> = {
+  saved: "Saved",
+  unsaved: "● Unsaved",
+  saving: "Saving...",
+  failed: "Save failed",
+};
+
+// One editor of the (possibly split) editor area, with its own text, undo
+// history, mode and save state
+const EditorPane: Component<EditorPaneProps> = (props) => {
+  const pane = props.pane;
+  const [currentContent, setCurrentContent] = createSignal("");
+  // Text as last loaded or saved, to tell whether the pane has unsaved edits
+  const [savedText, setSavedText] = createSignal("");
+  const [isSaving, setIsSaving] = createSignal(false);
+  const [saveFailed, setSaveFailed] = createSignal(false);
+  const [showHistory, setShowHistory] = createSignal(false);
+  let sourceEditor: SourceEditorApi | undefined;
+  let writeEditor: MarkdownEditorApi | undefined;
+  // Undo history of the open chapter or scene, kept across mode switches. The
+  // main pane keeps one for each tab, so it also survives switching tabs.
+  let history = createEditHistory();
+  const tabHistories = new Map<string, EditHistory>();
+  let openKey: string | null = null;
+  let openTab: { chapterId: string; sceneId: string | null } | null = null;
+
+  // Reload the editor only when the open chapter, scene or saved text changes,
+  // so metadata edits (title, status, labels...) keep unsaved text
+  const openChapterId = createMemo(() => pane.chapter()?.id);
+  const savedContent = createMemo(() => {
+    const chapter = pane.chapter();
+    return pane.view() === "notes" ? chapter?.notes || "" : chapter?.content;
+  });
+
+  // Text to show when the open chapter or scene was saved, here or elsewhere
+  // (the other pane, a restored revision). Unsaved edits are kept: the pane's
+  // own save leaves them as they are, and other changes are merged under them
+  // or, where they clash, the writer picks between the two.
+  const keptEdits = (stored: string): string => {
+    const edited = currentContent();
+    if (isSaving()) return edited;
+    if (edited === savedText()) return stored;
+
+    const merged = mergeText(savedText(), edited, stored);
+    if (merged.clean) return merged.content;
+    return confirm(
+      "This text was changed elsewhere in ways that clash with your unsaved edits. " +
+        "Keep your edits? Cancel shows the changed text instead."
+    )
+      ? edited
+      : stored;
+  };
+
+  createEffect(() => {
+    openChapterId();
+    savedContent();
+    const view = pane.view();
+    const sceneId = view === "chapter" ? pane.sceneId() : null;
+    const chapter = untrack(pane.chapter);
+    let content = "";
+    if (chapter && view === "notes") {
+      content = chapter.notes || "";
+    } else if (chapter) {
+      content = sceneId ? getSceneBody(chapter.content, chapter.scenes, sceneId) : chapter.content;
+    }
+
+    // Another chapter or scene starts a new history; a change to the open one
+    // from elsewhere (a restored revision, a replace) can be undone
+    const key = `${view}:${chapter?.id}:${sceneId}`;
+    if (key === openKey) {
+      const edited = untrack(() => keptEdits(content));
+      if (edited !== untrack(currentContent)) {
+        history.record(edited);
+        setCurrentContent(edited);
+      }
+    } else if (pane.id === "main" && chapter && chapter.id !== openTab?.chapterId) {
+      untrack(leaveTab);
+      openKey = key;
+      openTab = { chapterId: chapter.id, sceneId };
+      untrack(() => enterTab(chapter.id, sceneId, content));
+    } else {
+      openKey = key;
+      openTab = pane.id === "main" && chapter ? { chapterId: chapter.id, sceneId } : null;
+      history.reset(content);
+      setCurrentContent(content);
+    }
+    setSavedText(content);
+  });
+
+  const activeEditor = () => (pane.mode() === "write" ? writeEditor : sourceEditor);
+
+  const currentSelection = (): HistorySelection | undefined => {
+    if (pane.mode() === "code") {
+      return sourceEditor && { mode: "code", ...sourceEditor.selection() };
+    }
+    const selection = writeEditor?.selection();
+    return selection ? { mode: "write", selection } : undefined;
+  };
+
+  // Keep the unsaved text, cursor and scroll of the tab being left
+  const leaveTab = () => {
+    if (!openTab) return;
+    const dirty = currentContent() !== savedText();
+    tabStore.stash(openTab.chapterId, {
+      selection: currentSelection(),
+      scrollTop: activeEditor()?.scrollOffset(),
+      draft: dirty ? { sceneId: openTab.sceneId, content: currentContent() } : undefined,
+    });
+  };
+
+  // Show a tab as it was left: its unsaved text, undo history, cursor and scroll
+  const enterTab = (chapterId: string, sceneId: string | null, content: string) => {
+    const draft = tabStore.takeDraft(chapterId, sceneId);
+    const kept = tabHistories.get(chapterId);
+    history = kept || createEditHistory();
+    if (!kept) {
+      history.reset(content);
+      tabHistories.set(chapterId, history);
+    }
+    history.record(draft ?? content);
+    setCurrentContent(draft ?? content);
+
+    const tab = tabStore.tab(chapterId);
+    if (!tab?.selection && !tab?.scrollTop) return;
+    requestAnimationFrame(() => {
+      restoreSelection(tab.selection);
+      if (tab.scrollTop) activeEditor()?.scrollTo(tab.scrollTop);
+    });
+  };
+
+  // Forget the undo history of closed tabs
+  createEffect(() => {
+    const open = tabStore.tabs();
+    for (const chapterId of tabHistories.keys()) {
+      if (!open.some((tab) => tab.chapterId === chapterId)) tabHistories.delete(chapterId);
+    }
+  });
+
+  // Keep the open tab's unsaved text and place for the next visit
+  if (pane.id === "main") {
+    window.addEventListener("beforeunload", leaveTab);
+    onCleanup(() => window.removeEventListener("beforeunload", leaveTab));
+  }
+
+  createEffect(() => {
+    if (isSaving()) pane.setSaveState("saving");
+    else if (saveFailed()) pane.setSaveState("failed");
+    else pane.setSaveState(currentContent() === savedText() ? "saved" : "unsaved");
+  });
+
+  const editContent = (content: string, options: RecordOptions) => {
+    setCurrentContent(content);
+    history.record(content, options);
+  };
+
+  const handleWriteChange = (content: string, change: EditorChange) => {
+    editContent(content, {
+      before: { mode: "write", selection: change.before },
+      after: { mode: "write", selection: change.after },
+      group: change.group,
+    });
+  };
+
+  const handleCodeChange = (content: string, change: SourceChange) => {
+    editContent(content, {
+      before: { mode: "code", ...change.before },
+      after: { mode: "code", ...change.after },
+      group: change.group,
+    });
+  };
+
+  const restoreSelection = (selection?: HistorySelection) => {
+    if (selection?.mode === "write" && pane.mode() === "write") {
+      writeEditor?.select(selection.selection);
+    } else if (selection?.mode === "code" && pane.mode() === "code") {
+      sourceEditor?.select(selection);
+    }
+  };
+
+  const undo = () => {
+    const entry = history.undo();
+    if (!entry) return;
+    setCurrentContent(entry.content);
+    restoreSelection(entry.selection);
+  };
+
+  const redo = () => {
+    const entry = history.redo();
+    if (!entry) return;
+    setCurrentContent(entry.content);
+    restoreSelection(entry.selection);
+  };
+
+  // Full chapter text with the editor's content in place, which is only one
+  // scene when a scene is open
+  const chapterContent = (): string => {
+    const chapter = pane.chapter();
+    const sceneId = pane.sceneId();
+    if (!chapter || !sceneId || pane.view() === "notes") return currentContent();
+    return replaceSceneBody(chapter.content, chapter.scenes, sceneId, currentContent());
+  };
+
+  // Let a running sprint count the words of the open chapter as they change
+  createEffect(() => {
+    const chapter = pane.chapter();
+    if (!chapter || pane.view() === "notes" || !sprintStore.running()) return;
+    sprintStore.reportWords(chapter.id, countWords(stripSceneMarkers(chapterContent())));
+  });
+
+  // Listen for save events from the toolbar
+  createEffect(() => {
+    // A pane without edits has nothing to save, and saving it anyway could
+    // write back an older copy of text the other pane just saved
+    const handleSaveEvent = () => {
+      if (currentContent() !== savedText()) handleSave();
+    };
+
+    window.addEventListener("triggerSave", handleSaveEvent);
+
+    return () => {
+      window.removeEventListener("triggerSave", handleSaveEvent);
+    };
+  });
+
+  // Save functionality
+  const handleSave = async (revisionKind: RevisionKind = "manual") => {
+    const chapter = pane.chapter();
+    if (!chapter) return;
+
+    const book = bookStore.selectedBook();
+    const notes = pane.view() === "notes";
+    const content = chapterContent();
+
+    setIsSaving(true);
+    try {
+      const updated = notes
+        ? await pane.updateChapter({ notes: content })
+        : await pane.updateChapter({ content }, revisionKind);
+      if (!updated) throw new Error(`Chapter ${chapter.id} was not saved`);
+      setSaveFailed(false);
+      if (book && !notes) recordWordDelta(book.id, chapter.content, content);
+      // Show success message for manual saves
+      if (revisionKind === "manual" && !settingsStore.settings.autoSave) {
+        alert("Chapter saved successfully!");
+      }
+    } catch (error) {
+      console.error("Failed to save chapter:", error);
+      setSaveFailed(true);
+      alert("Failed to save chapter.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Writing history is a side record; a failure there must not fail the save
+  const recordWordDelta = (bookId: string, before: string, after: string) => {
+    const delta = countWords(stripSceneMarkers(after)) - countWords(stripSceneMarkers(before));
+    goalStore
+      .recordWords(bookId, delta)
+      .catch((err) => console.error("Failed to record words:", err));
+  };
+
+  // Autosave functionality - only triggers if autosave is enabled
+  const handleAutoSave = async () => {
+    if (!settingsStore.settings.autoSave) return;
+    await handleSave("auto");
+  };
+
+  // Switching what the pane shows saves its edits first, whether or not
+  // autosave is on. When the save fails the writer decides whether to switch.
+  const saveBeforeSwitch = async (): Promise<boolean> => {
+    if (currentContent() === savedText()) return true;
+    await handleSave("auto");
+    return !saveFailed() || confirm("Saving failed. Discard unsaved changes in this pane?");
+  };
+
+  // The main pane's text is also replaced by what is picked elsewhere, like in
+  // the chapter list, and by scene changes that rewrite chapter files
+  if (pane.id === "main") {
+    chapterStore.setOpenTextSaver(saveBeforeSwitch);
+    onCleanup(() => chapterStore.setOpenTextSaver(async () => true));
+  }
+
+  const handleRestoreRevision = async (content: string) => {
+    if (!pane.chapter()) return;
+
+    try {
+      // Keep the text being replaced in history before restoring. Revisions
+      // hold the whole chapter, so the editor reloads from the restored text.
+      await pane.updateChapter({ content: chapterContent() }, "manual");
+      await pane.updateChapter({ content }, "manual");
+    } catch (error) {
+      console.error("Failed to restore revision:", error);
+      alert("Failed to restore revision.");
+    }
+  };
+
+  // Both editors apply the toolbar's formats to their own selection
+  const applyFormat = (formatType: FormatType) => {
+    if (pane.mode() === "write") writeEditor?.applyFormat(formatType);
+    else sourceEditor?.applyFormat(formatType);
+  };
+
+  const showScenePicker = () =>
+    pane.view() === "chapter" && (pane.chapter()?.scenes.length || 0) > 1;
+
+  // Closing the split keeps the side pane's edits when autosave is on, and
+  // asks before dropping them otherwise
+  const closeSplit = async () => {
+    await handleAutoSave();
+    if (pane.saveState() === "unsaved" && !confirm("Discard unsaved changes in this pane?")) {
+      return;
+    }
+    splitStore.close();
+  };
+
+  // Reveal once the requested chapter is open as a whole and rendered. Search
+  // results and the like open in the main pane.
+  createEffect(() => {
+    const target = editorStore.reveal();
+    const chapter = pane.chapter();
+    if (pane.id !== "main" || !target) return;
+    if (chapter?.id !== target.chapterId || pane.sceneId()) return;
+
+    editorStore.setReveal(null);
+    requestAnimationFrame(() => {
+      if (pane.mode() === "code") sourceEditor?.reveal(target.index, target.length);
+      else writeEditor?.reveal(target.index, target.length);
+    });
+  });
+
+  return (
+    <div class="flex flex-col h-full">
+      {/* The side pane picks its own chapter, view and mode */}
+      <Show when={pane.id === "side"}>
+        <div class="flex items-center px-3 py-2 space-x-2 theme-bg-secondary theme-border-secondary border-b">
+          <select
+            value={pane.chapter()?.id || ""}
+            onChange={async (e) => {
+              const select = e.currentTarget;
+              const chapterId = select.value;
+              if (!chapterId) return;
+              if (!(await saveBeforeSwitch())) {
+                select.value = pane.chapter()?.id || "";
+                return;
+              }
+              pane.open(chapterId);
+            }}
+            class="text-xs theme-input px-2 py-1 min-w-0 max-w-[14rem]"
+            title="Chapter shown in this pane"
+          >
+            <option value="" disabled>
+              Choose a chapter...
+            </option>
+            <For each={chapterStore.chapters()}>
+              {(chapter) => <option value={chapter.id}>{chapter.title}</option>}
+            </For>
+          </select>
+          <select
+            value={pane.view()}
+            onChange={async (e) => {
+              const select = e.currentTarget;
+              const view = select.value as PaneView;
+              if (!(await saveBeforeSwitch())) {
+                select.value = pane.view();
+                return;
+              }
+              splitStore.setSideView(view);
+            }}
+            class="text-xs theme-input px-2 py-1"
+            title="Show the chapter's text or its notes"
+          >
+            <option value="chapter">Text</option>
+            <option value="notes">Notes</option>
+          </select>
+          <div class="flex-grow"></div>
+          <span class="text-xs theme-text-muted whitespace-nowrap">
+            {SAVE_STATE_LABELS[pane.saveState()]}
+          </span>
+          <button
+            onClick={() => pane.setMode(pane.mode() === "write" ? "code" : "write")}
+            class="px-2 py-1 text-xs theme-btn-secondary transition-colors whitespace-nowrap"
+            title={pane.mode() === "write" ? "Switch to Code View" : "Switch to Write View"}
+          >
+            {pane.mode() === "write" ? <>&lt;/&gt; Code</> : <>✏️ Write</>}
+          </button>
+          <button
+            onClick={() => splitStore.toggleDirection()}
+            class="px-2 py-1 text-xs theme-btn-secondary transition-colors"
+            title={
+              splitStore.direction() === "vertical" ? "Split top and bottom" : "Split side by side"
+            }
+          >
+            {splitStore.direction() === "vertical" ? "⬓" : "◫"}
+          </button>
+          <button
+            onClick={closeSplit}
+            class="px-2 py-1 text-xs theme-btn-secondary transition-colors"
+            title="Close split view"
+          >
+            ✕
+          </button>
+        </div>
+      </Show>
+
+      <div class="flex-grow min-h-0">
+        <Show
+          when={pane.chapter()}
+          fallback={
+            <div class="flex items-center justify-center h-full theme-text-muted">
+              <div class="text-center p-8">
+                <div class="text-6xl mb-4">📖</div>
+                <p class="font-medium text-lg theme-text-secondary">
+                  {pane.id === "main"
+                    ? "Select a chapter to start writing"
+                    : "Choose a chapter to show here"}
+                </p>
+                <p class="text-sm theme-text-muted mt-2">Your story awaits...</p>
+              </div>
+            </div>
+          }
+        >
+          <div class="flex justify-center h-full">
+            {/* Dynamic paragraph padding style */}
+            <style>{`.prose-clean p { padding-bottom: ${editorStore.paddingSize()} !important; }`}</style>
+            <div
+              style={
+                editorStore.textSize() === "960px"
+                  ? { width: "100%", "max-width": "960px" }
+                  : {
+                      width: `${editorStore.textSize()}%`,
+                      "max-width":
+                        editorStore.textSize() === 100 ? "none" : `${editorStore.textSize()}%`,
+                    }
+              }
+              class="flex flex-col h-full"
+            >
+              {/* Enhanced Toolbar */}
+              <div class="p-3 theme-border-secondary border-b">
+                <div class="flex flex-wrap items-center justify-center gap-y-2">
+                  {/* Scene picker for chapters with several scenes */}
+                  <Show when={showScenePicker()}>
+                    <select
+                      value={pane.sceneId() || ""}
+                      onChange={async (e) => {
+                        const select = e.currentTarget;
+                        const chapter = pane.chapter();
+                        const sceneId = select.value || null;
+                        if (!chapter) return;
+                        if (!(await saveBeforeSwitch())) {
+                          select.value = pane.sceneId() || "";
+                          return;
+                        }
+                        pane.open(chapter.id, sceneId);
+                      }}
+                      class="text-xs theme-input px-2 py-1 mr-2 max-w-[12rem]"
+                      title="Show one scene or the whole chapter"
+                    >
+                      <option value="">Whole chapter</option>
+                      <For each={pane.chapter()?.scenes}>
+                        {(scene, index) => (
+                          <option value={scene.id}>
+                            {index() + 1}. {scene.title}
+                          </option>
+                        )}
+                      </For>
+                    </select>
+                    <div class="w-px h-4 theme-border-primary bg-current mr-2"></div>
+                  </Show>
+
+                  {/* Formatting Tools - Always Available */}
+                  <div class="flex items-center space-x-1">
+                    <span class="theme-text-tertiary text-xs font-medium mr-2">Format:</span>
+
+                    {/* Text Formatting */}
+                    <button
+                      onClick={() => applyFormat("bold")}
+                      class="px-2 py-1 text-xs font-bold theme-btn-secondary transition-colors"
+                      title="Bold"
+                    >
+                      B
+                    </button>
+                    <button
+                      onClick={() => applyFormat("italic")}
+                      class="px-2 py-1 text-xs italic theme-btn-secondary transition-colors"
+                      title="Italic"
+                    >
+                      I
+                    </button>
+                    <button
+                      onClick={() => applyFormat("strikethrough")}
+                      class="px-2 py-1 text-xs theme-btn-secondary transition-colors line-through"
+                      title="Strikethrough"
+                    >
+                      S
+                    </button>
+
+                    <div class="w-px h-4 theme-border-primary bg-current mx-1"></div>
+
+                    {/* Headers */}
+                    <button
+                      onClick={() => applyFormat("h1")}
+                      class="px-2 py-1 text-xs font-bold theme-btn-secondary transition-colors"
+                      title="Heading 1"
+                    >
+                      H1
+                    </button>
+                    <button
+                      onClick={() => applyFormat("h2")}
+                      class="px-2 py-1 text-xs font-semibold theme-btn-secondary transition-colors"
+                      title="Heading 2"
+                    >
+                      H2
+                    </button>
+                    <button
+                      onClick={() => applyFormat("h3")}
+                      class="px-2 py-1 text-xs font-medium theme-btn-secondary transition-colors"
+                      title="Heading 3"
+                    >
+                      H3
+                    </button>
+
+                    <div class="w-px h-4 theme-border-primary bg-current mx-1"></div>
+
+                    {/* Lists */}
+                    <button
+                      onClick={() => applyFormat("bulletList")}
+                      class="px-2 py-1 text-xs theme-btn-secondary transition-colors"
+                      title="Bullet List"
+                    >
+                      •
+                    </button>
+                    <button
+                      onClick={() => applyFormat("orderedList")}
+                      class="px-2 py-1 text-xs theme-btn-secondary transition-colors"
+                      title="Numbered List"
+                    >
+                      1.
+                    </button>
+
+                    <div class="w-px h-4 theme-border-primary bg-current mx-1"></div>
+
+                    {/* Special Formatting */}
+                    <button
+                      onClick={() => applyFormat("code")}
+                      class="px-2 py-1 text-xs font-mono theme-btn-secondary transition-colors"
+                      title="Inline Code"
+                    >
+                      &lt;/&gt;
+                    </button>
+                    <button
+                      onClick={() => applyFormat("blockquote")}
+                      class="px-2 py-1 text-xs theme-btn-secondary transition-colors"
+                      title="Quote"
+                    >
+                      "
+                    </button>
+                    <button
+                      onClick={() => applyFormat("link")}
+                      class="px-2 py-1 text-xs theme-btn-secondary transition-colors"
+                      title="Link"
+                    >
+                      🔗
+                    </button>
+
+                    <div class="w-px h-4 theme-border-primary bg-current mx-1"></div>
+
+                    {/* Clear Formatting */}
+                    <button
+                      onClick={() => applyFormat("clear")}
+                      class="px-2 py-1 text-xs theme-btn-secondary transition-colors"
+                      title="Clear Formatting"
+                    >
+                      ✕
+                    </button>
+
+                    <div class="w-px h-4 theme-border-primary bg-current mx-1"></div>
+
+                    {/* Revision History */}
+                    <Show when={pane.view() === "chapter"}>
+                      <button
+                        onClick={() => setShowHistory(true)}
+                        class="px-2 py-1 text-xs theme-btn-secondary transition-colors"
+                        title="Revision History"
+                      >
+                        🕘
+                      </button>
+                    </Show>
+
+                    {/* Split the editor to work beside another chapter or notes */}
+                    <Show when={pane.id === "main" && !splitStore.isSplit()}>
+                      <div class="w-px h-4 theme-border-primary bg-current mx-1"></div>
+                      <button
+                        onClick={() => splitStore.split("vertical")}
+                        class="px-2 py-1 text-xs theme-btn-secondary transition-colors"
+                        title="Split side by side"
+                      >
+                        ◫
+                      </button>
+                      <button
+                        onClick={() => splitStore.split("horizontal")}
+                        class="px-2 py-1 text-xs theme-btn-secondary transition-colors"
+                        title="Split top and bottom"
+                      >
+                        ⬓
+                      </button>
+                    </Show>
+                    <Show when={pane.id === "main"}>
+                      <span class="text-xs theme-text-muted whitespace-nowrap ml-2">
+                        {SAVE_STATE_LABELS[pane.saveState()]}
+                      </span>
+                    </Show>
+                  </div>
+                </div>
+              </div>
+
+              {/* Editor Area */}
+              <div class="writing-editor-container flex-grow overflow-hidden flex flex-col">
+                <Show
+                  when={pane.mode() === "write"}
+                  fallback={
+                    /* Code Mode - Highlighted markdown source */
+                    <SourceEditor
+                      ref={(api) => (sourceEditor = api)}
+                      content={currentContent()}
+                      fontSize={editorStore.fontSize()}
+                      typewriter={editorStore.typewriterScrolling()}
+                      focusMode={editorStore.focusMode()}
+                      onChange={handleCodeChange}
+                      onUndo={undo}
+                      onRedo={redo}
+                      onBlur={handleAutoSave}
+                    />
+                  }
+                >
+                  {/* Write Mode - Formatted text edited through a document model */}
+                  <MarkdownEditor
+                    ref={(api) => (writeEditor = api)}
+                    content={currentContent()}
+                    fontSize={editorStore.fontSize()}
+                    typewriter={editorStore.typewriterScrolling()}
+                    focusMode={editorStore.focusMode()}
+                    onChange={handleWriteChange}
+                    onUndo={undo}
+                    onRedo={redo}
+                    onBlur={handleAutoSave}
+                  />
+                </Show>
+              </div>
+            </div>
+
+            <RevisionHistoryModal
+              isOpen={showHistory()}
+              onClose={() => setShowHistory(false)}
+              bookId={bookStore.selectedBookId() || ""}
+              fileName={pane.chapter()?.fileName || ""}
+              chapterTitle={pane.chapter()?.title || ""}
+              currentContent={chapterContent()}
+              onRestore={handleRestoreRevision}
+            />
+          </div>
+        </Show>
+      </div>
+    </div>
+  );
+};
+
+export default EditorPane;
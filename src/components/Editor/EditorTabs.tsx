@@ -0,0 +1,59 @@
+import { Component, For, Show } from "solid-js";
+import { chapterStore } from "../../stores/chapterStore";
+import { splitStore } from "../../stores/splitStore";
+import { EditorTab, tabStore } from "../../stores/tabStore";
+import "../../styles/themes.css";
+
+// Chapters open in the main editor, one tab each
+const EditorTabs: Component = () => {
+  const title = (tab: EditorTab) =>
+    chapterStore.chapters().find((ch) => ch.id === tab.chapterId)?.title || "Untitled";
+
+  const isActive = (tab: EditorTab) => chapterStore.selectedChapter()?.id === tab.chapterId;
+
+  // The open tab's editor knows whether it has unsaved text; the others keep theirs as a draft
+  const isDirty = (tab: EditorTab) =>
+    isActive(tab) ? splitStore.mainPane.saveState() !== "saved" : !!tab.draft;
+
+  const handleClose = (e: MouseEvent, tab: EditorTab) => {
+    e.stopPropagation();
+    if (isDirty(tab) && !confirm(`Close "${title(tab)}" and discard its unsaved changes?`)) {
+      return;
+    }
+    tabStore.close(tab.chapterId);
+  };
+
+  return (
+    <Show when={tabStore.tabs().length > 0}>
+      <nav class="flex overflow-x-auto theme-bg-secondary theme-border-secondary border-b">
+        <For each={tabStore.tabs()}>
+          {(tab) => (
+            <div
+              onClick={() => !isActive(tab) && tabStore.activate(tab.chapterId)}
+              class={`group flex items-center py-1.5 pl-3 pr-1 text-xs font-medium cursor-pointer whitespace-nowrap ${
+                isActive(tab) ? "theme-tab-active" : "theme-tab"
+              }`}
+              title={title(tab)}
+            >
+              <span class="max-w-[10rem] truncate">{title(tab)}</span>
+              <Show when={isDirty(tab)}>
+                <span class="ml-1" title="Unsaved changes">
+                  ●
+                </span>
+              </Show>
+              <button
+                onClick={(e) => handleClose(e, tab)}
+                class="ml-1 px-1 theme-text-muted theme-hover-text opacity-60 group-hover:opacity-100"
+                title="Close tab"
+              >
+                ×
+              </button>
+            </div>
+          )}
+        </For>
+      </nav>
+    </Show>
+  );
+};
+
+export default EditorTabs;
@@ -0,0 +1,724 @@
+import { Component, createEffect, on, onCleanup, onMount } from "solid-js";
+import { marked } from "marked";
+import { FocusMode, FormatType } from "../../stores/editorStore";
+import {
+  Block,
+  blockSpans,
+  blockText,
+  Mark,
+  MarkdownDocument,
+  MarkType,
+  normalizeRuns,
+  parseMarkdown,
+  reuseBlocks,
+  serializeMarkdown,
+  TextRun,
+} from "../../utils/markdownDocument";
+import {
+  blockLength,
+  caret,
+  clearFormatting,
+  deleteBackward,
+  deleteForward,
+  deleteSelection,
+  DocPosition,
+  DocSelection,
+  edited,
+  EditResult,
+  emptyParagraph,
+  hasMark,
+  insertLineBreak,
+  insertLink,
+  insertMarkdown,
+  insertText,
+  isCollapsed,
+  locateText,
+  marksAt,
+  setMark,
+  sliceDocument,
+  splitBlock,
+  toggleHeading,
+  toggleList,
+  toggleMark,
+  toggleQuote,
+} from "../../utils/documentEditing";
+import { isSceneMarker } from "../../utils/scenes";
+import { createFocusDimmer, movesCaret, sentenceAt } from "../../utils/writingFocus";
+import "../../styles/themes.css";
+
+export interface EditorChange {
+  before: DocSelection;
+  after: DocSelection;
+  group?: string; // typing and deleting undo a burst at a time
+}
+
+export interface MarkdownEditorApi {
+  applyFormat: (format: FormatType) => void;
+  selection: () => DocSelection | null;
+  select: (selection: DocSelection) => void;
+  reveal: (index: number, length: number) => void;
+  scrollOffset: () => number;
+  scrollTo: (top: number) => void;
+}
+
+interface MarkdownEditorProps {
+  content: string;
+  fontSize: number;
+  typewriter: boolean; // keep the cursor's line in the middle of the editor
+  focusMode: FocusMode;
+  onChange: (content: string, change: EditorChange) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onBlur: () => void;
+  ref?: (api: MarkdownEditorApi) => void;
+}
+
+type Edit = (doc: MarkdownDocument, selection: DocSelection) => EditResult | null;
+
+const MARK_FORMATS: Partial<Record<FormatType, MarkType>> = {
+  bold: "bold",
+  italic: "italic",
+  strikethrough: "strike",
+  code: "code",
+};
+
+const FORMAT_INPUTS: Record<string, FormatType> = {
+  formatBold: "bold",
+  formatItalic: "italic",
+  formatStrikeThrough: "strikethrough",
+};
+
+const MARK_TAGS: Record<MarkType, string> = {
+  bold: "strong",
+  italic: "em",
+  strike: "del",
+  code: "code",
+  link: "a",
+};
+
+// There is always a paragraph at the end to type into
+const withCursorBlock = (doc: MarkdownDocument): MarkdownDocument => {
+  const last = doc.blocks[doc.blocks.length - 1];
+  if (last && last.type !== "raw") return doc;
+  return { ...doc, blocks: [...doc.blocks, emptyParagraph()] };
+};
+
+function renderRun(run: TextRun): Node {
+  if (run.atom) {
+    const atom = document.createElement("span");
+    atom.contentEditable = "false";
+    atom.className = "md-atom";
+    atom.dataset.atom = "";
+    atom.dataset.source = run.text;
+    atom.textContent = run.text;
+    return atom;
+  }
+
+  let node: Node = document.createTextNode(run.text);
+  for (const mark of [...run.marks].reverse()) {
+    const element = document.createElement(MARK_TAGS[mark.type]);
+    if (mark.delim) element.dataset.delim = mark.delim;
+    if (mark.href !== undefined) {
+      element.dataset.href = mark.href;
+      element.title = mark.href;
+    }
+    element.appendChild(node);
+    node = element;
+  }
+  return node;
+}
+
+function renderBlock(block: Block): HTMLElement {
+  if (block.type === "raw") {
+    const element = document.createElement("div");
+    element.contentEditable = "false";
+    element.className = "md-raw";
+    const source = blockText({ ...block, type: "paragraph" });
+    if (isSceneMarker(source.trim())) {
+      element.classList.add("md-scene-break");
+      element.textContent = "⁂";
+    } else {
+      element.innerHTML = marked(source);
+    }
+    element.title = "Edit in code mode";
+    return element;
+  }
+
+  let element: HTMLElement;
+  if (block.type === "heading") {
+    element = document.createElement(`h${block.level || 1}`);
+  } else if (block.type === "code") {
+    element = document.createElement("pre");
+  } else if (block.list) {
+    const { ordered, marker, number, indent } = block.list;
+    element = document.createElement("div");
+    element.className = "md-list-item";
+    element.dataset.marker = ordered ? `${number}${marker}` : "•";
+    element.style.marginLeft = `${indent.length * 0.5}em`;
+  } else {
+    element = document.createElement("p");
+  }
+  if (block.quote) element.classList.add("md-quote");
+
+  const container =
+    block.type === "code" ? element.appendChild(document.createElement("code")) : element;
+  for (const run of block.runs) container.appendChild(renderRun(run));
+
+  // Lets the cursor sit in an empty block or on an empty last line
+  const text = blockText(block);
+  if (!text || text.endsWith("\n")) {
+    const filler = document.createElement("br");
+    filler.dataset.filler = "";
+    container.appendChild(filler);
+  }
+  return element;
+}
+
+const isText = (node: Node): node is Text => node.nodeType === Node.TEXT_NODE;
+
+// Text nodes and atoms of a rendered block, in order
+function leaves(node: Node, into: Node[] = []): Node[] {
+  for (const child of Array.from(node.childNodes)) {
+    if (isText(child)) into.push(child);
+    else if (child instanceof HTMLElement && child.dataset.atom !== undefined) into.push(child);
+    else if (child instanceof HTMLElement && child.tagName !== "BR") leaves(child, into);
+  }
+  return into;
+}
+
+const leafLength = (leaf: Node) => (isText(leaf) ? leaf.length : 1);
+const childIndex = (node: Node) =>
+  Array.from(node.parentNode!.childNodes).indexOf(node as ChildNode);
+
+function markOf(element: HTMLElement): Mark | null {
+  const delim = element.dataset.delim;
+  switch (element.tagName) {
+    case "STRONG":
+    case "B":
+      return { type: "bold", delim };
+    case "EM":
+    case "I":
+      return { type: "italic", delim };
+    case "DEL":
+    case "S":
+      return { type: "strike" };
+    case "CODE":
+      return { type: "code" };
+    case "A":
+      return { type: "link", href: element.dataset.href ?? element.getAttribute("href") ?? "" };
+    default:
+      return null;
+  }
+}
+
+// Formatted text of a rendered block after the browser changed it, e.g. while
+// composing with an input method
+function readRuns(element: HTMLElement, block: Block): TextRun[] {
+  const runs: TextRun[] = [];
+  const inline = block.type !== "code";
+
+  const visit = (node: Node, marks: Mark[]) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (isText(child)) {
+        runs.push({ text: child.data, marks });
+      } else if (child instanceof HTMLElement) {
+        if (child.dataset.atom !== undefined) {
+          runs.push({ text: child.dataset.source || "", marks, atom: true });
+        } else if (child.tagName === "BR") {
+          if (child.dataset.filler === undefined) runs.push({ text: "\n", marks });
+        } else {
+          const mark = inline ? markOf(child) : null;
+          visit(child, mark ? [...marks, mark] : marks);
+        }
+      }
+    }
+  };
+
+  visit(inline ? element : element.querySelector("code") || element, []);
+  return normalizeRuns(runs);
+}
+
+const sameSelection = (a: DocSelection | null, b: DocSelection | null) =>
+  !!a &&
+  !!b &&
+  a.anchor.block === b.anchor.block &&
+  a.anchor.offset === b.anchor.offset &&
+  a.head.block === b.head.block &&
+  a.head.offset === b.head.offset;
+
+// Write mode: the chapter's markdown shown formatted and edited through a
+// document model. The browser never changes the rendered text itself; each
+// input becomes an edit of the document, which is rendered again and
+// serialized back to markdown.
+const MarkdownEditor: Component<MarkdownEditorProps> = (props) => {
+  let root: HTMLDivElement | undefined;
+  let doc = withCursorBlock(parseMarkdown(props.content));
+  let content = props.content; // markdown of `doc`
+  let lastSelection: DocSelection | null = null;
+  // Formatting for the next typed text, set by toggling a mark without a selection
+  let storedMarks: Mark[] | null = null;
+  let composing = false;
+  const rendered = new WeakMap<Block, HTMLElement>();
+  let focused: HTMLElement | null = null; // block left undimmed by focus mode
+  const dimmer = createFocusDimmer();
+
+  const render = () => {
+    if (!root) return;
+    for (const node of Array.from(root.childNodes)) {
+      if (!(node instanceof HTMLElement) || !node.dataset.block) node.remove();
+    }
+
+    doc.blocks.forEach((block, index) => {
+      let element = rendered.get(block);
+      if (!element) {
+        element = renderBlock(block);
+        rendered.set(block, element);
+      }
+      element.dataset.block = String(index);
+      const current = root!.children[index];
+      if (current !== element) root!.insertBefore(element, current || null);
+    });
+    while (root.children.length > doc.blocks.length) root.lastElementChild!.remove();
+  };
+
+  const positionFromDom = (node: Node, offset: number): DocPosition | null => {
+    if (!root || !root.contains(node)) return null;
+
+    if (node === root) {
+      if (offset < doc.blocks.length) return { block: offset, offset: 0 };
+      const last = doc.blocks.length - 1;
+      return { block: last, offset: blockLength(doc.blocks[last]) };
+    }
+
+    let element = node;
+    while (element.parentNode !== root) element = element.parentNode!;
+    const index = Number((element as HTMLElement).dataset.block);
+    const block = doc.blocks[index];
+    if (!block) return null;
+    if (block.type === "raw") return { block: index, offset: 0 };
+
+    const point = document.createRange();
+    point.setStart(node, offset);
+    let count = 0;
+    for (const leaf of leaves(element)) {
+      if (leaf === node) {
+        return { block: index, offset: Math.min(count + offset, blockLength(block)) };
+      }
+      const end = isText(leaf)
+        ? point.comparePoint(leaf, leaf.length)
+        : point.comparePoint(leaf.parentNode!, childIndex(leaf) + 1);
+      if (end > 0) break;
+      count += leafLength(leaf);
+    }
+    return { block: index, offset: Math.min(count, blockLength(block)) };
+  };
+
+  const domFromPosition = (position: DocPosition): [Node, number] | null => {
+    const element = root?.children[position.block] as HTMLElement | undefined;
+    if (!element) return null;
+    const container = element.tagName === "PRE" ? element.firstChild! : element;
+    if (element.classList.contains("md-raw")) return [element, 0];
+
+    const all = leaves(element);
+    let remaining = position.offset;
+    for (const leaf of all) {
+      if (isText(leaf)) {
+        if (remaining <= leaf.length) return [leaf, remaining];
+        remaining -= leaf.length;
+      } else {
+        if (remaining === 0) return [leaf.parentNode!, childIndex(leaf)];
+        remaining -= 1;
+      }
+    }
+
+    const last = all[all.length - 1];
+    if (!last) return [container, 0];
+    return isText(last) ? [last, last.length] : [last.parentNode!, childIndex(last) + 1];
+  };
+
+  const readSelection = (): DocSelection | null => {
+    const selection = window.getSelection();
+    if (!selection?.anchorNode || !selection.focusNode) return null;
+    const anchor = positionFromDom(selection.anchorNode, selection.anchorOffset);
+    const head = positionFromDom(selection.focusNode, selection.focusOffset);
+    return anchor && head ? { anchor, head } : null;
+  };
+
+  const endOfDocument = (): DocSelection => {
+    const last = doc.blocks.length - 1;
+    return caret({ block: last, offset: blockLength(doc.blocks[last]) });
+  };
+
+  const currentSelection = () => readSelection() || lastSelection || endOfDocument();
+
+  const clamp = (position: DocPosition): DocPosition => {
+    const block = Math.max(0, Math.min(position.block, doc.blocks.length - 1));
+    const offset = Math.max(0, Math.min(position.offset, blockLength(doc.blocks[block])));
+    return { block, offset };
+  };
+
+  const writeSelection = (selection: DocSelection) => {
+    const anchor = domFromPosition(clamp(selection.anchor));
+    const head = domFromPosition(clamp(selection.head));
+    if (!anchor || !head) return;
+    if (document.activeElement !== root) root?.focus({ preventScroll: true });
+    window.getSelection()?.setBaseAndExtent(anchor[0], anchor[1], head[0], head[1]);
+    lastSelection = { anchor: clamp(selection.anchor), head: clamp(selection.head) };
+  };
+
+  // Scroll the editor so the cursor shows, e.g. `third` of the way down. With
+  // typewriter scrolling the cursor's line stays in the middle.
+  const scrollToSelection = (third = false) => {
+    const selection = window.getSelection();
+    if (!root || !selection?.rangeCount) return;
+
+    let rect = selection.getRangeAt(0).getBoundingClientRect();
+    if (rect.top === 0 && rect.bottom === 0 && lastSelection) {
+      rect = root.children[lastSelection.head.block]?.getBoundingClientRect() || rect;
+    }
+    const box = root.getBoundingClientRect();
+    const middle = (root.clientHeight - rect.height) / 2;
+    if (third) root.scrollTop += rect.top - box.top - root.clientHeight / 3;
+    else if (props.typewriter) root.scrollTop += rect.top - box.top - middle;
+    else if (rect.bottom > box.bottom) root.scrollTop += rect.bottom - box.bottom + 16;
+    else if (rect.top < box.top) root.scrollTop -= box.top - rect.top + 16;
+  };
+
+  const blockRange = (block: number, from: number, to: number): Range | null => {
+    const start = domFromPosition({ block, offset: from });
+    const end = domFromPosition({ block, offset: to });
+    if (from >= to || !start || !end) return null;
+    const range = document.createRange();
+    range.setStart(start[0], start[1]);
+    range.setEnd(end[0], end[1]);
+    return range;
+  };
+
+  // Leave the block with the cursor undimmed in focus mode; in sentence focus
+  // the rest of the block is dimmed around the cursor's sentence
+  const updateFocus = () => {
+    focused?.classList.remove("focus-current");
+    focused = null;
+    const selection = readSelection() || lastSelection;
+    const ranges: (Range | null)[] = [];
+
+    if (root && selection && props.focusMode !== "off") {
+      const { block: index, offset } = clamp(selection.head);
+      const block = doc.blocks[index];
+      focused = (root.children[index] as HTMLElement | undefined) || null;
+      focused?.classList.add("focus-current");
+
+      if (props.focusMode === "sentence" && block.type !== "raw" && block.type !== "code") {
+        const text = blockText(block);
+        const sentence = sentenceAt(text, offset);
+        ranges.push(blockRange(index, 0, sentence.start));
+        ranges.push(blockRange(index, sentence.end, text.length));
+      }
+    }
+    dimmer.set(ranges.filter((range): range is Range => range !== null));
+  };
+
+  const update = (
+    next: MarkdownDocument,
+    selection: DocSelection,
+    before: DocSelection,
+    group?: string
+  ) => {
+    doc = withCursorBlock(next);
+    render();
+    writeSelection(selection);
+    scrollToSelection();
+    updateFocus();
+    content = serializeMarkdown(doc);
+    props.onChange(content, { before, after: lastSelection || selection, group });
+  };
+
+  const run = (edit: Edit, group?: string, selection: DocSelection = currentSelection()) => {
+    const result = edit(doc, selection);
+    storedMarks = null;
+    if (result) update(result.doc, result.selection, selection, group);
+  };
+
+  // Take over a change the browser made to the rendered block itself
+  const syncFromDom = () => {
+    if (!root) return;
+    const selection = readSelection();
+    const index = selection?.head.block;
+    const element = index !== undefined ? (root.children[index] as HTMLElement) : undefined;
+    const block = index !== undefined ? doc.blocks[index] : undefined;
+    if (!selection || !element || !block || block.type === "raw") return;
+
+    const before = lastSelection || selection;
+    const changed = edited(block, { runs: readRuns(element, block) });
+    doc = { ...doc, blocks: doc.blocks.map((other, i) => (i === index ? changed : other)) };
+    const after = readSelection() || selection;
+    update(doc, after, before, "typing");
+  };
+
+  const toggleStoredMark = (selection: DocSelection, type: MarkType) => {
+    const marks = storedMarks || marksAt(doc, selection.head);
+    const next = marks.some((mark) => mark.type === type)
+      ? marks.filter((mark) => mark.type !== type)
+      : [
+          ...marks.filter((mark) => mark.type !== "code"),
+          { type },
+          ...marks.filter((mark) => mark.type === "code"),
+        ];
+    writeSelection(selection);
+    storedMarks = next;
+  };
+
+  const applyFormat = (format: FormatType) => {
+    const selection = currentSelection();
+    const markType = MARK_FORMATS[format];
+
+    if (markType) {
+      if (isCollapsed(selection)) toggleStoredMark(selection, markType);
+      else run((current) => toggleMark(current, selection, markType), undefined, selection);
+      return;
+    }
+
+    switch (format) {
+      case "h1":
+      case "h2":
+      case "h3":
+        run(
+          (current) => toggleHeading(current, selection, Number(format[1])),
+          undefined,
+          selection
+        );
+        break;
+      case "bulletList":
+      case "orderedList":
+        run(
+          (current) => toggleList(current, selection, format === "orderedList"),
+          undefined,
+          selection
+        );
+        break;
+      case "blockquote":
+        run((current) => toggleQuote(current, selection), undefined, selection);
+        break;
+      case "clear":
+        run((current) => clearFormatting(current, selection), undefined, selection);
+        break;
+      case "link": {
+        if (hasMark(doc, selection, "link")) {
+          run((current) => setMark(current, selection, "link", null), undefined, selection);
+          break;
+        }
+        const href = prompt("Link URL:", "https://");
+        if (!href) {
+          writeSelection(selection);
+          break;
+        }
+        run(
+          (current) =>
+            isCollapsed(selection)
+              ? insertLink(current, selection, "link text", href)
+              : setMark(current, selection, "link", { type: "link", href }),
+          undefined,
+          selection
+        );
+        break;
+      }
+    }
+  };
+
+  // The range an input replaces, e.g. the word for a spelling correction
+  const targetSelection = (event: InputEvent): DocSelection | null => {
+    const range = event.getTargetRanges?.()[0];
+    if (!range) return null;
+    const anchor = positionFromDom(range.startContainer, range.startOffset);
+    const head = positionFromDom(range.endContainer, range.endOffset);
+    return anchor && head ? { anchor, head } : null;
+  };
+
+  const handleBeforeInput = (event: InputEvent) => {
+    const type = event.inputType;
+    // Input that can't be cancelled, like composition, is read back afterwards
+    if (type === "insertCompositionText" || !event.cancelable) return;
+    event.preventDefault();
+
+    if (type === "insertText" || type === "insertReplacementText") {
+      const text = event.data ?? event.dataTransfer?.getData("text/plain") ?? "";
+      const target = type === "insertReplacementText" ? targetSelection(event) : null;
+      const marks = storedMarks;
+      run((current, selection) => insertText(current, target || selection, text, marks), "typing");
+    } else if (type === "insertParagraph") {
+      run(splitBlock);
+    } else if (type === "insertLineBreak") {
+      run(insertLineBreak);
+    } else if (type.startsWith("delete")) {
+      const backward = type.includes("Backward");
+      const single = type === "deleteContentBackward" || type === "deleteContentForward";
+      const target = single ? null : targetSelection(event);
+      run((current, selection) => {
+        if (target && !isCollapsed(target)) return deleteSelection(current, target);
+        return backward ? deleteBackward(current, selection) : deleteForward(current, selection);
+      }, "deleting");
+    } else if (type === "historyUndo") {
+      props.onUndo();
+    } else if (type === "historyRedo") {
+      props.onRedo();
+    } else if (FORMAT_INPUTS[type]) {
+      applyFormat(FORMAT_INPUTS[type]);
+    }
+    // Pasting and dropping are handled by their own events
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+    const key = event.key.toLowerCase();
+    if (key === "z" || key === "y") {
+      event.preventDefault();
+      if (key === "y" || event.shiftKey) props.onRedo();
+      else props.onUndo();
+    } else if (key === "b" || key === "i") {
+      event.preventDefault();
+      applyFormat(key === "b" ? "bold" : "italic");
+    }
+  };
+
+  const handleCopy = (event: ClipboardEvent) => {
+    const selection = readSelection();
+    if (!selection || isCollapsed(selection) || !event.clipboardData) return;
+
+    event.preventDefault();
+    const markdown = serializeMarkdown(sliceDocument(doc, selection));
+    event.clipboardData.setData("text/plain", markdown);
+    event.clipboardData.setData("text/html", marked(markdown));
+  };
+
+  const handleCut = (event: ClipboardEvent) => {
+    handleCopy(event);
+    if (event.defaultPrevented) run(deleteSelection);
+  };
+
+  const handlePaste = (event: ClipboardEvent) => {
+    event.preventDefault();
+    const text = event.clipboardData?.getData("text/plain").replace(/\r\n?/g, "\n");
+    if (text) run((current, selection) => insertMarkdown(current, selection, text));
+  };
+
+  // Forget marks stored for typing once the cursor moves elsewhere
+  const handleSelectionChange = () => {
+    const selection = readSelection();
+    if (!selection) return;
+    if (!sameSelection(selection, lastSelection)) storedMarks = null;
+    lastSelection = selection;
+    updateFocus();
+  };
+
+  const handleKeyUp = (event: KeyboardEvent) => {
+    if (props.typewriter && movesCaret(event)) scrollToSelection();
+  };
+
+  // A click that places the cursor brings its line to the middle
+  const handleMouseUp = () => {
+    const selection = readSelection();
+    if (props.typewriter && selection && isCollapsed(selection)) scrollToSelection();
+  };
+
+  const reveal = (index: number, length: number) => {
+    const spans = blockSpans(doc);
+    let target = -1;
+    spans.forEach((span, i) => {
+      if (span.text && span.start <= index) target = i;
+    });
+    if (target === -1) return;
+
+    const span = spans[target];
+    const text = content.slice(index, index + length);
+    const occurrence = span.text.slice(0, index - span.start).split(text).length - 1;
+    const at = locateText(doc.blocks[target], text, occurrence);
+    writeSelection(
+      at === -1
+        ? caret({ block: target, offset: 0 })
+        : {
+            anchor: { block: target, offset: at },
+            head: { block: target, offset: at + text.length },
+          }
+    );
+    scrollToSelection(true);
+  };
+
+  // Show text changed outside the editor (undo, reloads), keeping the
+  // elements of unchanged blocks
+  createEffect(
+    on(
+      () => props.content,
+      (next) => {
+        if (next === content) return;
+        doc = withCursorBlock(reuseBlocks(doc, parseMarkdown(next)));
+        content = next;
+        render();
+        updateFocus();
+      },
+      { defer: true }
+    )
+  );
+
+  createEffect(on(() => props.focusMode, updateFocus, { defer: true }));
+
+  onMount(() => {
+    render();
+    document.addEventListener("selectionchange", handleSelectionChange);
+    props.ref?.({
+      applyFormat,
+      selection: () => readSelection() || lastSelection,
+      select: (selection) => {
+        writeSelection(selection);
+        scrollToSelection();
+      },
+      reveal,
+      scrollOffset: () => root?.scrollTop || 0,
+      scrollTo: (top) => {
+        if (root) root.scrollTop = top;
+      },
+    });
+  });
+
+  onCleanup(() => {
+    document.removeEventListener("selectionchange", handleSelectionChange);
+    dimmer.clear();
+  });
+
+  return (
+    <div
+      ref={root}
+      contentEditable={true}
+      spellcheck={true}
+      class="writing-editor markdown-editor h-full w-full p-4 prose prose-lg max-w-none typewriter-text prose-clean theme-text-primary leading-relaxed overflow-auto"
+      onBeforeInput={handleBeforeInput}
+      onInput={() => {
+        if (!composing) syncFromDom();
+      }}
+      onCompositionStart={() => (composing = true)}
+      onCompositionEnd={() => {
+        composing = false;
+        syncFromDom();
+      }}
+      onKeyDown={handleKeyDown}
+      onKeyUp={handleKeyUp}
+      onMouseUp={handleMouseUp}
+      onCopy={handleCopy}
+      onCut={handleCut}
+      onPaste={handlePaste}
+      onDrop={(e) => e.preventDefault()}
+      onDragStart={(e) => e.preventDefault()}
+      onBlur={props.onBlur}
+      classList={{ "focus-mode": props.focusMode !== "off" }}
+      style={{
+        border: "none",
+        outline: "none",
+        "font-size": `${props.fontSize}px`,
+        // Room below the last line to bring it up to the middle
+        "padding-bottom": props.typewriter ? "50vh" : undefined,
+      }}
+    />
+  );
+};
+
+export default MarkdownEditor;
@@ -0,0 +1,194 @@
+import { Component, createEffect, createMemo, createSignal, For, Show } from "solid-js";
+import { revisionService } from "../../services/revisionService";
+import { ChapterRevision } from "../../services/indexedDB";
+import { diffWords } from "../../utils/diff";
+import "../../styles/themes.css";
+
+interface RevisionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bookId: string;
+  fileName: string;
+  chapterTitle: string;
+  currentContent: string;
+  onRestore: (content: string) => void;
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const RevisionHistoryModal: Component<RevisionHistoryModalProps> = (props) => {
+  const [revisions, setRevisions] = createSignal<ChapterRevision[]>([]);
+  const [selectedId, setSelectedId] = createSignal<number | null>(null);
+  const [loading, setLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const loadRevisions = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const list = await revisionService.getRevisions(props.bookId, props.fileName);
+      setRevisions(list);
+      setSelectedId(list[0]?.id ?? null);
+    } catch (err) {
+      console.error("Failed to load revisions:", err);
+      setError("Failed to load revision history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load revisions when modal opens
+  createEffect(() => {
+    if (props.isOpen) {
+      loadRevisions();
+    }
+  });
+
+  const selectedRevision = () => revisions().find((rev) => rev.id === selectedId()) || null;
+
+  // Word-level changes from the selected revision to the current text
+  const diff = createMemo(() => {
+    const revision = selectedRevision();
+    if (!revision) return [];
+    return diffWords(revision.content, props.currentContent);
+  });
+
+  const handleRestore = () => {
+    const revision = selectedRevision();
+    if (!revision) return;
+
+    if (
+      !confirm(
+        `Restore the revision from ${new Date(
+          revision.createdAt
+        ).toLocaleString()}? The current text is kept in history.`
+      )
+    ) {
+      return;
+    }
+
+    props.onRestore(revision.content);
+    props.onClose();
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div class="fixed inset-0 z-50">
+        <div class="theme-bg-secondary w-full h-full overflow-hidden flex flex-col">
+          {/* Header */}
+          <div class="flex items-center justify-between p-6 theme-border-secondary border-b">
+            <div>
+              <h2 class="text-xl font-bold theme-text-primary">Revision History</h2>
+              <p class="text-sm theme-text-tertiary mt-1">{props.chapterTitle}</p>
+            </div>
+            <button
+              onClick={props.onClose}
+              class="theme-text-muted hover:theme-text-tertiary transition-colors"
+            >
+              <svg class="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  stroke-width="2"
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+
+          <div class="flex flex-1 overflow-hidden">
+            {/* Revision list */}
+            <aside class="w-1/4 p-4 theme-border-secondary border-r overflow-y-auto space-y-2">
+              <For
+                each={revisions()}
+                fallback={
+                  <Show when={!loading()}>
+                    <div class="text-center py-8 theme-text-muted">
+                      <div class="text-4xl mb-4">🕘</div>
+                      <p>No revisions yet.</p>
+                      <p class="text-sm mt-2">Revisions are recorded as you save.</p>
+                    </div>
+                  </Show>
+                }
+              >
+                {(revision) => (
+                  <button
+                    onClick={() => setSelectedId(revision.id!)}
+                    class={`w-full text-left p-3 border transition-colors ${
+                      selectedId() === revision.id ? "theme-card-selected" : "theme-card"
+                    }`}
+                  >
+                    <p class="font-medium theme-text-primary">
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </p>
+                    <p class="text-xs theme-text-tertiary mt-1">
+                      {revision.kind === "manual" ? "💾 Saved" : "✨ Autosave"} •{" "}
+                      {countWords(revision.content)} words
+                    </p>
+                  </button>
+                )}
+              </For>
+            </aside>
+
+            {/* Diff against the current text */}
+            <div class="flex-1 p-6 overflow-y-auto">
+              <Show when={error()}>
+                <div class="mb-4 theme-alert">{error()}</div>
+              </Show>
+
+              <Show when={selectedRevision()}>
+                <div class="flex items-center gap-4 mb-4 text-xs theme-text-tertiary">
+                  <span>Changes from this revision to the current text:</span>
+                  <span class="line-through text-red-600">removed</span>
+                  <span class="underline text-green-600">added</span>
+                </div>
+                <div class="text-sm whitespace-pre-wrap typewriter-text theme-text-primary leading-relaxed">
+                  <For each={diff()}>
+                    {(op) => (
+                      <span
+                        classList={{
+                          "line-through text-red-600": op.type === "delete",
+                          "underline text-green-600": op.type === "insert",
+                        }}
+                      >
+                        {op.items.join("")}
+                      </span>
+                    )}
+                  </For>
+                </div>
+              </Show>
+
+              <Show when={loading()}>
+                <div class="flex items-center justify-center py-8">
+                  <div class="animate-spin rounded-full h-8 w-8 border-b theme-spinner mr-3"></div>
+                  <span class="theme-text-tertiary">Loading revisions...</span>
+                </div>
+              </Show>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div class="flex items-center justify-between p-6 theme-border-secondary border-t">
+            <div class="text-sm theme-text-muted">
+              {revisions().length} revision{revisions().length !== 1 ? "s" : ""}
+            </div>
+            <div class="flex gap-3">
+              <button onClick={props.onClose} class="px-4 py-2 theme-btn-secondary">
+                Close
+              </button>
+              <button
+                onClick={handleRestore}
+                disabled={!selectedRevision()}
+                class="px-4 py-2 theme-btn-primary disabled:opacity-50"
+              >
+                Restore This Revision
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default RevisionHistoryModal;
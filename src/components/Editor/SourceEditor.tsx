@@ -0,0 +1,397 @@
+import { Component, createEffect, on, onCleanup, onMount } from "solid-js";
+import { FocusMode, FormatType } from "../../stores/editorStore";
+import { highlightMarkdown } from "../../utils/markdownHighlight";
+import {
+  clearFormatting,
+  continueBlock,
+  deletePair,
+  indentLines,
+  insertLink,
+  pairInput,
+  SourceState,
+  toggleHeading,
+  toggleList,
+  toggleQuote,
+  toggleWrap,
+} from "../../utils/sourceEditing";
+import { createFocusDimmer, movesCaret, paragraphAt, sentenceAt } from "../../utils/writingFocus";
+import "../../styles/themes.css";
+
+export interface SourceSelection {
+  start: number;
+  end: number;
+}
+
+export interface SourceChange {
+  before: SourceSelection;
+  after: SourceSelection;
+  group?: string; // typing undoes a burst at a time
+}
+
+export interface SourceEditorApi {
+  applyFormat: (format: FormatType) => void;
+  selection: () => SourceSelection;
+  select: (selection: SourceSelection) => void;
+  reveal: (index: number, length: number) => void;
+  scrollOffset: () => number;
+  scrollTo: (top: number) => void;
+}
+
+interface SourceEditorProps {
+  content: string;
+  fontSize: number;
+  typewriter: boolean; // keep the cursor's line in the middle of the editor
+  focusMode: FocusMode;
+  onChange: (content: string, change: SourceChange) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onBlur: () => void;
+  ref?: (api: SourceEditorApi) => void;
+}
+
+const FORMAT_WRAPS: Partial<Record<FormatType, string>> = {
+  bold: "**",
+  italic: "*",
+  code: "`",
+  strikethrough: "~~",
+};
+
+// Markdown source with syntax highlighting. The text is typed into a
+// transparent textarea laid over a highlighted copy of it; the textarea grows
+// with the text so both wrap and scroll together.
+const SourceEditor: Component<SourceEditorProps> = (props) => {
+  let scroller: HTMLDivElement | undefined;
+  let mirror: HTMLPreElement | undefined;
+  let textarea: HTMLTextAreaElement | undefined;
+  let content = props.content;
+  let rendered: string[] = [];
+  let selectionBefore: SourceSelection = { start: 0, end: 0 };
+  let focused: HTMLElement[] = []; // lines left undimmed by focus mode
+  const dimmer = createFocusDimmer();
+
+  // Update only the lines that changed since the last render, so typing
+  // stays fast in long chapters
+  const render = () => {
+    if (!mirror) return;
+    const html = highlightMarkdown(content.split("\n"));
+
+    let head = 0;
+    while (head < html.length && head < rendered.length && html[head] === rendered[head]) head++;
+    let tail = 0;
+    while (
+      tail < html.length - head &&
+      tail < rendered.length - head &&
+      html[html.length - 1 - tail] === rendered[rendered.length - 1 - tail]
+    ) {
+      tail++;
+    }
+
+    for (let i = rendered.length - head - tail; i > 0; i--) mirror.children[head].remove();
+    const anchor = mirror.children[head] || null;
+    for (const line of html.slice(head, html.length - tail)) {
+      const element = document.createElement("div");
+      element.innerHTML = line || "<br>";
+      mirror.insertBefore(element, anchor);
+    }
+    rendered = html;
+  };
+
+  const selection = (): SourceSelection => ({
+    start: textarea?.selectionStart || 0,
+    end: textarea?.selectionEnd || 0,
+  });
+
+  const state = (): SourceState => ({ text: content, ...selection() });
+
+  const lineOf = (index: number) => content.slice(0, index).split("\n").length - 1;
+
+  // The highlighted text node and offset showing a position of the text
+  const mirrorPoint = (index: number): [Node, number] | null => {
+    const line = mirror?.children[lineOf(index)];
+    if (!line) return null;
+
+    let remaining = index - (content.lastIndexOf("\n", index - 1) + 1);
+    const walker = document.createTreeWalker(line, NodeFilter.SHOW_TEXT);
+    let last: Text | null = null;
+    while (walker.nextNode()) {
+      last = walker.currentNode as Text;
+      if (remaining <= last.length) return [last, remaining];
+      remaining -= last.length;
+    }
+    return last ? [last, last.length] : [line, 0];
+  };
+
+  const mirrorRange = (from: number, to: number): Range | null => {
+    const start = mirrorPoint(from);
+    const end = mirrorPoint(to);
+    if (from >= to || !start || !end) return null;
+    const range = document.createRange();
+    range.setStart(start[0], start[1]);
+    range.setEnd(end[0], end[1]);
+    return range;
+  };
+
+  // Bring the cursor's line, not the whole wrapped paragraph, to the middle
+  const centerCaret = () => {
+    if (!scroller || !mirror || !textarea) return;
+    const point = mirrorPoint(textarea.selectionEnd);
+    if (!point) return;
+
+    const range = document.createRange();
+    range.setStart(point[0], point[1]);
+    let rect = range.getBoundingClientRect();
+    if (rect.height === 0 && point[0] instanceof Element) rect = point[0].getBoundingClientRect();
+    const box = scroller.getBoundingClientRect();
+    scroller.scrollTop += rect.top - box.top - (scroller.clientHeight - rect.height) / 2;
+  };
+
+  // Keep the line with the cursor in view; a wrapped paragraph taller than the
+  // editor is left where it is. With typewriter scrolling the cursor's line
+  // stays in the middle.
+  const scrollToCaret = () => {
+    if (!scroller || !mirror || !textarea) return;
+    if (props.typewriter) {
+      centerCaret();
+      return;
+    }
+    const line = mirror.children[lineOf(textarea.selectionEnd)] as HTMLElement | undefined;
+    if (!line || line.offsetHeight > scroller.clientHeight) return;
+
+    const top = line.offsetTop;
+    const bottom = top + line.offsetHeight;
+    if (bottom > scroller.scrollTop + scroller.clientHeight) {
+      scroller.scrollTop = bottom - scroller.clientHeight;
+    } else if (top < scroller.scrollTop) {
+      scroller.scrollTop = top;
+    }
+  };
+
+  // Leave the paragraph with the cursor undimmed in focus mode; in sentence
+  // focus the rest of the paragraph is dimmed around the cursor's sentence
+  const updateFocus = () => {
+    for (const line of focused) line.classList.remove("focus-current");
+    focused = [];
+    const ranges: (Range | null)[] = [];
+
+    if (mirror && props.focusMode !== "off") {
+      const caret = selection().end;
+      const lines = content.split("\n");
+      const paragraph = paragraphAt(lines, lineOf(caret));
+      focused = Array.from(mirror.children).slice(paragraph.start, paragraph.end) as HTMLElement[];
+      for (const line of focused) line.classList.add("focus-current");
+
+      if (props.focusMode === "sentence") {
+        const text = lines.slice(paragraph.start, paragraph.end).join("\n");
+        const from = lines
+          .slice(0, paragraph.start)
+          .reduce((sum, line) => sum + line.length + 1, 0);
+        const sentence = sentenceAt(text, caret - from);
+        ranges.push(mirrorRange(from, from + sentence.start));
+        ranges.push(mirrorRange(from + sentence.end, from + text.length));
+      }
+    }
+    dimmer.set(ranges.filter((range): range is Range => range !== null));
+  };
+
+  // The cursor moved without the text changing. Selecting text doesn't scroll.
+  const caretMoved = () => {
+    updateFocus();
+    const { start, end } = selection();
+    if (props.typewriter && start === end) centerCaret();
+  };
+
+  const apply = (next: SourceState, group?: string) => {
+    if (!textarea) return;
+    const before = selection();
+    textarea.value = next.text;
+    textarea.setSelectionRange(next.start, next.end);
+    content = next.text;
+    render();
+    scrollToCaret();
+    updateFocus();
+    props.onChange(content, { before, after: { start: next.start, end: next.end }, group });
+  };
+
+  const edit = (change: (current: SourceState) => SourceState | null, group?: string) => {
+    const next = change(state());
+    if (next) apply(next, group);
+    return next !== null;
+  };
+
+  const applyFormat = (format: FormatType) => {
+    textarea?.focus({ preventScroll: true });
+    const wrap = FORMAT_WRAPS[format];
+    if (wrap) {
+      edit((current) => toggleWrap(current, wrap));
+      return;
+    }
+
+    switch (format) {
+      case "h1":
+      case "h2":
+      case "h3":
+        edit((current) => toggleHeading(current, Number(format[1])));
+        break;
+      case "bulletList":
+      case "orderedList":
+        edit((current) => toggleList(current, format === "orderedList"));
+        break;
+      case "blockquote":
+        edit(toggleQuote);
+        break;
+      case "clear":
+        edit(clearFormatting);
+        break;
+      case "link":
+        edit(insertLink);
+        break;
+    }
+  };
+
+  const handleBeforeInput = (event: InputEvent) => {
+    if (event.inputType === "historyUndo" || event.inputType === "historyRedo") {
+      event.preventDefault();
+      if (event.inputType === "historyUndo") props.onUndo();
+      else props.onRedo();
+      return;
+    }
+
+    const char = event.data;
+    if (event.inputType === "insertText" && !event.isComposing && char?.length === 1) {
+      if (edit((current) => pairInput(current, char), "typing")) {
+        event.preventDefault();
+        return;
+      }
+    }
+    selectionBefore = selection();
+  };
+
+  // Take over a change the browser made to the text
+  const handleInput = () => {
+    if (!textarea) return;
+    content = textarea.value;
+    render();
+    scrollToCaret();
+    updateFocus();
+    props.onChange(content, { before: selectionBefore, after: selection(), group: "typing" });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.isComposing) return;
+
+    if (event.ctrlKey || event.metaKey) {
+      if (event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" || key === "y") {
+        event.preventDefault();
+        if (key === "y" || event.shiftKey) props.onRedo();
+        else props.onUndo();
+      } else if (key === "b" || key === "i") {
+        event.preventDefault();
+        applyFormat(key === "b" ? "bold" : "italic");
+      }
+      return;
+    }
+    if (event.altKey) return;
+
+    let handled = false;
+    if (event.key === "Enter" && !event.shiftKey) handled = edit(continueBlock);
+    else if (event.key === "Tab") handled = edit((current) => indentLines(current, event.shiftKey));
+    else if (event.key === "Backspace" && !event.shiftKey) handled = edit(deletePair, "typing");
+    if (handled) event.preventDefault();
+  };
+
+  const handleKeyUp = (event: KeyboardEvent) => {
+    if (movesCaret(event)) caretMoved();
+  };
+
+  // Text changed outside the editor (undo, reloads)
+  const sync = (next: string) => {
+    if (!textarea || next === content) return;
+    content = next;
+    textarea.value = next;
+    render();
+    updateFocus();
+  };
+
+  const select = (range: SourceSelection) => {
+    if (!textarea) return;
+    sync(props.content);
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(range.start, range.end);
+    scrollToCaret();
+    updateFocus();
+  };
+
+  const reveal = (index: number, length: number) => {
+    if (!textarea || !scroller || !mirror) return;
+    sync(props.content);
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(index, index + length);
+    const line = mirror.children[lineOf(index)] as HTMLElement | undefined;
+    if (line) scroller.scrollTop = Math.max(0, line.offsetTop - scroller.clientHeight / 3);
+    updateFocus();
+  };
+
+  // The textarea is as tall as its text, so only the editor around it scrolls
+  const keepUnscrolled = (event: Event) => {
+    const element = event.currentTarget as HTMLTextAreaElement;
+    element.scrollTop = 0;
+    element.scrollLeft = 0;
+  };
+
+  createEffect(on(() => props.content, sync, { defer: true }));
+  createEffect(on(() => props.focusMode, updateFocus, { defer: true }));
+  onCleanup(() => dimmer.clear());
+
+  onMount(() => {
+    if (textarea) textarea.value = content;
+    render();
+    updateFocus();
+    props.ref?.({
+      applyFormat,
+      selection,
+      select,
+      reveal,
+      scrollOffset: () => scroller?.scrollTop || 0,
+      scrollTo: (top) => {
+        if (scroller) scroller.scrollTop = top;
+      },
+    });
+  });
+
+  return (
+    <div ref={scroller} class="code-editor source-editor h-full w-full overflow-auto">
+      <div
+        class="relative min-h-full"
+        style={{
+          "font-size": `${props.fontSize}px`,
+          // Room below the last line to bring it up to the middle
+          "padding-bottom": props.typewriter ? "50vh" : undefined,
+        }}
+      >
+        <pre
+          ref={mirror}
+          aria-hidden="true"
+          class="source-editor-text p-4 font-mono leading-relaxed theme-text-primary"
+          classList={{ "focus-mode": props.focusMode !== "off" }}
+        />
+        <textarea
+          ref={textarea}
+          class="source-editor-text source-editor-input absolute inset-0 h-full w-full p-4 resize-none font-mono leading-relaxed overflow-hidden"
+          placeholder="# Start writing your markdown here..."
+          spellcheck={true}
+          onBeforeInput={handleBeforeInput}
+          onInput={handleInput}
+          onKeyDown={handleKeyDown}
+          onKeyUp={handleKeyUp}
+          onMouseUp={caretMoved}
+          onScroll={keepUnscrolled}
+          onBlur={props.onBlur}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SourceEditor;
@@ -0,0 +1,75 @@
+import { Component, Show } from "solid-js";
+import { goalStore } from "../../stores/goalStore";
+import "../../styles/themes.css";
+
+interface GoalProgressProps {
+  onOpenGoals: () => void;
+}
+
+const percent = (value: number, goal: number) => Math.min(100, Math.round((value / goal) * 100));
+
+// Live progress towards the book's goals, for the toolbar
+const GoalProgress: Component<GoalProgressProps> = (props) => {
+  const hasGoals = () => !!(goalStore.goals().targetWords || goalStore.goals().sessionWords);
+
+  const progressBar = (value: number, goal: number) => (
+    <span class="block h-0.5 mt-0.5 theme-bg-hover">
+      <span
+        class="block h-full bg-emerald-500"
+        style={{ width: `${percent(Math.max(0, value), goal)}%` }}
+      />
+    </span>
+  );
+
+  return (
+    <>
+      <button
+        onClick={props.onOpenGoals}
+        class="flex items-center space-x-3 px-2 py-1 text-xs border theme-btn-secondary transition-all duration-200"
+        title="Writing Goals"
+      >
+        <Show when={hasGoals()} fallback={<span>🎯 Goals</span>}>
+          <Show when={goalStore.goals().targetWords}>
+            {(target) => (
+              <span>
+                📖 {goalStore.bookWords().toLocaleString()} / {target().toLocaleString()}
+                {progressBar(goalStore.bookWords(), target())}
+              </span>
+            )}
+          </Show>
+          <Show when={goalStore.pace()?.dailyTarget}>
+            {(daily) => (
+              <span class="hidden md:inline">
+                📅 {goalStore.pace()!.wordsToday.toLocaleString()} / {daily().toLocaleString()}
+                {progressBar(goalStore.pace()!.wordsToday, daily())}
+              </span>
+            )}
+          </Show>
+          <Show when={goalStore.goals().sessionWords}>
+            {(session) => (
+              <span class="hidden lg:inline">
+                ⏱️ {goalStore.sessionWords().toLocaleString()} / {session().toLocaleString()}
+                {progressBar(goalStore.sessionWords(), session())}
+              </span>
+            )}
+          </Show>
+        </Show>
+      </button>
+
+      <Show when={goalStore.celebration()}>
+        <div class="fixed top-16 right-4 z-[80] flex items-center px-4 py-3 theme-bg-secondary theme-border-primary border theme-shadow-medium">
+          <span class="text-sm font-medium theme-text-primary">{goalStore.celebration()}</span>
+          <button
+            onClick={goalStore.dismissCelebration}
+            class="ml-3 theme-text-muted hover:theme-text-tertiary"
+            title="Dismiss"
+          >
+            ✕
+          </button>
+        </div>
+      </Show>
+    </>
+  );
+};
+
+export default GoalProgress;
@@ -1,11 +1,13 @@
 import type { Component, JSX } from "solid-js";
-import { Show } from "solid-js";
+import { Match, Show, Switch } from "solid-js";
 import { uiStore } from "@stores/uiStore";
 
 interface MainLayoutProps {
   chaptersPanel: JSX.Element;
   editorPanel: JSX.Element;
   ideasPanel: JSX.Element;
+  inspectorPanel: JSX.Element;
+  searchPanel: JSX.Element;
 }
 
 const MainLayout: Component<MainLayoutProps> = (props) => {
@@ -27,10 +29,39 @@ const MainLayout: Component<MainLayoutProps> = (props) => {
         {props.editorPanel}
       </main>
 
-      {/* Ideas Panel (Right) */}
+      {/* Ideas / Inspector / Search Panel (Right) */}
       <Show when={uiStore.showIdeas()}>
         <aside class="w-1/4 p-4 border-l border-gray-300 overflow-y-auto transition-all duration-300">
-          {props.ideasPanel}
+          <nav class="flex space-x-4 px-6 theme-border-secondary border-b">
+            <button
+              onClick={() => uiStore.setRightPanel("ideas")}
+              class={`py-2 px-1 font-medium text-sm ${
+                uiStore.rightPanel() === "ideas" ? "theme-tab-active" : "theme-tab"
+              }`}
+            >
+              💡 Ideas
+            </button>
+            <button
+              onClick={() => uiStore.setRightPanel("inspector")}
+              class={`py-2 px-1 font-medium text-sm ${
+                uiStore.rightPanel() === "inspector" ? "theme-tab-active" : "theme-tab"
+              }`}
+            >
+              🔎 Inspector
+            </button>
+            <button
+              onClick={() => uiStore.setRightPanel("search")}
+              class={`py-2 px-1 font-medium text-sm ${
+                uiStore.rightPanel() === "search" ? "theme-tab-active" : "theme-tab"
+              }`}
+            >
+              🔍 Search
+            </button>
+          </nav>
+          <Switch fallback={props.ideasPanel}>
+            <Match when={uiStore.rightPanel() === "inspector"}>{props.inspectorPanel}</Match>
+            <Match when={uiStore.rightPanel() === "search"}>{props.searchPanel}</Match>
+          </Switch>
         </aside>
       </Show>
     </div>
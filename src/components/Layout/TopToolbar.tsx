@@ -7,12 +7,20 @@ import { editorStore } from "@stores/editorStore";
 import SyncStatusComponent from "../SyncStatus";
 import { googleAuth } from "../../services/googleAuth";
 import BookManagementModal from "../Book/BookManagementModal";
+import CompileDialog from "../Book/CompileDialog";
+import WritingStatsDashboard from "../Book/WritingStatsDashboard";
+import GoalsDialog from "../Book/GoalsDialog";
+import GoalProgress from "./GoalProgress";
+import SprintControls from "../Sprint/SprintControls";
 import { bookService } from "../../services/bookService";
 import { chapterStore } from "@stores/chapterStore";
 import "../../styles/themes.css";
 
 const TopToolbar: Component = () => {
   const [showBookManagement, setShowBookManagement] = createSignal(false);
+  const [showCompile, setShowCompile] = createSignal(false);
+  const [showStats, setShowStats] = createSignal(false);
+  const [showGoals, setShowGoals] = createSignal(false);
   const [syncError, setSyncError] = createSignal<string | null>(null);
   const [syncSuccess, setSyncSuccess] = createSignal<string | null>(null);
   const [syncing, setSyncing] = createSignal(false);
@@ -129,9 +137,15 @@ const TopToolbar: Component = () => {
         setSyncSuccess(`"${book.name}" exported to cloud successfully!`);
       } else {
         // For cloud/imported books, use regular sync
-        await bookService.syncBookWithCloud(book.id, direction);
-        const action = direction === "push" ? "pushed to" : "pulled from";
-        setSyncSuccess(`"${book.name}" ${action} cloud successfully!`);
+        const summary = await bookService.syncBookWithCloud(book.id, direction);
+        if (summary && summary.conflicts.length > 0) {
+          setSyncError(
+            `"${book.name}" pulled with ${summary.conflicts.length} conflicting chapter(s).`
+          );
+        } else {
+          const action = direction === "push" ? "pushed to" : "pulled from";
+          setSyncSuccess(`"${book.name}" ${action} cloud successfully!`);
+        }
       }
 
       // Refresh book data
@@ -221,6 +235,36 @@ const TopToolbar: Component = () => {
                     />
                   </svg>
                 </button>
+
+                <button
+                  onClick={() => setShowCompile(true)}
+                  class="p-1.5 theme-btn-secondary transition-all duration-200"
+                  title="Compile Book"
+                >
+                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      stroke-linecap="round"
+                      stroke-linejoin="round"
+                      stroke-width="2"
+                      d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                    />
+                  </svg>
+                </button>
+
+                <button
+                  onClick={() => setShowStats(true)}
+                  class="p-1.5 theme-btn-secondary transition-all duration-200"
+                  title="Writing Statistics"
+                >
+                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      stroke-linecap="round"
+                      stroke-linejoin="round"
+                      stroke-width="2"
+                      d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+                    />
+                  </svg>
+                </button>
               </div>
             </Show>
           </div>
@@ -232,7 +276,8 @@ const TopToolbar: Component = () => {
               {/* Zen Mode Toggle */}
               <button
                 onClick={() => uiStore.toggleZenMode()}
-                class={`p-1.5 border transition-all duration-200 ${
+                disabled={uiStore.zenLocked()}
+                class={`p-1.5 border transition-all duration-200 disabled:opacity-50 ${
                   uiStore.isZenMode() ? "theme-btn-primary" : "theme-btn-secondary"
                 }`}
                 title={
@@ -301,6 +346,24 @@ const TopToolbar: Component = () => {
                 </svg>
               </button>
 
+              {/* Corkboard Toggle */}
+              <button
+                onClick={() => uiStore.toggleCorkboard()}
+                class={`p-1.5 border transition-all duration-200 ${
+                  uiStore.showCorkboard() ? "theme-btn-primary" : "theme-btn-secondary opacity-75"
+                }`}
+                title={uiStore.showCorkboard() ? "Back to Editor" : "Show Corkboard"}
+              >
+                <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    stroke-linecap="round"
+                    stroke-linejoin="round"
+                    stroke-width="2"
+                    d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z"
+                  />
+                </svg>
+              </button>
+
               <div class="w-px h-4 theme-border-primary bg-current"></div>
 
               {/* Editor Controls - Text Size and Mode */}
@@ -343,6 +406,9 @@ const TopToolbar: Component = () => {
 
             {/* Autosave Status and Save Button - Only show when a book is selected */}
             <Show when={bookStore.selectedBook()}>
+              <SprintControls />
+              <GoalProgress onOpenGoals={() => setShowGoals(true)} />
+
               <Show when={settingsStore.settings.autoSave}>
                 <span class="text-xs theme-text-tertiary font-medium flex items-center space-x-1 theme-border-primary border px-2 py-1">
                   <span>✨</span>
@@ -483,6 +549,19 @@ const TopToolbar: Component = () => {
         </div>
       </Show>
 
+      {/* Compile Dialog */}
+      <CompileDialog
+        book={showCompile() ? bookStore.selectedBook() : null}
+        onClose={() => setShowCompile(false)}
+      />
+
+      <WritingStatsDashboard
+        book={showStats() ? bookStore.selectedBook() : null}
+        onClose={() => setShowStats(false)}
+      />
+
+      <GoalsDialog isOpen={showGoals()} onClose={() => setShowGoals(false)} />
+
       {/* Book Management Modal */}
       <BookManagementModal
         isOpen={showBookManagement()}
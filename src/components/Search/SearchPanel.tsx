@@ -0,0 +1,559 @@
+import { Component, createEffect, createSignal, For, on, onCleanup, Show } from "solid-js";
+import { bookStore } from "../../stores/bookStore";
+import { chapterStore } from "../../stores/chapterStore";
+import { editorStore } from "../../stores/editorStore";
+import { uiStore } from "../../stores/uiStore";
+import {
+  searchService,
+  BookSearchResult,
+  LibrarySearchHit,
+  LibrarySearchResult,
+} from "../../services/searchService";
+import { replaceService, ReplacePreview } from "../../services/replaceService";
+import { ReplaceOperation } from "../../services/indexedDB";
+import { SearchMatch, SearchOptions } from "../../utils/search";
+import "../../styles/themes.css";
+
+const SEARCH_DELAY_MS = 300;
+
+const SearchPanel: Component = () => {
+  const [options, setOptions] = createSignal<SearchOptions>({
+    query: "",
+    caseSensitive: false,
+    wholeWord: false,
+    regex: false,
+  });
+  // "library" searches every local book through the full-text index
+  const [scope, setScope] = createSignal<"book" | "library">("book");
+  const [result, setResult] = createSignal<BookSearchResult | null>(null);
+  const [libraryResult, setLibraryResult] = createSignal<LibrarySearchResult | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+  const [searching, setSearching] = createSignal(false);
+  const [collapsed, setCollapsed] = createSignal<Set<string>>(new Set());
+  const [showReplace, setShowReplace] = createSignal(false);
+  const [replacement, setReplacement] = createSignal("");
+  const [preview, setPreview] = createSignal<ReplacePreview | null>(null);
+  const [excluded, setExcluded] = createSignal<Set<string>>(new Set());
+  const [replacing, setReplacing] = createSignal(false);
+  const [lastOperation, setLastOperation] = createSignal<ReplaceOperation | null>(null);
+  const [message, setMessage] = createSignal<string | null>(null);
+
+  const updateOptions = (changes: Partial<SearchOptions>) =>
+    setOptions({ ...options(), ...changes });
+
+  const runLibrarySearch = async () => {
+    const current = options();
+    if (!current.query) {
+      setLibraryResult(null);
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const found = await searchService.searchLibrary(current.query);
+      if (options() !== current || scope() !== "library") return;
+      setLibraryResult(found);
+      setError(null);
+    } catch (err) {
+      setLibraryResult(null);
+      setError("Search failed.");
+      console.error(err);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const runSearch = async () => {
+    if (scope() === "library") return runLibrarySearch();
+
+    const book = bookStore.selectedBook();
+    const current = options();
+    if (!book || !current.query) {
+      setResult(null);
+      setError(null);
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const found = await searchService.searchBook(book.id, current);
+      // Ignore results of a search that has been superseded
+      if (options() !== current) return;
+      setResult(found);
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      if (err instanceof SyntaxError) {
+        setError(`Invalid regular expression: ${err.message}`);
+      } else {
+        setError("Search failed.");
+        console.error(err);
+      }
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  // Search as you type, after a short pause. Any change makes a replace
+  // preview stale.
+  let searchTimeout: ReturnType<typeof setTimeout> | null = null;
+  createEffect(
+    on([options, scope, bookStore.selectedBook], () => {
+      setPreview(null);
+      if (searchTimeout) clearTimeout(searchTimeout);
+      searchTimeout = setTimeout(runSearch, SEARCH_DELAY_MS);
+    })
+  );
+
+  const loadLastOperation = async () => {
+    const book = bookStore.selectedBook();
+    try {
+      setLastOperation(book ? await replaceService.getLastOperation(book.id) : null);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  createEffect(on(bookStore.selectedBook, loadLastOperation));
+  onCleanup(() => {
+    if (searchTimeout) clearTimeout(searchTimeout);
+  });
+
+  const toggleCollapsed = (chapterId: string) => {
+    const next = new Set(collapsed());
+    if (next.has(chapterId)) next.delete(chapterId);
+    else next.add(chapterId);
+    setCollapsed(next);
+  };
+
+  // Open the whole chapter, since the match may be in any of its scenes
+  const openMatch = async (chapterId: string, match: SearchMatch) => {
+    if (uiStore.showCorkboard()) uiStore.toggleCorkboard();
+    await chapterStore.selectChapter(chapterId, null);
+    editorStore.setReveal({ chapterId, index: match.index, length: match.length });
+  };
+
+  const openHit = async (hit: LibrarySearchHit) => {
+    if (uiStore.showCorkboard()) uiStore.toggleCorkboard();
+    if (bookStore.selectedBookId() !== hit.bookId) bookStore.selectBookById(hit.bookId);
+    await chapterStore.selectChapter(hit.chapterId, null);
+    if (hit.excerpt) {
+      editorStore.setReveal({
+        chapterId: hit.chapterId,
+        index: hit.excerpt.index,
+        length: hit.excerpt.length,
+      });
+    }
+  };
+
+  const switchScope = (next: "book" | "library") => {
+    setScope(next);
+    setError(null);
+    setMessage(null);
+  };
+
+  const handlePreviewReplace = async () => {
+    const book = bookStore.selectedBook();
+    if (!book || !options().query) return;
+
+    setMessage(null);
+    try {
+      setPreview(await replaceService.previewReplace(book.id, options(), replacement()));
+      setExcluded(new Set<string>());
+      setError(null);
+    } catch (err) {
+      setPreview(null);
+      if (err instanceof SyntaxError) {
+        setError(`Invalid regular expression: ${err.message}`);
+      } else {
+        setError("Failed to preview the replacement.");
+        console.error(err);
+      }
+    }
+  };
+
+  const toggleExcluded = (ids: string[], include: boolean) => {
+    const next = new Set(excluded());
+    for (const id of ids) {
+      if (include) next.delete(id);
+      else next.add(id);
+    }
+    setExcluded(next);
+  };
+
+  const selectedCount = () => (preview()?.total || 0) - excluded().size;
+
+  // The open chapter's text may have changed underneath the editor
+  const reloadOpenChapter = async () => {
+    const current = chapterStore.selectedChapter();
+    if (current) await chapterStore.selectChapter(current.id);
+  };
+
+  const handleApplyReplace = async () => {
+    const book = bookStore.selectedBook();
+    const currentPreview = preview();
+    if (!book || !currentPreview || selectedCount() === 0) return;
+
+    setReplacing(true);
+    try {
+      const result = await replaceService.applyReplace(book.id, currentPreview, excluded());
+      setPreview(null);
+      setMessage(
+        `Replaced ${result.replaced} ${result.replaced === 1 ? "match" : "matches"} in ` +
+          `${result.chapters} ${result.chapters === 1 ? "chapter" : "chapters"}.` +
+          (result.skipped.length > 0
+            ? ` Skipped chapters edited since the preview: ${result.skipped.join(", ")}.`
+            : "")
+      );
+      await Promise.all([reloadOpenChapter(), loadLastOperation(), runSearch()]);
+    } catch (err) {
+      setError("Failed to replace.");
+      console.error(err);
+    } finally {
+      setReplacing(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    const operation = lastOperation();
+    if (!operation) return;
+
+    setReplacing(true);
+    try {
+      const skippedFiles = await replaceService.undoReplace(operation);
+      const skipped = chapterStore
+        .chapters()
+        .filter((chapter) => skippedFiles.includes(chapter.fileName))
+        .map((chapter) => chapter.title);
+      setMessage(
+        `Undid ${operation.description}.` +
+          (skipped.length > 0 ? ` Left chapters edited since then: ${skipped.join(", ")}.` : "")
+      );
+      await Promise.all([reloadOpenChapter(), loadLastOperation(), runSearch()]);
+    } catch (err) {
+      setError("Failed to undo the replacement.");
+      console.error(err);
+    } finally {
+      setReplacing(false);
+    }
+  };
+
+  const toggleButton = (active: boolean) =>
+    `px-2 py-1 text-xs font-mono border transition-colors ${
+      active ? "theme-btn-primary" : "theme-btn-secondary"
+    }`;
+
+  const scopeButton = (active: boolean) =>
+    `flex-1 px-2 py-1 text-xs border transition-colors ${
+      active ? "theme-btn-primary" : "theme-btn-secondary"
+    }`;
+
+  return (
+    <div class="p-6 h-full">
+      <div class="space-y-2 mb-4">
+        <div class="flex">
+          <button onClick={() => switchScope("book")} class={scopeButton(scope() === "book")}>
+            This book
+          </button>
+          <button
+            onClick={() => switchScope("library")}
+            class={scopeButton(scope() === "library")}
+          >
+            All books
+          </button>
+        </div>
+        <input
+          type="text"
+          value={options().query}
+          onInput={(e) => updateOptions({ query: e.currentTarget.value })}
+          onKeyDown={(e) => e.key === "Enter" && runSearch()}
+          placeholder={scope() === "book" ? "Search the book..." : "Search all books..."}
+          class="w-full p-2 theme-input"
+        />
+        <Show when={scope() === "library"}>
+          <div class="flex items-center text-xs theme-text-muted">
+            <span class="flex-1">Matches word forms and beginnings of words</span>
+            <Show when={searching()}>Searching...</Show>
+            <Show when={!searching() && libraryResult()}>
+              {(found) => (
+                <>
+                  {found().total} {found().total === 1 ? "chapter" : "chapters"}
+                </>
+              )}
+            </Show>
+          </div>
+        </Show>
+        <div class="flex items-center space-x-1" classList={{ hidden: scope() !== "book" }}>
+          <button
+            onClick={() => updateOptions({ caseSensitive: !options().caseSensitive })}
+            class={toggleButton(options().caseSensitive)}
+            title="Match case"
+          >
+            Aa
+          </button>
+          <button
+            onClick={() => updateOptions({ wholeWord: !options().wholeWord })}
+            class={toggleButton(options().wholeWord)}
+            title="Whole words"
+          >
+            ab
+          </button>
+          <button
+            onClick={() => updateOptions({ regex: !options().regex })}
+            class={toggleButton(options().regex)}
+            title="Regular expression"
+          >
+            .*
+          </button>
+          <button
+            onClick={() => {
+              setShowReplace(!showReplace());
+              setPreview(null);
+            }}
+            class={toggleButton(showReplace())}
+            title="Find and replace"
+          >
+            ⇄
+          </button>
+          <span class="flex-1 text-right text-xs theme-text-muted">
+            <Show when={searching()}>Searching...</Show>
+            <Show when={!searching() && result()}>
+              {(found) => (
+                <>
+                  {found().total}
+                  {found().truncated ? "+" : ""} {found().total === 1 ? "match" : "matches"} in{" "}
+                  {found().chapters.length} {found().chapters.length === 1 ? "chapter" : "chapters"}
+                </>
+              )}
+            </Show>
+          </span>
+        </div>
+      </div>
+
+      <Show when={scope() === "library"}>
+        <Show when={error()}>
+          <div class="mb-4 theme-alert text-sm">{error()}</div>
+        </Show>
+
+        <Show when={libraryResult() && libraryResult()!.total === 0}>
+          <div class="text-center p-8 border-2 border-dashed theme-border-primary">
+            <div class="text-3xl mb-2">🔍</div>
+            <p class="text-sm theme-text-muted">No matches</p>
+          </div>
+        </Show>
+
+        <div class="space-y-2">
+          <For each={libraryResult()?.hits || []}>
+            {(hit) => (
+              <button
+                onClick={() => openHit(hit)}
+                class="w-full text-left px-3 py-2 text-xs border theme-card theme-hover-border theme-text-secondary"
+              >
+                <div class="flex items-center mb-1">
+                  <span class="flex-1 truncate text-sm font-medium theme-text-primary">
+                    {hit.title}
+                  </span>
+                  <span class="ml-2 truncate theme-text-muted">{hit.bookName}</span>
+                </div>
+                <Show when={hit.excerpt}>
+                  {(excerpt) => (
+                    <span class="break-words">
+                      {excerpt().before}
+                      <mark class="px-0.5 bg-yellow-200 text-black">{excerpt().text}</mark>
+                      {excerpt().after}
+                    </span>
+                  )}
+                </Show>
+              </button>
+            )}
+          </For>
+        </div>
+
+        <Show when={libraryResult() && libraryResult()!.total > libraryResult()!.hits.length}>
+          <p class="mt-3 text-xs theme-text-muted">
+            Showing the best {libraryResult()!.hits.length} chapters. Add words to narrow the
+            search.
+          </p>
+        </Show>
+      </Show>
+
+      <Show when={scope() === "book"}>
+        <Show when={showReplace()}>
+          <div class="flex items-center space-x-2 mb-4">
+            <input
+              type="text"
+              value={replacement()}
+              onInput={(e) => {
+                setReplacement(e.currentTarget.value);
+                setPreview(null);
+              }}
+              onKeyDown={(e) => e.key === "Enter" && handlePreviewReplace()}
+              placeholder={options().regex ? "Replace with ($1 for groups)..." : "Replace with..."}
+              class="flex-1 min-w-0 p-2 theme-input"
+            />
+            <button
+              onClick={handlePreviewReplace}
+              disabled={!options().query}
+              class="px-3 py-2 text-sm theme-btn-secondary disabled:opacity-50"
+            >
+              Preview
+            </button>
+          </div>
+        </Show>
+
+        <Show when={error()}>
+          <div class="mb-4 theme-alert text-sm">{error()}</div>
+        </Show>
+
+        <Show when={message()}>
+          <div class="mb-4 text-sm theme-text-secondary">{message()}</div>
+        </Show>
+
+        <Show when={lastOperation()}>
+          {(operation) => (
+            <div class="flex items-center justify-between mb-4 px-3 py-2 text-xs border theme-border-primary theme-text-muted">
+              <span class="truncate">Last replace: {operation().description}</span>
+              <button
+                onClick={handleUndo}
+                disabled={replacing()}
+                class="ml-2 px-2 py-0.5 theme-btn-secondary disabled:opacity-50"
+              >
+                ↶ Undo
+              </button>
+            </div>
+          )}
+        </Show>
+
+        <Show when={preview()}>
+          {(currentPreview) => (
+            <div class="mb-6">
+              <div class="flex items-center justify-between mb-3">
+                <span class="text-sm theme-text-secondary">
+                  {selectedCount()} of {currentPreview().total} selected
+                </span>
+                <div class="flex space-x-2">
+                  <button
+                    onClick={() => setPreview(null)}
+                    class="px-3 py-1.5 text-sm theme-btn-secondary"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleApplyReplace}
+                    disabled={replacing() || selectedCount() === 0}
+                    class="px-3 py-1.5 text-sm theme-btn-primary disabled:opacity-50"
+                  >
+                    {replacing() ? "Replacing..." : `Replace ${selectedCount()}`}
+                  </button>
+                </div>
+              </div>
+
+              <div class="space-y-3">
+                <For each={currentPreview().chapters}>
+                  {(chapter) => {
+                    const ids = chapter.matches.map((match) => match.id);
+                    return (
+                      <div>
+                        <label class="flex items-center text-sm font-medium theme-text-primary">
+                          <input
+                            type="checkbox"
+                            checked={ids.some((id) => !excluded().has(id))}
+                            onChange={(e) => toggleExcluded(ids, e.currentTarget.checked)}
+                            class="mr-2"
+                          />
+                          <span class="flex-1 truncate">{chapter.title}</span>
+                          <span class="ml-2 text-xs theme-text-muted">
+                            {chapter.matches.length}
+                          </span>
+                        </label>
+                        <div class="mt-1 space-y-1">
+                          <For each={chapter.matches}>
+                            {(match) => (
+                              <label class="flex items-start px-3 py-1.5 text-xs border theme-card theme-text-secondary">
+                                <input
+                                  type="checkbox"
+                                  checked={!excluded().has(match.id)}
+                                  onChange={(e) =>
+                                    toggleExcluded([match.id], e.currentTarget.checked)
+                                  }
+                                  class="mr-2 mt-0.5"
+                                />
+                                <span class="mr-2 theme-text-muted">{match.line}</span>
+                                <span class="break-words">
+                                  {match.before}
+                                  <del class="px-0.5 bg-red-200 text-black">{match.text}</del>
+                                  <ins class="px-0.5 bg-green-200 text-black no-underline">
+                                    {match.replacement}
+                                  </ins>
+                                  {match.after}
+                                </span>
+                              </label>
+                            )}
+                          </For>
+                        </div>
+                      </div>
+                    );
+                  }}
+                </For>
+              </div>
+            </div>
+          )}
+        </Show>
+
+        <Show when={result()?.truncated}>
+          <p class="mb-3 text-xs theme-text-muted">
+            Showing the first {result()!.total} matches. Narrow the search to see the rest.
+          </p>
+        </Show>
+
+        <Show when={result() && result()!.total === 0}>
+          <div class="text-center p-8 border-2 border-dashed theme-border-primary">
+            <div class="text-3xl mb-2">🔍</div>
+            <p class="text-sm theme-text-muted">No matches</p>
+          </div>
+        </Show>
+
+        <div class="space-y-3" classList={{ hidden: !!preview() }}>
+          <For each={result()?.chapters || []}>
+            {(chapter) => (
+              <div>
+                <button
+                  onClick={() => toggleCollapsed(chapter.chapterId)}
+                  class="w-full flex items-center text-left text-sm font-medium theme-text-primary"
+                >
+                  <span class="mr-1 w-4 text-xs theme-text-muted">
+                    {collapsed().has(chapter.chapterId) ? "▸" : "▾"}
+                  </span>
+                  <span class="flex-1 truncate">{chapter.title}</span>
+                  <span class="ml-2 text-xs theme-text-muted">{chapter.matches.length}</span>
+                </button>
+                <Show when={!collapsed().has(chapter.chapterId)}>
+                  <div class="mt-1 space-y-1">
+                    <For each={chapter.matches}>
+                      {(match) => (
+                        <button
+                          onClick={() => openMatch(chapter.chapterId, match)}
+                          class="w-full text-left px-3 py-1.5 text-xs border theme-card theme-hover-border theme-text-secondary"
+                          title={`Line ${match.line}`}
+                        >
+                          <span class="mr-2 theme-text-muted">{match.line}</span>
+                          <span class="break-words">
+                            {match.before}
+                            <mark class="px-0.5 bg-yellow-200 text-black">{match.text}</mark>
+                            {match.after}
+                          </span>
+                        </button>
+                      )}
+                    </For>
+                  </div>
+                </Show>
+              </div>
+            )}
+          </For>
+        </div>
+      </Show>
+    </div>
+  );
+};
+
+export default SearchPanel;
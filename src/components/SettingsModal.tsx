@@ -513,6 +513,56 @@ const SettingsModal: Component = () => {
                   </Show>
                 </div>
 
+                {/* Revision History */}
+                <div class="space-y-4 theme-border-secondary border-t pt-6">
+                  <h3 class="text-lg font-semibold theme-text-primary">Revision History</h3>
+
+                  <label class="flex items-center justify-between">
+                    <div class="flex flex-col">
+                      <span class="text-sm font-medium theme-text-secondary">
+                        Revisions per chapter
+                      </span>
+                      <span class="text-xs theme-text-muted">
+                        Oldest revisions are removed beyond this count
+                      </span>
+                    </div>
+                    <select
+                      value={settingsStore.settings.revisionRetentionCount}
+                      onChange={(e) =>
+                        settingsStore.updateSetting(
+                          "revisionRetentionCount",
+                          parseInt(e.currentTarget.value)
+                        )
+                      }
+                      class="text-sm theme-input px-2 py-1"
+                    >
+                      <option value={10}>10</option>
+                      <option value={25}>25</option>
+                      <option value={50}>50</option>
+                      <option value={100}>100</option>
+                    </select>
+                  </label>
+
+                  <label class="flex items-center justify-between">
+                    <span class="text-sm font-medium theme-text-secondary">Keep revisions for</span>
+                    <select
+                      value={settingsStore.settings.revisionRetentionDays}
+                      onChange={(e) =>
+                        settingsStore.updateSetting(
+                          "revisionRetentionDays",
+                          parseInt(e.currentTarget.value)
+                        )
+                      }
+                      class="text-sm theme-input px-2 py-1"
+                    >
+                      <option value={7}>1 week</option>
+                      <option value={30}>30 days</option>
+                      <option value={90}>90 days</option>
+                      <option value={0}>Forever</option>
+                    </select>
+                  </label>
+                </div>
+
                 {/* Zen Mode */}
                 <div class="space-y-4 theme-border-secondary border-t pt-6">
                   <h3 class="text-lg font-semibold theme-text-primary">Writing Experience</h3>
@@ -538,6 +588,76 @@ const SettingsModal: Component = () => {
                     </button>
                   </label>
 
+                  <label class="flex items-center justify-between">
+                    <div class="flex flex-col">
+                      <span class="text-sm font-medium theme-text-secondary">
+                        Typewriter Scrolling
+                      </span>
+                      <span class="text-xs theme-text-muted">
+                        Keep the line you are writing in the middle of the editor
+                      </span>
+                    </div>
+                    <button
+                      onClick={() =>
+                        editorStore.setTypewriterScrolling(!editorStore.typewriterScrolling())
+                      }
+                      class={`relative inline-flex h-6 w-11 items-center border transition-colors ${
+                        editorStore.typewriterScrolling()
+                          ? "theme-border-focus"
+                          : "theme-border-primary"
+                      }`}
+                    >
+                      <span
+                        class={`inline-block h-4 w-4 transform theme-border-hover border transition-transform ${
+                          editorStore.typewriterScrolling() ? "translate-x-6" : "translate-x-1"
+                        }`}
+                      />
+                    </button>
+                  </label>
+
+                  {/* Focus Mode */}
+                  <div class="space-y-2">
+                    <label class="text-sm font-medium theme-text-secondary">Focus Mode</label>
+                    <div class="flex items-center space-x-2">
+                      <button
+                        onClick={() => editorStore.setFocusMode("off")}
+                        class={`px-2 py-1 text-xs border transition-all duration-200 ${
+                          editorStore.focusMode() === "off"
+                            ? "theme-btn-primary"
+                            : "theme-btn-secondary"
+                        }`}
+                        title="Show all text"
+                      >
+                        Off
+                      </button>
+                      <button
+                        onClick={() => editorStore.setFocusMode("sentence")}
+                        class={`px-2 py-1 text-xs border transition-all duration-200 ${
+                          editorStore.focusMode() === "sentence"
+                            ? "theme-btn-primary"
+                            : "theme-btn-secondary"
+                        }`}
+                        title="Dim all but the current sentence"
+                      >
+                        Sentence
+                      </button>
+                      <button
+                        onClick={() => editorStore.setFocusMode("paragraph")}
+                        class={`px-2 py-1 text-xs border transition-all duration-200 ${
+                          editorStore.focusMode() === "paragraph"
+                            ? "theme-btn-primary"
+                            : "theme-btn-secondary"
+                        }`}
+                        title="Dim all but the current paragraph"
+                      >
+                        Paragraph
+                      </button>
+                    </div>
+                    <div class="text-xs theme-text-muted mt-1">
+                      Dims the text around the one you are writing, in write and code mode.
+                    </div>
+                  </div>
+
                   {/* Editor Width */}
                   <div class="space-y-2">
                     <label class="text-sm font-medium theme-text-secondary">Editor Width</label>
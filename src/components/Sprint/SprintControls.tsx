@@ -0,0 +1,70 @@
+import { Component, createSignal, Show } from "solid-js";
+import { sprintStore } from "../../stores/sprintStore";
+import { formatCountdown } from "../../utils/sprint";
+import SprintDialog from "./SprintDialog";
+import SprintSummary from "./SprintSummary";
+import "../../styles/themes.css";
+
+// Toolbar timer for writing sprints
+const SprintControls: Component = () => {
+  const [showDialog, setShowDialog] = createSignal(false);
+
+  const roundLabel = () =>
+    sprintStore.options().rounds > 1
+      ? ` · ${sprintStore.currentRound()}/${sprintStore.options().rounds}`
+      : "";
+
+  return (
+    <>
+      <Show
+        when={sprintStore.running()}
+        fallback={
+          <button
+            onClick={() => setShowDialog(true)}
+            class="px-2 py-1 text-xs border theme-btn-secondary transition-all duration-200"
+            title="Start a Writing Sprint"
+          >
+            🏃 Sprint
+          </button>
+        }
+      >
+        <div class="flex items-center space-x-1 text-xs">
+          <Show
+            when={sprintStore.phase() === "sprint"}
+            fallback={
+              <>
+                <span class="px-2 py-1 border theme-border-primary theme-text-secondary font-mono">
+                  ☕ {formatCountdown(sprintStore.remaining())}
+                </span>
+                <button
+                  onClick={sprintStore.skipBreak}
+                  class="px-2 py-1 border theme-btn-secondary"
+                  title="Skip Break"
+                >
+                  ⏭️
+                </button>
+              </>
+            }
+          >
+            <span class="px-2 py-1 border theme-btn-primary font-mono">
+              🏃 {formatCountdown(sprintStore.remaining())}
+              {roundLabel()} · {sprintStore.roundWords().toLocaleString()} words
+            </span>
+          </Show>
+          <button
+            onClick={sprintStore.stop}
+            class="px-2 py-1 border theme-btn-secondary"
+            title="Stop Sprint"
+          >
+            ⏹️
+          </button>
+        </div>
+      </Show>
+
+      <SprintDialog isOpen={showDialog()} onClose={() => setShowDialog(false)} />
+      <SprintSummary />
+    </>
+  );
+};
+
+export default SprintControls;
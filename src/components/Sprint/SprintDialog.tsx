@@ -0,0 +1,93 @@
+import { Component, createEffect, createSignal, Show } from "solid-js";
+import { settingsStore } from "../../stores/settingsStore";
+import { sprintStore } from "../../stores/sprintStore";
+import { SprintOptions } from "../../utils/sprint";
+import "../../styles/themes.css";
+
+interface SprintDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SprintDialog: Component<SprintDialogProps> = (props) => {
+  const [options, setOptions] = createSignal<SprintOptions>(settingsStore.settings.sprintOptions);
+
+  // Start from the options used last time
+  createEffect(() => {
+    if (props.isOpen) setOptions(settingsStore.settings.sprintOptions);
+  });
+
+  const update = (key: keyof SprintOptions, value: string) => {
+    const number = parseInt(value, 10);
+    if (number > 0) setOptions((prev) => ({ ...prev, [key]: number }));
+  };
+
+  const handleStart = () => {
+    sprintStore.start(options());
+    props.onClose();
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div class="fixed inset-0 z-[70] flex items-center justify-center p-4">
+        <div class="theme-bg-secondary theme-border-primary theme-shadow-medium max-w-sm w-full">
+          <div class="p-6">
+            <h3 class="text-lg font-semibold theme-text-primary mb-2">Writing Sprint</h3>
+            <p class="theme-text-tertiary mb-4 text-sm">
+              Write without distractions until the timer runs out. Zen mode stays on while the
+              sprint runs.
+            </p>
+
+            <div class="space-y-3 mb-6">
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Sprint (minutes)</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={options().minutes}
+                  onInput={(e) => update("minutes", e.currentTarget.value)}
+                  class="w-24 px-2 py-1 text-sm theme-input"
+                />
+              </label>
+
+              <label class="flex items-center justify-between">
+                <span class="text-sm font-medium theme-text-secondary">Rounds</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={options().rounds}
+                  onInput={(e) => update("rounds", e.currentTarget.value)}
+                  class="w-24 px-2 py-1 text-sm theme-input"
+                />
+              </label>
+
+              <Show when={options().rounds > 1}>
+                <label class="flex items-center justify-between">
+                  <span class="text-sm font-medium theme-text-secondary">Break (minutes)</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={options().breakMinutes}
+                    onInput={(e) => update("breakMinutes", e.currentTarget.value)}
+                    class="w-24 px-2 py-1 text-sm theme-input"
+                  />
+                </label>
+              </Show>
+            </div>
+
+            <div class="flex justify-end space-x-2">
+              <button onClick={props.onClose} class="px-4 py-2 text-sm theme-btn-secondary">
+                Cancel
+              </button>
+              <button onClick={handleStart} class="px-4 py-2 text-sm theme-btn-primary">
+                Start Sprint
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default SprintDialog;
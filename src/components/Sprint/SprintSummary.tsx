@@ -0,0 +1,71 @@
+import { Component, For, Show } from "solid-js";
+import { sprintStore } from "../../stores/sprintStore";
+import { formatCountdown, wordsPerMinute } from "../../utils/sprint";
+import "../../styles/themes.css";
+
+// Results of the rounds of a finished sprint
+const SprintSummary: Component = () => {
+  const totalWords = () => sprintStore.rounds().reduce((sum, round) => sum + round.words, 0);
+  const totalTime = () =>
+    sprintStore.rounds().reduce((sum, round) => sum + round.end - round.start, 0);
+
+  return (
+    <Show when={sprintStore.phase() === "summary"}>
+      <div class="fixed inset-0 z-[70] flex items-center justify-center p-4">
+        <div class="theme-bg-secondary theme-border-primary theme-shadow-medium max-w-sm w-full">
+          <div class="p-6">
+            <h3 class="text-lg font-semibold theme-text-primary mb-4">Sprint Finished 🏁</h3>
+
+            <div class="grid grid-cols-3 gap-3 mb-4 text-center">
+              <div class="p-3 theme-card">
+                <p class="text-2xl font-semibold theme-text-primary">
+                  {totalWords().toLocaleString()}
+                </p>
+                <p class="text-xs theme-text-muted">words</p>
+              </div>
+              <div class="p-3 theme-card">
+                <p class="text-2xl font-semibold theme-text-primary">
+                  {formatCountdown(totalTime())}
+                </p>
+                <p class="text-xs theme-text-muted">writing</p>
+              </div>
+              <div class="p-3 theme-card">
+                <p class="text-2xl font-semibold theme-text-primary">
+                  {wordsPerMinute(sprintStore.rounds())}
+                </p>
+                <p class="text-xs theme-text-muted">words/min</p>
+              </div>
+            </div>
+
+            <Show when={sprintStore.rounds().length > 1}>
+              <div class="mb-4 text-sm">
+                <For each={sprintStore.rounds()}>
+                  {(round, index) => (
+                    <div class="flex justify-between py-1 border-b theme-border-primary">
+                      <span class="theme-text-secondary">Round {index() + 1}</span>
+                      <span class="theme-text-muted">
+                        {formatCountdown(round.end - round.start)} ·{" "}
+                        {round.words.toLocaleString()} words
+                      </span>
+                    </div>
+                  )}
+                </For>
+              </div>
+            </Show>
+
+            <div class="flex justify-end">
+              <button
+                onClick={sprintStore.dismissSummary}
+                class="px-4 py-2 text-sm theme-btn-primary"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
+
+export default SprintSummary;
@@ -1,8 +1,10 @@
-import { Component, createSignal, onMount, onCleanup } from "solid-js";
+import { Component, createSignal, onMount, onCleanup, Show } from "solid-js";
 import { dataService, SyncStatus } from "../services/dataService";
+import ConflictResolutionModal from "./ConflictResolutionModal";
 
 const SyncStatusComponent: Component = () => {
   const [syncStatus, setSyncStatus] = createSignal<SyncStatus>("offline");
+  const [showConflicts, setShowConflicts] = createSignal(false);
   let intervalId: ReturnType<typeof setInterval>;
 
   const updateSyncStatus = async () => {
@@ -39,6 +41,8 @@ const SyncStatusComponent: Component = () => {
         return "📱";
       case "error":
         return "⚠️";
+      case "conflict":
+        return "⚔️";
       default:
         return "?";
     }
@@ -56,6 +60,8 @@ const SyncStatusComponent: Component = () => {
         return "Offline";
       case "error":
         return "Sync Error";
+      case "conflict":
+        return "Conflicts";
       default:
         return "Unknown";
     }
@@ -73,6 +79,8 @@ const SyncStatusComponent: Component = () => {
         return "text-gray-600";
       case "error":
         return "text-red-600";
+      case "conflict":
+        return "text-orange-600";
       default:
         return "text-gray-600";
     }
@@ -80,10 +88,30 @@ const SyncStatusComponent: Component = () => {
 
   return (
     <div class="flex items-center space-x-2 text-sm">
-      <div class={`flex items-center space-x-1 ${getStatusColor()}`}>
-        <span class="text-lg">{getStatusIcon()}</span>
-        <span>{getStatusText()}</span>
-      </div>
+      <Show
+        when={syncStatus() === "conflict"}
+        fallback={
+          <div class={`flex items-center space-x-1 ${getStatusColor()}`}>
+            <span class="text-lg">{getStatusIcon()}</span>
+            <span>{getStatusText()}</span>
+          </div>
+        }
+      >
+        <button
+          onClick={() => setShowConflicts(true)}
+          class={`flex items-center space-x-1 underline ${getStatusColor()}`}
+          title="Resolve sync conflicts"
+        >
+          <span class="text-lg">{getStatusIcon()}</span>
+          <span>{getStatusText()}</span>
+        </button>
+      </Show>
+
+      <ConflictResolutionModal
+        isOpen={showConflicts()}
+        onClose={() => setShowConflicts(false)}
+        onResolved={updateSyncStatus}
+      />
     </div>
   );
 };
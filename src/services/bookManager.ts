@@ -1,6 +1,18 @@
-import { indexedDBService, BookEntry, BookConfig, CloudBooksIndex, BookInfo } from "./indexedDB";
+import {
+  indexedDBService,
+  BookEntry,
+  BookConfig,
+  CloudBooksIndex,
+  BookInfo,
+  BookSnapshot,
+  BookSyncBase,
+  ChapterRecord,
+  migrateBookConfig,
+} from "./indexedDB";
 import { googleDriveService } from "./googleDrive";
 import { googleAuth } from "./googleAuth";
+import { mergeText } from "../utils/merge";
+import { flattenOutline, syncOutline } from "../utils/outline";
 
 export type BookSource = "local" | "cloud";
 export type SyncStatus = "in_sync" | "out_of_sync" | "local_only" | "cloud_only";
@@ -24,6 +36,23 @@ export interface CloudBookInfo {
   available: boolean; // whether it's available for import
 }
 
+// Outcome of merging a cloud copy of a book into the local one
+export interface ChapterMergeSummary {
+  updated: string[]; // took the cloud content (no local edits)
+  merged: string[]; // both sides changed, merged automatically
+  conflicts: string[]; // both sides changed the same lines
+  deleted: string[]; // removed in the cloud and unchanged locally
+}
+
+// How a chapter differs between two versions of a book
+export interface SnapshotChapterChange {
+  fileName: string;
+  title: string;
+  status: "added" | "removed" | "changed" | "unchanged";
+  before: string;
+  after: string;
+}
+
 class BookManagerService {
   async initialize(): Promise<void> {
     await indexedDBService.initialize();
@@ -189,6 +218,7 @@ class BookManagerService {
         cloudLastModified: bookInfo.lastModified,
         cloudFolderPath: cloudBookId,
         version: bookInfo.version,
+        syncBase: this.syncBase(bookInfo.name, bookInfo.config, Object.keys(chapters)),
       };
 
       await indexedDBService.saveBook(bookEntry);
@@ -223,14 +253,38 @@ class BookManagerService {
     try {
       await googleDriveService.initialize();
 
+      // Fold in edits made elsewhere first so the push doesn't overwrite them
+      let cloudFiles: string[] = [];
+      if (book.source === "cloud") {
+        const cloudBookData = await googleDriveService.importBook(bookId);
+        if (cloudBookData) {
+          cloudFiles = Object.keys(cloudBookData.chapters);
+          const summary = await this.mergeCloudBook(
+            bookId,
+            cloudBookData.bookInfo,
+            cloudBookData.chapters
+          );
+          if (summary.conflicts.length > 0) {
+            throw new Error(
+              `${summary.conflicts.length} chapter(s) have conflicting changes in the cloud. Resolve them before pushing.`
+            );
+          }
+        }
+      }
+
+      const mergedBook = await this.getBook(bookId);
+      if (!mergedBook) {
+        throw new Error(`Book with id ${bookId} not found`);
+      }
+
       // Prepare book info
       const bookInfo: BookInfo = {
         id: bookId,
-        name: book.name,
-        version: book.version,
-        createdAt: book.localLastModified, // Use local modified as created time
-        lastModified: book.localLastModified,
-        config: book.config,
+        name: mergedBook.name,
+        version: mergedBook.version,
+        createdAt: mergedBook.localLastModified, // Use local modified as created time
+        lastModified: mergedBook.localLastModified,
+        config: mergedBook.config,
       };
 
       // Get all chapters
@@ -247,13 +301,21 @@ class BookManagerService {
       // Export to cloud
       await googleDriveService.exportBook(bookId, bookInfo, chapters);
 
+      // Chapters deleted here since the last sync go from the cloud as well
+      for (const fileName of cloudFiles) {
+        if (!(fileName in chapters)) {
+          await googleDriveService.deleteChapterFileWithBookId(bookId, fileName);
+        }
+      }
+
       // Update local book status
-      book.source = book.source === "local" ? "cloud" : book.source;
-      book.syncStatus = "in_sync";
-      book.cloudLastModified = book.localLastModified;
-      book.cloudFolderPath = bookId;
+      mergedBook.source = mergedBook.source === "local" ? "cloud" : mergedBook.source;
+      mergedBook.syncStatus = "in_sync";
+      mergedBook.cloudLastModified = mergedBook.localLastModified;
+      mergedBook.cloudFolderPath = bookId;
+      mergedBook.syncBase = this.syncBase(mergedBook.name, mergedBook.config, chapterFiles);
 
-      await indexedDBService.saveBook(book);
+      await indexedDBService.saveBook(mergedBook);
 
       // Mark all chapters as synced
       for (const fileName of chapterFiles) {
@@ -268,7 +330,10 @@ class BookManagerService {
     }
   }
 
-  async syncBookWithCloud(bookId: string, direction: "push" | "pull"): Promise<void> {
+  async syncBookWithCloud(
+    bookId: string,
+    direction: "push" | "pull"
+  ): Promise<ChapterMergeSummary | null> {
     if (!googleAuth.signedIn) {
       throw new Error("Must be signed in to sync with cloud");
     }
@@ -288,9 +353,10 @@ class BookManagerService {
       if (direction === "push") {
         // Push local changes to cloud
         await this.exportBookToCloud(bookId);
+        return null;
       } else {
         // Pull cloud changes to local
-        await this.pullBookFromCloud(bookId);
+        return await this.pullBookFromCloud(bookId);
       }
     } catch (error) {
       console.error(`Failed to sync book ${direction}:`, error);
@@ -298,43 +364,171 @@ class BookManagerService {
     }
   }
 
-  private async pullBookFromCloud(bookId: string): Promise<void> {
+  private async pullBookFromCloud(bookId: string): Promise<ChapterMergeSummary> {
     const cloudBookData = await googleDriveService.importBook(bookId);
     if (!cloudBookData) {
       throw new Error(`Book with ID ${bookId} not found in cloud`);
     }
 
     const { bookInfo, chapters } = cloudBookData;
+    return await this.mergeCloudBook(bookId, bookInfo, chapters);
+  }
+
+  // Three-way merge of a cloud copy into the local book. Each chapter's base is
+  // the content recorded at its last sync: a side that still matches the base
+  // yields to the other, and edits on both sides are merged line by line.
+  // Overlapping edits keep the local text and mark the chapter as a conflict.
+  private async mergeCloudBook(
+    bookId: string,
+    bookInfo: BookInfo,
+    cloudChapters: { [fileName: string]: string }
+  ): Promise<ChapterMergeSummary> {
+    const summary: ChapterMergeSummary = { updated: [], merged: [], conflicts: [], deleted: [] };
+    const syncBase = (await this.getBook(bookId))?.syncBase;
+
+    for (const [fileName, cloudContent] of Object.entries(cloudChapters)) {
+      const record = await indexedDBService.getChapterRecord(bookId, fileName);
+
+      // Deleted here since the last sync; pushing deletes it from the cloud
+      if (!record && syncBase?.chapterFiles.includes(fileName)) continue;
+
+      // New in the cloud
+      if (!record) {
+        await indexedDBService.saveChapterContent(bookId, fileName, cloudContent, true);
+        await indexedDBService.markAsSynced("chapter", `${bookId}:${fileName}`);
+        summary.updated.push(fileName);
+        continue;
+      }
+
+      if (record.content === cloudContent) {
+        await indexedDBService.markAsSynced("chapter", record.key);
+        continue;
+      }
+
+      // Chapters synced before bases were recorded have no base; an unedited
+      // one is its own base, an edited one can't be merged safely
+      const base =
+        record.baseContent ?? (record.syncStatus === "synced" ? record.content : undefined);
+
+      if (base === undefined) {
+        await indexedDBService.markChapterConflict(bookId, fileName, cloudContent);
+        summary.conflicts.push(fileName);
+        continue;
+      }
+
+      if (record.content === base) {
+        await indexedDBService.saveChapterContent(bookId, fileName, cloudContent, true);
+        await indexedDBService.markAsSynced("chapter", record.key);
+        summary.updated.push(fileName);
+        continue;
+      }
+
+      // Only changed locally
+      if (cloudContent === base) continue;
+
+      const result = mergeText(base, record.content, cloudContent);
+      if (result.clean) {
+        await indexedDBService.saveMergedChapter(bookId, fileName, result.content, cloudContent);
+        summary.merged.push(fileName);
+      } else {
+        await indexedDBService.markChapterConflict(bookId, fileName, cloudContent);
+        summary.conflicts.push(fileName);
+      }
+    }
+
+    // Chapters missing from the cloud were either deleted there (if untouched
+    // here since the last sync) or are new local chapters that must be kept
+    const localRecords = await indexedDBService.listChapterRecords(bookId);
+    for (const record of localRecords) {
+      if (!(record.fileName in cloudChapters) && record.syncStatus === "synced") {
+        await indexedDBService.deleteChapterContent(bookId, record.fileName);
+        summary.deleted.push(record.fileName);
+      }
+    }
+
     const book = await this.getBook(bookId);
     if (!book) {
       throw new Error(`Book with id ${bookId} not found locally`);
     }
 
-    // Update local book with cloud data
-    book.name = bookInfo.name;
-    book.config = bookInfo.config;
+    const remainingFiles = new Set(await indexedDBService.listChapterFiles(bookId));
+    const unsynced = (await indexedDBService.listChapterRecords(bookId)).some(
+      (record) => record.syncStatus !== "synced"
+    );
+    const cloudConfig = syncOutline(migrateBookConfig(bookInfo.config));
+
+    // Update local book with cloud data, keeping what was changed here
+    book.name = syncBase && book.name === syncBase.name ? bookInfo.name : book.name;
+    book.config = this.mergeBookConfig(syncBase?.config, book.config, cloudConfig, remainingFiles);
     book.version = bookInfo.version;
     book.cloudLastModified = bookInfo.lastModified;
     book.localLastModified = Date.now();
-    book.syncStatus = "in_sync";
+    book.syncBase = this.syncBase(bookInfo.name, cloudConfig, Object.keys(cloudChapters));
+    const changedHere =
+      book.name !== bookInfo.name || JSON.stringify(book.config) !== JSON.stringify(cloudConfig);
+    book.syncStatus = unsynced || changedHere ? "out_of_sync" : "in_sync";
 
     await indexedDBService.saveBook(book);
 
-    // Update all chapters
-    const localChapterFiles = await indexedDBService.listChapterFiles(bookId);
+    return summary;
+  }
 
-    // Delete chapters that no longer exist in cloud
-    for (const fileName of localChapterFiles) {
-      if (!(fileName in chapters)) {
-        await indexedDBService.deleteChapterContent(bookId, fileName);
-      }
-    }
+  private syncBase(name: string, config: BookConfig, chapterFiles: string[]): BookSyncBase {
+    return { name, config: JSON.parse(JSON.stringify(config)), chapterFiles: [...chapterFiles] };
+  }
 
-    // Update/create chapters from cloud
-    for (const [fileName, content] of Object.entries(chapters)) {
-      await indexedDBService.saveChapterContent(bookId, fileName, content, true);
-      await indexedDBService.markAsSynced("chapter", `${bookId}:${fileName}`);
+  // Three-way merge of book configs against the one of the last sync: what
+  // wasn't changed here since takes the cloud's value, what was keeps the local
+  // one. Without a base (books synced before bases were kept) local wins.
+  // Chapters are merged one by one; the outline moves as a whole.
+  private mergeBookConfig(
+    baseConfig: BookConfig | undefined,
+    local: BookConfig,
+    cloud: BookConfig,
+    localFiles: Set<string>
+  ): BookConfig {
+    const base = baseConfig && syncOutline(migrateBookConfig(baseConfig));
+    const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+    const pick = <T>(baseValue: T | undefined, localValue: T, cloudValue: T): T =>
+      base && same(localValue, baseValue) ? cloudValue : localValue;
+
+    const ids = new Set([...local.chapterOrder, ...cloud.chapterOrder]);
+    [...local.chapters, ...cloud.chapters].forEach((chapter) => ids.add(chapter.id));
+
+    const chapters: BookConfig["chapters"] = [];
+    const ideas: BookConfig["ideas"] = {};
+    for (const id of ids) {
+      const mine = local.chapters.find((ch) => ch.id === id);
+      const theirs = cloud.chapters.find((ch) => ch.id === id);
+      const original = base?.chapters.find((ch) => ch.id === id);
+
+      let chapter = mine && theirs ? pick(original, mine, theirs) : mine || theirs;
+      // Deleted in the cloud, and its file went with the merge
+      if (mine && !theirs && !localFiles.has(mine.fileName)) chapter = undefined;
+      // Deleted here since the last sync
+      if (!mine && original) chapter = undefined;
+      if (!chapter) continue;
+
+      chapters.push(chapter);
+      const chapterIdeas = pick(base?.ideas[id], local.ideas[id], cloud.ideas[id]);
+      if (chapterIdeas) ideas[id] = chapterIdeas;
     }
+
+    // Chapters placed by neither outline land at the end, in local order first
+    const outline = pick(base?.outline, local.outline, cloud.outline);
+    const placed = flattenOutline(outline);
+    const unplaced = [...local.chapterOrder, ...cloud.chapterOrder].filter(
+      (id) => !placed.includes(id)
+    );
+
+    return syncOutline({
+      schemaVersion: pick(base?.schemaVersion, local.schemaVersion, cloud.schemaVersion),
+      chapters,
+      chapterOrder: [...placed, ...unplaced],
+      outline,
+      ideas,
+      goals: pick(base?.goals, local.goals, cloud.goals),
+    });
   }
 
   // Utility methods
@@ -365,6 +559,211 @@ class BookManagerService {
     return newBookId;
   }
 
+  // Named snapshots
+  async createSnapshot(bookId: string, label: string): Promise<BookSnapshot> {
+    const book = await this.getBook(bookId);
+    if (!book) {
+      throw new Error(`Book with id ${bookId} not found`);
+    }
+
+    const trimmedLabel = label.trim();
+    if (!trimmedLabel) {
+      throw new Error("Snapshot label cannot be empty");
+    }
+
+    const chapters: { [fileName: string]: string } = {};
+    for (const fileName of await indexedDBService.listChapterFiles(bookId)) {
+      const content = await indexedDBService.getChapterContent(bookId, fileName);
+      if (content !== null) {
+        chapters[fileName] = content;
+      }
+    }
+
+    const snapshot: BookSnapshot = {
+      id: `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      bookId,
+      label: trimmedLabel,
+      createdAt: Date.now(),
+      config: JSON.parse(JSON.stringify(book.config)),
+      chapters,
+    };
+
+    await indexedDBService.saveBookSnapshot(snapshot);
+
+    // Keep a copy next to the book in Drive. A failed upload is retried the
+    // next time the snapshots are listed.
+    if (book.source === "cloud" && googleAuth.signedIn) {
+      try {
+        await googleDriveService.initialize();
+        await googleDriveService.saveBookSnapshot(bookId, snapshot);
+        snapshot.uploaded = true;
+        await indexedDBService.saveBookSnapshot(snapshot);
+      } catch (error) {
+        console.error(`Failed to upload snapshot ${snapshot.id} to cloud:`, error);
+      }
+    }
+
+    return snapshot;
+  }
+
+  async listSnapshots(bookId: string): Promise<BookSnapshot[]> {
+    const book = await this.getBook(bookId);
+    if (!book) {
+      throw new Error(`Book with id ${bookId} not found`);
+    }
+
+    if (book.source === "cloud" && googleAuth.signedIn) {
+      try {
+        await this.syncSnapshotsWithCloud(bookId);
+      } catch (error) {
+        console.error(`Failed to sync snapshots for book ${bookId}:`, error);
+      }
+    }
+
+    return await indexedDBService.listBookSnapshots(bookId);
+  }
+
+  async getSnapshot(snapshotId: string): Promise<BookSnapshot | null> {
+    return await indexedDBService.getBookSnapshot(snapshotId);
+  }
+
+  async deleteSnapshot(bookId: string, snapshotId: string): Promise<void> {
+    const book = await this.getBook(bookId);
+    if (!book) {
+      throw new Error(`Book with id ${bookId} not found`);
+    }
+
+    const snapshot = await indexedDBService.getBookSnapshot(snapshotId);
+
+    // Remove the cloud copy first, otherwise the next sync would bring it back
+    if (book.source === "cloud" && snapshot?.uploaded) {
+      if (!googleAuth.signedIn) {
+        throw new Error("Must be signed in to delete a cloud snapshot");
+      }
+      await googleDriveService.initialize();
+      await googleDriveService.deleteBookSnapshot(bookId, snapshotId);
+    }
+
+    await indexedDBService.deleteBookSnapshot(snapshotId);
+  }
+
+  // Compare a snapshot against another snapshot, or against the current book
+  async compareSnapshots(
+    bookId: string,
+    fromSnapshotId: string,
+    toSnapshotId?: string
+  ): Promise<SnapshotChapterChange[]> {
+    const from = await indexedDBService.getBookSnapshot(fromSnapshotId);
+    if (!from || from.bookId !== bookId) {
+      throw new Error(`Snapshot ${fromSnapshotId} not found`);
+    }
+
+    let to: Pick<BookSnapshot, "config" | "chapters">;
+    if (toSnapshotId) {
+      const snapshot = await indexedDBService.getBookSnapshot(toSnapshotId);
+      if (!snapshot || snapshot.bookId !== bookId) {
+        throw new Error(`Snapshot ${toSnapshotId} not found`);
+      }
+      to = snapshot;
+    } else {
+      const book = await this.getBook(bookId);
+      if (!book) {
+        throw new Error(`Book with id ${bookId} not found`);
+      }
+      const chapters: { [fileName: string]: string } = {};
+      for (const record of await indexedDBService.listChapterRecords(bookId)) {
+        chapters[record.fileName] = record.content;
+      }
+      to = { config: book.config, chapters };
+    }
+
+    // Newer order first, then chapters that only exist in the older version
+    const ordered = (config: BookConfig) =>
+      config.chapterOrder
+        .map((id) => config.chapters.find((ch) => ch.id === id))
+        .filter(Boolean) as BookConfig["chapters"];
+    const chapters = [...ordered(to.config), ...ordered(from.config)];
+
+    const changes: SnapshotChapterChange[] = [];
+    const seen = new Set<string>();
+
+    for (const chapter of chapters) {
+      if (seen.has(chapter.fileName)) continue;
+      seen.add(chapter.fileName);
+
+      const before = from.chapters[chapter.fileName];
+      const after = to.chapters[chapter.fileName];
+      const inFrom = from.config.chapters.some((ch) => ch.fileName === chapter.fileName);
+      const inTo = to.config.chapters.some((ch) => ch.fileName === chapter.fileName);
+
+      changes.push({
+        fileName: chapter.fileName,
+        title: chapter.title,
+        status: !inFrom ? "added" : !inTo ? "removed" : before === after ? "unchanged" : "changed",
+        before: before ?? "",
+        after: after ?? "",
+      });
+    }
+
+    return changes;
+  }
+
+  async restoreSnapshot(bookId: string, snapshotId: string): Promise<void> {
+    const snapshot = await indexedDBService.getBookSnapshot(snapshotId);
+    if (!snapshot || snapshot.bookId !== bookId) {
+      throw new Error(`Snapshot ${snapshotId} not found`);
+    }
+
+    // Freeze the current state first so a restore can always be undone
+    await this.createSnapshot(bookId, `Before restoring "${snapshot.label}"`);
+
+    await this.updateBookConfig(bookId, JSON.parse(JSON.stringify(snapshot.config)));
+
+    for (const [fileName, content] of Object.entries(snapshot.chapters)) {
+      const current = await indexedDBService.getChapterContent(bookId, fileName);
+      if (current !== content) {
+        await indexedDBService.saveChapterContent(bookId, fileName, content, false);
+      }
+    }
+
+    // Drop chapters created after the snapshot was taken
+    for (const fileName of await indexedDBService.listChapterFiles(bookId)) {
+      if (!(fileName in snapshot.chapters)) {
+        await indexedDBService.deleteChapterContent(bookId, fileName);
+      }
+    }
+  }
+
+  // Reconcile local snapshots with the ones stored in Drive
+  private async syncSnapshotsWithCloud(bookId: string): Promise<void> {
+    await googleDriveService.initialize();
+
+    const cloudIds = new Set(await googleDriveService.listBookSnapshotIds(bookId));
+    const localSnapshots = await indexedDBService.listBookSnapshots(bookId);
+    const localIds = new Set(localSnapshots.map((snapshot) => snapshot.id));
+
+    for (const snapshot of localSnapshots) {
+      if (cloudIds.has(snapshot.id)) continue;
+
+      if (snapshot.uploaded) {
+        // Deleted on another device
+        await indexedDBService.deleteBookSnapshot(snapshot.id);
+      } else {
+        await googleDriveService.saveBookSnapshot(bookId, snapshot);
+        await indexedDBService.saveBookSnapshot({ ...snapshot, uploaded: true });
+      }
+    }
+
+    for (const snapshotId of cloudIds) {
+      if (!localIds.has(snapshotId)) {
+        const snapshot = await googleDriveService.getBookSnapshot(bookId, snapshotId);
+        if (snapshot) {
+          await indexedDBService.saveBookSnapshot({ ...snapshot, uploaded: true });
+        }
+      }
+    }
+  }
+
   async renameBook(bookId: string, newName: string): Promise<void> {
     const book = await this.getBook(bookId);
     if (!book) {
@@ -443,6 +842,20 @@ class BookManagerService {
     return await indexedDBService.listChapterFiles(bookId);
   }
 
+  // Conflict resolution
+  async listConflictedChapters(): Promise<ChapterRecord[]> {
+    return await indexedDBService.listConflictedChapters();
+  }
+
+  async resolveChapterConflict(bookId: string, fileName: string, content: string): Promise<void> {
+    const book = await this.getBook(bookId);
+    if (!book) {
+      throw new Error(`Book with id ${bookId} not found`);
+    }
+    await indexedDBService.saveChapterContent(bookId, fileName, content);
+    await indexedDBService.clearChapterConflict(bookId, fileName);
+  }
+
   // Cloud sync helpers
   async checkCloudConnection(): Promise<boolean> {
     try {
@@ -187,6 +187,71 @@ export const bookService = {
     }
   },
 
+  // Conflict resolution
+  async getConflictedChapters() {
+    try {
+      return await bookManagerService.listConflictedChapters();
+    } catch (error) {
+      console.error("Error fetching conflicted chapters:", error);
+      throw error;
+    }
+  },
+
+  async resolveChapterConflict(bookId: string, fileName: string, content: string) {
+    try {
+      await bookManagerService.resolveChapterConflict(bookId, fileName, content);
+    } catch (error) {
+      console.error("Error resolving chapter conflict:", error);
+      throw error;
+    }
+  },
+
+  // Snapshots
+  async createSnapshot(bookId: string, label: string) {
+    try {
+      return await bookManagerService.createSnapshot(bookId, label);
+    } catch (error) {
+      console.error("Error creating snapshot:", error);
+      throw error;
+    }
+  },
+
+  async getSnapshots(bookId: string) {
+    try {
+      return await bookManagerService.listSnapshots(bookId);
+    } catch (error) {
+      console.error("Error fetching snapshots:", error);
+      throw error;
+    }
+  },
+
+  async deleteSnapshot(bookId: string, snapshotId: string) {
+    try {
+      await bookManagerService.deleteSnapshot(bookId, snapshotId);
+    } catch (error) {
+      console.error("Error deleting snapshot:", error);
+      throw error;
+    }
+  },
+
+  async compareSnapshots(bookId: string, fromSnapshotId: string, toSnapshotId?: string) {
+    try {
+      return await bookManagerService.compareSnapshots(bookId, fromSnapshotId, toSnapshotId);
+    } catch (error) {
+      console.error("Error comparing snapshots:", error);
+      throw error;
+    }
+  },
+
+  async restoreSnapshot(bookId: string, snapshotId: string) {
+    try {
+      await bookManagerService.restoreSnapshot(bookId, snapshotId);
+    } catch (error) {
+      console.error("Error restoring snapshot:", error);
+      throw error;
+    }
+  },
+
   async getAvailableCloudBooks() {
     try {
       return await bookManagerService.getAvailableCloudBooks();
@@ -1,8 +1,18 @@
-import { Chapter, ChapterWithContent } from "../stores/types";
+import { Chapter, ChapterWithContent, OutlineNode, OutlinePart } from "../stores/types";
 import { dataService } from "./dataService";
 import { bookManagerService } from "./bookManager";
 import { v4 as uuidv4 } from "uuid";
-import { indexedDBService } from "./indexedDB";
+import { indexedDBService, createScene } from "./indexedDB";
+import { flattenOutline, moveInOutline, OutlineMove } from "../utils/outline";
+
+export type ChapterMetadata = Partial<
+  Pick<Chapter, "synopsis" | "status" | "labels" | "pov" | "targetWords" | "notes">
+>;
+
+export interface ChapterUpdates extends ChapterMetadata {
+  title?: string;
+  content?: string;
+}
 
 export const chapterService = {
   // Get all chapters for a book (supports both ID and name)
@@ -23,6 +33,17 @@ export const chapterService = {
     }
   },
 
+  // Get the book's outline of parts and chapters (supports both ID and name)
+  async getOutline(bookIdOrName: string): Promise<OutlineNode[]> {
+    try {
+      const config = await dataService.getBookConfig(bookIdOrName);
+      return config?.outline || [];
+    } catch (error) {
+      console.error(`Error fetching outline for ${bookIdOrName}:`, error);
+      throw error;
+    }
+  },
+
   // Get a specific chapter with content (supports both ID and name)
   async getChapterById(bookIdOrName: string, id: string): Promise<ChapterWithContent> {
     try {
@@ -68,6 +89,7 @@ export const chapterService = {
         id: newChapterId,
         title,
         fileName,
+        scenes: [createScene(uuidv4(), "Scene 1")],
       };
 
       // Save initial chapter content using book ID
@@ -76,6 +98,7 @@ export const chapterService = {
       // Update book config
       config.chapters.push(newChapter);
       config.chapterOrder.push(newChapterId);
+      config.outline.push({ type: "chapter", id: newChapterId });
       config.ideas[newChapterId] = [];
 
       await dataService.saveBookConfig(book.id, config);
@@ -91,7 +114,7 @@ export const chapterService = {
   async updateChapter(
     bookIdOrName: string,
     id: string,
-    updates: { title?: string; content?: string }
+    updates: ChapterUpdates
   ): Promise<ChapterWithContent> {
     try {
       const config = await dataService.getBookConfig(bookIdOrName);
@@ -109,12 +132,19 @@ export const chapterService = {
         configChanged = true;
       }
 
+      // Update planning metadata if provided
+      const { title: _title, content: _content, ...metadata } = updates;
+      if (Object.keys(metadata).length > 0) {
+        Object.assign(chapter, metadata);
+        configChanged = true;
+      }
+
       // Update content if provided
       if (typeof updates.content === "string") {
         await dataService.saveChapterContent(bookIdOrName, chapter.fileName, updates.content);
       }
 
-      // Save config if title changed
+      // Save config if title or metadata changed
       if (configChanged) {
         await dataService.saveBookConfig(bookIdOrName, config);
       }
@@ -149,6 +179,13 @@ export const chapterService = {
       // Remove from config
       config.chapters.splice(chapterIndex, 1);
       config.chapterOrder = config.chapterOrder.filter((chId) => chId !== id);
+      config.outline = config.outline
+        .filter((node) => node.id !== id)
+        .map((node) =>
+          node.type === "part"
+            ? { ...node, chapterIds: node.chapterIds.filter((chId) => chId !== id) }
+            : node
+        );
       delete config.ideas[id];
 
       await dataService.saveBookConfig(bookIdOrName, config);
@@ -160,25 +197,23 @@ export const chapterService = {
     }
   },
 
-  // Reorder chapters (supports both ID and name)
+  // Move a chapter or part within the outline (supports both ID and name).
+  // Chapters can move between parts and the top level; parts stay top-level.
   async reorderChapters(
     bookIdOrName: string,
-    chapterOrder: string[]
-  ): Promise<{ message: string; chapterOrder: string[]; chapters: Chapter[] }> {
+    move: OutlineMove
+  ): Promise<{
+    message: string;
+    chapterOrder: string[];
+    outline: OutlineNode[];
+    chapters: Chapter[];
+  }> {
     try {
       const config = await dataService.getBookConfig(bookIdOrName);
       if (!config) throw new Error(`Book ${bookIdOrName} not found`);
 
-      const existingIds = new Set(config.chapters.map((c) => c.id));
-
-      if (
-        chapterOrder.length !== existingIds.size ||
-        !chapterOrder.every((id) => existingIds.has(id))
-      ) {
-        throw new Error("Chapter order must contain all and only existing chapter IDs.");
-      }
-
-      config.chapterOrder = chapterOrder;
+      config.outline = moveInOutline(config.outline, move);
+      config.chapterOrder = flattenOutline(config.outline);
       await dataService.saveBookConfig(bookIdOrName, config);
 
       // Return the reordered chapters
@@ -188,7 +223,8 @@ export const chapterService = {
 
       return {
         message: "Chapter order updated successfully",
-        chapterOrder,
+        chapterOrder: config.chapterOrder,
+        outline: config.outline,
         chapters: sortedChapters,
       };
     } catch (error) {
@@ -196,4 +232,56 @@ export const chapterService = {
       throw error;
     }
   },
+
+  // Add an empty part at the end of the outline (supports both ID and name)
+  async createPart(bookIdOrName: string, title: string): Promise<OutlinePart> {
+    try {
+      const config = await dataService.getBookConfig(bookIdOrName);
+      if (!config) throw new Error(`Book ${bookIdOrName} not found`);
+
+      const part: OutlinePart = { type: "part", id: uuidv4(), title, chapterIds: [] };
+      config.outline.push(part);
+      await dataService.saveBookConfig(bookIdOrName, config);
+
+      return part;
+    } catch (error) {
+      console.error(`Error creating part in ${bookIdOrName}:`, error);
+      throw error;
+    }
+  },
+
+  // Rename a part (supports both ID and name)
+  async renamePart(bookIdOrName: string, partId: string, title: string): Promise<void> {
+    try {
+      const config = await dataService.getBookConfig(bookIdOrName);
+      if (!config) throw new Error(`Book ${bookIdOrName} not found`);
+
+      const part = config.outline.find((node) => node.type === "part" && node.id === partId);
+      if (!part) throw new Error(`Part ${partId} not found`);
+
+      config.outline = config.outline.map((node) => (node === part ? { ...part, title } : node));
+      await dataService.saveBookConfig(bookIdOrName, config);
+    } catch (error) {
+      console.error(`Error renaming part ${partId} in ${bookIdOrName}:`, error);
+      throw error;
+    }
+  },
+
+  // Remove a part, keeping its chapters at the part's place in the outline
+  async deletePart(bookIdOrName: string, partId: string): Promise<void> {
+    try {
+      const config = await dataService.getBookConfig(bookIdOrName);
+      if (!config) throw new Error(`Book ${bookIdOrName} not found`);
+
+      config.outline = config.outline.flatMap((node): OutlineNode[] =>
+        node.type === "part" && node.id === partId
+          ? node.chapterIds.map((id) => ({ type: "chapter", id }))
+          : [node]
+      );
+      await dataService.saveBookConfig(bookIdOrName, config);
+    } catch (error) {
+      console.error(`Error deleting part ${partId} in ${bookIdOrName}:`, error);
+      throw error;
+    }
+  },
 };
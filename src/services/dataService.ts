@@ -4,7 +4,7 @@ import { googleDriveService } from "./googleDrive";
 import { googleAuth } from "./googleAuth";
 import { settingsStore } from "../stores/settingsStore";
 
-export type SyncStatus = "synced" | "pending" | "manual" | "offline" | "error";
+export type SyncStatus = "synced" | "pending" | "manual" | "offline" | "error" | "conflict";
 
 class DataService {
   private isInitialized = false;
@@ -199,7 +199,7 @@ class DataService {
       for (const book of cloudBooks) {
         if (book.syncStatus === "out_of_sync") {
           try {
-            // For now, cloud wins in conflicts (can be enhanced later)
+            // Three-way merges chapters; overlapping edits are flagged as conflicts
             await bookManagerService.syncBookWithCloud(book.id, "pull");
           } catch (error) {
             console.error(`Failed to sync book ${book.name} from cloud:`, error);
@@ -229,6 +229,11 @@ class DataService {
     }
 
     try {
+      const conflicted = await bookManagerService.listConflictedChapters();
+      if (conflicted.length > 0) {
+        return "conflict";
+      }
+
       const canConnect = await bookManagerService.checkCloudConnection();
       if (!canConnect) {
         return "error";
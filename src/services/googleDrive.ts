@@ -1,6 +1,6 @@
 import { googleAuth } from "./googleAuth";
 import { GOOGLE_CONFIG } from "../config/google";
-import { CloudBooksIndex, BookInfo, BookConfig } from "./indexedDB";
+import { CloudBooksIndex, BookInfo, BookConfig, BookSnapshot } from "./indexedDB";
 
 const MIME_TYPES = GOOGLE_CONFIG.MIME_TYPES;
 
@@ -449,6 +449,106 @@ class GoogleDriveService {
     return await this.listChapterFilesInFolder(chaptersFolder.id);
   }
 
+  // Book snapshots, stored as one JSON file each in the book's snapshots folder
+
+  async saveBookSnapshot(bookId: string, snapshot: BookSnapshot): Promise<void> {
+    const appFolderId = await this.ensureAppFolder();
+    const bookFolder = await this.findFileInFolder(appFolderId, bookId, MIME_TYPES.FOLDER);
+
+    if (!bookFolder) {
+      throw new Error(`Book folder not found for book ID: ${bookId}`);
+    }
+
+    const snapshotsFolderId = await this.createSnapshotsFolder(bookFolder.id);
+    const fileName = `${snapshot.id}.json`;
+    const existingFile = await this.findFileInFolder(snapshotsFolderId, fileName, MIME_TYPES.JSON);
+    const content = JSON.stringify(snapshot, null, 2);
+
+    if (existingFile) {
+      // Update existing file
+      const updateMetadata = {
+        name: fileName,
+        mimeType: MIME_TYPES.JSON,
+      };
+
+      await this.makeApiRequest(
+        `https://www.googleapis.com/upload/drive/v3/files/${existingFile.id}?uploadType=multipart`,
+        "PATCH",
+        this.createMultipartBody(updateMetadata, content),
+        undefined,
+        true
+      );
+    } else {
+      // Create new file
+      const createMetadata = {
+        name: fileName,
+        parents: [snapshotsFolderId],
+        mimeType: MIME_TYPES.JSON,
+      };
+
+      await this.makeApiRequest(
+        "https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart",
+        "POST",
+        this.createMultipartBody(createMetadata, content),
+        undefined,
+        true
+      );
+    }
+  }
+
+  async listBookSnapshotIds(bookId: string): Promise<string[]> {
+    const snapshotsFolder = await this.findSnapshotsFolder(bookId);
+    if (!snapshotsFolder) return [];
+
+    const response = await this.makeApiRequest(
+      "https://www.googleapis.com/drive/v3/files",
+      "GET",
+      undefined,
+      {
+        q: `'${snapshotsFolder.id}' in parents and mimeType='${MIME_TYPES.JSON}' and trashed=false`,
+        fields: "files(name)",
+      }
+    );
+
+    const files = response.files || [];
+    return files.map((file: any) => file.name.replace(/\.json$/, ""));
+  }
+
+  async getBookSnapshot(bookId: string, snapshotId: string): Promise<BookSnapshot | null> {
+    const snapshotsFolder = await this.findSnapshotsFolder(bookId);
+    if (!snapshotsFolder) return null;
+
+    const snapshotFile = await this.findFileInFolder(
+      snapshotsFolder.id,
+      `${snapshotId}.json`,
+      MIME_TYPES.JSON
+    );
+    if (!snapshotFile) return null;
+
+    // makeApiRequest already parses JSON responses
+    return await this.makeApiRequest(
+      `https://www.googleapis.com/drive/v3/files/${snapshotFile.id}?alt=media`,
+      "GET"
+    );
+  }
+
+  async deleteBookSnapshot(bookId: string, snapshotId: string): Promise<void> {
+    const snapshotsFolder = await this.findSnapshotsFolder(bookId);
+    if (!snapshotsFolder) return;
+
+    const snapshotFile = await this.findFileInFolder(
+      snapshotsFolder.id,
+      `${snapshotId}.json`,
+      MIME_TYPES.JSON
+    );
+    if (!snapshotFile) return;
+
+    await this.makeApiRequest(
+      `https://www.googleapis.com/drive/v3/files/${snapshotFile.id}`,
+      "DELETE"
+    );
+  }
+
   // Helper methods for chapter operations
 
   private async saveChapterContentInFolder(
@@ -575,6 +675,39 @@ class GoogleDriveService {
     return response.id;
   }
 
+  private async findSnapshotsFolder(bookId: string): Promise<DriveFile | null> {
+    const appFolderId = await this.ensureAppFolder();
+    const bookFolder = await this.findFileInFolder(appFolderId, bookId, MIME_TYPES.FOLDER);
+    if (!bookFolder) return null;
+
+    return await this.findFileInFolder(bookFolder.id, "snapshots", MIME_TYPES.FOLDER);
+  }
+
+  private async createSnapshotsFolder(bookFolderId: string): Promise<string> {
+    // Check if snapshots folder already exists
+    const existingFolder = await this.findFileInFolder(
+      bookFolderId,
+      "snapshots",
+      MIME_TYPES.FOLDER
+    );
+    if (existingFolder) {
+      return existingFolder.id;
+    }
+
+    // Create snapshots folder
+    const response = await this.makeApiRequest(
+      "https://www.googleapis.com/drive/v3/files",
+      "POST",
+      {
+        name: "snapshots",
+        mimeType: MIME_TYPES.FOLDER,
+        parents: [bookFolderId],
+      }
+    );
+
+    return response.id;
+  }
+
   private createMultipartBody(metadata: any, content: string): string {
     const delimiter = "-------314159265358979323846";
     const close_delim = `\r\n--${delimiter}--`;
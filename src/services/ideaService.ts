@@ -3,6 +3,21 @@ import { dataService } from "./dataService";
 import { v4 as uuidv4 } from "uuid";
 
 export const ideaService = {
+  // Count ideas per chapter id (supports both ID and name)
+  async getIdeaCounts(bookIdOrName: string): Promise<Record<string, number>> {
+    try {
+      const config = await dataService.getBookConfig(bookIdOrName);
+      if (!config) return {};
+
+      return Object.fromEntries(
+        Object.entries(config.ideas).map(([chapterId, ideas]) => [chapterId, ideas.length])
+      );
+    } catch (error) {
+      console.error(`Error counting ideas in ${bookIdOrName}:`, error);
+      throw error;
+    }
+  },
+
   // Get all ideas for a chapter (supports both ID and name)
   async getIdeasForChapter(bookIdOrName: string, chapterId: string): Promise<Idea[]> {
     try {
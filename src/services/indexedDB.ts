@@ -1,4 +1,6 @@
 import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { syncOutline } from "../utils/outline";
+import { countTerms, tokenize } from "../utils/textIndex";
 
 // Cloud books.json structure
 export interface CloudBooksIndex {
@@ -34,6 +36,110 @@ export interface BookEntry {
   cloudLastModified?: number;
   cloudFolderPath?: string;
   version: string;
+  syncBase?: BookSyncBase;
+}
+
+// The book as it was after its last sync with the cloud: the common base for
+// merging the two sides' configs, and what tells a chapter deleted here from
+// one that is new in the cloud
+export interface BookSyncBase {
+  name: string;
+  config: BookConfig;
+  chapterFiles: string[];
+}
+
+// Cloud side of a chapter whose local and cloud edits could not be merged
+export interface ChapterConflict {
+  cloudContent: string;
+  detectedAt: number;
+}
+
+// Chapter content record as stored in the chapters object store
+export interface ChapterRecord {
+  key: string;
+  bookId: string;
+  fileName: string;
+  content: string;
+  lastModified: number;
+  syncStatus: "synced" | "pending" | "conflict";
+  // Content at the last successful sync, the common base for three-way merges
+  baseContent?: string;
+  conflict?: ChapterConflict;
+}
+
+// Snapshot of a chapter's content at a point in time
+export interface ChapterRevision {
+  id?: number; // auto-incremented
+  chapterKey: string; // `${bookId}:${fileName}`
+  bookId: string;
+  fileName: string;
+  content: string;
+  createdAt: number;
+  kind: "auto" | "manual";
+}
+
+// Named, frozen copy of a whole book (config plus every chapter)
+export interface BookSnapshot {
+  id: string;
+  bookId: string;
+  label: string;
+  createdAt: number;
+  config: BookConfig;
+  chapters: { [fileName: string]: string };
+  uploaded?: boolean; // stored in Drive (cloud books only)
+}
+
+// A book-wide find and replace, kept so it can be undone as one step
+export interface ReplaceOperation {
+  id: string;
+  bookId: string;
+  createdAt: number;
+  description: string;
+  changes: { fileName: string; before: string; after: string }[];
+}
+
+// One term of a chapter in the full-text index
+export interface SearchTerm {
+  key: string; // `${chapterKey}:${term}`
+  term: string;
+  chapterKey: string;
+  bookId: string;
+  count: number;
+}
+
+// A chapter in the full-text index, with what ranking needs to know about it
+export interface SearchDocument {
+  key: string; // `${bookId}:${fileName}`
+  bookId: string;
+  fileName: string;
+  length: number; // indexed words
+  lastModified: number; // of the chapter content that was indexed
+}
+
+// A stretch of writing without a long break
+export interface WritingSession {
+  start: number;
+  end: number;
+  words: number; // net words added
+}
+
+// A timed writing sprint, measured against the chapter text at its start
+export interface SprintRecord {
+  start: number;
+  end: number;
+  plannedMinutes: number;
+  words: number;
+}
+
+// Words written in a book on one day
+export interface WritingDay {
+  key: string; // `${bookId}:${date}`
+  bookId: string;
+  date: string; // YYYY-MM-DD, local time
+  added: number;
+  removed: number;
+  sessions: WritingSession[];
+  sprints?: SprintRecord[];
 }
 
 // Define the database schema
@@ -44,14 +150,37 @@ interface TSWriterDB extends DBSchema {
   };
   chapters: {
     key: string; // `${bookId}:${fileName}`
-    value: {
-      key: string;
-      bookId: string;
-      fileName: string;
-      content: string;
-      lastModified: number;
-      syncStatus: "synced" | "pending" | "conflict";
-    };
+    value: ChapterRecord;
+    indexes: { bookId: string };
+  };
+  chapterRevisions: {
+    key: number;
+    value: ChapterRevision;
+    indexes: { chapterKey: string; bookId: string };
+  };
+  bookSnapshots: {
+    key: string; // snapshot id
+    value: BookSnapshot;
+    indexes: { bookId: string };
+  };
+  replaceOperations: {
+    key: string; // operation id
+    value: ReplaceOperation;
+    indexes: { bookId: string };
+  };
+  searchTerms: {
+    key: string; // `${chapterKey}:${term}`
+    value: SearchTerm;
+    indexes: { term: string; chapterKey: string; bookId: string };
+  };
+  searchDocuments: {
+    key: string; // `${bookId}:${fileName}`
+    value: SearchDocument;
+    indexes: { bookId: string };
+  };
+  writingDays: {
+    key: string; // `${bookId}:${date}`
+    value: WritingDay;
     indexes: { bookId: string };
   };
   syncMetadata: {
@@ -81,28 +210,118 @@ export interface Idea {
   order: number;
 }
 
+export type SceneStatus = "outline" | "draft" | "revised" | "final";
+
+// A scene's text lives in its chapter's file, after a <!-- scene:<id> --> marker
+export interface Scene {
+  id: string;
+  title: string;
+  synopsis: string;
+  pov: string;
+  status: SceneStatus;
+}
+
+export type ChapterStatus = "idea" | "draft" | "revised" | "final";
+
+export type LabelColor = "red" | "orange" | "yellow" | "green" | "teal" | "blue" | "purple" | "pink";
+
+export interface ChapterLabel {
+  name: string;
+  color: LabelColor;
+}
+
+// Planning metadata is optional: chapters from older books simply lack it
 export interface Chapter {
   id: string;
   title: string;
   fileName: string;
+  scenes: Scene[]; // in reading order, never empty
+  synopsis?: string; // shown on the corkboard
+  status?: ChapterStatus; // "draft" when missing
+  labels?: ChapterLabel[];
+  pov?: string;
+  targetWords?: number;
+  notes?: string;
+}
+
+// The book's table of contents: chapters at the top level or grouped in parts
+export interface OutlineChapter {
+  type: "chapter";
+  id: string;
+}
+
+export interface OutlinePart {
+  type: "part";
+  id: string;
+  title: string;
+  chapterIds: string[];
+}
+
+export type OutlineNode = OutlineChapter | OutlinePart;
+
+// Word-count goals of a book; unset fields are not tracked
+export interface BookGoals {
+  targetWords?: number;
+  deadline?: string; // YYYY-MM-DD, the last day of writing
+  sessionWords?: number;
 }
 
 export interface BookConfig {
+  schemaVersion?: number;
   chapters: Chapter[];
-  chapterOrder: string[];
+  chapterOrder: string[]; // reading order, always the flattened outline
+  outline: OutlineNode[];
   ideas: Record<string, Idea[]>;
+  goals?: BookGoals;
+}
+
+// Version 1 had no schemaVersion and chapters without scenes; version 2 had
+// no parts, only a flat chapterOrder
+export const BOOK_CONFIG_VERSION = 3;
+
+export function createScene(id: string, title: string): Scene {
+  return { id, title, synopsis: "", pov: "", status: "draft" };
+}
+
+// Bring a config from any earlier schema up to date. Chapters from before
+// scenes get a single scene holding their whole text; its id is derived from
+// the chapter so migrating the same config twice gives the same result.
+// Books from before parts start with a flat outline.
+export function migrateBookConfig(config: BookConfig): BookConfig {
+  const version = config.schemaVersion || 1;
+  if (version >= BOOK_CONFIG_VERSION) return config;
+
+  const migrated: BookConfig = { ...config, schemaVersion: BOOK_CONFIG_VERSION };
+  if (version < 2) {
+    migrated.chapters = config.chapters.map((chapter) =>
+      chapter.scenes?.length
+        ? chapter
+        : { ...chapter, scenes: [createScene(`scene-${chapter.id}`, "Scene 1")] }
+    );
+  }
+  if (version < 3) {
+    migrated.outline =
+      config.outline || config.chapterOrder.map((id) => ({ type: "chapter" as const, id }));
+  }
+  return migrated;
+}
+
+function migrateBook(book: BookEntry): BookEntry {
+  const config = syncOutline(migrateBookConfig(book.config));
+  return config === book.config ? book : { ...book, config };
 }
 
 class IndexedDBService {
   private db: IDBPDatabase<TSWriterDB> | null = null;
   private readonly DB_NAME = "TSWriterDB";
-  private readonly DB_VERSION = 3; // Incremented for schema change
+  private readonly DB_VERSION = 10; // Incremented for the writing history store
+  private searchIndexChecked = false;
 
   async initialize(): Promise<void> {
     if (this.db) return;
 
     this.db = await openDB<TSWriterDB>(this.DB_NAME, this.DB_VERSION, {
-      upgrade(db, oldVersion) {
+      async upgrade(db, oldVersion, _newVersion, transaction) {
         // Create books store
         if (!db.objectStoreNames.contains("books")) {
           db.createObjectStore("books", { keyPath: "id" });
@@ -114,6 +333,46 @@ class IndexedDBService {
           chaptersStore.createIndex("bookId", "bookId");
         }
 
+        // Create chapter revisions store
+        if (!db.objectStoreNames.contains("chapterRevisions")) {
+          const revisionsStore = db.createObjectStore("chapterRevisions", {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+          revisionsStore.createIndex("chapterKey", "chapterKey");
+          revisionsStore.createIndex("bookId", "bookId");
+        }
+
+        // Create book snapshots store
+        if (!db.objectStoreNames.contains("bookSnapshots")) {
+          const snapshotsStore = db.createObjectStore("bookSnapshots", { keyPath: "id" });
+          snapshotsStore.createIndex("bookId", "bookId");
+        }
+
+        // Create replace operations store
+        if (!db.objectStoreNames.contains("replaceOperations")) {
+          const operationsStore = db.createObjectStore("replaceOperations", { keyPath: "id" });
+          operationsStore.createIndex("bookId", "bookId");
+        }
+
+        // Create full-text search index stores
+        if (!db.objectStoreNames.contains("searchTerms")) {
+          const termsStore = db.createObjectStore("searchTerms", { keyPath: "key" });
+          termsStore.createIndex("term", "term");
+          termsStore.createIndex("chapterKey", "chapterKey");
+          termsStore.createIndex("bookId", "bookId");
+        }
+        if (!db.objectStoreNames.contains("searchDocuments")) {
+          const documentsStore = db.createObjectStore("searchDocuments", { keyPath: "key" });
+          documentsStore.createIndex("bookId", "bookId");
+        }
+
+        // Create writing history store
+        if (!db.objectStoreNames.contains("writingDays")) {
+          const daysStore = db.createObjectStore("writingDays", { keyPath: "key" });
+          daysStore.createIndex("bookId", "bookId");
+        }
+
         // Create sync metadata store
         if (!db.objectStoreNames.contains("syncMetadata")) {
           db.createObjectStore("syncMetadata", { keyPath: "key" });
@@ -129,6 +388,16 @@ class IndexedDBService {
           console.log("Migrating database to version 3...");
           // Legacy data will be fixed after initialization
         }
+
+        if (oldVersion > 0 && oldVersion < 7) {
+          console.log("Migrating book configs to include scenes and parts...");
+          let cursor = await transaction.objectStore("books").openCursor();
+          while (cursor) {
+            const migrated = migrateBook(cursor.value);
+            if (migrated !== cursor.value) await cursor.update(migrated);
+            cursor = await cursor.continue();
+          }
+        }
       },
     });
 
@@ -146,7 +415,7 @@ class IndexedDBService {
   // Enhanced book operations
   async listBooks(): Promise<BookEntry[]> {
     const db = this.ensureDB();
-    return await db.getAll("books");
+    return (await db.getAll("books")).map(migrateBook);
   }
 
   async listLocalBooks(): Promise<BookEntry[]> {
@@ -162,7 +431,9 @@ class IndexedDBService {
   async getBook(bookId: string): Promise<BookEntry | null> {
     const db = this.ensureDB();
     try {
-      return (await db.get("books", bookId)) || null;
+      // Configs can arrive in an older schema from the cloud, archives or snapshots
+      const book = await db.get("books", bookId);
+      return book ? migrateBook(book) : null;
     } catch (error) {
       console.error(`[IndexedDB] Error in getBook:`, error);
       throw error;
@@ -187,8 +458,10 @@ class IndexedDBService {
   async createLocalBook(name: string): Promise<string> {
     const bookId = `book_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const defaultConfig: BookConfig = {
+      schemaVersion: BOOK_CONFIG_VERSION,
       chapters: [],
       chapterOrder: [],
+      outline: [],
       ideas: {},
     };
 
@@ -225,7 +498,19 @@ class IndexedDBService {
 
   async deleteBook(bookId: string): Promise<void> {
     const db = this.ensureDB();
-    const tx = db.transaction(["books", "chapters"], "readwrite");
+    const tx = db.transaction(
+      [
+        "books",
+        "chapters",
+        "chapterRevisions",
+        "bookSnapshots",
+        "replaceOperations",
+        "searchTerms",
+        "searchDocuments",
+        "writingDays",
+      ],
+      "readwrite"
+    );
 
     // Delete book
     await tx.objectStore("books").delete(bookId);
@@ -238,6 +523,38 @@ class IndexedDBService {
       await chaptersStore.delete(chapter.key);
     }
 
+    // Delete the revision history of those chapters
+    const revisionsStore = tx.objectStore("chapterRevisions");
+    const revisionIds = await revisionsStore.index("bookId").getAllKeys(bookId);
+
+    for (const id of revisionIds) {
+      await revisionsStore.delete(id);
+    }
+
+    // Delete the book's snapshots
+    const snapshotsStore = tx.objectStore("bookSnapshots");
+    const snapshotIds = await snapshotsStore.index("bookId").getAllKeys(bookId);
+
+    for (const id of snapshotIds) {
+      await snapshotsStore.delete(id);
+    }
+
+    // Delete the book's replace history
+    const operationsStore = tx.objectStore("replaceOperations");
+    const operationIds = await operationsStore.index("bookId").getAllKeys(bookId);
+
+    for (const id of operationIds) {
+      await operationsStore.delete(id);
+    }
+
+    // Drop the book from the search index and the writing history
+    for (const storeName of ["searchTerms", "searchDocuments", "writingDays"] as const) {
+      const store = tx.objectStore(storeName);
+      for (const key of await store.index("bookId").getAllKeys(bookId)) {
+        await store.delete(key);
+      }
+    }
+
     await tx.done;
   }
 
@@ -276,15 +593,20 @@ class IndexedDBService {
     const db = this.ensureDB();
     const key = `${bookId}:${fileName}`;
     const now = Date.now();
+    const existing = await db.get("chapters", key);
 
-    await db.put("chapters", {
+    // Keep the merge base and any unresolved conflict across local edits
+    const record: ChapterRecord = {
+      ...existing,
       key,
       bookId,
       fileName,
       content,
       lastModified: now,
-      syncStatus: isSync ? "synced" : "pending",
-    });
+      syncStatus: isSync ? "synced" : existing?.conflict ? "conflict" : "pending",
+    };
+    await db.put("chapters", record);
+    await this.indexChapter(record);
 
     // Update book's last modified time and sync status
     const book = await this.getBook(bookId);
@@ -298,10 +620,98 @@ class IndexedDBService {
     }
   }
 
+  async getChapterRecord(bookId: string, fileName: string): Promise<ChapterRecord | null> {
+    const db = this.ensureDB();
+    return (await db.get("chapters", `${bookId}:${fileName}`)) || null;
+  }
+
+  async listChapterRecords(bookId: string): Promise<ChapterRecord[]> {
+    const db = this.ensureDB();
+    return await db.getAllFromIndex("chapters", "bookId", bookId);
+  }
+
+  // Store the result of a clean merge. The cloud content it was merged against
+  // becomes the new base; the chapter stays pending until it is pushed.
+  async saveMergedChapter(
+    bookId: string,
+    fileName: string,
+    content: string,
+    baseContent: string
+  ): Promise<void> {
+    const db = this.ensureDB();
+    const key = `${bookId}:${fileName}`;
+    const existing = await db.get("chapters", key);
+    const record: ChapterRecord = {
+      ...existing,
+      key,
+      bookId,
+      fileName,
+      content,
+      lastModified: Date.now(),
+      syncStatus: content === baseContent ? "synced" : "pending",
+      baseContent,
+      conflict: undefined,
+    };
+
+    await db.put("chapters", record);
+    await this.indexChapter(record);
+
+    if (content !== baseContent) {
+      await this.markBookOutOfSync(bookId);
+    }
+  }
+
+  // Flag a chapter whose local and cloud edits overlap. The local content is
+  // left untouched; the cloud version is kept alongside it for resolution.
+  async markChapterConflict(bookId: string, fileName: string, cloudContent: string): Promise<void> {
+    const db = this.ensureDB();
+    const chapter = await db.get("chapters", `${bookId}:${fileName}`);
+    if (!chapter) {
+      throw new Error(`Chapter ${fileName} not found in book ${bookId}`);
+    }
+
+    chapter.syncStatus = "conflict";
+    chapter.conflict = { cloudContent, detectedAt: Date.now() };
+    await db.put("chapters", chapter);
+
+    await this.markBookOutOfSync(bookId);
+  }
+
+  // Clear a resolved conflict. The resolution already accounts for the cloud
+  // version, so that becomes the base and the chapter is pending a push.
+  async clearChapterConflict(bookId: string, fileName: string): Promise<void> {
+    const db = this.ensureDB();
+    const chapter = await db.get("chapters", `${bookId}:${fileName}`);
+    if (!chapter || !chapter.conflict) return;
+
+    chapter.baseContent = chapter.conflict.cloudContent;
+    chapter.syncStatus = "pending";
+    delete chapter.conflict;
+    await db.put("chapters", chapter);
+
+    await this.markBookOutOfSync(bookId);
+  }
+
+  async listConflictedChapters(): Promise<ChapterRecord[]> {
+    const db = this.ensureDB();
+    const chapters = await db.getAll("chapters");
+    return chapters.filter((chapter) => chapter.syncStatus === "conflict");
+  }
+
+  private async markBookOutOfSync(bookId: string): Promise<void> {
+    const book = await this.getBook(bookId);
+    if (book && book.source === "cloud" && book.syncStatus !== "out_of_sync") {
+      book.syncStatus = "out_of_sync";
+      await this.saveBook(book);
+    }
+  }
+
   async deleteChapterContent(bookId: string, fileName: string): Promise<void> {
     const db = this.ensureDB();
     const key = `${bookId}:${fileName}`;
     await db.delete("chapters", key);
+    await this.deleteChapterRevisions(bookId, fileName);
+    await this.unindexChapter(key);
   }
 
   async listChapterFiles(bookId: string): Promise<string[]> {
@@ -310,6 +720,261 @@ class IndexedDBService {
     return chapters.map((chapter) => chapter.fileName);
   }
 
+  // Chapter revision operations
+  async addChapterRevision(revision: Omit<ChapterRevision, "id" | "chapterKey">): Promise<number> {
+    const db = this.ensureDB();
+    return await db.add("chapterRevisions", {
+      ...revision,
+      chapterKey: `${revision.bookId}:${revision.fileName}`,
+    });
+  }
+
+  // Revisions of a chapter, newest first
+  async listChapterRevisions(bookId: string, fileName: string): Promise<ChapterRevision[]> {
+    const db = this.ensureDB();
+    const revisions = await db.getAllFromIndex(
+      "chapterRevisions",
+      "chapterKey",
+      `${bookId}:${fileName}`
+    );
+    return revisions.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async deleteChapterRevision(id: number): Promise<void> {
+    const db = this.ensureDB();
+    await db.delete("chapterRevisions", id);
+  }
+
+  async deleteChapterRevisions(bookId: string, fileName: string): Promise<void> {
+    const db = this.ensureDB();
+    const tx = db.transaction("chapterRevisions", "readwrite");
+    const ids = await tx.store.index("chapterKey").getAllKeys(`${bookId}:${fileName}`);
+
+    for (const id of ids) {
+      await tx.store.delete(id);
+    }
+
+    await tx.done;
+  }
+
+  // Book snapshot operations
+  async saveBookSnapshot(snapshot: BookSnapshot): Promise<void> {
+    const db = this.ensureDB();
+    await db.put("bookSnapshots", snapshot);
+  }
+
+  async getBookSnapshot(snapshotId: string): Promise<BookSnapshot | null> {
+    const db = this.ensureDB();
+    return (await db.get("bookSnapshots", snapshotId)) || null;
+  }
+
+  // Snapshots of a book, newest first
+  async listBookSnapshots(bookId: string): Promise<BookSnapshot[]> {
+    const db = this.ensureDB();
+    const snapshots = await db.getAllFromIndex("bookSnapshots", "bookId", bookId);
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async deleteBookSnapshot(snapshotId: string): Promise<void> {
+    const db = this.ensureDB();
+    await db.delete("bookSnapshots", snapshotId);
+  }
+
+  // Replace operations, newest first
+  async listReplaceOperations(bookId: string): Promise<ReplaceOperation[]> {
+    const db = this.ensureDB();
+    const operations = await db.getAllFromIndex("replaceOperations", "bookId", bookId);
+    return operations.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Write one side of a replace operation ("after" to apply, "before" to undo)
+  // in a single transaction. Chapters whose stored text is no longer the other
+  // side were edited in between and are left alone; their file names are
+  // returned. Applying stores what was changed, undoing removes the operation.
+  async commitReplaceOperation(
+    operation: ReplaceOperation,
+    direction: "apply" | "undo",
+    keep = Infinity
+  ): Promise<string[]> {
+    const db = this.ensureDB();
+    const tx = db.transaction(["books", "chapters", "replaceOperations"], "readwrite");
+    const chaptersStore = tx.objectStore("chapters");
+    const now = Date.now();
+    const skipped: string[] = [];
+    const written: ChapterRecord[] = [];
+
+    for (const change of operation.changes) {
+      const [expected, content] =
+        direction === "apply" ? [change.before, change.after] : [change.after, change.before];
+      const key = `${operation.bookId}:${change.fileName}`;
+      const existing = await chaptersStore.get(key);
+
+      if (!existing || existing.content !== expected) {
+        skipped.push(change.fileName);
+        continue;
+      }
+      const record: ChapterRecord = {
+        ...existing,
+        content,
+        lastModified: now,
+        syncStatus: existing.conflict ? "conflict" : "pending",
+      };
+      await chaptersStore.put(record);
+      written.push(record);
+    }
+
+    const book = await tx.objectStore("books").get(operation.bookId);
+    if (book && skipped.length < operation.changes.length) {
+      book.localLastModified = now;
+      if (book.source === "cloud") book.syncStatus = "out_of_sync";
+      await tx.objectStore("books").put(book);
+    }
+
+    const operationsStore = tx.objectStore("replaceOperations");
+    if (direction === "apply") {
+      const applied = operation.changes.filter((change) => !skipped.includes(change.fileName));
+      if (applied.length > 0) await operationsStore.put({ ...operation, changes: applied });
+
+      // Only the most recent operations can be undone
+      const older = (await operationsStore.index("bookId").getAll(operation.bookId))
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(keep);
+      for (const old of older) {
+        await operationsStore.delete(old.id);
+      }
+    } else {
+      await operationsStore.delete(operation.id);
+    }
+
+    await tx.done;
+    for (const record of written) {
+      await this.indexChapter(record);
+    }
+    return skipped;
+  }
+
+  // Full-text search index operations
+
+  // Bring a chapter's terms in line with its content, touching only the
+  // terms whose counts changed
+  private async indexChapter(record: ChapterRecord): Promise<void> {
+    const db = this.ensureDB();
+    const tokens = tokenize(record.content);
+    const counts = countTerms(tokens);
+
+    const tx = db.transaction(["searchTerms", "searchDocuments"], "readwrite");
+    const termsStore = tx.objectStore("searchTerms");
+
+    for (const existing of await termsStore.index("chapterKey").getAll(record.key)) {
+      const count = counts.get(existing.term);
+      if (count === existing.count) counts.delete(existing.term);
+      else if (count === undefined) await termsStore.delete(existing.key);
+    }
+    for (const [term, count] of counts) {
+      await termsStore.put({
+        key: `${record.key}:${term}`,
+        term,
+        chapterKey: record.key,
+        bookId: record.bookId,
+        count,
+      });
+    }
+
+    await tx.objectStore("searchDocuments").put({
+      key: record.key,
+      bookId: record.bookId,
+      fileName: record.fileName,
+      length: tokens.length,
+      lastModified: record.lastModified,
+    });
+    await tx.done;
+  }
+
+  private async unindexChapter(chapterKey: string): Promise<void> {
+    const db = this.ensureDB();
+    const tx = db.transaction(["searchTerms", "searchDocuments"], "readwrite");
+    const termsStore = tx.objectStore("searchTerms");
+
+    for (const key of await termsStore.index("chapterKey").getAllKeys(chapterKey)) {
+      await termsStore.delete(key);
+    }
+    await tx.objectStore("searchDocuments").delete(chapterKey);
+    await tx.done;
+  }
+
+  // Index chapters stored before the index existed or written around it, and
+  // drop entries of chapters that are gone. Done once per session; saves keep
+  // the index current after that.
+  async ensureSearchIndex(): Promise<void> {
+    if (this.searchIndexChecked) return;
+    const db = this.ensureDB();
+
+    const documents = new Map(
+      (await db.getAll("searchDocuments")).map((document) => [document.key, document])
+    );
+
+    let cursor = await db.transaction("chapters").store.openCursor();
+    const stale: ChapterRecord[] = [];
+    while (cursor) {
+      const record = cursor.value;
+      if (documents.get(record.key)?.lastModified !== record.lastModified) stale.push(record);
+      documents.delete(record.key);
+      cursor = await cursor.continue();
+    }
+
+    for (const record of stale) {
+      await this.indexChapter(record);
+    }
+    for (const key of documents.keys()) {
+      await this.unindexChapter(key);
+    }
+    this.searchIndexChecked = true;
+  }
+
+  async listSearchDocuments(): Promise<SearchDocument[]> {
+    const db = this.ensureDB();
+    return await db.getAll("searchDocuments");
+  }
+
+  // Every chapter's entry for a term, or for all terms starting with it
+  async findSearchTerms(term: string, prefix = false): Promise<SearchTerm[]> {
+    const db = this.ensureDB();
+    const range = prefix ? IDBKeyRange.bound(term, term + "\uffff") : IDBKeyRange.only(term);
+    return await db.getAllFromIndex("searchTerms", "term", range);
+  }
+
+  // Writing history operations
+  // Change a day of writing history in one transaction, so overlapping saves
+  // don't lose words
+  async updateWritingDay(
+    bookId: string,
+    date: string,
+    update: (day: WritingDay) => void
+  ): Promise<void> {
+    const db = this.ensureDB();
+    const tx = db.transaction("writingDays", "readwrite");
+    const key = `${bookId}:${date}`;
+    const day = (await tx.store.get(key)) || {
+      key,
+      bookId,
+      date,
+      added: 0,
+      removed: 0,
+      sessions: [],
+    };
+
+    update(day);
+    await tx.store.put(day);
+    await tx.done;
+  }
+
+  // Days with writing, oldest first
+  async listWritingDays(bookId: string): Promise<WritingDay[]> {
+    const db = this.ensureDB();
+    const days = await db.getAllFromIndex("writingDays", "bookId", bookId);
+    return days.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
   // Sync metadata operations
   async getSyncMetadata(filePath: string): Promise<{
     driveFileId: string;
@@ -376,6 +1041,8 @@ class IndexedDBService {
       const chapter = await db.get("chapters", key);
       if (chapter) {
         chapter.syncStatus = "synced";
+        chapter.baseContent = chapter.content;
+        delete chapter.conflict;
         await db.put("chapters", chapter);
       }
     }
@@ -391,6 +1058,7 @@ class IndexedDBService {
     for (const chapter of chapters) {
       if (chapter.syncStatus === "pending") {
         chapter.syncStatus = "synced";
+        chapter.baseContent = chapter.content;
         await tx.objectStore("chapters").put(chapter);
       }
     }
@@ -441,10 +1109,30 @@ class IndexedDBService {
   // Clear all data (for migration purposes)
   async clearAllData(): Promise<void> {
     const db = this.ensureDB();
-    const tx = db.transaction(["books", "chapters", "syncMetadata", "appConfig"], "readwrite");
+    const tx = db.transaction(
+      [
+        "books",
+        "chapters",
+        "chapterRevisions",
+        "bookSnapshots",
+        "replaceOperations",
+        "searchTerms",
+        "searchDocuments",
+        "writingDays",
+        "syncMetadata",
+        "appConfig",
+      ],
+      "readwrite"
+    );
 
     await tx.objectStore("books").clear();
     await tx.objectStore("chapters").clear();
+    await tx.objectStore("chapterRevisions").clear();
+    await tx.objectStore("bookSnapshots").clear();
+    await tx.objectStore("replaceOperations").clear();
+    await tx.objectStore("searchTerms").clear();
+    await tx.objectStore("searchDocuments").clear();
+    await tx.objectStore("writingDays").clear();
     await tx.objectStore("syncMetadata").clear();
     await tx.objectStore("appConfig").clear();
 
@@ -454,10 +1142,28 @@ class IndexedDBService {
   // Clear all books and chapters only
   async clearAllBooks(): Promise<void> {
     const db = this.ensureDB();
-    const tx = db.transaction(["books", "chapters"], "readwrite");
+    const tx = db.transaction(
+      [
+        "books",
+        "chapters",
+        "chapterRevisions",
+        "bookSnapshots",
+        "replaceOperations",
+        "searchTerms",
+        "searchDocuments",
+        "writingDays",
+      ],
+      "readwrite"
+    );
 
     await tx.objectStore("books").clear();
     await tx.objectStore("chapters").clear();
+    await tx.objectStore("chapterRevisions").clear();
+    await tx.objectStore("bookSnapshots").clear();
+    await tx.objectStore("replaceOperations").clear();
+    await tx.objectStore("searchTerms").clear();
+    await tx.objectStore("searchDocuments").clear();
+    await tx.objectStore("writingDays").clear();
 
     await tx.done;
   }
@@ -521,6 +1227,52 @@ class IndexedDBService {
               console.log(`[IndexedDB] Created chapters store`);
             }
 
+            // Create chapter revisions store
+            if (!db.objectStoreNames.contains("chapterRevisions")) {
+              const revisionsStore = db.createObjectStore("chapterRevisions", {
+                keyPath: "id",
+                autoIncrement: true,
+              });
+              revisionsStore.createIndex("chapterKey", "chapterKey");
+              revisionsStore.createIndex("bookId", "bookId");
+              console.log(`[IndexedDB] Created chapterRevisions store`);
+            }
+
+            // Create book snapshots store
+            if (!db.objectStoreNames.contains("bookSnapshots")) {
+              const snapshotsStore = db.createObjectStore("bookSnapshots", { keyPath: "id" });
+              snapshotsStore.createIndex("bookId", "bookId");
+              console.log(`[IndexedDB] Created bookSnapshots store`);
+            }
+
+            // Create replace operations store
+            if (!db.objectStoreNames.contains("replaceOperations")) {
+              const operationsStore = db.createObjectStore("replaceOperations", { keyPath: "id" });
+              operationsStore.createIndex("bookId", "bookId");
+              console.log(`[IndexedDB] Created replaceOperations store`);
+            }
+
+            // Create full-text search index stores
+            if (!db.objectStoreNames.contains("searchTerms")) {
+              const termsStore = db.createObjectStore("searchTerms", { keyPath: "key" });
+              termsStore.createIndex("term", "term");
+              termsStore.createIndex("chapterKey", "chapterKey");
+              termsStore.createIndex("bookId", "bookId");
+              console.log(`[IndexedDB] Created searchTerms store`);
+            }
+            if (!db.objectStoreNames.contains("searchDocuments")) {
+              const documentsStore = db.createObjectStore("searchDocuments", { keyPath: "key" });
+              documentsStore.createIndex("bookId", "bookId");
+              console.log(`[IndexedDB] Created searchDocuments store`);
+            }
+
+            // Create writing history store
+            if (!db.objectStoreNames.contains("writingDays")) {
+              const daysStore = db.createObjectStore("writingDays", { keyPath: "key" });
+              daysStore.createIndex("bookId", "bookId");
+              console.log(`[IndexedDB] Created writingDays store`);
+            }
+
             // Create sync metadata store
             if (!db.objectStoreNames.contains("syncMetadata")) {
               db.createObjectStore("syncMetadata", { keyPath: "key" });
@@ -0,0 +1,164 @@
+import { indexedDBService, ReplaceOperation } from "./indexedDB";
+import { searchService } from "./searchService";
+import {
+  applyEdits,
+  buildSearchPattern,
+  expandReplacement,
+  findMatches,
+  SearchMatch,
+  SearchOptions,
+} from "../utils/search";
+import { v4 as uuidv4 } from "uuid";
+
+export interface ReplacePreviewMatch extends SearchMatch {
+  id: string; // `${chapterId}:${index}`
+  replacement: string;
+}
+
+export interface ReplacePreviewChapter {
+  chapterId: string;
+  title: string;
+  fileName: string;
+  content: string; // the text the preview was made from
+  matches: ReplacePreviewMatch[];
+}
+
+export interface ReplacePreview {
+  description: string;
+  chapters: ReplacePreviewChapter[];
+  total: number;
+}
+
+export interface ReplaceResult {
+  replaced: number;
+  chapters: number;
+  skipped: string[]; // titles of chapters edited since the preview
+}
+
+// How many replace operations per book can still be undone
+const UNDO_HISTORY = 10;
+
+export const replaceService = {
+  // Find every match in the book and what it would become. Throws a
+  // SyntaxError for an invalid regex.
+  async previewReplace(
+    bookId: string,
+    options: SearchOptions,
+    replacement: string
+  ): Promise<ReplacePreview> {
+    const pattern = buildSearchPattern(options);
+
+    try {
+      const chapters: ReplacePreviewChapter[] = [];
+      let total = 0;
+
+      for (const { chapter, content } of await searchService.readBookText(bookId)) {
+        const matches = findMatches(content, pattern).map((match) => ({
+          ...match,
+          id: `${chapter.id}:${match.index}`,
+          replacement: options.regex ? expandReplacement(replacement, match) : replacement,
+        }));
+        if (matches.length === 0) continue;
+
+        chapters.push({
+          chapterId: chapter.id,
+          title: chapter.title,
+          fileName: chapter.fileName,
+          content,
+          matches,
+        });
+        total += matches.length;
+      }
+
+      return {
+        description: `"${options.query}" → "${replacement}"`,
+        chapters,
+        total,
+      };
+    } catch (error) {
+      console.error(`Error previewing replace in book ${bookId}:`, error);
+      throw error;
+    }
+  },
+
+  // Replace the previewed matches except the excluded ones, as one undoable operation
+  async applyReplace(
+    bookId: string,
+    preview: ReplacePreview,
+    excludedIds: Set<string>
+  ): Promise<ReplaceResult> {
+    try {
+      await indexedDBService.initialize();
+
+      const operation: ReplaceOperation = {
+        id: uuidv4(),
+        bookId,
+        createdAt: Date.now(),
+        description: preview.description,
+        changes: [],
+      };
+      const replacedIn = new Map<string, number>();
+
+      for (const chapter of preview.chapters) {
+        const selected = chapter.matches.filter((match) => !excludedIds.has(match.id));
+        if (selected.length === 0) continue;
+
+        const edits = selected.map((match) => ({ ...match, text: match.replacement }));
+        operation.changes.push({
+          fileName: chapter.fileName,
+          before: chapter.content,
+          after: applyEdits(chapter.content, edits),
+        });
+        replacedIn.set(chapter.fileName, selected.length);
+      }
+
+      if (operation.changes.length === 0) return { replaced: 0, chapters: 0, skipped: [] };
+
+      const skippedFiles = await indexedDBService.commitReplaceOperation(
+        operation,
+        "apply",
+        UNDO_HISTORY
+      );
+
+      let replaced = 0;
+      for (const [fileName, count] of replacedIn) {
+        if (!skippedFiles.includes(fileName)) replaced += count;
+      }
+
+      return {
+        replaced,
+        chapters: operation.changes.length - skippedFiles.length,
+        skipped: preview.chapters
+          .filter((chapter) => skippedFiles.includes(chapter.fileName))
+          .map((chapter) => chapter.title),
+      };
+    } catch (error) {
+      console.error(`Error replacing in book ${bookId}:`, error);
+      throw error;
+    }
+  },
+
+  // The most recent replace that can still be undone
+  async getLastOperation(bookId: string): Promise<ReplaceOperation | null> {
+    try {
+      await indexedDBService.initialize();
+      const [latest] = await indexedDBService.listReplaceOperations(bookId);
+      return latest || null;
+    } catch (error) {
+      console.error(`Error loading replace history for book ${bookId}:`, error);
+      throw error;
+    }
+  },
+
+  // Put back the text an operation replaced. Chapters edited since then are
+  // left alone; their file names are returned.
+  async undoReplace(operation: ReplaceOperation): Promise<string[]> {
+    try {
+      await indexedDBService.initialize();
+      return await indexedDBService.commitReplaceOperation(operation, "undo");
+    } catch (error) {
+      console.error(`Error undoing replace ${operation.id}:`, error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,64 @@
+import { indexedDBService, ChapterRevision } from "./indexedDB";
+import { settingsStore } from "../stores/settingsStore";
+
+export type RevisionKind = ChapterRevision["kind"];
+
+export const revisionService = {
+  // Snapshot a chapter's saved content. Manual saves always get a revision;
+  // autosaves are throttled to one per autosave window.
+  async recordRevision(
+    bookId: string,
+    fileName: string,
+    content: string,
+    kind: RevisionKind
+  ): Promise<void> {
+    try {
+      await indexedDBService.initialize();
+      const [latest] = await indexedDBService.listChapterRevisions(bookId, fileName);
+
+      if (latest && latest.content === content) return;
+
+      const windowMs = settingsStore.settings.autoSaveInterval * 1000;
+      if (kind === "auto" && latest && Date.now() - latest.createdAt < windowMs) return;
+
+      await indexedDBService.addChapterRevision({
+        bookId,
+        fileName,
+        content,
+        createdAt: Date.now(),
+        kind,
+      });
+
+      await this.pruneRevisions(bookId, fileName);
+    } catch (error) {
+      console.error(`Error recording revision for ${fileName} in ${bookId}:`, error);
+      throw error;
+    }
+  },
+
+  async getRevisions(bookId: string, fileName: string): Promise<ChapterRevision[]> {
+    try {
+      await indexedDBService.initialize();
+      return await indexedDBService.listChapterRevisions(bookId, fileName);
+    } catch (error) {
+      console.error(`Error fetching revisions for ${fileName} in ${bookId}:`, error);
+      throw error;
+    }
+  },
+
+  // Drop revisions beyond the configured count or age. The newest revision is
+  // always kept so a chapter never loses its whole history.
+  async pruneRevisions(bookId: string, fileName: string): Promise<void> {
+    const { revisionRetentionCount, revisionRetentionDays } = settingsStore.settings;
+    const revisions = await indexedDBService.listChapterRevisions(bookId, fileName);
+    const cutoff =
+      revisionRetentionDays > 0 ? Date.now() - revisionRetentionDays * 24 * 60 * 60 * 1000 : 0;
+
+    for (let i = 1; i < revisions.length; i++) {
+      const revision = revisions[i];
+      if (i >= revisionRetentionCount || revision.createdAt < cutoff) {
+        await indexedDBService.deleteChapterRevision(revision.id!);
+      }
+    }
+  },
+};
@@ -0,0 +1,152 @@
+import { Scene } from "../stores/types";
+import { dataService } from "./dataService";
+import { createScene } from "./indexedDB";
+import { v4 as uuidv4 } from "uuid";
+import { joinScenes, splitScenes } from "../utils/scenes";
+
+export type SceneUpdates = Partial<Omit<Scene, "id">>;
+
+// Scene metadata lives in the book config and scene text in the chapter file.
+// The config is always saved before the text: until the text catches up, an
+// unknown marker just reads as part of the previous scene, so nothing is lost.
+export const sceneService = {
+  // Add a scene at the end of a chapter
+  async createScene(bookId: string, chapterId: string, title: string): Promise<Scene> {
+    try {
+      const config = await dataService.getBookConfig(bookId);
+      if (!config) throw new Error(`Book ${bookId} not found`);
+
+      const chapter = config.chapters.find((ch) => ch.id === chapterId);
+      if (!chapter) throw new Error(`Chapter ${chapterId} not found`);
+
+      const content = (await dataService.getChapterContent(bookId, chapter.fileName)) || "";
+      const { preamble, bodies } = splitScenes(content, chapter.scenes);
+
+      const scene = createScene(uuidv4(), title);
+      chapter.scenes.push(scene);
+      await dataService.saveBookConfig(bookId, config);
+      await dataService.saveChapterContent(
+        bookId,
+        chapter.fileName,
+        joinScenes(preamble, chapter.scenes, bodies)
+      );
+
+      return scene;
+    } catch (error) {
+      console.error(`Error creating scene in chapter ${chapterId}:`, error);
+      throw error;
+    }
+  },
+
+  // Update a scene's title, synopsis, POV or status
+  async updateScene(
+    bookId: string,
+    chapterId: string,
+    sceneId: string,
+    updates: SceneUpdates
+  ): Promise<Scene> {
+    try {
+      const config = await dataService.getBookConfig(bookId);
+      if (!config) throw new Error(`Book ${bookId} not found`);
+
+      const chapter = config.chapters.find((ch) => ch.id === chapterId);
+      const scene = chapter?.scenes.find((sc) => sc.id === sceneId);
+      if (!chapter || !scene) throw new Error(`Scene ${sceneId} not found`);
+
+      Object.assign(scene, updates);
+      await dataService.saveBookConfig(bookId, config);
+
+      return scene;
+    } catch (error) {
+      console.error(`Error updating scene ${sceneId}:`, error);
+      throw error;
+    }
+  },
+
+  // Delete a scene and its text; a chapter always keeps at least one scene
+  async deleteScene(bookId: string, chapterId: string, sceneId: string): Promise<void> {
+    try {
+      const config = await dataService.getBookConfig(bookId);
+      if (!config) throw new Error(`Book ${bookId} not found`);
+
+      const chapter = config.chapters.find((ch) => ch.id === chapterId);
+      if (!chapter) throw new Error(`Chapter ${chapterId} not found`);
+      if (chapter.scenes.length <= 1) {
+        throw new Error("A chapter must have at least one scene");
+      }
+
+      const content = (await dataService.getChapterContent(bookId, chapter.fileName)) || "";
+      const { preamble, bodies } = splitScenes(content, chapter.scenes);
+
+      chapter.scenes = chapter.scenes.filter((sc) => sc.id !== sceneId);
+      await dataService.saveBookConfig(bookId, config);
+      await dataService.saveChapterContent(
+        bookId,
+        chapter.fileName,
+        joinScenes(preamble, chapter.scenes, bodies)
+      );
+    } catch (error) {
+      console.error(`Error deleting scene ${sceneId}:`, error);
+      throw error;
+    }
+  },
+
+  // Move a scene to a position in the same or another chapter, taking its text along
+  async moveScene(
+    bookId: string,
+    sceneId: string,
+    toChapterId: string,
+    toIndex: number
+  ): Promise<void> {
+    try {
+      const config = await dataService.getBookConfig(bookId);
+      if (!config) throw new Error(`Book ${bookId} not found`);
+
+      const from = config.chapters.find((ch) => ch.scenes.some((sc) => sc.id === sceneId));
+      const to = config.chapters.find((ch) => ch.id === toChapterId);
+      if (!from) throw new Error(`Scene ${sceneId} not found`);
+      if (!to) throw new Error(`Chapter ${toChapterId} not found`);
+      if (from !== to && from.scenes.length <= 1) {
+        throw new Error("A chapter must have at least one scene");
+      }
+
+      const fromSections = splitScenes(
+        (await dataService.getChapterContent(bookId, from.fileName)) || "",
+        from.scenes
+      );
+      const toSections =
+        from === to
+          ? fromSections
+          : splitScenes(
+              (await dataService.getChapterContent(bookId, to.fileName)) || "",
+              to.scenes
+            );
+
+      const scene = from.scenes.find((sc) => sc.id === sceneId)!;
+      const fromIndex = from.scenes.indexOf(scene);
+      from.scenes = from.scenes.filter((sc) => sc.id !== sceneId);
+      // Removing the scene first shifts later positions in the same chapter
+      const index = from === to && fromIndex < toIndex ? toIndex - 1 : toIndex;
+      to.scenes.splice(Math.max(0, Math.min(index, to.scenes.length)), 0, scene);
+
+      toSections.bodies[sceneId] = fromSections.bodies[sceneId] || "";
+
+      await dataService.saveBookConfig(bookId, config);
+      if (from !== to) {
+        await dataService.saveChapterContent(
+          bookId,
+          from.fileName,
+          joinScenes(fromSections.preamble, from.scenes, fromSections.bodies)
+        );
+      }
+      await dataService.saveChapterContent(
+        bookId,
+        to.fileName,
+        joinScenes(toSections.preamble, to.scenes, toSections.bodies)
+      );
+    } catch (error) {
+      console.error(`Error moving scene ${sceneId}:`, error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,203 @@
+import { BookConfig, Chapter, indexedDBService, SearchTerm } from "./indexedDB";
+import {
+  buildSearchPattern,
+  findMatches,
+  matchAt,
+  SearchMatch,
+  SearchOptions,
+} from "../utils/search";
+import { parseQuery, tokenize } from "../utils/textIndex";
+
+export interface ChapterSearchResult {
+  chapterId: string;
+  title: string;
+  matches: SearchMatch[];
+}
+
+export interface BookSearchResult {
+  chapters: ChapterSearchResult[];
+  total: number;
+  truncated: boolean; // stopped at the match limit
+}
+
+// A chapter found through the full-text index
+export interface LibrarySearchHit {
+  bookId: string;
+  bookName: string;
+  chapterId: string;
+  title: string;
+  score: number;
+  excerpt: SearchMatch | null; // the first matching word in the chapter
+}
+
+export interface LibrarySearchResult {
+  hits: LibrarySearchHit[];
+  total: number; // chapters matching every word, including those not returned
+}
+
+// Enough to find what you are looking for without flooding the panel
+const MAX_MATCHES = 500;
+const MAX_HITS = 50;
+
+// Shorter words match too many terms to be worth expanding
+const MIN_PREFIX_LENGTH = 3;
+// A word that only starts a term counts for less than the term itself
+const PREFIX_WEIGHT = 0.5;
+
+// BM25 parameters: how fast repeated terms saturate, and how much long
+// chapters are penalized
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface ChapterText {
+  chapter: Chapter;
+  content: string;
+}
+
+export const searchService = {
+  // Every chapter of a book with its stored text, in reading order
+  async readBookText(bookId: string): Promise<ChapterText[]> {
+    await indexedDBService.initialize();
+    const config = await indexedDBService.getBookConfig(bookId);
+    if (!config) throw new Error(`Book ${bookId} not found`);
+
+    const records = await indexedDBService.listChapterRecords(bookId);
+    const contentByFile = new Map(records.map((record) => [record.fileName, record.content]));
+
+    return config.chapterOrder
+      .map((id) => config.chapters.find((ch) => ch.id === id))
+      .filter((chapter): chapter is Chapter => !!chapter)
+      .map((chapter) => ({ chapter, content: contentByFile.get(chapter.fileName) || "" }));
+  },
+
+  // Search every chapter of a book in reading order. Throws a SyntaxError
+  // for an invalid regex.
+  async searchBook(bookId: string, options: SearchOptions): Promise<BookSearchResult> {
+    const pattern = buildSearchPattern(options);
+
+    try {
+      const chapters: ChapterSearchResult[] = [];
+      let total = 0;
+      let truncated = false;
+
+      for (const { chapter, content } of await this.readBookText(bookId)) {
+        const matches = findMatches(content, pattern, MAX_MATCHES - total + 1);
+        if (total + matches.length > MAX_MATCHES) {
+          matches.length = MAX_MATCHES - total;
+          truncated = true;
+        }
+        if (matches.length > 0) {
+          chapters.push({ chapterId: chapter.id, title: chapter.title, matches });
+          total += matches.length;
+        }
+        if (truncated) break;
+      }
+
+      return { chapters, total, truncated };
+    } catch (error) {
+      console.error(`Error searching book ${bookId}:`, error);
+      throw error;
+    }
+  },
+
+  // Search every local book through the full-text index. Chapters must match
+  // every word of the query, by stem or as a prefix, and are ranked by BM25.
+  async searchLibrary(query: string): Promise<LibrarySearchResult> {
+    const words = parseQuery(query);
+    if (words.length === 0) return { hits: [], total: 0 };
+
+    try {
+      await indexedDBService.initialize();
+      await indexedDBService.ensureSearchIndex();
+
+      const documents = new Map(
+        (await indexedDBService.listSearchDocuments()).map((document) => [document.key, document])
+      );
+      const averageLength =
+        [...documents.values()].reduce((sum, document) => sum + document.length, 0) /
+          documents.size || 1;
+
+      // Best score of each word in each chapter, and the terms that matched
+      const scores = new Map<string, number>();
+      const matchedTerms = new Map<string, Set<string>>();
+
+      for (const [position, word] of words.entries()) {
+        const postings: { posting: SearchTerm; weight: number }[] = (
+          await indexedDBService.findSearchTerms(word.term)
+        ).map((posting) => ({ posting, weight: 1 }));
+        if (word.prefix.length >= MIN_PREFIX_LENGTH) {
+          for (const posting of await indexedDBService.findSearchTerms(word.prefix, true)) {
+            if (posting.term !== word.term) postings.push({ posting, weight: PREFIX_WEIGHT });
+          }
+        }
+
+        const frequency = new Map<string, number>();
+        for (const { posting } of postings) {
+          frequency.set(posting.term, (frequency.get(posting.term) || 0) + 1);
+        }
+
+        const wordScores = new Map<string, number>();
+        for (const { posting, weight } of postings) {
+          const document = documents.get(posting.chapterKey);
+          // Earlier words must already have matched the chapter
+          if (!document || (position > 0 && !scores.has(posting.chapterKey))) continue;
+
+          const df = frequency.get(posting.term)!;
+          const idf = Math.log(1 + (documents.size - df + 0.5) / (df + 0.5));
+          const norm = 1 - BM25_B + (BM25_B * document.length) / averageLength;
+          const score =
+            (weight * idf * posting.count * (BM25_K1 + 1)) / (posting.count + BM25_K1 * norm);
+
+          const best = wordScores.get(posting.chapterKey) || 0;
+          wordScores.set(posting.chapterKey, Math.max(best, score));
+          const terms = matchedTerms.get(posting.chapterKey) || new Set<string>();
+          matchedTerms.set(posting.chapterKey, terms.add(posting.term));
+        }
+
+        if (position > 0) {
+          for (const chapterKey of scores.keys()) {
+            if (!wordScores.has(chapterKey)) scores.delete(chapterKey);
+          }
+        }
+        for (const [chapterKey, score] of wordScores) {
+          scores.set(chapterKey, (scores.get(chapterKey) || 0) + score);
+        }
+      }
+
+      const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+      const configs = new Map<string, { name: string; config: BookConfig } | null>();
+      const hits: LibrarySearchHit[] = [];
+
+      for (const [chapterKey, score] of ranked) {
+        if (hits.length >= MAX_HITS) break;
+        const { bookId, fileName } = documents.get(chapterKey)!;
+
+        if (!configs.has(bookId)) {
+          const book = await indexedDBService.getBook(bookId);
+          configs.set(bookId, book ? { name: book.name, config: book.config } : null);
+        }
+        const book = configs.get(bookId);
+        const chapter = book?.config.chapters.find((ch) => ch.fileName === fileName);
+        if (!book || !chapter) continue;
+
+        const content = (await indexedDBService.getChapterContent(bookId, fileName)) || "";
+        const terms = matchedTerms.get(chapterKey)!;
+        const token = tokenize(content).find((token) => terms.has(token.term));
+
+        hits.push({
+          bookId,
+          bookName: book.name,
+          chapterId: chapter.id,
+          title: chapter.title,
+          score,
+          excerpt: token ? matchAt(content, token.index, token.length) : null,
+        });
+      }
+
+      return { hits, total: ranked.length };
+    } catch (error) {
+      console.error(`Error searching the library for "${query}":`, error);
+      throw error;
+    }
+  },
+};
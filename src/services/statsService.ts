@@ -0,0 +1,97 @@
+import { BookGoals, indexedDBService, SprintRecord, WritingDay } from "./indexedDB";
+import { dataService } from "./dataService";
+import { countWords, loadManuscript } from "../utils/manuscript";
+import { dateKey, SESSION_GAP_MS } from "../utils/writingStats";
+
+export interface ChapterLength {
+  chapterId: string;
+  title: string;
+  words: number;
+}
+
+export const statsService = {
+  // Add the change in word count of one save to the book's history for today
+  async recordWords(bookId: string, delta: number, at: number = Date.now()): Promise<void> {
+    if (delta === 0) return;
+
+    try {
+      await indexedDBService.initialize();
+      await indexedDBService.updateWritingDay(bookId, dateKey(at), (day) => {
+        if (delta > 0) day.added += delta;
+        else day.removed -= delta;
+
+        const session = day.sessions[day.sessions.length - 1];
+        if (session && at - session.end <= SESSION_GAP_MS) {
+          session.end = at;
+          session.words += delta;
+        } else {
+          day.sessions.push({ start: at, end: at, words: delta });
+        }
+      });
+    } catch (error) {
+      console.error(`Error recording words for book ${bookId}:`, error);
+      throw error;
+    }
+  },
+
+  // Keep a finished sprint in the history of the day it started
+  async recordSprint(bookId: string, sprint: SprintRecord): Promise<void> {
+    try {
+      await indexedDBService.initialize();
+      await indexedDBService.updateWritingDay(bookId, dateKey(sprint.start), (day) => {
+        day.sprints = [...(day.sprints || []), sprint];
+      });
+    } catch (error) {
+      console.error(`Error recording sprint for book ${bookId}:`, error);
+      throw error;
+    }
+  },
+
+  async getWritingDays(bookId: string): Promise<WritingDay[]> {
+    try {
+      await indexedDBService.initialize();
+      return await indexedDBService.listWritingDays(bookId);
+    } catch (error) {
+      console.error(`Error loading writing history for book ${bookId}:`, error);
+      throw error;
+    }
+  },
+
+  // Word count of every chapter, in reading order
+  async getChapterLengths(bookId: string): Promise<ChapterLength[]> {
+    try {
+      const { chapters } = await loadManuscript(bookId);
+      return chapters.map((chapter) => ({
+        chapterId: chapter.id,
+        title: chapter.title,
+        words: countWords(chapter.content),
+      }));
+    } catch (error) {
+      console.error(`Error counting chapter lengths for book ${bookId}:`, error);
+      throw error;
+    }
+  },
+
+  async getGoals(bookId: string): Promise<BookGoals> {
+    try {
+      const config = await dataService.getBookConfig(bookId);
+      return config?.goals || {};
+    } catch (error) {
+      console.error(`Error loading goals for book ${bookId}:`, error);
+      throw error;
+    }
+  },
+
+  async saveGoals(bookId: string, goals: BookGoals): Promise<void> {
+    try {
+      const config = await dataService.getBookConfig(bookId);
+      if (!config) throw new Error(`Book ${bookId} not found`);
+
+      config.goals = goals;
+      await dataService.saveBookConfig(bookId, config);
+    } catch (error) {
+      console.error(`Error saving goals for book ${bookId}:`, error);
+      throw error;
+    }
+  },
+};
@@ -1,10 +1,17 @@
 import { createSignal, createEffect } from "solid-js";
-import { Chapter, ChapterWithContent } from "./types";
-import { chapterService } from "../services/chapterService";
+import { Chapter, ChapterWithContent, OutlineNode } from "./types";
+import { chapterService, ChapterUpdates } from "../services/chapterService";
+import { sceneService, SceneUpdates } from "../services/sceneService";
+import { revisionService, RevisionKind } from "../services/revisionService";
 import { bookStore } from "./bookStore";
+import { OutlineMove } from "../utils/outline";
 
 const [chapters, setChapters] = createSignal<Chapter[]>([]);
+// Parts and top-level chapters, in reading order
+const [outline, setOutline] = createSignal<OutlineNode[]>([]);
 const [selectedChapter, setSelectedChapter] = createSignal<ChapterWithContent | null>(null);
+// Scene shown in the editor; null shows the whole chapter
+const [selectedSceneId, setSelectedSceneId] = createSignal<string | null>(null);
 const [loading, setLoading] = createSignal<boolean>(false);
 const [error, setError] = createSignal<string | null>(null);
 
@@ -13,6 +20,7 @@ createEffect(async () => {
   const book = bookStore.selectedBook();
   if (!book) {
     setChapters([]);
+    setOutline([]);
     setSelectedChapter(null);
     return;
   }
@@ -22,6 +30,14 @@ createEffect(async () => {
     setError(null);
     const bookChapters = await chapterService.getAllChapters(book.id);
     setChapters(bookChapters);
+    setOutline(await chapterService.getOutline(book.id));
+
+    // Close the open chapter if it no longer exists (e.g. after restoring a snapshot)
+    const current = selectedChapter();
+    if (current && !bookChapters.some((ch) => ch.id === current.id)) {
+      setSelectedChapter(null);
+      setSelectedSceneId(null);
+    }
   } catch (err) {
     setError("Failed to load chapters.");
     console.error(err);
@@ -30,15 +46,36 @@ createEffect(async () => {
   }
 });
 
-const selectChapter = async (chapterId: string) => {
+// The editor's save of its unsaved text, run before that text is replaced:
+// when another scene of the open chapter is shown, or a scene change rewrites
+// chapter files. False keeps things as they are.
+let saveOpenText: () => Promise<boolean> = async () => true;
+
+const setOpenTextSaver = (save: () => Promise<boolean>) => {
+  saveOpenText = save;
+};
+
+// Open a chapter, optionally at one of its scenes. Without a sceneId, reopening
+// the same chapter keeps the current scene if it still belongs to it. Another
+// chapter needs no save, as its tab keeps the unsaved text.
+const selectChapter = async (chapterId: string, sceneId?: string | null) => {
   const book = bookStore.selectedBook();
   if (!book) return;
 
+  const otherScene =
+    selectedChapter()?.id === chapterId && sceneId !== undefined && sceneId !== selectedSceneId();
+  if (otherScene && !(await saveOpenText())) return;
+
   try {
     setLoading(true);
     setError(null);
     const chapter = await chapterService.getChapterById(book.id, chapterId);
+    const nextSceneId =
+      sceneId === undefined && selectedChapter()?.id === chapterId ? selectedSceneId() : sceneId;
     setSelectedChapter(chapter);
+    setSelectedSceneId(
+      nextSceneId && chapter.scenes.some((sc) => sc.id === nextSceneId) ? nextSceneId : null
+    );
   } catch (err) {
     setError("Failed to load chapter.");
     console.error(err);
@@ -47,6 +84,12 @@ const selectChapter = async (chapterId: string) => {
   }
 };
 
+// Show no chapter in the editor, e.g. after its last tab is closed
+const closeChapter = () => {
+  setSelectedChapter(null);
+  setSelectedSceneId(null);
+};
+
 const createNewChapter = async (title: string) => {
   const book = bookStore.selectedBook();
 
@@ -54,6 +97,7 @@ const createNewChapter = async (title: string) => {
   try {
     const newChapter = await chapterService.createChapter(book.id, title);
     setChapters([...chapters(), newChapter]);
+    setOutline([...outline(), { type: "chapter", id: newChapter.id }]);
     return newChapter;
   } catch (err) {
     setError("Failed to create chapter.");
@@ -61,7 +105,11 @@ const createNewChapter = async (title: string) => {
   }
 };
 
-const updateChapter = async (chapterId: string, updates: { title?: string; content?: string }) => {
+const updateChapter = async (
+  chapterId: string,
+  updates: ChapterUpdates,
+  revisionKind?: RevisionKind
+) => {
   const book = bookStore.selectedBook();
   if (!book) return;
 
@@ -69,11 +117,24 @@ const updateChapter = async (chapterId: string, updates: { title?: string; conte
     setError(null);
     const updatedChapter = await chapterService.updateChapter(book.id, chapterId, updates);
 
-    // Update chapters list if title changed
-    if (updates.title) {
-      setChapters(
-        chapters().map((ch) => (ch.id === chapterId ? { ...ch, title: updates.title! } : ch))
-      );
+    // Snapshot saved content into the chapter's revision history
+    if (revisionKind && typeof updates.content === "string") {
+      try {
+        await revisionService.recordRevision(
+          book.id,
+          updatedChapter.fileName,
+          updates.content,
+          revisionKind
+        );
+      } catch (err) {
+        console.error("Failed to record revision:", err);
+      }
+    }
+
+    // Update chapters list if title or metadata changed
+    if (Object.keys(updates).some((key) => key !== "content")) {
+      const { content: _content, ...chapter } = updatedChapter;
+      setChapters(chapters().map((ch) => (ch.id === chapterId ? chapter : ch)));
     }
 
     // Update selected chapter if it's the one being updated
@@ -102,10 +163,12 @@ const deleteChapter = async (chapterId: string) => {
 
     // Remove from chapters list
     setChapters(chapters().filter((ch) => ch.id !== chapterId));
+    setOutline(await chapterService.getOutline(book.id));
 
     // Clear selected chapter if it was the deleted one
     if (selectedChapter()?.id === chapterId) {
       setSelectedChapter(null);
+      setSelectedSceneId(null);
     }
   } catch (err) {
     setError("Failed to delete chapter.");
@@ -113,48 +176,163 @@ const deleteChapter = async (chapterId: string) => {
   }
 };
 
-const reorderChapters = async (newOrder: string[]) => {
+const reorderChapters = async (move: OutlineMove) => {
   const book = bookStore.selectedBook();
   if (!book) return;
 
   try {
     setError(null);
-    const result = await chapterService.reorderChapters(book.id, newOrder);
+    const result = await chapterService.reorderChapters(book.id, move);
     setChapters(result.chapters);
+    setOutline(result.outline);
   } catch (err) {
     setError("Failed to reorder chapters.");
     console.error(err);
   }
 };
 
-// Auto-save chapter content
-let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+const createPart = async (title: string) => {
+  const book = bookStore.selectedBook();
+  if (!book) return;
+
+  try {
+    setError(null);
+    const part = await chapterService.createPart(book.id, title);
+    setOutline([...outline(), part]);
+    return part;
+  } catch (err) {
+    setError("Failed to create part.");
+    console.error(err);
+  }
+};
+
+const renamePart = async (partId: string, title: string) => {
+  const book = bookStore.selectedBook();
+  if (!book) return;
+
+  try {
+    setError(null);
+    await chapterService.renamePart(book.id, partId, title);
+    setOutline(await chapterService.getOutline(book.id));
+  } catch (err) {
+    setError("Failed to rename part.");
+    console.error(err);
+  }
+};
+
+// Chapters of a deleted part stay in the book, at the part's place
+const deletePart = async (partId: string) => {
+  const book = bookStore.selectedBook();
+  if (!book) return;
+
+  try {
+    setError(null);
+    await chapterService.deletePart(book.id, partId);
+    setOutline(await chapterService.getOutline(book.id));
+  } catch (err) {
+    setError("Failed to delete part.");
+    console.error(err);
+  }
+};
+
+// Scenes: reload the chapter list and the open chapter after each change,
+// since scene edits can rewrite chapter files
+const refreshChapters = async (bookId: string) => {
+  setChapters(await chapterService.getAllChapters(bookId));
+  const current = selectedChapter();
+  if (current) {
+    await selectChapter(current.id);
+  }
+};
+
+const createScene = async (chapterId: string, title: string) => {
+  const book = bookStore.selectedBook();
+  if (!book) return;
+  if (!(await saveOpenText())) return;
+
+  try {
+    setError(null);
+    const scene = await sceneService.createScene(book.id, chapterId, title);
+    await refreshChapters(book.id);
+    return scene;
+  } catch (err) {
+    setError("Failed to create scene.");
+    console.error(err);
+  }
+};
+
+const updateScene = async (chapterId: string, sceneId: string, updates: SceneUpdates) => {
+  const book = bookStore.selectedBook();
+  if (!book) return;
+
+  try {
+    setError(null);
+    await sceneService.updateScene(book.id, chapterId, sceneId, updates);
+    await refreshChapters(book.id);
+  } catch (err) {
+    setError("Failed to update scene.");
+    console.error(err);
+  }
+};
+
+const deleteScene = async (chapterId: string, sceneId: string) => {
+  const book = bookStore.selectedBook();
+  if (!book) return;
+  if (!(await saveOpenText())) return;
 
-const autoSaveChapterContent = (chapterId: string, content: string) => {
-  if (saveTimeout) {
-    clearTimeout(saveTimeout);
+  try {
+    setError(null);
+    await sceneService.deleteScene(book.id, chapterId, sceneId);
+    await refreshChapters(book.id);
+  } catch (err) {
+    setError(err instanceof Error ? err.message : "Failed to delete scene.");
+    console.error(err);
   }
+};
+
+const moveScene = async (sceneId: string, toChapterId: string, toIndex: number) => {
+  const book = bookStore.selectedBook();
+  if (!book) return;
+  if (!(await saveOpenText())) return;
+
+  try {
+    setError(null);
+    await sceneService.moveScene(book.id, sceneId, toChapterId, toIndex);
 
-  saveTimeout = setTimeout(async () => {
-    try {
-      await updateChapter(chapterId, { content });
-    } catch (err) {
-      console.error("Auto-save failed:", err);
+    // Follow the scene if it was open in the editor
+    if (selectedSceneId() === sceneId && selectedChapter()?.id !== toChapterId) {
+      setChapters(await chapterService.getAllChapters(book.id));
+      await selectChapter(toChapterId, sceneId);
+    } else {
+      await refreshChapters(book.id);
     }
-  }, 1000); // Save after 1 second of inactivity
+  } catch (err) {
+    setError(err instanceof Error ? err.message : "Failed to move scene.");
+    console.error(err);
+  }
 };
 
 export const chapterStore = {
   chapters,
+  outline,
   selectedChapter,
+  selectedSceneId,
   loading,
   error,
   selectChapter,
+  closeChapter,
+  setOpenTextSaver,
   createNewChapter,
   updateChapter,
   updateChapterTitle,
   deleteChapter,
   reorderChapters,
-  autoSaveChapterContent,
+  createPart,
+  renamePart,
+  deletePart,
+  createScene,
+  updateScene,
+  deleteScene,
+  moveScene,
   // Add other chapter actions (delete, reorder) as needed
 };
@@ -4,6 +4,31 @@ export type EditorMode = "write" | "code";
 export type TextSize = 50 | 75 | 100 | "960px";
 export type FontSize = 14 | 16 | 18;
 export type PaddingSize = "0.5em" | "1em" | "1.5em";
+// What focus mode leaves undimmed around the cursor
+export type FocusMode = "off" | "sentence" | "paragraph";
+
+// Formatting applied by the editor toolbar, in either mode
+export type FormatType =
+  | "bold"
+  | "italic"
+  | "h1"
+  | "h2"
+  | "h3"
+  | "bulletList"
+  | "orderedList"
+  | "code"
+  | "strikethrough"
+  | "blockquote"
+  | "link"
+  | "clear";
+
+// A span of chapter text the editor should scroll to and select once the
+// chapter is open, e.g. a search result
+export interface EditorReveal {
+  chapterId: string;
+  index: number;
+  length: number;
+}
 
 const [mode, setMode] = createSignal<EditorMode>("write");
 const TEXT_SIZE_KEY = "tswriter-textSize";
@@ -49,6 +74,29 @@ function setPaddingSize(size: PaddingSize) {
   localStorage.setItem(PADDING_SIZE_KEY, size);
 }
 
+const TYPEWRITER_KEY = "tswriter-typewriterScrolling";
+const [typewriterScrolling, _setTypewriterScrolling] = createSignal(
+  localStorage.getItem(TYPEWRITER_KEY) === "true"
+);
+function setTypewriterScrolling(enabled: boolean) {
+  _setTypewriterScrolling(enabled);
+  localStorage.setItem(TYPEWRITER_KEY, String(enabled));
+}
+
+const FOCUS_MODE_KEY = "tswriter-focusMode";
+function loadFocusMode(): FocusMode {
+  const stored = localStorage.getItem(FOCUS_MODE_KEY);
+  if (stored === "sentence" || stored === "paragraph") return stored;
+  return "off";
+}
+const [focusMode, _setFocusMode] = createSignal<FocusMode>(loadFocusMode());
+function setFocusMode(focus: FocusMode) {
+  _setFocusMode(focus);
+  localStorage.setItem(FOCUS_MODE_KEY, focus);
+}
+
+const [reveal, setReveal] = createSignal<EditorReveal | null>(null);
+
 export const editorStore = {
   // Mode
   mode,
@@ -66,4 +114,16 @@ export const editorStore = {
   // Padding Size
   paddingSize,
   setPaddingSize,
+
+  // Typewriter Scrolling
+  typewriterScrolling,
+  setTypewriterScrolling,
+
+  // Focus Mode
+  focusMode,
+  setFocusMode,
+
+  // Jump to text
+  reveal,
+  setReveal,
 };
@@ -0,0 +1,123 @@
+import { createEffect, createSignal, on } from "solid-js";
+import { BookGoals, WritingDay } from "../services/indexedDB";
+import { statsService } from "../services/statsService";
+import { activeSession, dateKey, goalPace, GoalPace } from "../utils/writingStats";
+import { bookStore } from "./bookStore";
+import { chapterStore } from "./chapterStore";
+
+const CELEBRATION_MS = 6000;
+
+const [goals, setGoals] = createSignal<BookGoals>({});
+const [bookWords, setBookWords] = createSignal(0);
+const [days, setDays] = createSignal<WritingDay[]>([]);
+const [celebration, setCelebration] = createSignal<string | null>(null);
+
+// Load goals and writing history when the selected book changes
+createEffect(
+  on(bookStore.selectedBookId, async (bookId) => {
+    setGoals({});
+    setDays([]);
+    if (!bookId) return;
+
+    try {
+      const [bookGoals, history] = await Promise.all([
+        statsService.getGoals(bookId),
+        statsService.getWritingDays(bookId),
+      ]);
+      if (bookStore.selectedBookId() !== bookId) return;
+      setGoals(bookGoals);
+      setDays(history);
+    } catch (err) {
+      console.error("Failed to load goals:", err);
+    }
+  })
+);
+
+// Recount the book when chapters are added, removed or restored. Saves
+// adjust the count as they go.
+createEffect(
+  on(chapterStore.chapters, async () => {
+    const bookId = bookStore.selectedBookId();
+    if (!bookId) {
+      setBookWords(0);
+      return;
+    }
+
+    try {
+      const lengths = await statsService.getChapterLengths(bookId);
+      if (bookStore.selectedBookId() !== bookId) return;
+      const total = lengths.reduce((sum, chapter) => sum + chapter.words, 0);
+      setBookWords(total);
+    } catch (err) {
+      console.error("Failed to count words:", err);
+    }
+  })
+);
+
+const sessionWords = () => activeSession(days(), Date.now())?.words || 0;
+
+// Pacing towards the book's target, null without one
+const pace = (): GoalPace | null => {
+  const target = goals().targetWords;
+  if (!target) return null;
+  return goalPace(target, goals().deadline, bookWords(), days(), dateKey(Date.now()));
+};
+
+let celebrationTimeout: ReturnType<typeof setTimeout> | undefined;
+
+const celebrate = (message: string) => {
+  clearTimeout(celebrationTimeout);
+  setCelebration(message);
+  celebrationTimeout = setTimeout(() => setCelebration(null), CELEBRATION_MS);
+};
+
+const crossed = (before: number, after: number, goal?: number | null) =>
+  !!goal && before < goal && after >= goal;
+
+// Record a save's change in word count and celebrate any goal it reaches
+const recordWords = async (bookId: string, delta: number) => {
+  const before = {
+    book: bookWords(),
+    today: pace()?.wordsToday || 0,
+    session: sessionWords(),
+  };
+
+  await statsService.recordWords(bookId, delta);
+  if (bookStore.selectedBookId() !== bookId) return;
+
+  setBookWords(bookWords() + delta);
+  setDays(await statsService.getWritingDays(bookId));
+
+  const current = pace();
+  const { targetWords, sessionWords: sessionGoal } = goals();
+  if (crossed(before.book, bookWords(), targetWords)) {
+    celebrate(`🎉 ${targetWords!.toLocaleString()} words! You reached your target.`);
+  } else if (current && crossed(before.today, current.wordsToday, current.dailyTarget)) {
+    celebrate(`🎉 Today's ${current.dailyTarget!.toLocaleString()} words are done.`);
+  } else if (crossed(before.session, sessionWords(), sessionGoal)) {
+    celebrate(`🎉 Session goal of ${sessionGoal!.toLocaleString()} words reached.`);
+  }
+};
+
+const saveGoals = async (bookGoals: BookGoals) => {
+  const bookId = bookStore.selectedBookId();
+  if (!bookId) return;
+
+  await statsService.saveGoals(bookId, bookGoals);
+  setGoals(bookGoals);
+};
+
+export const goalStore = {
+  // State
+  goals,
+  bookWords,
+  days,
+  sessionWords,
+  pace,
+  celebration,
+
+  // Actions
+  recordWords,
+  saveGoals,
+  dismissCelebration: () => setCelebration(null),
+};
@@ -1,4 +1,8 @@
 import { createSignal } from "solid-js";
+import { ManuscriptFont } from "../utils/docx";
+import { DEFAULT_PRINT_LAYOUT, PrintLayout } from "../utils/printLayout";
+import { CompileOptions, DEFAULT_COMPILE_OPTIONS } from "../utils/compile";
+import { DEFAULT_SPRINT_OPTIONS, SprintOptions } from "../utils/sprint";
 
 export interface AppSettings {
   googleSyncEnabled: boolean;
@@ -8,6 +12,15 @@ export interface AppSettings {
   offlineMode: boolean;
   autoSave: boolean;
   autoSaveInterval: number; // seconds
+  revisionRetentionCount: number; // revisions kept per chapter
+  revisionRetentionDays: number; // 0 keeps revisions regardless of age
+  manuscriptAuthorName: string; // legal name for manuscript title pages
+  manuscriptByline: string; // pen name, empty to use the legal name
+  manuscriptContact: string; // address, phone and email, one per line
+  manuscriptFont: ManuscriptFont;
+  printLayout: PrintLayout; // last used PDF layout
+  compileOptions: CompileOptions; // last used compile options
+  sprintOptions: SprintOptions; // last used sprint timer options
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
@@ -18,6 +31,15 @@ const DEFAULT_SETTINGS: AppSettings = {
   offlineMode: false,
   autoSave: true,
   autoSaveInterval: 30,
+  revisionRetentionCount: 50,
+  revisionRetentionDays: 30,
+  manuscriptAuthorName: "",
+  manuscriptByline: "",
+  manuscriptContact: "",
+  manuscriptFont: "courier",
+  printLayout: DEFAULT_PRINT_LAYOUT,
+  compileOptions: DEFAULT_COMPILE_OPTIONS,
+  sprintOptions: DEFAULT_SPRINT_OPTIONS,
 };
 
 class SettingsStore {
@@ -48,7 +70,14 @@ class SettingsStore {
       const stored = localStorage.getItem("tswriter-settings");
       if (stored) {
         const parsedSettings = JSON.parse(stored);
-        this.setSettings({ ...DEFAULT_SETTINGS, ...parsedSettings });
+        this.setSettings({
+          ...DEFAULT_SETTINGS,
+          ...parsedSettings,
+          // Layouts saved by older versions may lack newer options
+          printLayout: { ...DEFAULT_PRINT_LAYOUT, ...parsedSettings.printLayout },
+          compileOptions: { ...DEFAULT_COMPILE_OPTIONS, ...parsedSettings.compileOptions },
+          sprintOptions: { ...DEFAULT_SPRINT_OPTIONS, ...parsedSettings.sprintOptions },
+        });
       }
     } catch (error) {
       console.warn("Failed to load settings from localStorage:", error);
@@ -0,0 +1,153 @@
+import { Accessor, createEffect, createSignal, on } from "solid-js";
+import { ChapterWithContent } from "./types";
+import { chapterService, ChapterUpdates } from "../services/chapterService";
+import { RevisionKind } from "../services/revisionService";
+import { bookStore } from "./bookStore";
+import { chapterStore } from "./chapterStore";
+import { editorStore, EditorMode } from "./editorStore";
+
+export type PaneId = "main" | "side";
+// A pane shows a chapter's text, or the notes kept with the chapter
+export type PaneView = "chapter" | "notes";
+export type SplitDirection = "vertical" | "horizontal";
+export type SaveState = "saved" | "unsaved" | "saving" | "failed";
+
+// What one editor pane shows and how it saves. The main pane is the chapter
+// selected in the rest of the app; the side pane opens chapters on its own.
+export interface PaneState {
+  id: PaneId;
+  chapter: Accessor<ChapterWithContent | null>;
+  sceneId: Accessor<string | null>;
+  view: Accessor<PaneView>;
+  mode: Accessor<EditorMode>;
+  setMode: (mode: EditorMode) => void;
+  saveState: Accessor<SaveState>;
+  setSaveState: (state: SaveState) => void;
+  open: (chapterId: string, sceneId?: string | null) => Promise<void>;
+  updateChapter: (
+    updates: ChapterUpdates,
+    revisionKind?: RevisionKind
+  ) => Promise<ChapterWithContent | undefined>;
+}
+
+// Split direction of the editor; null shows the main pane alone
+const [direction, setDirection] = createSignal<SplitDirection | null>(null);
+
+const [mainSaveState, setMainSaveState] = createSignal<SaveState>("saved");
+
+const [sideChapter, setSideChapter] = createSignal<ChapterWithContent | null>(null);
+const [sideSceneId, setSideSceneId] = createSignal<string | null>(null);
+const [sideView, setSideView] = createSignal<PaneView>("chapter");
+const [sideMode, setSideMode] = createSignal<EditorMode>("write");
+const [sideSaveState, setSideSaveState] = createSignal<SaveState>("saved");
+const [error, setError] = createSignal<string | null>(null);
+
+const mainPane: PaneState = {
+  id: "main",
+  chapter: chapterStore.selectedChapter,
+  sceneId: chapterStore.selectedSceneId,
+  view: () => "chapter",
+  mode: editorStore.mode,
+  setMode: editorStore.setMode,
+  saveState: mainSaveState,
+  setSaveState: setMainSaveState,
+  open: chapterStore.selectChapter,
+  updateChapter: async (updates, revisionKind) => {
+    const chapter = chapterStore.selectedChapter();
+    if (!chapter) return;
+    return chapterStore.updateChapter(chapter.id, updates, revisionKind);
+  },
+};
+
+// Open a chapter in the side pane, optionally at one of its scenes
+const openSide = async (chapterId: string, sceneId?: string | null) => {
+  const book = bookStore.selectedBook();
+  if (!book) return;
+
+  try {
+    setError(null);
+    const chapter = await chapterService.getChapterById(book.id, chapterId);
+    setSideChapter(chapter);
+    setSideSceneId(sceneId && chapter.scenes.some((sc) => sc.id === sceneId) ? sceneId : null);
+  } catch (err) {
+    setError("Failed to load chapter.");
+    console.error(err);
+  }
+};
+
+const sidePane: PaneState = {
+  id: "side",
+  chapter: sideChapter,
+  sceneId: sideSceneId,
+  view: sideView,
+  mode: sideMode,
+  setMode: setSideMode,
+  saveState: sideSaveState,
+  setSaveState: setSideSaveState,
+  open: openSide,
+  updateChapter: async (updates, revisionKind) => {
+    const chapter = sideChapter();
+    if (!chapter) return;
+    const updated = await chapterStore.updateChapter(chapter.id, updates, revisionKind);
+    if (updated && sideChapter()?.id === updated.id) setSideChapter(updated);
+    return updated;
+  },
+};
+
+// Split the editor. The side pane starts on the notes of the open chapter.
+const split = async (next: SplitDirection) => {
+  if (!direction()) {
+    const chapter = chapterStore.selectedChapter();
+    setSideView(chapter ? "notes" : "chapter");
+    setSideMode(editorStore.mode());
+    setSideSaveState("saved");
+    if (chapter) await openSide(chapter.id);
+  }
+  setDirection(next);
+};
+
+const close = () => {
+  setDirection(null);
+  setSideChapter(null);
+  setSideSceneId(null);
+  setSideSaveState("saved");
+};
+
+// A book's panes don't carry over to the next book
+createEffect(on(bookStore.selectedBookId, close, { defer: true }));
+
+// Show saves made in the main pane (or elsewhere, like the inspector's notes)
+// in the side pane when both have the same chapter open. The pane keeps its
+// unsaved edits on top of them.
+createEffect(() => {
+  const selected = chapterStore.selectedChapter();
+  const side = sideChapter();
+  if (selected && side && selected.id === side.id && selected !== side) {
+    setSideChapter(selected);
+  }
+});
+
+// Close a chapter that was deleted
+createEffect(() => {
+  const side = sideChapter();
+  if (side && !chapterStore.chapters().some((ch) => ch.id === side.id)) {
+    setSideChapter(null);
+    setSideSceneId(null);
+  }
+});
+
+export const splitStore = {
+  // State
+  direction,
+  isSplit: () => direction() !== null,
+  mainPane,
+  sidePane,
+  error,
+
+  // Actions
+  split,
+  close,
+  setSideView,
+  toggleDirection: () =>
+    setDirection(direction() === "horizontal" ? "vertical" : "horizontal"),
+};
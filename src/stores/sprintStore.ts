@@ -0,0 +1,164 @@
+import { createSignal } from "solid-js";
+import { SprintRecord } from "../services/indexedDB";
+import { statsService } from "../services/statsService";
+import { SprintOptions } from "../utils/sprint";
+import { bookStore } from "./bookStore";
+import { settingsStore } from "./settingsStore";
+import { uiStore } from "./uiStore";
+
+// "summary" shows the results of the rounds just finished
+export type SprintPhase = "idle" | "sprint" | "break" | "summary";
+
+// Word counts of the chapters written in during the current round
+interface ChapterCount {
+  start: number;
+  current: number;
+}
+
+const [phase, setPhase] = createSignal<SprintPhase>("idle");
+const [options, setOptions] = createSignal<SprintOptions>(settingsStore.settings.sprintOptions);
+const [phaseStart, setPhaseStart] = createSignal(0);
+const [phaseEnd, setPhaseEnd] = createSignal(0);
+const [now, setNow] = createSignal(Date.now());
+const [counts, setCounts] = createSignal<Map<string, ChapterCount>>(new Map());
+const [rounds, setRounds] = createSignal<SprintRecord[]>([]);
+
+let ticker: ReturnType<typeof setInterval> | undefined;
+// Whether the sprint turned zen mode on, so it is turned off again afterwards
+let enteredZen = false;
+
+const roundWords = () =>
+  [...counts().values()].reduce((sum, count) => sum + count.current - count.start, 0);
+
+const remaining = () => Math.max(0, phaseEnd() - now());
+const running = () => phase() === "sprint" || phase() === "break";
+
+const lockZen = () => {
+  if (!uiStore.isZenMode()) {
+    uiStore.toggleZenMode();
+    enteredZen = true;
+  }
+  uiStore.setZenLocked(true);
+};
+
+const unlockZen = () => {
+  uiStore.setZenLocked(false);
+  if (enteredZen && uiStore.isZenMode()) uiStore.toggleZenMode();
+  enteredZen = false;
+};
+
+const beginPhase = (next: "sprint" | "break", minutes: number) => {
+  const time = Date.now();
+  setPhase(next);
+  setPhaseStart(time);
+  setPhaseEnd(time + minutes * 60000);
+  setNow(time);
+};
+
+const stopTicker = () => {
+  clearInterval(ticker);
+  ticker = undefined;
+};
+
+const beginSprint = () => {
+  // Chapters already counted start the new round from where they are now
+  const rebased = new Map<string, ChapterCount>();
+  for (const [chapterId, count] of counts()) {
+    rebased.set(chapterId, { start: count.current, current: count.current });
+  }
+  setCounts(rebased);
+  beginPhase("sprint", options().minutes);
+  lockZen();
+};
+
+// Close the running round, keep it in the history and move on to a break or
+// the summary
+const finishRound = (early = false) => {
+  const round: SprintRecord = {
+    start: phaseStart(),
+    end: Date.now(),
+    plannedMinutes: options().minutes,
+    words: roundWords(),
+  };
+  setRounds([...rounds(), round]);
+  unlockZen();
+
+  const bookId = bookStore.selectedBookId();
+  if (bookId) {
+    statsService
+      .recordSprint(bookId, round)
+      .catch((err) => console.error("Failed to record sprint:", err));
+  }
+
+  if (!early && rounds().length < options().rounds) {
+    beginPhase("break", options().breakMinutes);
+  } else {
+    stopTicker();
+    setPhase("summary");
+  }
+};
+
+const tick = () => {
+  setNow(Date.now());
+  if (now() < phaseEnd()) return;
+
+  if (phase() === "sprint") finishRound();
+  else if (phase() === "break") beginSprint();
+};
+
+const start = (sprintOptions: SprintOptions) => {
+  if (running()) return;
+
+  settingsStore.updateSetting("sprintOptions", sprintOptions);
+  setOptions(sprintOptions);
+  setRounds([]);
+  setCounts(new Map());
+  beginSprint();
+
+  stopTicker();
+  ticker = setInterval(tick, 1000);
+};
+
+// End the sprint now; a round in progress counts as far as it got
+const stop = () => {
+  if (phase() === "sprint") {
+    finishRound(true);
+  } else if (phase() === "break") {
+    stopTicker();
+    setPhase("summary");
+  }
+};
+
+const skipBreak = () => {
+  if (phase() === "break") beginSprint();
+};
+
+// The editor reports the word count of the open chapter as it changes. The
+// first count of a chapter is its baseline; counts taken during a break move
+// the baseline of the next round.
+const reportWords = (chapterId: string, words: number) => {
+  if (!running()) return;
+
+  const next = new Map(counts());
+  const count = next.get(chapterId);
+  next.set(chapterId, { start: count ? count.start : words, current: words });
+  setCounts(next);
+};
+
+export const sprintStore = {
+  // State
+  phase,
+  running,
+  options,
+  remaining,
+  roundWords,
+  rounds,
+  currentRound: () => rounds().length + 1,
+
+  // Actions
+  start,
+  stop,
+  skipBreak,
+  reportWords,
+  dismissSummary: () => setPhase("idle"),
+};
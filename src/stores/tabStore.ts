@@ -0,0 +1,158 @@
+import { createEffect, createSignal, on, untrack } from "solid-js";
+import { HistorySelection } from "../utils/editHistory";
+import { bookStore } from "./bookStore";
+import { chapterStore } from "./chapterStore";
+
+// Text of a tab that hasn't been saved, with the scene it was written in
+export interface TabDraft {
+  sceneId: string | null;
+  content: string;
+}
+
+// A chapter open in the main editor. Tabs that aren't shown keep where the
+// writer was and what they haven't saved yet.
+export interface EditorTab {
+  chapterId: string;
+  sceneId: string | null;
+  selection?: HistorySelection;
+  scrollTop?: number;
+  draft?: TabDraft;
+}
+
+interface StoredTabs {
+  tabs: EditorTab[];
+  active: string | null;
+}
+
+const TABS_KEY = "tswriter-tabs";
+
+const [tabs, setTabs] = createSignal<EditorTab[]>([]);
+
+const storageKey = (bookId: string) => `${TABS_KEY}-${bookId}`;
+
+function loadTabs(bookId: string): StoredTabs {
+  try {
+    const stored = localStorage.getItem(storageKey(bookId));
+    if (stored) return JSON.parse(stored) as StoredTabs;
+  } catch (error) {
+    console.error("Failed to load editor tabs:", error);
+  }
+  return { tabs: [], active: null };
+}
+
+// Keep the open tabs of the book for the next visit. Drafts are dropped if
+// they don't fit in storage.
+const saveTabs = () =>
+  untrack(() => {
+    const bookId = bookStore.selectedBookId();
+    if (!bookId) return;
+
+    const active = chapterStore.selectedChapter()?.id || null;
+    const key = storageKey(bookId);
+    try {
+      localStorage.setItem(key, JSON.stringify({ tabs: tabs(), active }));
+    } catch (error) {
+      console.error("Failed to save editor tabs with drafts:", error);
+      const withoutDrafts = tabs().map(({ draft: _draft, ...tab }) => tab);
+      try {
+        localStorage.setItem(key, JSON.stringify({ tabs: withoutDrafts, active }));
+      } catch (retryError) {
+        console.error("Failed to save editor tabs:", retryError);
+      }
+    }
+  });
+
+const updateTabs = (next: EditorTab[]) => {
+  setTabs(next);
+  saveTabs();
+};
+
+const findTab = (chapterId: string) => tabs().find((tab) => tab.chapterId === chapterId);
+
+const updateTab = (chapterId: string, changes: Partial<EditorTab>) => {
+  if (!findTab(chapterId)) return;
+  updateTabs(tabs().map((tab) => (tab.chapterId === chapterId ? { ...tab, ...changes } : tab)));
+};
+
+// Reopen the book's tabs, and the chapter that was shown, when a book opens
+createEffect(
+  on(bookStore.selectedBookId, (bookId) => {
+    if (!bookId) {
+      setTabs([]);
+      return;
+    }
+
+    const stored = loadTabs(bookId);
+    setTabs(stored.tabs);
+    const active = stored.tabs.find((tab) => tab.chapterId === stored.active);
+    if (active && !untrack(chapterStore.selectedChapter)) {
+      chapterStore.selectChapter(active.chapterId, active.sceneId);
+    }
+  })
+);
+
+// Every chapter opened in the main editor, from anywhere, gets a tab
+createEffect(() => {
+  const chapter = chapterStore.selectedChapter();
+  const sceneId = chapterStore.selectedSceneId();
+  if (!chapter) return;
+
+  untrack(() => {
+    const tab = findTab(chapter.id);
+    if (!tab) updateTabs([...tabs(), { chapterId: chapter.id, sceneId }]);
+    else if (tab.sceneId !== sceneId) updateTab(chapter.id, { sceneId });
+    else saveTabs();
+  });
+});
+
+// Close the tabs of deleted chapters once the book's chapters have loaded
+createEffect(() => {
+  const chapters = chapterStore.chapters();
+  if (chapterStore.loading() || chapterStore.error()) return;
+  const open = untrack(tabs);
+  const kept = open.filter((tab) => chapters.some((ch) => ch.id === tab.chapterId));
+  if (kept.length !== open.length) updateTabs(kept);
+});
+
+// Remember where the writer was in a tab that is being left
+const stash = (chapterId: string, state: Pick<EditorTab, "selection" | "scrollTop" | "draft">) =>
+  updateTab(chapterId, { draft: undefined, ...state });
+
+// Hand the unsaved text of a tab to the editor that shows it again
+const takeDraft = (chapterId: string, sceneId: string | null): string | undefined => {
+  const draft = findTab(chapterId)?.draft;
+  if (!draft) return undefined;
+  updateTab(chapterId, { draft: undefined });
+  return draft.sceneId === sceneId ? draft.content : undefined;
+};
+
+const activate = (chapterId: string) => {
+  const tab = findTab(chapterId);
+  if (tab) chapterStore.selectChapter(tab.chapterId, tab.sceneId);
+};
+
+// Close a tab, showing the one next to it if it was the open chapter
+const close = async (chapterId: string) => {
+  const index = tabs().findIndex((tab) => tab.chapterId === chapterId);
+  if (index === -1) return;
+
+  const remaining = tabs().filter((tab) => tab.chapterId !== chapterId);
+  updateTabs(remaining);
+  if (chapterStore.selectedChapter()?.id !== chapterId) return;
+
+  const next = remaining[Math.min(index, remaining.length - 1)];
+  if (next) await chapterStore.selectChapter(next.chapterId, next.sceneId);
+  else chapterStore.closeChapter();
+};
+
+export const tabStore = {
+  // State
+  tabs,
+  tab: findTab,
+
+  // Actions
+  activate,
+  close,
+  stash,
+  takeDraft,
+};
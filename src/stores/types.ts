@@ -1,12 +1,54 @@
 // src/frontend/src/stores/types.ts
 
+export type SceneStatus = "outline" | "draft" | "revised" | "final";
+
+// Type for a scene's metadata (as stored in book.json)
+export interface Scene {
+  id: string;
+  title: string;
+  synopsis: string;
+  pov: string;
+  status: SceneStatus;
+}
+
 // Type for a chapter's metadata (as stored in book.json)
+export type ChapterStatus = "idea" | "draft" | "revised" | "final";
+
+export type LabelColor = "red" | "orange" | "yellow" | "green" | "teal" | "blue" | "purple" | "pink";
+
+export interface ChapterLabel {
+  name: string;
+  color: LabelColor;
+}
+
 export interface Chapter {
   id: string;
   title: string;
   fileName: string;
+  scenes: Scene[];
+  synopsis?: string;
+  status?: ChapterStatus;
+  labels?: ChapterLabel[];
+  pov?: string;
+  targetWords?: number;
+  notes?: string;
 }
 
+// Types for the book outline: chapters at the top level or grouped in parts
+export interface OutlineChapter {
+  type: "chapter";
+  id: string;
+}
+
+export interface OutlinePart {
+  type: "part";
+  id: string;
+  title: string;
+  chapterIds: string[];
+}
+
+export type OutlineNode = OutlineChapter | OutlinePart;
+
 // Type for a full chapter including its content
 export interface ChapterWithContent extends Chapter {
   content: string;
@@ -1,15 +1,23 @@
 import { createSignal } from "solid-js";
 
+export type RightPanel = "ideas" | "inspector" | "search";
+
 interface UIState {
   isZenMode: boolean;
   showChapters: boolean;
   showIdeas: boolean;
+  showCorkboard: boolean;
+  rightPanel: RightPanel;
+  zenLocked: boolean; // zen mode can't be left, e.g. during a writing sprint
 }
 
 const [uiState, setUIState] = createSignal<UIState>({
   isZenMode: false,
   showChapters: true,
   showIdeas: true,
+  showCorkboard: false,
+  rightPanel: "ideas",
+  zenLocked: false,
 });
 
 export const uiStore = {
@@ -18,10 +26,14 @@ export const uiStore = {
   isZenMode: () => uiState().isZenMode,
   showChapters: () => uiState().showChapters,
   showIdeas: () => uiState().showIdeas,
+  showCorkboard: () => uiState().showCorkboard,
+  rightPanel: () => uiState().rightPanel,
+  zenLocked: () => uiState().zenLocked,
 
   // Actions
   toggleZenMode: () => {
     const currentState = uiState();
+    if (currentState.zenLocked) return;
     const newZenMode = !currentState.isZenMode;
 
     setUIState({
@@ -33,6 +45,7 @@ export const uiStore = {
   },
 
   toggleChapters: () => {
+    if (uiState().zenLocked) return;
     setUIState((prev) => ({
       ...prev,
       showChapters: !prev.showChapters,
@@ -41,6 +54,7 @@ export const uiStore = {
   },
 
   toggleIdeas: () => {
+    if (uiState().zenLocked) return;
     setUIState((prev) => ({
       ...prev,
       showIdeas: !prev.showIdeas,
@@ -48,12 +62,32 @@ export const uiStore = {
     }));
   },
 
+  // Swap the editor for the corkboard of chapter cards and back
+  toggleCorkboard: () => {
+    setUIState((prev) => ({
+      ...prev,
+      showCorkboard: !prev.showCorkboard,
+    }));
+  },
+
+  setRightPanel: (rightPanel: RightPanel) => {
+    setUIState((prev) => ({ ...prev, rightPanel }));
+  },
+
+  // While locked, zen mode and the side panels ignore their toggles
+  setZenLocked: (zenLocked: boolean) => {
+    setUIState((prev) => ({ ...prev, zenLocked }));
+  },
+
   // Reset to default state
   resetToDefault: () => {
     setUIState({
       isZenMode: false,
       showChapters: true,
       showIdeas: true,
+      showCorkboard: false,
+      rightPanel: "ideas",
+      zenLocked: false,
     });
   },
 };
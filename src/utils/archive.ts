@@ -0,0 +1,334 @@
+// src/utils/archive.ts
+
+import JSZip from "jszip";
+import { bookManagerService } from "../services/bookManager";
+import {
+  indexedDBService,
+  BookConfig,
+  BookEntry,
+  Chapter,
+  Idea,
+  OutlineNode,
+} from "../services/indexedDB";
+import { downloadBlob, toFileName } from "./fileSystem";
+
+// A book read from a .zip archive, already checked for a usable structure
+export interface BookArchive {
+  fileName: string;
+  sourceBookId?: string; // id of the book the archive was exported from
+  name: string;
+  version: string;
+  config: BookConfig;
+  chapters: { [fileName: string]: string };
+}
+
+export type ArchiveImportTarget = { mode: "new"; name: string } | { mode: "merge"; bookId: string };
+
+export interface ArchiveMergeSummary {
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+}
+
+// Pack a book into a .zip with the same layout as a folder export:
+// <bookId>/info.json and <bookId>/chapters/*.md
+export async function exportBookToZip(bookId: string) {
+  await indexedDBService.initialize();
+  const book: BookEntry | null = await indexedDBService.getBook(bookId);
+  if (!book) throw new Error("Book not found");
+
+  const info = {
+    id: book.id,
+    name: book.name,
+    version: book.version,
+    createdAt: book.localLastModified,
+    lastModified: book.localLastModified,
+    config: book.config,
+  };
+
+  const zip = new JSZip();
+  const folder = zip.folder(book.id)!;
+  folder.file("info.json", JSON.stringify(info, null, 2));
+
+  const chaptersFolder = folder.folder("chapters")!;
+  const chapterFiles = await indexedDBService.listChapterFiles(bookId);
+  for (const fileName of chapterFiles) {
+    const content = await indexedDBService.getChapterContent(bookId, fileName);
+    if (content !== null) {
+      chaptersFolder.file(fileName, content);
+    }
+  }
+
+  const blob = await zip.generateAsync({
+    type: "blob",
+    mimeType: "application/zip",
+    compression: "DEFLATE",
+  });
+  downloadBlob(blob, toFileName(book.name, "zip"));
+}
+
+// The fields of info.json an import reads, once they have been checked
+interface ArchiveInfo {
+  id?: string;
+  name: string;
+  version?: string;
+  config: {
+    schemaVersion?: number;
+    chapters: Chapter[];
+    chapterOrder: string[];
+    outline: OutlineNode[];
+    ideas: Record<string, Idea[]>;
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+function isChapter(value: unknown): value is Chapter {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.title === "string" &&
+    typeof value.fileName === "string"
+  );
+}
+
+function isOutlineNode(value: unknown): value is OutlineNode {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    (value.type === "chapter" ||
+      (value.type === "part" &&
+        typeof value.title === "string" &&
+        isStringList(value.chapterIds)))
+  );
+}
+
+function isIdea(value: unknown): value is Idea {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.text === "string" &&
+    typeof value.order === "number"
+  );
+}
+
+// Check info.json describes a book we can import. Returns the fields an import
+// reads, or everything wrong with it.
+function validateInfo(info: unknown): ArchiveInfo | string[] {
+  const problems: string[] = [];
+  if (!isRecord(info)) return ["info.json does not contain an object"];
+
+  const name = typeof info.name === "string" ? info.name.trim() : "";
+  if (!name) {
+    problems.push("info.json has no book name");
+  }
+
+  const config = info.config;
+  if (!isRecord(config)) {
+    problems.push("info.json has no config");
+    return problems;
+  }
+  const chapters = Array.isArray(config.chapters) ? config.chapters.filter(isChapter) : [];
+  if (!Array.isArray(config.chapters) || chapters.length !== config.chapters.length) {
+    problems.push("config.chapters must be a list of { id, title, fileName }");
+  }
+  const chapterOrder = isStringList(config.chapterOrder) ? config.chapterOrder : [];
+  if (!isStringList(config.chapterOrder)) {
+    problems.push("config.chapterOrder must be a list of chapter ids");
+  }
+  const ideas: Record<string, Idea[]> = {};
+  const ideaLists = config.ideas === undefined ? {} : config.ideas;
+  for (const [chapterId, list] of Object.entries(isRecord(ideaLists) ? ideaLists : {})) {
+    if (Array.isArray(list) && list.every(isIdea)) ideas[chapterId] = list;
+  }
+  if (!isRecord(ideaLists) || Object.keys(ideas).length !== Object.keys(ideaLists).length) {
+    problems.push("config.ideas must map chapter ids to lists of { id, text, order }");
+  }
+  if (problems.length > 0) return problems;
+
+  return {
+    id: typeof info.id === "string" ? info.id : undefined,
+    name,
+    version: typeof info.version === "string" ? info.version : undefined,
+    config: {
+      schemaVersion: typeof config.schemaVersion === "number" ? config.schemaVersion : undefined,
+      chapters,
+      chapterOrder,
+      // Archives from before parts have no outline; one is built on load
+      outline: Array.isArray(config.outline) ? config.outline.filter(isOutlineNode) : [],
+      ideas,
+    },
+  };
+}
+
+// Read and validate a book archive. The book may sit at the root of the
+// archive or inside a single top-level folder, as exportBookToZip writes it.
+export async function readBookArchive(file: File): Promise<BookArchive> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (e) {
+    throw new Error("Not a valid .zip file: " + (e instanceof Error ? e.message : e));
+  }
+
+  const infoPaths = Object.keys(zip.files).filter(
+    (path) => !zip.files[path].dir && /^([^/]+\/)?info\.json$/.test(path)
+  );
+  if (infoPaths.length === 0) {
+    throw new Error("The archive has no info.json");
+  }
+  if (infoPaths.length > 1) {
+    throw new Error("The archive contains more than one book");
+  }
+  const root = infoPaths[0].slice(0, -"info.json".length);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await zip.file(infoPaths[0])!.async("string"));
+  } catch (e) {
+    throw new Error("Failed to read info.json: " + (e instanceof Error ? e.message : e));
+  }
+
+  const info = validateInfo(parsed);
+  if (Array.isArray(info)) {
+    throw new Error("Invalid book archive:\n- " + info.join("\n- "));
+  }
+
+  const chapters: { [fileName: string]: string } = {};
+  const chaptersPrefix = `${root}chapters/`;
+  for (const [path, entry] of Object.entries(zip.files)) {
+    if (entry.dir || !path.startsWith(chaptersPrefix)) continue;
+    const fileName = path.slice(chaptersPrefix.length);
+    if (fileName.includes("/") || !fileName.endsWith(".md")) continue;
+    chapters[fileName] = await entry.async("string");
+  }
+
+  const config = info.config;
+  const missing = config.chapters
+    .filter((chapter) => !(chapter.fileName in chapters))
+    .map((chapter) => chapter.fileName);
+  if (missing.length > 0) {
+    throw new Error(
+      "Invalid book archive: missing chapter files:\n- " + missing.join("\n- ")
+    );
+  }
+
+  // Order only defined chapters, and every one of them
+  const chapterIds = new Set(config.chapters.map((chapter) => chapter.id));
+  const chapterOrder = config.chapterOrder.filter((id) => chapterIds.has(id));
+  for (const chapter of config.chapters) {
+    if (!chapterOrder.includes(chapter.id)) chapterOrder.push(chapter.id);
+  }
+
+  return {
+    fileName: file.name,
+    sourceBookId: info.id,
+    name: info.name,
+    version: info.version || "1.0.0",
+    config: { ...config, chapterOrder },
+    chapters,
+  };
+}
+
+async function importAsNewBook(archive: BookArchive, name: string): Promise<string> {
+  const bookId = await bookManagerService.createLocalBook(name);
+
+  for (const chapter of archive.config.chapters) {
+    await indexedDBService.saveChapterContent(
+      bookId,
+      chapter.fileName,
+      archive.chapters[chapter.fileName],
+      false
+    );
+  }
+  await bookManagerService.updateBookConfig(bookId, archive.config);
+
+  return bookId;
+}
+
+// Archive chapters replace the matching local chapter (by id, then file name);
+// new ones are appended and chapters only in the book are kept. A snapshot is
+// taken first so the merge can be undone.
+async function mergeIntoBook(archive: BookArchive, bookId: string): Promise<ArchiveMergeSummary> {
+  const book = await bookManagerService.getBook(bookId);
+  if (!book) throw new Error(`Book with id ${bookId} not found`);
+
+  await bookManagerService.createSnapshot(bookId, `Before importing "${archive.fileName}"`);
+
+  const summary: ArchiveMergeSummary = { added: [], updated: [], unchanged: [] };
+  const config: BookConfig = {
+    ...book.config,
+    chapters: [...book.config.chapters],
+    chapterOrder: [...book.config.chapterOrder],
+    ideas: { ...book.config.ideas },
+  };
+
+  for (const chapterId of archive.config.chapterOrder) {
+    const incoming = archive.config.chapters.find((chapter) => chapter.id === chapterId);
+    if (!incoming) continue;
+    const content = archive.chapters[incoming.fileName];
+    const incomingIdeas: Idea[] = archive.config.ideas[incoming.id] || [];
+
+    const existing =
+      config.chapters.find((chapter) => chapter.id === incoming.id) ||
+      config.chapters.find((chapter) => chapter.fileName === incoming.fileName);
+
+    if (!existing) {
+      config.chapters.push(incoming);
+      config.chapterOrder.push(incoming.id);
+      config.ideas[incoming.id] = incomingIdeas;
+      await indexedDBService.saveChapterContent(bookId, incoming.fileName, content, false);
+      summary.added.push(incoming.title);
+      continue;
+    }
+
+    const localContent = await indexedDBService.getChapterContent(bookId, existing.fileName);
+    if (localContent !== content) {
+      await indexedDBService.saveChapterContent(bookId, existing.fileName, content, false);
+    }
+
+    // Keep local ideas and add the ones only the archive has
+    const localIdeas = config.ideas[existing.id] || [];
+    const localIdeaIds = new Set(localIdeas.map((idea) => idea.id));
+    const newIdeas = incomingIdeas.filter((idea) => !localIdeaIds.has(idea.id));
+    config.ideas[existing.id] = [
+      ...localIdeas,
+      ...newIdeas.map((idea, index) => ({ ...idea, order: localIdeas.length + index })),
+    ];
+
+    const renamed = existing.title !== incoming.title;
+    if (renamed) {
+      config.chapters = config.chapters.map((chapter) =>
+        chapter.id === existing.id ? { ...chapter, title: incoming.title } : chapter
+      );
+    }
+
+    if (localContent !== content || renamed || newIdeas.length > 0) {
+      summary.updated.push(incoming.title);
+    } else {
+      summary.unchanged.push(incoming.title);
+    }
+  }
+
+  await bookManagerService.updateBookConfig(bookId, config);
+  return summary;
+}
+
+// Import a validated archive as a new book or into an existing one
+export async function importBookArchive(
+  archive: BookArchive,
+  target: ArchiveImportTarget
+): Promise<{ bookId: string; summary?: ArchiveMergeSummary }> {
+  await indexedDBService.initialize();
+
+  if (target.mode === "new") {
+    return { bookId: await importAsNewBook(archive, target.name) };
+  }
+
+  const summary = await mergeIntoBook(archive, target.bookId);
+  return { bookId: target.bookId, summary };
+}
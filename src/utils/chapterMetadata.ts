@@ -0,0 +1,62 @@
+// src/utils/chapterMetadata.ts
+
+import { Chapter, ChapterLabel, ChapterStatus, LabelColor } from "../stores/types";
+
+export const CHAPTER_STATUSES: { value: ChapterStatus; label: string; color: string }[] = [
+  { value: "idea", label: "Idea", color: "bg-purple-400" },
+  { value: "draft", label: "Draft", color: "bg-amber-400" },
+  { value: "revised", label: "Revised", color: "bg-sky-500" },
+  { value: "final", label: "Final", color: "bg-emerald-500" },
+];
+
+// Tailwind background class for each label color
+export const LABEL_COLORS: Record<LabelColor, string> = {
+  red: "bg-red-500",
+  orange: "bg-orange-400",
+  yellow: "bg-yellow-400",
+  green: "bg-green-500",
+  teal: "bg-teal-500",
+  blue: "bg-blue-500",
+  purple: "bg-purple-500",
+  pink: "bg-pink-400",
+};
+
+export function chapterStatus(chapter: Chapter) {
+  return CHAPTER_STATUSES.find((status) => status.value === (chapter.status || "draft"))!;
+}
+
+// Every label used in the book, once per name, sorted by name
+export function collectLabels(chapters: Chapter[]): ChapterLabel[] {
+  const labels = new Map<string, ChapterLabel>();
+  for (const chapter of chapters) {
+    for (const label of chapter.labels || []) {
+      if (!labels.has(label.name)) labels.set(label.name, label);
+    }
+  }
+  return [...labels.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function collectPovs(chapters: Chapter[]): string[] {
+  const povs = new Set(chapters.map((chapter) => chapter.pov?.trim() || "").filter(Boolean));
+  return [...povs].sort((a, b) => a.localeCompare(b));
+}
+
+// Empty fields match every chapter
+export interface ChapterFilter {
+  status: ChapterStatus | "";
+  label: string;
+  pov: string;
+}
+
+export const EMPTY_CHAPTER_FILTER: ChapterFilter = { status: "", label: "", pov: "" };
+
+export function isFilterActive(filter: ChapterFilter): boolean {
+  return !!(filter.status || filter.label || filter.pov);
+}
+
+export function matchesChapterFilter(chapter: Chapter, filter: ChapterFilter): boolean {
+  if (filter.status && (chapter.status || "draft") !== filter.status) return false;
+  if (filter.label && !chapter.labels?.some((label) => label.name === filter.label)) return false;
+  if (filter.pov && chapter.pov?.trim() !== filter.pov) return false;
+  return true;
+}
@@ -0,0 +1,180 @@
+// src/utils/compile.ts
+
+import { marked } from "marked";
+import { downloadBlob, toFileName } from "./fileSystem";
+import { escapeXml, loadManuscript, Manuscript } from "./manuscript";
+
+export type CompileFormat = "markdown" | "html";
+export type ChapterHeadingStyle = "title" | "numbered" | "numbered-title" | "none";
+export type ChapterSeparator = "none" | "rule" | "ornament" | "page-break";
+
+export interface CompileOptions {
+  format: CompileFormat;
+  headingStyle: ChapterHeadingStyle;
+  separator: ChapterSeparator;
+  includeToc: boolean;
+  // Drop the "# Title" line chapters start with, since headingStyle adds its own
+  stripTitleLine: boolean;
+}
+
+export const DEFAULT_COMPILE_OPTIONS: CompileOptions = {
+  format: "markdown",
+  headingStyle: "title",
+  separator: "none",
+  includeToc: true,
+  stripTitleLine: true,
+};
+
+const ORNAMENT = "❦";
+
+interface CompiledChapter {
+  anchor: string;
+  heading: string | null;
+  tocLabel: string;
+  body: string;
+}
+
+function chapterHeading(style: ChapterHeadingStyle, title: string, number: number) {
+  switch (style) {
+    case "title":
+      return title;
+    case "numbered":
+      return `Chapter ${number}`;
+    case "numbered-title":
+      return `Chapter ${number}: ${title}`;
+    default:
+      return null;
+  }
+}
+
+function prepareChapters(manuscript: Manuscript, options: CompileOptions): CompiledChapter[] {
+  return manuscript.chapters.map((chapter, index) => {
+    let body = chapter.content;
+    if (options.stripTitleLine) {
+      body = body.replace(/^\s*#[ \t]+[^\n]*(\n|$)/, "");
+    }
+
+    const heading = chapterHeading(options.headingStyle, chapter.title, index + 1);
+    return {
+      anchor: `chapter-${index + 1}`,
+      heading,
+      tocLabel: heading || chapter.title,
+      body: body.trim(),
+    };
+  });
+}
+
+// Join all chapters into a single Markdown document
+export function compileMarkdown(manuscript: Manuscript, options: CompileOptions): string {
+  const chapters = prepareChapters(manuscript, options);
+  const parts: string[] = [`# ${manuscript.book.name}`];
+
+  if (options.includeToc && chapters.length > 0) {
+    parts.push(
+      "## Contents\n\n" +
+        chapters.map((chapter) => `- [${chapter.tocLabel}](#${chapter.anchor})`).join("\n")
+    );
+  }
+
+  const separator =
+    options.separator === "rule"
+      ? "---"
+      : options.separator === "ornament"
+      ? `<p align="center">${ORNAMENT}</p>`
+      : options.separator === "page-break"
+      ? '<div style="page-break-after: always"></div>'
+      : null;
+
+  chapters.forEach((chapter, index) => {
+    if (index > 0 && separator) parts.push(separator);
+
+    const anchor = `<a id="${chapter.anchor}"></a>`;
+    parts.push(chapter.heading ? `${anchor}\n\n## ${chapter.heading}` : anchor);
+    if (chapter.body) parts.push(chapter.body);
+  });
+
+  return parts.join("\n\n") + "\n";
+}
+
+// Render all chapters into one standalone HTML page
+export function compileHtml(manuscript: Manuscript, options: CompileOptions): string {
+  const chapters = prepareChapters(manuscript, options);
+
+  const toc =
+    options.includeToc && chapters.length > 0
+      ? `<nav class="toc">
+<h2>Contents</h2>
+<ol>
+${chapters
+  .map((chapter) => `<li><a href="#${chapter.anchor}">${escapeXml(chapter.tocLabel)}</a></li>`)
+  .join("\n")}
+</ol>
+</nav>`
+      : "";
+
+  const separator =
+    options.separator === "rule"
+      ? `<hr class="chapter-separator" />`
+      : options.separator === "ornament"
+      ? `<p class="ornament">${ORNAMENT}</p>`
+      : "";
+
+  const sections = chapters
+    .map((chapter, index) => {
+      const heading = chapter.heading ? `<h2>${escapeXml(chapter.heading)}</h2>\n` : "";
+      return `${index > 0 ? separator : ""}
+<section class="chapter" id="${chapter.anchor}">
+${heading}${marked(chapter.body)}
+</section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="${escapeXml(navigator.language || "en")}">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeXml(manuscript.book.name)}</title>
+<style>
+body { max-width: 38em; margin: 0 auto; padding: 2em 1.5em 4em; font-family: Georgia, serif; font-size: 1.1rem; line-height: 1.6; color: #222; background: #fdfcf9; }
+h1 { text-align: center; font-weight: normal; font-size: 2.4em; margin: 1.5em 0; }
+h2 { text-align: center; font-weight: normal; margin: 2.5em 0 1.5em; }
+.toc ol { padding-left: 1.5em; }
+.toc a { color: inherit; }
+hr { border: none; text-align: center; margin: 2em 0; }
+hr::after { content: "* * *"; }
+hr.chapter-separator { border-top: 1px solid #ccc; margin: 3em 0; }
+hr.chapter-separator::after { content: none; }
+.ornament { text-align: center; font-size: 1.5em; margin: 2em 0; }
+blockquote { margin: 1em 2em; font-style: italic; }
+${options.separator === "page-break" ? ".chapter + .chapter { break-before: page; }" : ""}
+@media print { body { background: none; max-width: none; } }
+</style>
+</head>
+<body>
+<h1>${escapeXml(manuscript.book.name)}</h1>
+${toc}
+${sections}
+</body>
+</html>
+`;
+}
+
+// Compile a whole book into one file and download it
+export async function compileBook(bookId: string, options: CompileOptions) {
+  const manuscript = await loadManuscript(bookId);
+
+  if (options.format === "html") {
+    const html = compileHtml(manuscript, options);
+    downloadBlob(
+      new Blob([html], { type: "text/html;charset=utf-8" }),
+      toFileName(manuscript.book.name, "html")
+    );
+  } else {
+    const markdown = compileMarkdown(manuscript, options);
+    downloadBlob(
+      new Blob([markdown], { type: "text/markdown;charset=utf-8" }),
+      toFileName(manuscript.book.name, "md")
+    );
+  }
+}
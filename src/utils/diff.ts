@@ -0,0 +1,167 @@
+// src/utils/diff.ts
+
+export type DiffOpType = "equal" | "insert" | "delete";
+
+export interface DiffOp<T> {
+  type: DiffOpType;
+  items: T[];
+}
+
+// Myers O(ND) diff between two sequences. Consecutive operations of the same
+// type are coalesced, so the result alternates between equal and changed runs.
+export function diffSequences<T>(a: T[], b: T[]): DiffOp<T>[] {
+  // Trim the common prefix and suffix - most edits touch a small region
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  const ops: DiffOp<T>[] = [];
+  const push = (type: DiffOpType, item: T) => {
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) {
+      last.items.push(item);
+    } else {
+      ops.push({ type, items: [item] });
+    }
+  };
+
+  for (let i = 0; i < prefix; i++) push("equal", a[i]);
+  for (const step of myers(midA, midB)) {
+    if (step.type === "equal") push("equal", midA[step.aIndex]);
+    else if (step.type === "delete") push("delete", midA[step.aIndex]);
+    else push("insert", midB[step.bIndex]);
+  }
+  for (let i = a.length - suffix; i < a.length; i++) push("equal", a[i]);
+
+  return ops;
+}
+
+// Split text into lines, keeping the split lossless so join("\n") round-trips
+export function splitLines(text: string): string[] {
+  return text.split("\n");
+}
+
+export function diffLines(a: string, b: string): DiffOp<string>[] {
+  return diffSequences(splitLines(a), splitLines(b));
+}
+
+// Split text into words and the whitespace between them, so joining the
+// tokens reproduces the original text exactly
+export function splitWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+export function diffWords(a: string, b: string): DiffOp<string>[] {
+  return diffSequences(splitWords(a), splitWords(b));
+}
+
+// For every item of `a`, the index of the matching item in `b` (or -1)
+export function matchIndices<T>(a: T[], b: T[]): Int32Array {
+  const matches = new Int32Array(a.length).fill(-1);
+  let aIndex = 0;
+  let bIndex = 0;
+
+  for (const op of diffSequences(a, b)) {
+    if (op.type === "equal") {
+      for (let i = 0; i < op.items.length; i++) {
+        matches[aIndex++] = bIndex++;
+      }
+    } else if (op.type === "delete") {
+      aIndex += op.items.length;
+    } else {
+      bIndex += op.items.length;
+    }
+  }
+
+  return matches;
+}
+
+interface MyersStep {
+  type: DiffOpType;
+  aIndex: number;
+  bIndex: number;
+}
+
+function myers<T>(a: T[], b: T[]): MyersStep[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 && m === 0) return [];
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Snapshot of v before each round d, limited to the diagonals it can reach
+  const trace: Int32Array[] = [];
+
+  let finalD = -1;
+  for (let d = 0; d <= max && finalD === -1; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        finalD = d;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit path
+  const steps: MyersStep[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = finalD; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      steps.push({ type: "equal", aIndex: x, bIndex: y });
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        steps.push({ type: "insert", aIndex: x, bIndex: prevY });
+      } else {
+        steps.push({ type: "delete", aIndex: prevX, bIndex: y });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return steps.reverse();
+}
@@ -0,0 +1,568 @@
+// src/utils/documentEditing.ts
+
+// Edits to a markdown document for the write mode editor. Every edit returns
+// a new document, sharing the blocks it didn't change, and the selection to
+// show after it.
+
+import {
+  Block,
+  blockText,
+  Mark,
+  MarkdownDocument,
+  MarkType,
+  normalizeRuns,
+  parseMarkdown,
+  sameMark,
+  TextRun,
+} from "./markdownDocument";
+
+// Offsets count characters of a block's text, with an atom as one character
+export interface DocPosition {
+  block: number;
+  offset: number;
+}
+
+export interface DocSelection {
+  anchor: DocPosition;
+  head: DocPosition;
+}
+
+export interface EditResult {
+  doc: MarkdownDocument;
+  selection: DocSelection;
+}
+
+export const caret = (position: DocPosition): DocSelection => ({
+  anchor: position,
+  head: position,
+});
+
+export const comparePositions = (a: DocPosition, b: DocPosition) =>
+  a.block - b.block || a.offset - b.offset;
+
+export const isCollapsed = (selection: DocSelection) =>
+  comparePositions(selection.anchor, selection.head) === 0;
+
+export function selectionRange(selection: DocSelection): [DocPosition, DocPosition] {
+  const { anchor, head } = selection;
+  return comparePositions(anchor, head) <= 0 ? [anchor, head] : [head, anchor];
+}
+
+export const blockLength = (block: Block) => blockText(block).length;
+
+const isEditable = (block: Block) => block.type !== "raw";
+const hasInline = (block: Block) => block.type !== "raw" && block.type !== "code";
+
+// The block with new content or formatting; it is written out from the model
+// from now on
+export const edited = (block: Block, changes: Partial<Block>): Block => ({
+  ...block,
+  ...changes,
+  source: undefined,
+});
+
+export const emptyParagraph = (): Block => ({ type: "paragraph", runs: [] });
+
+const runLength = (run: TextRun) => (run.atom ? 1 : run.text.length);
+
+export function sliceRuns(runs: TextRun[], from: number, to: number = Infinity): TextRun[] {
+  const result: TextRun[] = [];
+  let position = 0;
+  for (const run of runs) {
+    const length = runLength(run);
+    const start = Math.max(from, position);
+    const end = Math.min(to, position + length);
+    if (start < end) {
+      const text = run.text.slice(start - position, end - position);
+      result.push(run.atom ? run : { ...run, text });
+    }
+    position += length;
+  }
+  return result;
+}
+
+const plain = (runs: TextRun[]): TextRun[] =>
+  normalizeRuns(runs.map((run) => ({ text: run.text, marks: [] })));
+
+const withBlocks = (doc: MarkdownDocument, blocks: Block[]): MarkdownDocument => ({
+  blocks,
+  trailing: doc.trailing,
+});
+
+const replaceBlock = (doc: MarkdownDocument, index: number, ...blocks: Block[]) =>
+  withBlocks(doc, [...doc.blocks.slice(0, index), ...blocks, ...doc.blocks.slice(index + 1)]);
+
+// Marks for text typed at a position: those of the character before it, or
+// after it at the start of a block. Links don't grow at their ends.
+export function marksAt(doc: MarkdownDocument, position: DocPosition): Mark[] {
+  const block = doc.blocks[position.block];
+  if (!block || !hasInline(block)) return [];
+
+  const before = sliceRuns(block.runs, position.offset - 1, position.offset)[0];
+  const after = sliceRuns(block.runs, position.offset, position.offset + 1)[0];
+  const marks = (before || after)?.marks || [];
+  return marks.filter(
+    (mark) =>
+      mark.type !== "link" ||
+      (!!before?.marks.some((other) => sameMark(other, mark)) &&
+        !!after?.marks.some((other) => sameMark(other, mark)))
+  );
+}
+
+export function deleteRange(doc: MarkdownDocument, from: DocPosition, to: DocPosition): EditResult {
+  const first = doc.blocks[from.block];
+  const last = doc.blocks[to.block];
+
+  if (from.block === to.block) {
+    if (!isEditable(first) || from.offset === to.offset) return { doc, selection: caret(from) };
+    const runs = normalizeRuns([
+      ...sliceRuns(first.runs, 0, from.offset),
+      ...sliceRuns(first.runs, to.offset),
+    ]);
+    return { doc: replaceBlock(doc, from.block, edited(first, { runs })), selection: caret(from) };
+  }
+
+  const tail = isEditable(last) ? sliceRuns(last.runs, to.offset) : [];
+  let merged: Block[];
+  if (!isEditable(first)) {
+    // A selected raw block goes with the rest of the selection
+    merged = isEditable(last) ? [edited(last, { runs: normalizeRuns(tail) })] : [];
+  } else {
+    const head = sliceRuns(first.runs, 0, from.offset);
+    const runs = normalizeRuns([...head, ...(first.type === "code" ? plain(tail) : tail)]);
+    merged = [edited(first, { runs })];
+  }
+
+  const rest = doc.blocks.slice(to.block + 1);
+  // Without the deleted blocks, the next one no longer follows the text its gap was read after
+  if (merged.length === 0 && rest.length > 0) rest[0] = { ...rest[0], gap: undefined };
+  const blocks = [...doc.blocks.slice(0, from.block), ...merged, ...rest];
+  const position = { block: from.block, offset: isEditable(first) ? from.offset : 0 };
+  if (blocks.length === 0) blocks.push(emptyParagraph());
+  return { doc: withBlocks(doc, blocks), selection: caret(position) };
+}
+
+export function deleteSelection(doc: MarkdownDocument, selection: DocSelection): EditResult {
+  const [from, to] = selectionRange(selection);
+  return deleteRange(doc, from, to);
+}
+
+export function insertText(
+  doc: MarkdownDocument,
+  selection: DocSelection,
+  text: string,
+  marks?: Mark[] | null
+): EditResult {
+  const cleared = deleteSelection(doc, selection);
+  let { doc: next } = cleared;
+  let position = cleared.selection.head;
+
+  // Typing on a raw block starts a paragraph after it
+  if (!isEditable(next.blocks[position.block])) {
+    next = withBlocks(next, [
+      ...next.blocks.slice(0, position.block + 1),
+      emptyParagraph(),
+      ...next.blocks.slice(position.block + 1),
+    ]);
+    position = { block: position.block + 1, offset: 0 };
+  }
+
+  const block = next.blocks[position.block];
+  const runMarks = hasInline(block) ? marks ?? marksAt(next, position) : [];
+  const runs = normalizeRuns([
+    ...sliceRuns(block.runs, 0, position.offset),
+    { text, marks: runMarks },
+    ...sliceRuns(block.runs, position.offset),
+  ]);
+  return {
+    doc: replaceBlock(next, position.block, edited(block, { runs })),
+    selection: caret({ block: position.block, offset: position.offset + text.length }),
+  };
+}
+
+// The previous or next character, keeping surrogate pairs together
+function characterSpan(text: string, offset: number, backward: boolean): [number, number] {
+  if (backward) {
+    const pair = /[\uDC00-\uDFFF]/.test(text[offset - 1] || "") && offset > 1;
+    return [offset - (pair ? 2 : 1), offset];
+  }
+  const pair = /[\uD800-\uDBFF]/.test(text[offset] || "");
+  return [offset, offset + (pair ? 2 : 1)];
+}
+
+// Formatting that Backspace at the start of a block removes before merging
+function unwrapBlock(block: Block): Block | null {
+  if (block.list) return edited(block, { type: "paragraph", list: undefined });
+  if (block.type === "heading") return edited(block, { type: "paragraph", level: undefined });
+  if (block.quote) return edited(block, { quote: undefined });
+  return null;
+}
+
+// Join a block onto the end of the one before it
+function joinBlocks(doc: MarkdownDocument, index: number): EditResult | null {
+  const previous = doc.blocks[index - 1];
+  const block = doc.blocks[index];
+  if (!previous || !isEditable(previous) || !isEditable(block)) return null;
+
+  const offset = blockLength(previous);
+  const runs = normalizeRuns([
+    ...previous.runs,
+    ...(previous.type === "code" ? plain(block.runs) : block.runs),
+  ]);
+  const blocks = [
+    ...doc.blocks.slice(0, index - 1),
+    edited(previous, { runs }),
+    ...doc.blocks.slice(index + 1),
+  ];
+  return { doc: withBlocks(doc, blocks), selection: caret({ block: index - 1, offset }) };
+}
+
+export function deleteBackward(doc: MarkdownDocument, selection: DocSelection): EditResult | null {
+  if (!isCollapsed(selection)) return deleteSelection(doc, selection);
+
+  const { block: index, offset } = selection.head;
+  const block = doc.blocks[index];
+  if (offset > 0 && isEditable(block)) {
+    const [from, to] = characterSpan(blockText(block), offset, true);
+    return deleteRange(doc, { block: index, offset: from }, { block: index, offset: to });
+  }
+
+  const unwrapped = unwrapBlock(block);
+  if (unwrapped) return { doc: replaceBlock(doc, index, unwrapped), selection };
+  return joinBlocks(doc, index);
+}
+
+export function deleteForward(doc: MarkdownDocument, selection: DocSelection): EditResult | null {
+  if (!isCollapsed(selection)) return deleteSelection(doc, selection);
+
+  const { block: index, offset } = selection.head;
+  const block = doc.blocks[index];
+  const text = blockText(block);
+  if (offset < text.length) {
+    const [from, to] = characterSpan(text, offset, false);
+    return deleteRange(doc, { block: index, offset: from }, { block: index, offset: to });
+  }
+  return joinBlocks(doc, index + 1);
+}
+
+// Enter: split the block at the cursor
+export function splitBlock(doc: MarkdownDocument, selection: DocSelection): EditResult {
+  const cleared = deleteSelection(doc, selection);
+  const next = cleared.doc;
+  const position = cleared.selection.head;
+  const block = next.blocks[position.block];
+
+  if (!isEditable(block)) {
+    const blocks = [
+      ...next.blocks.slice(0, position.block + 1),
+      emptyParagraph(),
+      ...next.blocks.slice(position.block + 1),
+    ];
+    const selection = caret({ block: position.block + 1, offset: 0 });
+    return { doc: withBlocks(next, blocks), selection };
+  }
+  if (block.type === "code") return insertText(next, cleared.selection, "\n", []);
+
+  // Enter on an empty list item or quote line leaves the list or quote
+  if (block.runs.length === 0 && (block.list || block.quote)) {
+    const doc = replaceBlock(next, position.block, unwrapBlock(block)!);
+    return { doc, selection: cleared.selection };
+  }
+
+  const length = blockLength(block);
+  if (block.type === "heading" && position.offset === 0 && length > 0) {
+    const before: Block = { ...emptyParagraph(), quote: block.quote };
+    return {
+      doc: replaceBlock(next, position.block, before, block),
+      selection: caret({ block: position.block + 1, offset: 0 }),
+    };
+  }
+
+  const left = edited(block, { runs: sliceRuns(block.runs, 0, position.offset) });
+  const right: Block = {
+    type: block.type === "heading" ? "paragraph" : block.type,
+    runs: sliceRuns(block.runs, position.offset),
+    quote: block.quote,
+  };
+  if (block.list) right.list = { ...block.list, number: block.list.number + 1 };
+  if (block.type === "heading" && position.offset < length) right.type = "heading";
+  if (right.type === "heading") right.level = block.level;
+
+  return {
+    doc: replaceBlock(next, position.block, left, right),
+    selection: caret({ block: position.block + 1, offset: 0 }),
+  };
+}
+
+// Shift+Enter: a line break within the block
+export function insertLineBreak(doc: MarkdownDocument, selection: DocSelection): EditResult {
+  const block = doc.blocks[selectionRange(selection)[0].block];
+  if (block.type === "heading") return splitBlock(doc, selection);
+  return insertText(doc, selection, "\n");
+}
+
+// Insert markdown, e.g. pasted text, at the selection
+export function insertMarkdown(
+  doc: MarkdownDocument,
+  selection: DocSelection,
+  markdown: string
+): EditResult {
+  const start = doc.blocks[selectionRange(selection)[0].block];
+  if (!markdown.includes("\n") || start.type === "code") {
+    return insertText(doc, selection, markdown, start.type === "code" ? [] : undefined);
+  }
+
+  const fragment = parseMarkdown(markdown).blocks.map((block): Block => ({
+    ...block,
+    gap: undefined,
+  }));
+  if (fragment.length === 0) return insertText(doc, selection, markdown);
+  if (fragment.length === 1 && fragment[0].type === "paragraph" && !fragment[0].quote) {
+    return insertRuns(doc, selection, fragment[0].runs);
+  }
+
+  const cleared = deleteSelection(doc, selection);
+  const position = cleared.selection.head;
+  const block = cleared.doc.blocks[position.block];
+  const around: Block[] = [];
+  let inserted = position.block + 1;
+
+  if (!isEditable(block)) {
+    around.push(block, ...fragment);
+  } else {
+    const before = sliceRuns(block.runs, 0, position.offset);
+    const after = sliceRuns(block.runs, position.offset);
+    if (before.length) around.push(edited(block, { runs: before }));
+    else inserted = position.block;
+    around.push(...fragment);
+    if (after.length) around.push({ ...edited(block, { runs: after }), gap: undefined });
+  }
+
+  const last = inserted + fragment.length - 1;
+  return {
+    doc: replaceBlock(cleared.doc, position.block, ...around),
+    selection: caret({ block: last, offset: blockLength(fragment[fragment.length - 1]) }),
+  };
+}
+
+function insertRuns(doc: MarkdownDocument, selection: DocSelection, runs: TextRun[]): EditResult {
+  const cleared = deleteSelection(doc, selection);
+  const position = cleared.selection.head;
+  const block = cleared.doc.blocks[position.block];
+  if (!isEditable(block)) return insertText(doc, selection, runs.map((run) => run.text).join(""));
+
+  const inserted = runs.reduce((sum, run) => sum + runLength(run), 0);
+  const merged = normalizeRuns([
+    ...sliceRuns(block.runs, 0, position.offset),
+    ...runs,
+    ...sliceRuns(block.runs, position.offset),
+  ]);
+  return {
+    doc: replaceBlock(cleared.doc, position.block, edited(block, { runs: merged })),
+    selection: caret({ block: position.block, offset: position.offset + inserted }),
+  };
+}
+
+// The part of each selected block that is selected
+function eachSelected(
+  doc: MarkdownDocument,
+  selection: DocSelection,
+  visit: (block: Block, from: number, to: number) => Block
+): MarkdownDocument {
+  const [from, to] = selectionRange(selection);
+  const blocks = doc.blocks.map((block, index) => {
+    if (index < from.block || index > to.block) return block;
+    const start = index === from.block ? from.offset : 0;
+    const end = index === to.block ? to.offset : blockLength(block);
+    return visit(block, start, end);
+  });
+  return withBlocks(doc, blocks);
+}
+
+// Selected text that can carry inline formatting, without the whitespace at
+// its ends
+function markableSpan(block: Block, from: number, to: number): [number, number] | null {
+  if (!hasInline(block)) return null;
+  const text = blockText(block);
+  while (from < to && /\s/.test(text[from])) from++;
+  while (to > from && /\s/.test(text[to - 1])) to--;
+  return from < to ? [from, to] : null;
+}
+
+export function hasMark(doc: MarkdownDocument, selection: DocSelection, type: MarkType): boolean {
+  let found = false;
+  let missing = false;
+  eachSelected(doc, selection, (block, from, to) => {
+    const span = markableSpan(block, from, to);
+    if (!span) return block;
+    for (const run of sliceRuns(block.runs, span[0], span[1])) {
+      if (run.atom || !/\S/.test(run.text)) continue;
+      if (run.marks.some((mark) => mark.type === type)) found = true;
+      else missing = true;
+    }
+    return block;
+  });
+  return found && !missing;
+}
+
+// Add a mark to the selected text, or remove marks of its type with `null`
+export function setMark(
+  doc: MarkdownDocument,
+  selection: DocSelection,
+  type: MarkType,
+  mark: Mark | null
+): EditResult {
+  const next = eachSelected(doc, selection, (block, from, to) => {
+    const span = mark ? markableSpan(block, from, to) : hasInline(block) && from < to && [from, to];
+    if (!span) return block;
+
+    const selected = sliceRuns(block.runs, span[0], span[1]).map((run) => {
+      const marks = run.marks.filter((other) => other.type !== type);
+      if (!mark) return { ...run, marks };
+      // Code stays the innermost mark
+      const code = marks.filter((other) => other.type === "code");
+      return { ...run, marks: [...marks.filter((other) => other.type !== "code"), mark, ...code] };
+    });
+    const runs = normalizeRuns([
+      ...sliceRuns(block.runs, 0, span[0]),
+      ...selected,
+      ...sliceRuns(block.runs, span[1]),
+    ]);
+    return edited(block, { runs });
+  });
+  return { doc: next, selection };
+}
+
+export function toggleMark(doc: MarkdownDocument, selection: DocSelection, type: MarkType) {
+  return setMark(doc, selection, type, hasMark(doc, selection, type) ? null : { type });
+}
+
+// Apply a block format to the selected blocks, or remove it when they all
+// have it already
+function toggleBlocks(
+  doc: MarkdownDocument,
+  selection: DocSelection,
+  has: (block: Block) => boolean,
+  apply: (block: Block, index: number) => Block,
+  remove: (block: Block) => Block
+): EditResult {
+  const [from, to] = selectionRange(selection);
+  const selected = doc.blocks.slice(from.block, to.block + 1).filter(hasInline);
+  const all = selected.length > 0 && selected.every(has);
+
+  let count = 0;
+  const next = eachSelected(doc, selection, (block) => {
+    if (!hasInline(block)) return block;
+    return all ? remove(block) : apply(block, count++);
+  });
+  return { doc: next, selection };
+}
+
+const singleLine = (runs: TextRun[]) =>
+  runs.map((run) => (run.atom ? run : { ...run, text: run.text.replace(/\n/g, " ") }));
+
+export function toggleHeading(doc: MarkdownDocument, selection: DocSelection, level: number) {
+  return toggleBlocks(
+    doc,
+    selection,
+    (block) => block.type === "heading" && block.level === level,
+    (block) =>
+      edited(block, { type: "heading", level, list: undefined, runs: singleLine(block.runs) }),
+    (block) => edited(block, { type: "paragraph", level: undefined })
+  );
+}
+
+export function toggleList(doc: MarkdownDocument, selection: DocSelection, ordered: boolean) {
+  return toggleBlocks(
+    doc,
+    selection,
+    (block) => !!block.list && block.list.ordered === ordered,
+    (block, index) =>
+      edited(block, {
+        type: "listItem",
+        level: undefined,
+        list: {
+          ordered,
+          marker: ordered ? "." : "-",
+          number: index + 1,
+          indent: block.list?.indent || "",
+        },
+      }),
+    (block) => edited(block, { type: "paragraph", list: undefined })
+  );
+}
+
+export function toggleQuote(doc: MarkdownDocument, selection: DocSelection) {
+  return toggleBlocks(
+    doc,
+    selection,
+    (block) => !!block.quote,
+    (block) => edited(block, { quote: true }),
+    (block) => edited(block, { quote: undefined })
+  );
+}
+
+// Remove inline formatting from the selection, or the whole block when
+// nothing is selected, and turn the blocks back into plain paragraphs
+export function clearFormatting(doc: MarkdownDocument, selection: DocSelection): EditResult {
+  const next = eachSelected(doc, selection, (block, from, to) => {
+    if (!hasInline(block)) return block;
+    const [start, end] = from === to ? [0, blockLength(block)] : [from, to];
+    const runs = normalizeRuns([
+      ...sliceRuns(block.runs, 0, start),
+      ...plain(sliceRuns(block.runs, start, end)),
+      ...sliceRuns(block.runs, end),
+    ]);
+    return edited(block, {
+      type: "paragraph",
+      runs,
+      level: undefined,
+      list: undefined,
+      quote: undefined,
+    });
+  });
+  return { doc: next, selection };
+}
+
+// Replace the selection with linked text
+export function insertLink(
+  doc: MarkdownDocument,
+  selection: DocSelection,
+  label: string,
+  href: string
+): EditResult {
+  const { doc: next, selection: inserted } = insertText(doc, selection, label, []);
+  const end = inserted.head;
+  const start = { block: end.block, offset: end.offset - label.length };
+  return setMark(next, { anchor: start, head: end }, "link", { type: "link", href });
+}
+
+// Block-aligned copy of the selection, for the clipboard
+export function sliceDocument(doc: MarkdownDocument, selection: DocSelection): MarkdownDocument {
+  const [from, to] = selectionRange(selection);
+  const blocks = doc.blocks.slice(from.block, to.block + 1).map((block, i) => {
+    const index = from.block + i;
+    const start = index === from.block ? from.offset : 0;
+    const end = index === to.block ? to.offset : blockLength(block);
+    if (!isEditable(block) || (start === 0 && end === blockLength(block))) return block;
+    return edited(block, { runs: sliceRuns(block.runs, start, end) });
+  });
+  return {
+    blocks: blocks.map((block, i) => (i === 0 ? { ...block, gap: "" } : block)),
+    trailing: "",
+  };
+}
+
+// Where a span of the chapter's markdown shows up in the plain text of its
+// block, e.g. for a search result
+export function locateText(block: Block, text: string, occurrence: number): number {
+  const plainText = blockText(block);
+  let found = -1;
+  let at = plainText.indexOf(text);
+  for (let seen = 0; at !== -1; seen++) {
+    found = at;
+    if (seen === occurrence) break;
+    at = plainText.indexOf(text, at + 1);
+  }
+  return found;
+}
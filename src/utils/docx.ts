@@ -0,0 +1,385 @@
+// src/utils/docx.ts
+
+import JSZip from "jszip";
+import { marked, Token, Tokens } from "marked";
+import { downloadBlob, toFileName } from "./fileSystem";
+import { countWords, escapeXml, loadManuscript, Manuscript, unescapeHtml } from "./manuscript";
+
+export type ManuscriptFont = "courier" | "times";
+
+export interface DocxOptions {
+  authorName: string; // legal name, shown with the contact details
+  byline?: string; // pen name, defaults to the legal name
+  contact?: string; // address, phone and email, one per line
+  font: ManuscriptFont;
+}
+
+const FONT_NAMES: Record<ManuscriptFont, string> = {
+  courier: "Courier New",
+  times: "Times New Roman",
+};
+
+const W_NS =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+// Letter page with one-inch margins, in twentieths of a point
+const PAGE_WIDTH = 12240;
+const PAGE_HEIGHT = 15840;
+const MARGIN = 1440;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+interface RunFormat {
+  italic?: boolean;
+  bold?: boolean;
+  strike?: boolean;
+}
+
+function run(text: string, format: RunFormat = {}): string {
+  const props = [
+    format.bold ? "<w:b/>" : "",
+    format.italic ? "<w:i/>" : "",
+    format.strike ? "<w:strike/>" : "",
+  ].join("");
+  const rPr = props ? `<w:rPr>${props}</w:rPr>` : "";
+  return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function paragraph(style: string, runs: string, extraProps = ""): string {
+  return `<w:p><w:pPr><w:pStyle w:val="${style}"/>${extraProps}</w:pPr>${runs}</w:p>`;
+}
+
+// Convert inline markdown tokens into formatted runs
+function inlineRuns(tokens: Token[] | undefined, format: RunFormat = {}): string {
+  if (!tokens) return "";
+
+  return tokens
+    .map((token) => {
+      switch (token.type) {
+        case "em":
+          return inlineRuns((token as Tokens.Em).tokens, { ...format, italic: true });
+        case "strong":
+          return inlineRuns((token as Tokens.Strong).tokens, { ...format, bold: true });
+        case "del":
+          return inlineRuns((token as Tokens.Del).tokens, { ...format, strike: true });
+        case "link":
+          return inlineRuns((token as Tokens.Link).tokens, format);
+        case "image":
+          return run((token as Tokens.Image).text, format);
+        case "br":
+          return "<w:r><w:br/></w:r>";
+        case "html":
+          // Drop inline tags, keep nothing of the markup itself
+          return "";
+        case "text": {
+          const text = token as Tokens.Text;
+          return text.tokens
+            ? inlineRuns(text.tokens, format)
+            : run(unescapeHtml(text.text), format);
+        }
+        default:
+          return "text" in token && typeof token.text === "string"
+            ? run(unescapeHtml(token.text), format)
+            : "";
+      }
+    })
+    .join("");
+}
+
+// Convert block markdown tokens into manuscript paragraphs
+function blockParagraphs(tokens: Token[], style = "Body"): string[] {
+  const paragraphs: string[] = [];
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case "heading":
+        paragraphs.push(paragraph("Subheading", inlineRuns((token as Tokens.Heading).tokens)));
+        break;
+      case "paragraph":
+        paragraphs.push(paragraph(style, inlineRuns((token as Tokens.Paragraph).tokens)));
+        break;
+      case "hr":
+        paragraphs.push(paragraph("SceneBreak", run("#")));
+        break;
+      case "blockquote":
+        paragraphs.push(...blockParagraphs((token as Tokens.Blockquote).tokens, "Quote"));
+        break;
+      case "list":
+        (token as Tokens.List).items.forEach((item, index) => {
+          const marker = (token as Tokens.List).ordered
+            ? `${Number((token as Tokens.List).start || 1) + index}. `
+            : "• ";
+          const runs = item.tokens
+            .map((child) =>
+              child.type === "text" || child.type === "paragraph"
+                ? inlineRuns((child as Tokens.Text).tokens || [child])
+                : ""
+            )
+            .join("");
+          paragraphs.push(paragraph(style, run(marker) + runs));
+        });
+        break;
+      case "code":
+        for (const line of (token as Tokens.Code).text.split("\n")) {
+          paragraphs.push(paragraph("Plain", run(line)));
+        }
+        break;
+      case "text":
+        paragraphs.push(paragraph(style, inlineRuns([token])));
+        break;
+      default:
+        break;
+    }
+  }
+
+  return paragraphs;
+}
+
+// Shunn format rounds the count: to the nearest hundred for short work,
+// the nearest thousand for longer manuscripts
+function approximateWordCount(words: number): string {
+  const step = words < 20000 ? 100 : 1000;
+  const rounded = Math.max(step, Math.round(words / step) * step);
+  return `about ${rounded.toLocaleString("en-US")} words`;
+}
+
+function stylesXml(font: ManuscriptFont): string {
+  const fontName = FONT_NAMES[font];
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${W_NS}>
+  <w:docDefaults>
+    <w:rPrDefault>
+      <w:rPr>
+        <w:rFonts w:ascii="${fontName}" w:hAnsi="${fontName}" w:cs="${fontName}" w:eastAsia="${fontName}"/>
+        <w:sz w:val="24"/>
+        <w:szCs w:val="24"/>
+        <w:lang w:val="en-US"/>
+      </w:rPr>
+    </w:rPrDefault>
+    <w:pPrDefault>
+      <w:pPr>
+        <w:spacing w:before="0" w:after="0" w:line="480" w:lineRule="auto"/>
+      </w:pPr>
+    </w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal">
+    <w:name w:val="Normal"/>
+    <w:qFormat/>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Body">
+    <w:name w:val="Manuscript Body"/>
+    <w:basedOn w:val="Normal"/>
+    <w:qFormat/>
+    <w:pPr><w:ind w:firstLine="720"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Quote">
+    <w:name w:val="Manuscript Quote"/>
+    <w:basedOn w:val="Normal"/>
+    <w:pPr><w:ind w:left="720" w:right="720"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Plain">
+    <w:name w:val="Manuscript Plain"/>
+    <w:basedOn w:val="Normal"/>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="ChapterTitle">
+    <w:name w:val="Manuscript Chapter Title"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Body"/>
+    <w:pPr>
+      <w:pageBreakBefore/>
+      <w:keepNext/>
+      <w:spacing w:before="3600" w:after="480"/>
+      <w:jc w:val="center"/>
+    </w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Subheading">
+    <w:name w:val="Manuscript Subheading"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Body"/>
+    <w:pPr><w:keepNext/><w:jc w:val="center"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="SceneBreak">
+    <w:name w:val="Manuscript Scene Break"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Body"/>
+    <w:pPr><w:jc w:val="center"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Contact">
+    <w:name w:val="Manuscript Contact"/>
+    <w:basedOn w:val="Normal"/>
+    <w:pPr>
+      <w:tabs><w:tab w:val="right" w:pos="${TEXT_WIDTH}"/></w:tabs>
+      <w:spacing w:line="240" w:lineRule="auto"/>
+    </w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Title">
+    <w:name w:val="Title"/>
+    <w:basedOn w:val="Normal"/>
+    <w:pPr><w:spacing w:before="4320"/><w:jc w:val="center"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Byline">
+    <w:name w:val="Manuscript Byline"/>
+    <w:basedOn w:val="Normal"/>
+    <w:pPr><w:jc w:val="center"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Header">
+    <w:name w:val="header"/>
+    <w:basedOn w:val="Normal"/>
+    <w:pPr><w:spacing w:line="240" w:lineRule="auto"/><w:jc w:val="right"/></w:pPr>
+  </w:style>
+</w:styles>
+`;
+}
+
+// Running header for every page after the title page: Surname / Title / page
+function headerXml(surname: string, title: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr ${W_NS}>
+  <w:p>
+    <w:pPr><w:pStyle w:val="Header"/></w:pPr>
+    ${run(`${surname} / ${title} / `)}
+    <w:r><w:fldChar w:fldCharType="begin"/></w:r>
+    <w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>
+    <w:r><w:fldChar w:fldCharType="separate"/></w:r>
+    <w:r><w:t>2</w:t></w:r>
+    <w:r><w:fldChar w:fldCharType="end"/></w:r>
+  </w:p>
+</w:hdr>
+`;
+}
+
+const EMPTY_HEADER = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr ${W_NS}><w:p><w:pPr><w:pStyle w:val="Header"/></w:pPr></w:p></w:hdr>
+`;
+
+function documentXml(manuscript: Manuscript, options: DocxOptions): string {
+  const { book, chapters } = manuscript;
+  const byline = options.byline?.trim() || options.authorName;
+  const totalWords = chapters.reduce((sum, chapter) => sum + countWords(chapter.content), 0);
+
+  const body: string[] = [];
+
+  // Title page: contact details top left, word count top right, title halfway down
+  const contactLines = (options.contact || "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  body.push(
+    paragraph(
+      "Contact",
+      run(options.authorName) + "<w:r><w:tab/></w:r>" + run(approximateWordCount(totalWords))
+    )
+  );
+  for (const line of contactLines) {
+    body.push(paragraph("Contact", run(line)));
+  }
+  body.push(paragraph("Title", run(book.name.toUpperCase())));
+  body.push(paragraph("Byline", run(`by ${byline}`)));
+
+  for (const chapter of chapters) {
+    const tokens = marked.lexer(chapter.content);
+
+    // Use the chapter's own top heading as its title when it has one
+    const first = tokens.find((token) => token.type !== "space");
+    let title = run(chapter.title);
+    let rest: Token[] = tokens;
+    if (first && first.type === "heading" && (first as Tokens.Heading).depth === 1) {
+      title = inlineRuns((first as Tokens.Heading).tokens);
+      rest = tokens.filter((token) => token !== first);
+    }
+
+    body.push(paragraph("ChapterTitle", title));
+    body.push(...blockParagraphs(rest));
+  }
+
+  body.push(paragraph("SceneBreak", run("END")));
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${W_NS}>
+  <w:body>
+    ${body.join("\n    ")}
+    <w:sectPr>
+      <w:headerReference w:type="default" r:id="rIdHeaderDefault"/>
+      <w:headerReference w:type="first" r:id="rIdHeaderFirst"/>
+      <w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>
+      <w:pgMar w:top="${MARGIN}" w:right="${MARGIN}" w:bottom="${MARGIN}" w:left="${MARGIN}" w:header="720" w:footer="720" w:gutter="0"/>
+      <w:titlePg/>
+    </w:sectPr>
+  </w:body>
+</w:document>
+`;
+}
+
+// Build a .docx in Shunn standard manuscript format
+export async function buildDocx(manuscript: Manuscript, options: DocxOptions): Promise<Blob> {
+  const byline = options.byline?.trim() || options.authorName;
+  const surname = byline.trim().split(/\s+/).pop() || byline;
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+
+  const zip = new JSZip();
+
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+  <Override PartName="/word/header2.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>
+`
+  );
+
+  zip.file(
+    "_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>
+`
+  );
+
+  zip.file(
+    "docProps/core.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(manuscript.book.name)}</dc:title>
+  <dc:creator>${escapeXml(byline)}</dc:creator>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>
+  <dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>
+</cp:coreProperties>
+`
+  );
+
+  zip.file(
+    "word/_rels/document.xml.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+  <Relationship Id="rIdHeaderDefault" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>
+  <Relationship Id="rIdHeaderFirst" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header2.xml"/>
+</Relationships>
+`
+  );
+
+  zip.file("word/styles.xml", stylesXml(options.font));
+  zip.file("word/header1.xml", headerXml(surname, manuscript.book.name));
+  zip.file("word/header2.xml", EMPTY_HEADER);
+  zip.file("word/document.xml", documentXml(manuscript, options));
+
+  return await zip.generateAsync({
+    type: "blob",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    compression: "DEFLATE",
+  });
+}
+
+// Export a book as a standard manuscript .docx and download it
+export async function exportBookToDocx(bookId: string, options: DocxOptions) {
+  const manuscript = await loadManuscript(bookId);
+  const blob = await buildDocx(manuscript, options);
+  downloadBlob(blob, toFileName(manuscript.book.name, "docx"));
+}
@@ -0,0 +1,83 @@
+// src/utils/editHistory.ts
+
+import { DocSelection } from "./documentEditing";
+
+// Undo history of the text open in the editor. Both editor modes record into
+// the same history, so undo keeps working across a mode switch.
+
+export type HistorySelection =
+  | { mode: "write"; selection: DocSelection }
+  | { mode: "code"; start: number; end: number };
+
+export interface HistoryEntry {
+  content: string;
+  selection?: HistorySelection; // where to put the cursor after moving to this entry
+}
+
+export interface RecordOptions {
+  before?: HistorySelection; // selection before the edit, restored when it is undone
+  after?: HistorySelection;
+  group?: string; // edits of the same group in quick succession undo together
+}
+
+interface State {
+  content: string;
+  before?: HistorySelection;
+  after?: HistorySelection;
+  group?: string;
+  time: number;
+}
+
+const GROUP_MS = 1000;
+const MAX_ENTRIES = 200;
+
+export function createEditHistory() {
+  let past: State[] = [];
+  let present: State = { content: "", time: 0 };
+  let future: State[] = [];
+
+  return {
+    // Start over, e.g. when another chapter opens
+    reset(content: string) {
+      past = [];
+      future = [];
+      present = { content, time: 0 };
+    },
+
+    record(content: string, options: RecordOptions = {}) {
+      if (content === present.content) return;
+
+      const now = Date.now();
+      if (options.group && options.group === present.group && now - present.time < GROUP_MS) {
+        present = { ...present, content, after: options.after, time: now };
+      } else {
+        past = [...past.slice(-(MAX_ENTRIES - 1)), present];
+        present = { content, ...options, time: now };
+      }
+      future = [];
+    },
+
+    undo(): HistoryEntry | null {
+      const previous = past[past.length - 1];
+      if (!previous) return null;
+
+      const undone = present;
+      past = past.slice(0, -1);
+      future = [...future, undone];
+      present = { ...previous, time: 0 };
+      return { content: previous.content, selection: undone.before };
+    },
+
+    redo(): HistoryEntry | null {
+      const next = future[future.length - 1];
+      if (!next) return null;
+
+      future = future.slice(0, -1);
+      past = [...past, present];
+      present = { ...next, time: 0 };
+      return { content: next.content, selection: next.after };
+    },
+  };
+}
+
+export type EditHistory = ReturnType<typeof createEditHistory>;
@@ -0,0 +1,277 @@
+// src/utils/epub.ts
+
+import JSZip from "jszip";
+import { marked } from "marked";
+import { downloadBlob, toFileName } from "./fileSystem";
+import { escapeXml, loadManuscript, Manuscript } from "./manuscript";
+
+const XHTML_NS = "http://www.w3.org/1999/xhtml";
+
+export interface EpubOptions {
+  author?: string;
+  language?: string;
+}
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1, h2, h3 { font-family: sans-serif; line-height: 1.2; page-break-after: avoid; }
+h1 { text-align: center; margin: 2em 0 1.5em; }
+p { margin: 0; text-indent: 1.5em; text-align: justify; }
+h1 + p, h2 + p, h3 + p, hr + p { text-indent: 0; }
+hr { border: none; margin: 1.5em 0; text-align: center; }
+hr::after { content: "* * *"; }
+blockquote { margin: 1em 2em; font-style: italic; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page h1 { font-size: 2em; margin-bottom: 0.5em; }
+.title-page p { text-indent: 0; text-align: center; }
+.cover { margin: 0; padding: 0; text-align: center; }
+.cover svg { height: 100%; width: 100%; }
+`;
+
+// Wrap page content in an XHTML document as required by EPUB content documents
+function xhtmlDocument(title: string, body: string, extraHead = ""): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="${XHTML_NS}" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css" />${extraHead}
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// marked produces HTML (void tags, named entities); re-serialize it as well-formed XHTML
+function markdownToXhtml(markdown: string): string {
+  const html = marked(markdown);
+  const parsed = new DOMParser().parseFromString(html, "text/html");
+  const target = new DOMParser().parseFromString(
+    `<html xmlns="${XHTML_NS}"><body></body></html>`,
+    "application/xhtml+xml"
+  );
+
+  const body = target.getElementsByTagName("body")[0];
+  for (const node of Array.from(parsed.body.childNodes)) {
+    body.appendChild(target.importNode(node, true));
+  }
+
+  const serializer = new XMLSerializer();
+  return Array.from(body.childNodes)
+    .map((node) => serializer.serializeToString(node))
+    .join("")
+    .replace(/ xmlns="http:\/\/www\.w3\.org\/1999\/xhtml"/g, "");
+}
+
+// Simple typographic cover, since books don't carry cover art
+function coverSvg(title: string, author?: string): string {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of title.split(/\s+/).filter(Boolean)) {
+    if (line && (line + " " + word).length > 18) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+
+  const startY = 700 - (lines.length - 1) * 45;
+  const titleText = lines
+    .map(
+      (text, i) =>
+        `<text x="600" y="${startY + i * 90}" font-size="72" text-anchor="middle" fill="#f5f0e6" font-family="serif">${escapeXml(
+          text
+        )}</text>`
+    )
+    .join("\n  ");
+  const authorText = author
+    ? `<text x="600" y="1450" font-size="44" text-anchor="middle" fill="#d8cfc0" font-family="serif">${escapeXml(
+        author
+      )}</text>`
+    : "";
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" version="1.1" viewBox="0 0 1200 1800" width="1200" height="1800">
+  <rect width="1200" height="1800" fill="#2b2a33" />
+  <rect x="60" y="60" width="1080" height="1680" fill="none" stroke="#d8cfc0" stroke-width="4" />
+  ${titleText}
+  ${authorText}
+</svg>
+`;
+}
+
+// Build a valid EPUB 3 package for a book
+export async function buildEpub(manuscript: Manuscript, options: EpubOptions = {}): Promise<Blob> {
+  const { book, chapters } = manuscript;
+  const language = options.language || navigator.language || "en";
+  const identifier = `urn:tswriter:${book.id}`;
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+
+  const zip = new JSZip();
+
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+
+  zip.file(
+    "META-INF/container.xml",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`
+  );
+
+  zip.file("OEBPS/styles.css", STYLESHEET);
+  zip.file("OEBPS/cover.svg", coverSvg(book.name, options.author));
+  zip.file(
+    "OEBPS/cover.xhtml",
+    xhtmlDocument(
+      book.name,
+      `<section class="cover" epub:type="cover">
+<img src="cover.svg" alt="${escapeXml(book.name)}" />
+</section>`
+    )
+  );
+
+  zip.file(
+    "OEBPS/title.xhtml",
+    xhtmlDocument(
+      book.name,
+      `<section class="title-page" epub:type="titlepage">
+<h1>${escapeXml(book.name)}</h1>
+${options.author ? `<p>${escapeXml(options.author)}</p>` : ""}
+</section>`
+    )
+  );
+
+  const chapterFiles = chapters.map((chapter, index) => ({
+    chapter,
+    href: `chapter-${String(index + 1).padStart(3, "0")}.xhtml`,
+  }));
+
+  for (const { chapter, href } of chapterFiles) {
+    zip.file(
+      `OEBPS/${href}`,
+      xhtmlDocument(
+        chapter.title,
+        `<section epub:type="chapter">\n${markdownToXhtml(chapter.content)}\n</section>`
+      )
+    );
+  }
+
+  const tocItems = chapterFiles
+    .map(({ chapter, href }) => `      <li><a href="${href}">${escapeXml(chapter.title)}</a></li>`)
+    .join("\n");
+
+  zip.file(
+    "OEBPS/nav.xhtml",
+    xhtmlDocument(
+      book.name,
+      `<nav epub:type="toc" id="toc">
+  <h1>Contents</h1>
+  <ol>
+${tocItems}
+  </ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+  <ol>
+    <li><a epub:type="cover" href="cover.xhtml">Cover</a></li>
+    <li><a epub:type="titlepage" href="title.xhtml">Title Page</a></li>
+    <li><a epub:type="toc" href="nav.xhtml">Contents</a></li>
+    ${
+      chapterFiles.length > 0
+        ? `<li><a epub:type="bodymatter" href="${chapterFiles[0].href}">Start</a></li>`
+        : ""
+    }
+  </ol>
+</nav>`
+    )
+  );
+
+  // NCX table of contents for EPUB 2 reading systems
+  const navPoints = chapterFiles
+    .map(
+      ({ chapter, href }, index) => `    <navPoint id="nav-${index + 1}" playOrder="${index + 1}">
+      <navLabel><text>${escapeXml(chapter.title)}</text></navLabel>
+      <content src="${href}" />
+    </navPoint>`
+    )
+    .join("\n");
+
+  zip.file(
+    "OEBPS/toc.ncx",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${identifier}" />
+  </head>
+  <docTitle><text>${escapeXml(book.name)}</text></docTitle>
+  <navMap>
+${navPoints}
+  </navMap>
+</ncx>
+`
+  );
+
+  const manifestItems = chapterFiles
+    .map(
+      ({ href }, index) =>
+        `    <item id="chapter-${index + 1}" href="${href}" media-type="application/xhtml+xml" />`
+    )
+    .join("\n");
+  const spineItems = chapterFiles
+    .map((_, index) => `    <itemref idref="chapter-${index + 1}" />`)
+    .join("\n");
+
+  zip.file(
+    "OEBPS/content.opf",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(
+      language
+    )}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${identifier}</dc:identifier>
+    <dc:title>${escapeXml(book.name)}</dc:title>
+    <dc:language>${escapeXml(language)}</dc:language>
+    ${options.author ? `<dc:creator>${escapeXml(options.author)}</dc:creator>` : ""}
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta name="cover" content="cover-image" />
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml" />
+    <item id="css" href="styles.css" media-type="text/css" />
+    <item id="cover-image" href="cover.svg" media-type="image/svg+xml" properties="cover-image" />
+    <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml" />
+    <item id="title-page" href="title.xhtml" media-type="application/xhtml+xml" />
+${manifestItems}
+  </manifest>
+  <spine toc="ncx">
+    <itemref idref="cover" linear="no" />
+    <itemref idref="title-page" />
+    <itemref idref="nav" />
+${spineItems}
+  </spine>
+</package>
+`
+  );
+
+  return await zip.generateAsync({
+    type: "blob",
+    mimeType: "application/epub+zip",
+    compression: "DEFLATE",
+  });
+}
+
+// Export a book as an EPUB 3 file and download it
+export async function exportBookToEpub(bookId: string, options: EpubOptions = {}) {
+  const manuscript = await loadManuscript(bookId);
+  const blob = await buildEpub(manuscript, options);
+  downloadBlob(blob, toFileName(manuscript.book.name, "epub"));
+}
@@ -124,3 +124,22 @@ export async function importBookFromFolder() {
     }
   }
 }
+
+// Offer a generated file to the user as a browser download
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Turn a book name into something safe to use as a file name
+export function toFileName(name: string, extension: string) {
+  const base = name.replace(/[\\/:*?"<>|]+/g, "").trim() || "book";
+  return `${base}.${extension}`;
+}
@@ -0,0 +1,56 @@
+// src/utils/manuscript.ts
+
+import { indexedDBService, BookEntry, Chapter } from "../services/indexedDB";
+import { stripSceneMarkers } from "./scenes";
+
+export interface ManuscriptChapter extends Chapter {
+  content: string;
+}
+
+// A book with its chapter contents, in reading order, with scenes stitched together
+export interface Manuscript {
+  book: BookEntry;
+  chapters: ManuscriptChapter[];
+}
+
+export async function loadManuscript(bookId: string): Promise<Manuscript> {
+  await indexedDBService.initialize();
+  const book = await indexedDBService.getBook(bookId);
+  if (!book) throw new Error("Book not found");
+
+  const chapters: ManuscriptChapter[] = [];
+  for (const chapterId of book.config.chapterOrder) {
+    const chapter = book.config.chapters.find((ch) => ch.id === chapterId);
+    if (!chapter) continue;
+
+    const content = await indexedDBService.getChapterContent(bookId, chapter.fileName);
+    chapters.push({ ...chapter, content: stripSceneMarkers(content || "") });
+  }
+
+  return { book, chapters };
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Words are whitespace-separated runs containing a letter or digit, so
+// markdown markers like "#" or "---" are not counted
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+// Undo the HTML escaping marked applies to inline text tokens
+export function unescapeHtml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
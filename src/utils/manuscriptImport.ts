@@ -0,0 +1,286 @@
+// src/utils/manuscriptImport.ts
+
+import JSZip from "jszip";
+import { v4 as uuidv4 } from "uuid";
+import { bookManagerService } from "../services/bookManager";
+import {
+  indexedDBService,
+  BookConfig,
+  BOOK_CONFIG_VERSION,
+  Chapter,
+  createScene,
+} from "../services/indexedDB";
+
+export interface ImportSource {
+  name: string;
+  text: string; // Markdown (or plain text)
+}
+
+export type SplitRule =
+  | { kind: "file" } // one chapter per source file
+  | { kind: "heading"; level: number } // at "#" headings up to this level
+  | { kind: "regex"; pattern: string }; // at lines matching a pattern
+
+export interface DetectedChapter {
+  title: string;
+  body: string; // chapter text without its title line
+}
+
+export const DEFAULT_CHAPTER_PATTERN = "^\\s*(chapter|part|prologue|epilogue)\\b.*$";
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+function wAttr(element: Element, name: string): string | null {
+  return element.getAttributeNS(W_NS, name) ?? element.getAttribute(`w:${name}`);
+}
+
+function wChild(element: Element, name: string): Element | null {
+  for (const child of Array.from(element.children)) {
+    if (child.localName === name && child.namespaceURI === W_NS) return child;
+  }
+  return null;
+}
+
+// Bold/italic are on unless explicitly switched off (w:val="0" or "false")
+function isToggleOn(properties: Element | null, name: string): boolean {
+  const toggle = properties && wChild(properties, name);
+  if (!toggle) return false;
+  const value = wAttr(toggle, "val");
+  return value !== "0" && value !== "false";
+}
+
+// Heading level implied by a paragraph style name, if any
+function headingLevel(styleName: string): number | null {
+  const name = styleName.toLowerCase();
+  const heading = name.match(/^heading\s*(\d)$/);
+  if (heading) return parseInt(heading[1], 10);
+  if (name.includes("chapter title")) return 1; // our own manuscript export
+  if (name.includes("subheading")) return 2;
+  return null;
+}
+
+function runText(run: Element): string {
+  let text = "";
+  for (const child of Array.from(run.children)) {
+    if (child.namespaceURI !== W_NS) continue;
+    if (child.localName === "t") text += child.textContent || "";
+    else if (child.localName === "tab") text += "\t";
+    else if (child.localName === "br" && wAttr(child, "type") !== "page") text += "\n";
+  }
+  return text;
+}
+
+// Convert the body of a .docx into Markdown, keeping headings, bold, italics
+// and scene breaks
+export async function docxToMarkdown(data: ArrayBuffer): Promise<string> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (e) {
+    throw new Error("Not a valid .docx file: " + (e instanceof Error ? e.message : e));
+  }
+
+  const documentFile = zip.file("word/document.xml");
+  if (!documentFile) throw new Error("Not a valid .docx file: word/document.xml is missing");
+
+  const parser = new DOMParser();
+  const documentXml = parser.parseFromString(
+    await documentFile.async("string"),
+    "application/xml"
+  );
+
+  // Map style ids to their display names, which is where "heading 1" lives
+  const styleNames = new Map<string, string>();
+  const stylesFile = zip.file("word/styles.xml");
+  if (stylesFile) {
+    const styles = parser.parseFromString(await stylesFile.async("string"), "application/xml");
+    for (const style of Array.from(styles.getElementsByTagNameNS(W_NS, "style"))) {
+      const id = wAttr(style, "styleId");
+      const name = wChild(style, "name");
+      if (id && name) styleNames.set(id, wAttr(name, "val") || id);
+    }
+  }
+
+  const blocks: string[] = [];
+  for (const paragraph of Array.from(documentXml.getElementsByTagNameNS(W_NS, "p"))) {
+    const properties = wChild(paragraph, "pPr");
+    const styleElement = properties && wChild(properties, "pStyle");
+    const styleId = styleElement ? wAttr(styleElement, "val") || "" : "";
+    const level = headingLevel(styleNames.get(styleId) || styleId);
+
+    // Word splits text into many runs; join neighbours with the same emphasis
+    const segments: { text: string; marker: string }[] = [];
+    for (const run of Array.from(paragraph.getElementsByTagNameNS(W_NS, "r"))) {
+      const content = runText(run);
+      if (!content) continue;
+
+      // Headings carry their own emphasis
+      const runProperties = wChild(run, "rPr");
+      const bold = !level && isToggleOn(runProperties, "b");
+      const italic = !level && isToggleOn(runProperties, "i");
+      const marker = (bold ? "**" : "") + (italic ? "*" : "");
+
+      const last = segments[segments.length - 1];
+      if (last && last.marker === marker) last.text += content;
+      else segments.push({ text: content, marker });
+    }
+
+    // Keep surrounding whitespace outside the markers so they still parse
+    const text = segments
+      .map(({ text, marker }) => {
+        const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+        return match[2] && marker ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+      })
+      .join("")
+      .trim();
+    if (!text) continue;
+
+    if (level) {
+      blocks.push(`${"#".repeat(Math.min(level, 6))} ${text.replace(/\s+/g, " ")}`);
+    } else if (/^(#|\*\s*\*\s*\*|\*{3,})$/.test(text)) {
+      blocks.push("---");
+    } else {
+      blocks.push(text);
+    }
+  }
+
+  return blocks.join("\n\n");
+}
+
+// Read an uploaded file into Markdown text
+export async function readImportFile(file: File): Promise<ImportSource> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+
+  if (extension === "docx") {
+    return { name: file.name, text: await docxToMarkdown(await file.arrayBuffer()) };
+  }
+  if (extension === "txt" || extension === "md" || extension === "markdown") {
+    return { name: file.name, text: (await file.text()).replace(/\r\n?/g, "\n") };
+  }
+
+  throw new Error(`Unsupported file type: ${file.name}`);
+}
+
+function titleFromFileName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ").trim() || "Untitled";
+}
+
+// Split text at the lines for which titleOf returns a title. Text before the
+// first match becomes its own chapter named after the source.
+function splitAtLines(
+  text: string,
+  fallbackTitle: string,
+  titleOf: (line: string) => string | null
+): DetectedChapter[] {
+  const chapters: DetectedChapter[] = [];
+  let current: { title: string; lines: string[] } = { title: fallbackTitle, lines: [] };
+  let inCodeBlock = false;
+
+  const flush = () => {
+    const body = current.lines.join("\n").trim();
+    if (body || chapters.length > 0 || current.title !== fallbackTitle) {
+      chapters.push({ title: current.title, body });
+    }
+  };
+
+  for (const line of text.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock;
+
+    const title = inCodeBlock ? null : titleOf(line);
+    if (title !== null) {
+      flush();
+      current = { title, lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  flush();
+
+  return chapters;
+}
+
+// Split the sources into chapters according to the rule
+export function detectChapters(sources: ImportSource[], rule: SplitRule): DetectedChapter[] {
+  if (rule.kind === "file") {
+    return sources.map((source) => {
+      // Use a leading "# Title" line as the chapter title
+      const heading = source.text.match(/^\s*#[ \t]+([^\n]+?)[ \t#]*(\n|$)/);
+      return heading
+        ? { title: heading[1], body: source.text.slice(heading[0].length).trim() }
+        : { title: titleFromFileName(source.name), body: source.text.trim() };
+    });
+  }
+
+  let titleOf: (line: string) => string | null;
+  if (rule.kind === "heading") {
+    const headingPattern = new RegExp(`^#{1,${rule.level}}[ \\t]+(.+?)[ \\t#]*$`);
+    titleOf = (line) => line.match(headingPattern)?.[1] ?? null;
+  } else {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(rule.pattern, "i");
+    } catch (e) {
+      throw new Error("Invalid chapter pattern: " + (e instanceof Error ? e.message : e));
+    }
+    titleOf = (line) =>
+      line.trim() && pattern.test(line) ? line.trim().replace(/^#+\s*/, "") : null;
+  }
+
+  return sources.flatMap((source) =>
+    splitAtLines(source.text, titleFromFileName(source.name), titleOf)
+  );
+}
+
+// Pick the split rule that most likely fits the sources
+export function suggestSplitRule(sources: ImportSource[]): SplitRule {
+  if (sources.length > 1) return { kind: "file" };
+  const text = sources[0]?.text || "";
+  if (/^#[ \t]+\S/m.test(text)) return { kind: "heading", level: 1 };
+  if (/^##[ \t]+\S/m.test(text)) return { kind: "heading", level: 2 };
+  return { kind: "regex", pattern: DEFAULT_CHAPTER_PATTERN };
+}
+
+function chapterFileName(title: string, chapterId: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "chapter"}-${chapterId.slice(0, 8)}.md`;
+}
+
+// Create a local book holding the detected chapters, in order
+export async function createBookFromChapters(
+  name: string,
+  chapters: DetectedChapter[]
+): Promise<string> {
+  await indexedDBService.initialize();
+  const bookId = await bookManagerService.createLocalBook(name);
+
+  const config: BookConfig = {
+    schemaVersion: BOOK_CONFIG_VERSION,
+    chapters: [],
+    chapterOrder: [],
+    outline: [],
+    ideas: {},
+  };
+  for (const detected of chapters) {
+    const id = uuidv4();
+    const chapter: Chapter = {
+      id,
+      title: detected.title,
+      fileName: chapterFileName(detected.title, id),
+      scenes: [createScene(uuidv4(), "Scene 1")],
+    };
+
+    const content = detected.body ? `# ${chapter.title}\n\n${detected.body}` : `# ${chapter.title}`;
+    await indexedDBService.saveChapterContent(bookId, chapter.fileName, content, false);
+
+    config.chapters.push(chapter);
+    config.chapterOrder.push(chapter.id);
+    config.outline.push({ type: "chapter", id: chapter.id });
+    config.ideas[chapter.id] = [];
+  }
+  await bookManagerService.updateBookConfig(bookId, config);
+
+  return bookId;
+}
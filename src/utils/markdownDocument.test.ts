@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { deleteSelection, insertText } from "./documentEditing";
+import { parseMarkdown, serializeMarkdown } from "./markdownDocument";
+
+const roundTrip = (markdown: string) => serializeMarkdown(parseMarkdown(markdown));
+
+describe("serializeMarkdown", () => {
+  it.each([
+    "**b**\n1. o",
+    "\\*\n~~~",
+    "<!-- scene:abc -->\ntext",
+    "# Title\nText right under it",
+    "> quote\n- item",
+    "para\n\n\n\nafter blank lines\n",
+    "- a\n\n- b\n  - c",
+    "| a | b |\n|---|---|\n| 1 | 2 |\n***\ntext",
+    "  \n\ttext with *em* and __strong__\n\n",
+  ])("writes unedited markdown back as it was: %j", (markdown) => {
+    expect(roundTrip(markdown)).toBe(markdown);
+  });
+
+  it("writes unedited markdown back as it was for any mix of lines", () => {
+    const lines = ["**b**", "1. o", "- x", "\\*", "~~~", "<!-- c -->", "text", "# H", "> q", ""];
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) % lines.length;
+
+    for (let n = 0; n < 2000; n++) {
+      const markdown = Array.from({ length: 1 + (n % 7) }, () => lines[random()]).join("\n");
+      expect(roundTrip(markdown)).toBe(markdown);
+    }
+  });
+
+  it("keeps the text around an edited block as it was", () => {
+    const doc = parseMarkdown("a\n\n**b**\n1. o\n<!-- scene:x -->\ntext");
+    const caret = { block: 0, offset: 1 };
+    const { doc: edited } = insertText(doc, { anchor: caret, head: caret }, "x");
+    expect(serializeMarkdown(edited)).toBe("ax\n\n**b**\n1. o\n<!-- scene:x -->\ntext");
+  });
+
+  it("separates blocks that become neighbours when the blocks between them are deleted", () => {
+    const doc = parseMarkdown("text\n\n<!-- a -->\n<!-- b -->\n- item");
+    const selection = { anchor: { block: 1, offset: 0 }, head: { block: 2, offset: 0 } };
+    expect(serializeMarkdown(deleteSelection(doc, selection).doc)).toBe("text\n\n- item");
+  });
+});
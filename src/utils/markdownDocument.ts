@@ -0,0 +1,773 @@
+// src/utils/markdownDocument.ts
+
+// A chapter's markdown as a list of blocks of formatted text, edited by the
+// write mode editor. Every block keeps the markdown it was read from, so a
+// document serializes back to exactly the text it was parsed from; only
+// blocks that have been edited are written out again from the model.
+
+export type MarkType = "bold" | "italic" | "strike" | "code" | "link";
+
+export interface Mark {
+  type: MarkType;
+  delim?: string; // emphasis character, "*" or "_"
+  href?: string; // link destination (and title) as written between the parentheses
+}
+
+export interface TextRun {
+  text: string;
+  marks: Mark[]; // outermost first
+  atom?: boolean; // markdown kept as written and edited as one character, e.g. an image
+}
+
+// "raw" blocks (tables, rules, HTML, scene markers...) are shown but not
+// edited in write mode
+export type BlockType = "paragraph" | "heading" | "listItem" | "code" | "raw";
+
+export interface ListInfo {
+  ordered: boolean;
+  marker: string; // "-", "*" or "+"; "." or ")" after the number of ordered items
+  number: number;
+  indent: string;
+}
+
+export interface Block {
+  type: BlockType;
+  runs: TextRun[]; // code and raw blocks hold their text in a single run
+  level?: number; // heading level
+  list?: ListInfo;
+  quote?: boolean;
+  fence?: string; // opening line of a fenced code block
+  gap?: string; // text between the previous block and this one; made up when missing
+  source?: string; // markdown the block was read from, until it is edited
+}
+
+export interface MarkdownDocument {
+  blocks: Block[];
+  trailing: string; // blank lines after the last block
+}
+
+// Stands in for an atom in the plain text of a block
+export const ATOM_CHAR = "\uFFFC";
+
+const BLANK = /^[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT = /^ {0,3}(=+|-+)[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const LIST_ITEM = /^([ \t]*)(?:([-*+])|(\d{1,9})([.)]))(?:[ \t]+(.*)|[ \t]*)$/;
+const QUOTE = /^ {0,3}>[ \t]?(.*)$/;
+const HTML = /^ {0,3}<[a-zA-Z!/?]/;
+const DEFINITION = /^ {0,3}\[[^\]]+\]:/;
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const INDENTED = /^( {4}|\t)/;
+
+const isTableStart = (line: string, next?: string) =>
+  line.includes("|") && next !== undefined && next.includes("-") && TABLE_DELIMITER.test(next);
+
+// Lines that end a paragraph instead of continuing it
+function interruptsParagraph(line: string): boolean {
+  if (FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line)) return true;
+  if (HTML.test(line)) return true;
+  const item = line.match(LIST_ITEM);
+  // Empty items and ordered items not starting at 1 can't interrupt a paragraph
+  return !!item && !!item[5] && (!item[3] || item[3] === "1");
+}
+
+const stripIndent = (line: string) => line.replace(/^[ \t]+/, "");
+
+const plainRuns = (text: string): TextRun[] => (text ? [{ text, marks: [] }] : []);
+
+// Block structure
+
+interface LineBlock {
+  start: number; // first line
+  end: number; // after the last line
+  block: Omit<Block, "gap" | "source">;
+}
+
+export function parseMarkdown(markdown: string): MarkdownDocument {
+  const lines = markdown.split("\n");
+  const found: LineBlock[] = [];
+  let i = 0;
+
+  const add = (start: number, end: number, block: Omit<Block, "gap" | "source">) => {
+    found.push({ start, end, block });
+    i = end;
+  };
+
+  const raw = (start: number, end: number) => add(start, end, { type: "raw", runs: [] });
+
+  // Lines up to the next blank one
+  const untilBlank = (start: number) => {
+    let end = start + 1;
+    while (end < lines.length && !BLANK.test(lines[end])) end++;
+    return end;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (BLANK.test(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence && !(fence[1][0] === "`" && fence[2].includes("`"))) {
+      const close = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}[ \\t]*$`);
+      let end = i + 1;
+      while (end < lines.length && !close.test(lines[end])) end++;
+      const code = lines.slice(i + 1, end).join("\n");
+      add(i, Math.min(end + 1, lines.length), {
+        type: "code",
+        runs: plainRuns(code),
+        fence: line,
+      });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      add(i, i + 1, {
+        type: "heading",
+        level: heading[1].length,
+        runs: parseInline(heading[2] || ""),
+      });
+      continue;
+    }
+
+    if (RULE.test(line) || DEFINITION.test(line) || isTableStart(line, lines[i + 1])) {
+      raw(i, untilBlank(i));
+      continue;
+    }
+
+    if (HTML.test(line)) {
+      if (/^ {0,3}<!--/.test(line)) {
+        let end = i;
+        while (end < lines.length && !lines[end].includes("-->")) end++;
+        raw(i, Math.min(end + 1, lines.length));
+      } else {
+        raw(i, untilBlank(i));
+      }
+      continue;
+    }
+
+    // Indented code, or the later paragraphs of a list item
+    const previous = found[found.length - 1]?.block;
+    const continuation = /^[ \t]{2}/.test(line) && previous?.list && !LIST_ITEM.test(line);
+    if (INDENTED.test(line) || continuation) {
+      raw(i, untilBlank(i));
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      parseQuote();
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const text = [item[5] || ""];
+      let end = i + 1;
+      while (end < lines.length && !BLANK.test(lines[end]) && !interruptsParagraph(lines[end])) {
+        if (LIST_ITEM.test(lines[end])) break;
+        text.push(stripIndent(lines[end]));
+        end++;
+      }
+      add(i, end, {
+        type: "listItem",
+        runs: parseInline(text.join("\n")),
+        list: {
+          ordered: !!item[3],
+          marker: item[2] || item[4],
+          number: item[3] ? parseInt(item[3], 10) : 1,
+          indent: item[1],
+        },
+      });
+      continue;
+    }
+
+    // Paragraph, or a setext heading when underlined
+    let end = i + 1;
+    while (end < lines.length && !BLANK.test(lines[end]) && !interruptsParagraph(lines[end])) {
+      if (SETEXT.test(lines[end]) || isTableStart(lines[end], lines[end + 1])) break;
+      end++;
+    }
+    const text = lines.slice(i, end).map(stripIndent).join("\n");
+    const setext = end < lines.length ? lines[end].match(SETEXT) : null;
+    if (setext) {
+      add(i, end + 1, {
+        type: "heading",
+        level: setext[1][0] === "=" ? 1 : 2,
+        runs: parseInline(text.replace(/\n/g, " ")),
+      });
+    } else {
+      add(i, end, { type: "paragraph", runs: parseInline(text) });
+    }
+  }
+
+  // A blockquote of plain paragraphs becomes one quoted block per paragraph;
+  // anything else inside it keeps the quote as a raw block
+  function parseQuote() {
+    const start = i;
+    let end = i;
+    const inner: string[] = [];
+    while (end < lines.length && !BLANK.test(lines[end])) {
+      const quoted = lines[end].match(QUOTE);
+      if (quoted) inner.push(quoted[1]);
+      else if (inner.length && inner[inner.length - 1] && !interruptsParagraph(lines[end])) {
+        inner.push(lines[end]); // lazy continuation
+      } else break;
+      end++;
+    }
+
+    const nested = inner.some(
+      (content, index) =>
+        !BLANK.test(content) &&
+        (interruptsParagraph(content) ||
+          LIST_ITEM.test(content) ||
+          INDENTED.test(content) ||
+          SETEXT.test(content) ||
+          isTableStart(content, inner[index + 1]))
+    );
+    if (nested || inner.every((content) => BLANK.test(content))) {
+      raw(start, end);
+      return;
+    }
+
+    let first = 0;
+    while (first < inner.length) {
+      if (BLANK.test(inner[first])) {
+        first++;
+        continue;
+      }
+      let last = first;
+      while (last < inner.length && !BLANK.test(inner[last])) last++;
+      found.push({
+        start: start + first,
+        end: start + last,
+        block: {
+          type: "paragraph",
+          quote: true,
+          runs: parseInline(inner.slice(first, last).map(stripIndent).join("\n")),
+        },
+      });
+      first = last;
+    }
+    i = end;
+  }
+
+  // Cut the text into gaps and block sources by line offsets
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    offsets.push(offset);
+    offset += line.length + 1;
+  }
+  const lineEnd = (index: number) => offsets[index] + lines[index].length;
+
+  let position = 0;
+  const blocks = found.map(({ start, end, block }) => {
+    const from = offsets[start];
+    const to = lineEnd(end - 1);
+    const source = markdown.slice(from, to);
+    const parsed: Block = { ...block, gap: markdown.slice(position, from), source };
+    if (parsed.type === "raw") parsed.runs = plainRuns(source);
+    position = to;
+    return parsed;
+  });
+
+  return { blocks, trailing: markdown.slice(position) };
+}
+
+// Inline formatting
+
+interface Delimiter {
+  char: string;
+  count: number;
+  original: number;
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+interface InlineToken {
+  text: string;
+  marks: Mark[];
+  atom?: boolean;
+  delim?: Delimiter;
+}
+
+const PUNCTUATION = /[!-/:-@[-`{-~¡-¿‐-‧‰-⁞]/;
+const WHITESPACE = /\s/;
+
+const isWhitespace = (char: string | undefined) => char === undefined || WHITESPACE.test(char);
+const isPunctuation = (char: string | undefined) => !!char && PUNCTUATION.test(char);
+
+// Index after the bracket closing the one at `open`, or -1
+function closingBracket(text: string, open: number, left: string, right: string): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") i++;
+    else if (char === "`") {
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) i = close + run.length - 1;
+    } else if (char === left) depth++;
+    else if (char === right && --depth === 0) return i + 1;
+  }
+  return -1;
+}
+
+function tokenizeInline(text: string): InlineToken[] {
+  const tokens: InlineToken[] = [];
+  let plain = "";
+
+  const flush = () => {
+    if (plain) tokens.push({ text: plain, marks: [] });
+    plain = "";
+  };
+  const push = (token: InlineToken) => {
+    flush();
+    tokens.push(token);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === "\\" && isPunctuation(text[i + 1]) && text[i + 1].charCodeAt(0) < 128) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === "`") {
+      const run = text.slice(i).match(/^`+/)![0];
+      let close = text.indexOf(run, i + run.length);
+      // The closing run must be exactly as long as the opening one
+      while (close !== -1 && text[close + run.length] === "`") {
+        close = text.indexOf(run, close + run.length + 1);
+      }
+      if (close === -1) {
+        plain += run;
+        i += run.length;
+        continue;
+      }
+      let code = text.slice(i + run.length, close);
+      if (/^ [\s\S]*[^ ][\s\S]* $/.test(code)) code = code.slice(1, -1);
+      push({ text: code, marks: [{ type: "code" }] });
+      i = close + run.length;
+      continue;
+    }
+
+    if (char === "!" && text[i + 1] === "[") {
+      const label = closingBracket(text, i + 1, "[", "]");
+      const end = label !== -1 && text[label] === "(" ? closingBracket(text, label, "(", ")") : -1;
+      if (end !== -1) {
+        push({ text: text.slice(i, end), marks: [], atom: true });
+        i = end;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const label = closingBracket(text, i, "[", "]");
+      if (label !== -1 && text[label] === "(") {
+        const end = closingBracket(text, label, "(", ")");
+        if (end !== -1) {
+          flush();
+          const href = text.slice(label + 1, end - 1);
+          for (const run of parseInline(text.slice(i + 1, label - 1))) {
+            tokens.push({ ...run, marks: [{ type: "link", href }, ...run.marks] });
+          }
+          i = end;
+          continue;
+        }
+      }
+      // Reference links and footnotes are kept as written
+      if (label !== -1) {
+        const reference = text[label] === "[" ? closingBracket(text, label, "[", "]") : -1;
+        const end = reference !== -1 ? reference : label;
+        if (reference !== -1 || text[i + 1] === "^") {
+          push({ text: text.slice(i, end), marks: [], atom: true });
+          i = end;
+          continue;
+        }
+      }
+    }
+
+    if (char === "<" && /[a-zA-Z/!?]/.test(text[i + 1] || "")) {
+      const end = text.indexOf(">", i);
+      if (end !== -1) {
+        push({ text: text.slice(i, end + 1), marks: [], atom: true });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === "*" || char === "_" || char === "~") {
+      const run = text.slice(i).match(char === "*" ? /^\*+/ : char === "_" ? /^_+/ : /^~+/)![0];
+      const before = text[i - 1];
+      const after = text[i + run.length];
+      const left =
+        !isWhitespace(after) &&
+        (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+      const right =
+        !isWhitespace(before) &&
+        (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+      const underscore = char === "_";
+      push({
+        text: run,
+        marks: [],
+        delim: {
+          char,
+          count: run.length,
+          original: run.length,
+          canOpen: underscore ? left && (!right || isPunctuation(before)) : left,
+          canClose: underscore ? right && (!left || isPunctuation(after)) : right,
+        },
+      });
+      i += run.length;
+      continue;
+    }
+
+    plain += char;
+    i++;
+  }
+  flush();
+  return tokens;
+}
+
+// Match emphasis delimiters the way CommonMark does, marking the tokens
+// between each opener and closer
+function processEmphasis(tokens: InlineToken[]) {
+  for (let c = 0; c < tokens.length; c++) {
+    const closer = tokens[c].delim;
+    if (!closer || !closer.canClose) continue;
+
+    while (closer.count > 0) {
+      let o = c - 1;
+      for (; o >= 0; o--) {
+        const opener = tokens[o].delim;
+        if (!opener || opener.char !== closer.char || !opener.canOpen || opener.count === 0) {
+          continue;
+        }
+        if (closer.char === "~") {
+          if (opener.count === 2 && closer.count === 2) break;
+          continue;
+        }
+        const oddMatch =
+          (opener.canClose || closer.canOpen) &&
+          (opener.original + closer.original) % 3 === 0 &&
+          !(opener.original % 3 === 0 && closer.original % 3 === 0);
+        if (!oddMatch) break;
+      }
+      if (o < 0) break;
+
+      const opener = tokens[o].delim!;
+      const strong = opener.count >= 2 && closer.count >= 2;
+      const use = closer.char === "~" || strong ? 2 : 1;
+      let mark: Mark = { type: "strike" };
+      if (closer.char !== "~") mark = { type: strong ? "bold" : "italic", delim: closer.char };
+
+      for (let t = o + 1; t < c; t++) {
+        tokens[t].delim = undefined; // delimiters inside the span stay text
+        tokens[t].marks = [mark, ...tokens[t].marks];
+      }
+      opener.count -= use;
+      closer.count -= use;
+      tokens[o].text = opener.char.repeat(opener.count);
+      tokens[c].text = closer.char.repeat(closer.count);
+    }
+  }
+}
+
+// Emphasis without a character of its own is written with "*"
+export function sameMark(a: Mark, b: Mark): boolean {
+  return a.type === b.type && (a.delim || "*") === (b.delim || "*") && a.href === b.href;
+}
+
+export function sameMarks(a: Mark[], b: Mark[]): boolean {
+  return a.length === b.length && a.every((mark) => b.some((other) => sameMark(mark, other)));
+}
+
+// Merge neighbouring runs with the same marks and drop empty ones
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const result: TextRun[] = [];
+  for (const run of runs) {
+    if (!run.text) continue;
+    const last = result[result.length - 1];
+    if (last && !last.atom && !run.atom && sameMarks(last.marks, run.marks)) {
+      result[result.length - 1] = { text: last.text + run.text, marks: last.marks };
+    } else {
+      result.push(run);
+    }
+  }
+  return result;
+}
+
+export function parseInline(text: string): TextRun[] {
+  const tokens = tokenizeInline(text);
+  processEmphasis(tokens);
+  return normalizeRuns(
+    tokens.map(({ text, marks, atom }) => (atom ? { text, marks, atom } : { text, marks }))
+  );
+}
+
+// Serialization
+
+const escapeChar = (text: string, i: number): boolean => {
+  const char = text[i];
+  const before = text[i - 1];
+  const after = text[i + 1];
+  switch (char) {
+    case "\\":
+    case "*":
+    case "`":
+    case "[":
+    case "]":
+      return true;
+    case "_":
+      return !/[a-zA-Z0-9]/.test(before || "") || !/[a-zA-Z0-9]/.test(after || "");
+    case "~":
+      return before === "~" || after === "~";
+    case "<":
+      return /[a-zA-Z/!?]/.test(after || "");
+    default:
+      return false;
+  }
+};
+
+function escapeText(text: string): string {
+  let result = "";
+  for (let i = 0; i < text.length; i++) {
+    result += (escapeChar(text, i) ? "\\" : "") + text[i];
+  }
+  return result;
+}
+
+// Keep a line of text from reading as the start of another block
+function escapeLineStart(line: string): string {
+  if (/^(#{1,6}([ \t]|$)|>|[-+]([ \t]|$)|=+[ \t]*$|-+[ \t]*$)/.test(line)) return `\\${line}`;
+  return line.replace(/^(\d{1,9})([.)])(?=[ \t]|$)/, "$1\\$2");
+}
+
+function codeSpan(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) || []).map((run) => run.length));
+  const fence = "`".repeat(longest + 1);
+  const pad = /^`|`$/.test(text) || /^ [\s\S]*[^ ][\s\S]* $/.test(text) ? " " : "";
+  return `${fence}${pad}${text}${pad}${fence}`;
+}
+
+const opening = (mark: Mark, useDelims: boolean) => {
+  const delim = useDelims && mark.delim ? mark.delim : "*";
+  if (mark.type === "bold") return delim + delim;
+  if (mark.type === "italic") return delim;
+  if (mark.type === "strike") return "~~";
+  return "[";
+};
+
+const closing = (mark: Mark, useDelims: boolean) =>
+  mark.type === "link" ? `](${mark.href || ""})` : opening(mark, useDelims);
+
+// Emphasis can't start or end with whitespace, so move it out of the marks
+// that don't continue on both sides
+function hoistWhitespace(runs: TextRun[]): TextRun[] {
+  const pieces: TextRun[] = [];
+  for (const run of runs) {
+    if (run.atom || run.marks.some((mark) => mark.type === "code")) {
+      pieces.push(run);
+      continue;
+    }
+    const [, lead, core, trail] = run.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    for (const text of [lead, core, trail]) if (text) pieces.push({ text, marks: run.marks });
+  }
+
+  const blank = (piece: TextRun) => !piece.atom && /^\s+$/.test(piece.text);
+  return normalizeRuns(
+    pieces.map((piece, i) => {
+      if (!blank(piece)) return piece;
+      const before = pieces.slice(0, i).reverse().find((other) => !blank(other));
+      const after = pieces.slice(i + 1).find((other) => !blank(other));
+      const marks = piece.marks.filter(
+        (mark) =>
+          mark.type === "link" ||
+          mark.type === "code" ||
+          (!!before?.marks.some((other) => sameMark(other, mark)) &&
+            !!after?.marks.some((other) => sameMark(other, mark)))
+      );
+      return { text: piece.text, marks };
+    })
+  );
+}
+
+function writeRuns(runs: TextRun[], useDelims: boolean): string {
+  let out = "";
+  const open: Mark[] = [];
+
+  const closeTo = (depth: number) => {
+    while (open.length > depth) out += closing(open.pop()!, useDelims);
+  };
+
+  for (const run of hoistWhitespace(runs)) {
+    const marks = run.marks.filter((mark) => mark.type !== "code");
+    let keep = 0;
+    while (keep < open.length && marks.some((mark) => sameMark(mark, open[keep]))) keep++;
+    closeTo(keep);
+    for (const mark of marks) {
+      if (open.some((other) => sameMark(other, mark))) continue;
+      out += opening(mark, useDelims);
+      open.push(mark);
+    }
+
+    if (run.atom) out += run.text;
+    else if (marks.length < run.marks.length) out += codeSpan(run.text);
+    else out += escapeText(run.text);
+  }
+  closeTo(0);
+  return out;
+}
+
+const runsText = (runs: TextRun[]) => runs.map((run) => run.text).join("");
+
+const sameRuns = (a: TextRun[], b: TextRun[]) =>
+  a.length === b.length &&
+  a.every(
+    (run, i) =>
+      run.text === b[i].text && !!run.atom === !!b[i].atom && sameMarks(run.marks, b[i].marks)
+  );
+
+// Markdown for formatted text, written with the emphasis characters it was
+// read with where they still parse back the same
+export function serializeInline(runs: TextRun[]): string {
+  const written = writeRuns(runs, true);
+  if (sameRuns(parseInline(written), hoistWhitespace(runs))) return written;
+  return writeRuns(runs, false);
+}
+
+const prefixLines = (text: string, first: string, rest: string) =>
+  text
+    .split("\n")
+    .map((line, i) => (i === 0 ? first : rest) + line)
+    .join("\n");
+
+const serialized = new WeakMap<Block, string>();
+
+export function serializeBlock(block: Block): string {
+  if (block.source !== undefined) return block.source;
+  const cached = serialized.get(block);
+  if (cached !== undefined) return cached;
+
+  let text: string;
+  if (block.type === "code") {
+    const fence = block.fence || "```";
+    const close = fence.trim().match(/^(`{3,}|~{3,})/)?.[1] || "```";
+    text = `${fence}\n${runsText(block.runs)}${block.runs.length ? "\n" : ""}${close}`;
+  } else if (block.type === "raw") {
+    text = runsText(block.runs);
+  } else {
+    const inline = serializeInline(block.runs)
+      .split("\n")
+      .map((line) => escapeLineStart(line))
+      .join("\n");
+
+    if (block.type === "heading") {
+      const escaped = inline.replace(/\n/g, " ").replace(/([ \t])(#+)$/, "$1\\$2");
+      text = `${"#".repeat(block.level || 1)}${escaped ? " " : ""}${escaped}`;
+    } else if (block.type === "listItem" && block.list) {
+      const { ordered, marker, number, indent } = block.list;
+      const bullet = ordered ? `${number}${marker}` : marker;
+      text = prefixLines(inline, `${indent}${bullet} `, indent + " ".repeat(bullet.length + 1));
+    } else {
+      text = inline;
+    }
+  }
+
+  if (block.quote) text = prefixLines(text, "> ", "> ");
+  serialized.set(block, text);
+  return text;
+}
+
+const BLANK_LINE = /\n[ \t]*\n/;
+const QUOTE_BREAK = /\n[ \t]*>?[ \t]*\n/;
+
+// The gap before a block as it was written when neither block was edited, or
+// else if it still separates the block from the previous one; otherwise the
+// usual separator for the pair
+export function blockGap(previous: Block | undefined, block: Block): string {
+  if (!previous) return block.gap ?? "";
+  const gap = block.gap;
+  if (gap !== undefined && previous.source !== undefined && block.source !== undefined) {
+    return gap;
+  }
+  if (previous.list && block.list) {
+    return gap !== undefined && gap.includes("\n") ? gap : "\n";
+  }
+  if (previous.quote && block.quote) {
+    return gap !== undefined && QUOTE_BREAK.test(gap) ? gap : "\n>\n";
+  }
+  return gap !== undefined && BLANK_LINE.test(gap) ? gap : "\n\n";
+}
+
+// An empty paragraph has no markdown; it only holds the cursor while editing
+const isPlaceholder = (block: Block) =>
+  block.source === undefined &&
+  block.type === "paragraph" &&
+  !block.quote &&
+  block.runs.length === 0;
+
+// Offsets of each block's gap and text in the serialized document
+export interface BlockSpan {
+  gap: string;
+  text: string;
+  start: number; // where the text starts
+}
+
+export function blockSpans(doc: MarkdownDocument): BlockSpan[] {
+  const spans: BlockSpan[] = [];
+  let previous: Block | undefined;
+  let position = 0;
+  for (const block of doc.blocks) {
+    if (isPlaceholder(block)) {
+      spans.push({ gap: "", text: "", start: position });
+      continue;
+    }
+    const gap = blockGap(previous, block);
+    const text = serializeBlock(block);
+    spans.push({ gap, text, start: position + gap.length });
+    position += gap.length + text.length;
+    previous = block;
+  }
+  return spans;
+}
+
+export function serializeMarkdown(doc: MarkdownDocument): string {
+  return (
+    blockSpans(doc)
+      .map((span) => span.gap + span.text)
+      .join("") + doc.trailing
+  );
+}
+
+// Use the blocks of the previous document again where they are unchanged, so
+// their rendered elements can be kept
+export function reuseBlocks(previous: MarkdownDocument, next: MarkdownDocument): MarkdownDocument {
+  const unchanged = new Map<string, Block[]>();
+  for (const block of previous.blocks) {
+    if (block.source === undefined) continue;
+    const key = `${block.gap}\u0000${block.source}`;
+    unchanged.set(key, [...(unchanged.get(key) || []), block]);
+  }
+
+  const blocks = next.blocks.map(
+    (block) => unchanged.get(`${block.gap}\u0000${block.source}`)?.shift() || block
+  );
+  return { blocks, trailing: next.trailing };
+}
+
+// Text of a block with each atom as one character, which is how editing
+// positions count
+export function blockText(block: Block): string {
+  if (block.type === "raw") return "";
+  return block.runs.map((run) => (run.atom ? ATOM_CHAR : run.text)).join("");
+}
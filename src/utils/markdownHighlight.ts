@@ -0,0 +1,181 @@
+// src/utils/markdownHighlight.ts
+
+// Syntax highlighting of markdown source, one line of HTML per line of text.
+// Every character of the source stays in the output with the same width, so
+// the highlighted text lines up with a textarea drawn over it.
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^( {0,3}#{1,6})(?=[ \t]|$)/;
+const RULE = /^ {0,3}(?:([-*_])(?:[ \t]*\1){2,}|=+)[ \t]*$/;
+const COMMENT_LINE = /^[ \t]*<!--.*-->[ \t]*$/;
+const QUOTE = /^(?: {0,3}>[ \t]?)+/;
+const LIST_ITEM = /^([ \t]*)([-*+]|\d{1,9}[.)])([ \t]+|$)(\[[ xX]\](?=[ \t]|$))?/;
+
+// Lines highlight the same way every time, given whether they are in a fence
+const cache = new Map<string, string>();
+const CACHE_LIMIT = 20000;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const span = (type: string, html: string) => `<span class="md-tok-${type}">${html}</span>`;
+const syntax = (text: string) => span("syntax", escapeHtml(text));
+
+interface InlineRule {
+  pattern: RegExp; // sticky, tried where a special character appears
+  render: (match: RegExpExecArray, before: string) => string | null;
+}
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+const emphasis = (type: string) => (match: RegExpExecArray) =>
+  span(type, syntax(match[1]) + highlightInline(match[2]) + syntax(match[1]));
+
+const INLINE_RULES: InlineRule[] = [
+  {
+    pattern: /\\[!-/:-@[-`{-~]/y,
+    render: (match) => syntax("\\") + escapeHtml(match[0][1]),
+  },
+  {
+    pattern: /(`+)(?!`)([\s\S]*?[^`])\1(?!`)/y,
+    render: (match) => span("code", escapeHtml(match[0])),
+  },
+  {
+    pattern: /<!--[\s\S]*?-->/y,
+    render: (match) => span("comment", escapeHtml(match[0])),
+  },
+  {
+    pattern: /<[a-zA-Z][\w+.-]*:[^\s<>]*>/y,
+    render: (match) => span("url", escapeHtml(match[0])),
+  },
+  {
+    pattern: /(!?\[)((?:[^[\]\\]|\\.)*)(\]\()([^()\s]*(?:\s+"[^"]*")?)(\))/y,
+    render: (match) =>
+      span(
+        "link",
+        syntax(match[1]) +
+          highlightInline(match[2]) +
+          syntax(match[3]) +
+          span("url", escapeHtml(match[4])) +
+          syntax(match[5])
+      ),
+  },
+  {
+    pattern: /(\*\*|__)(?=\S)([\s\S]*?\S)\1/y,
+    render: (match, before) =>
+      match[1] === "__" && isWordChar(before) ? null : emphasis("strong")(match),
+  },
+  {
+    pattern: /(~~)(?=\S)([\s\S]*?\S)\1/y,
+    render: emphasis("strike"),
+  },
+  {
+    pattern: /([*_])(?=[^\s*_])([\s\S]*?[^\s\\])\1(?![*_])/y,
+    // Underscores inside words (snake_case) are not emphasis
+    render: (match, before) =>
+      match[1] === "_" && isWordChar(before) ? null : emphasis("em")(match),
+  },
+];
+
+const SPECIAL = /[\\`<![*_~]/;
+
+function highlightInline(text: string): string {
+  let html = "";
+  let plain = "";
+  let i = 0;
+
+  while (i < text.length) {
+    let rendered: string | null = null;
+    let length = 0;
+
+    if (SPECIAL.test(text[i])) {
+      for (const rule of INLINE_RULES) {
+        rule.pattern.lastIndex = i;
+        const match = rule.pattern.exec(text);
+        if (!match) continue;
+        rendered = rule.render(match, text[i - 1]);
+        if (rendered === null) continue;
+        length = match[0].length;
+        break;
+      }
+    }
+
+    if (rendered === null) {
+      plain += text[i];
+      i++;
+    } else {
+      html += escapeHtml(plain) + rendered;
+      plain = "";
+      i += length;
+    }
+  }
+
+  return html + escapeHtml(plain);
+}
+
+// One line outside a code fence; quotes hold the rest of the line as a line
+function highlightBlockLine(line: string): string {
+  const quote = line.match(QUOTE);
+  if (quote) {
+    return span("quote", syntax(quote[0]) + highlightBlockLine(line.slice(quote[0].length)));
+  }
+
+  if (COMMENT_LINE.test(line)) return span("comment", escapeHtml(line));
+  if (RULE.test(line)) return syntax(line);
+
+  const heading = line.match(HEADING);
+  if (heading) {
+    const text = line.slice(heading[1].length);
+    return span("heading", syntax(heading[1]) + highlightInline(text));
+  }
+
+  const item = line.match(LIST_ITEM);
+  if (item) {
+    const [prefix, indent, marker, space, task = ""] = item;
+    return (
+      escapeHtml(indent) +
+      span("list", escapeHtml(marker)) +
+      space +
+      (task && span("list", escapeHtml(task))) +
+      highlightInline(line.slice(prefix.length))
+    );
+  }
+
+  return highlightInline(line);
+}
+
+function highlightLine(line: string, inFence: boolean): string {
+  const key = (inFence ? "f" : "t") + line;
+  let html = cache.get(key);
+  if (html === undefined) {
+    if (inFence) html = span("fence", escapeHtml(line));
+    else html = FENCE.test(line) ? span("fence", escapeHtml(line)) : highlightBlockLine(line);
+
+    if (cache.size >= CACHE_LIMIT) cache.clear();
+    cache.set(key, html);
+  }
+  return html;
+}
+
+// HTML of each line of the source
+export function highlightMarkdown(lines: string[]): string[] {
+  let fence: string | null = null;
+
+  return lines.map((line) => {
+    const html = highlightLine(line, fence !== null);
+
+    const match = line.match(FENCE);
+    if (fence === null) {
+      if (match) fence = match[1];
+    } else if (
+      match &&
+      match[1][0] === fence[0] &&
+      match[1].length >= fence.length &&
+      !line.slice(match[0].length).trim()
+    ) {
+      fence = null;
+    }
+
+    return html;
+  });
+}
@@ -0,0 +1,137 @@
+// src/utils/merge.ts
+
+import { matchIndices, splitLines } from "./diff";
+
+// A run of lines both sides agree on (either untouched or changed identically)
+export interface StableHunk {
+  type: "stable";
+  lines: string[];
+}
+
+// A region both sides changed in different ways
+export interface ConflictHunk {
+  type: "conflict";
+  base: string[];
+  local: string[];
+  cloud: string[];
+}
+
+export type MergeHunk = StableHunk | ConflictHunk;
+
+export interface MergeResult {
+  hunks: MergeHunk[];
+  conflicts: number;
+  clean: boolean;
+  // Merged text, only meaningful when the merge is clean
+  content: string;
+}
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, i) => line === b[i]);
+
+// Line-level three-way merge (diff3) of two descendants of a common base.
+// Regions changed on only one side, or changed identically on both, merge
+// automatically; everything else is reported as a conflict hunk.
+export function mergeText(base: string, local: string, cloud: string): MergeResult {
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const cloudLines = splitLines(cloud);
+
+  const localMatch = matchIndices(baseLines, localLines);
+  const cloudMatch = matchIndices(baseLines, cloudLines);
+
+  const hunks: MergeHunk[] = [];
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = hunks[hunks.length - 1];
+    if (last && last.type === "stable") {
+      last.lines.push(...lines);
+    } else {
+      hunks.push({ type: "stable", lines: [...lines] });
+    }
+  };
+
+  let b = 0;
+  let l = 0;
+  let c = 0;
+
+  while (b < baseLines.length || l < localLines.length || c < cloudLines.length) {
+    // A base line kept in place by both sides is stable
+    if (b < baseLines.length && localMatch[b] === l && cloudMatch[b] === c) {
+      pushStable([baseLines[b]]);
+      b++;
+      l++;
+      c++;
+      continue;
+    }
+
+    // Find the next base line both sides kept - that ends the unstable region
+    let end = b;
+    while (end < baseLines.length && (localMatch[end] === -1 || cloudMatch[end] === -1)) {
+      end++;
+    }
+
+    const localEnd = end < baseLines.length ? localMatch[end] : localLines.length;
+    const cloudEnd = end < baseLines.length ? cloudMatch[end] : cloudLines.length;
+
+    const baseChunk = baseLines.slice(b, end);
+    const localChunk = localLines.slice(l, localEnd);
+    const cloudChunk = cloudLines.slice(c, cloudEnd);
+
+    if (sameLines(localChunk, baseChunk)) {
+      pushStable(cloudChunk);
+    } else if (sameLines(cloudChunk, baseChunk) || sameLines(localChunk, cloudChunk)) {
+      pushStable(localChunk);
+    } else {
+      hunks.push({ type: "conflict", base: baseChunk, local: localChunk, cloud: cloudChunk });
+    }
+
+    b = end;
+    l = localEnd;
+    c = cloudEnd;
+  }
+
+  const conflicts = hunks.filter((hunk) => hunk.type === "conflict").length;
+
+  return {
+    hunks,
+    conflicts,
+    clean: conflicts === 0,
+    content: conflicts === 0 ? joinHunks(hunks, () => []) : "",
+  };
+}
+
+// Rebuild text from merge hunks, using `resolve` to pick the lines for each conflict
+export function joinHunks(
+  hunks: MergeHunk[],
+  resolve: (hunk: ConflictHunk, index: number) => string[]
+): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  for (const hunk of hunks) {
+    if (hunk.type === "stable") {
+      lines.push(...hunk.lines);
+    } else {
+      lines.push(...resolve(hunk, conflictIndex++));
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// Without a common base nothing tells which side changed what, so the two
+// texts are a single choice between mine and theirs
+export function mergeWithoutBase(local: string, cloud: string): MergeResult {
+  if (local === cloud) {
+    const hunk: StableHunk = { type: "stable", lines: splitLines(local) };
+    return { hunks: [hunk], conflicts: 0, clean: true, content: local };
+  }
+  const hunk: ConflictHunk = {
+    type: "conflict",
+    base: [],
+    local: splitLines(local),
+    cloud: splitLines(cloud),
+  };
+  return { hunks: [hunk], conflicts: 1, clean: false, content: "" };
+}
@@ -0,0 +1,113 @@
+// src/utils/outline.ts
+
+import { BookConfig, OutlineNode, OutlinePart } from "../services/indexedDB";
+
+// Where to put an outline item: a position at the top level (partId null)
+// or inside a part. The index is taken after the item is removed from its
+// current place, like a splice-out/splice-in reorder.
+export interface OutlineMove {
+  itemId: string;
+  partId: string | null;
+  index: number;
+}
+
+// Chapter ids in reading order
+export function flattenOutline(outline: OutlineNode[]): string[] {
+  return outline.flatMap((node) => (node.type === "part" ? node.chapterIds : [node.id]));
+}
+
+export function findPartOfChapter(outline: OutlineNode[], chapterId: string): OutlinePart | null {
+  for (const node of outline) {
+    if (node.type === "part" && node.chapterIds.includes(chapterId)) return node;
+  }
+  return null;
+}
+
+// The move that puts a chapter in another chapter's place, inside that
+// chapter's part or at the top level
+export function moveToChapter(
+  outline: OutlineNode[],
+  chapterId: string,
+  targetChapterId: string
+): OutlineMove {
+  const part = findPartOfChapter(outline, targetChapterId);
+  return {
+    itemId: chapterId,
+    partId: part ? part.id : null,
+    index: part
+      ? part.chapterIds.indexOf(targetChapterId)
+      : outline.findIndex((node) => node.id === targetChapterId),
+  };
+}
+
+// Make the outline list every ordered chapter exactly once and derive
+// chapterOrder from it. Code that only appends to or removes from
+// chapterOrder (new chapters, imports, cloud merges) stays correct: new
+// chapters land at the end of the top level.
+export function syncOutline(config: BookConfig): BookConfig {
+  const chapterIds = new Set(config.chapters.map((chapter) => chapter.id));
+  const placed = new Set<string>();
+  const place = (id: string) => {
+    if (!chapterIds.has(id) || placed.has(id)) return false;
+    placed.add(id);
+    return true;
+  };
+
+  const outline: OutlineNode[] = [];
+  for (const node of config.outline || []) {
+    if (node.type === "part") {
+      outline.push({ ...node, chapterIds: node.chapterIds.filter(place) });
+    } else if (place(node.id)) {
+      outline.push(node);
+    }
+  }
+  for (const id of config.chapterOrder) {
+    if (place(id)) outline.push({ type: "chapter", id });
+  }
+
+  const chapterOrder = flattenOutline(outline);
+  if (
+    JSON.stringify(outline) === JSON.stringify(config.outline) &&
+    chapterOrder.join() === config.chapterOrder.join()
+  ) {
+    return config;
+  }
+  return { ...config, outline, chapterOrder };
+}
+
+// Move a chapter or part to a new place in the outline. Parts only live at
+// the top level.
+export function moveInOutline(outline: OutlineNode[], move: OutlineMove): OutlineNode[] {
+  let moved: OutlineNode | null = null;
+  const remaining: OutlineNode[] = [];
+
+  for (const node of outline) {
+    if (node.id === move.itemId) {
+      moved = node;
+    } else if (node.type === "part" && node.chapterIds.includes(move.itemId)) {
+      moved = { type: "chapter", id: move.itemId };
+      remaining.push({ ...node, chapterIds: node.chapterIds.filter((id) => id !== move.itemId) });
+    } else {
+      remaining.push(node);
+    }
+  }
+
+  if (!moved) throw new Error(`Outline item ${move.itemId} not found`);
+
+  const clamp = (index: number, length: number) => Math.max(0, Math.min(index, length));
+
+  if (move.partId === null) {
+    remaining.splice(clamp(move.index, remaining.length), 0, moved);
+    return remaining;
+  }
+
+  if (moved.type === "part") throw new Error("Parts cannot be nested");
+  const target = remaining.find(
+    (node): node is OutlinePart => node.type === "part" && node.id === move.partId
+  );
+  if (!target) throw new Error(`Part ${move.partId} not found`);
+
+  const chapterIds = [...target.chapterIds];
+  chapterIds.splice(clamp(move.index, chapterIds.length), 0, moved.id);
+  return remaining.map((node) => (node === target ? { ...target, chapterIds } : node));
+}
@@ -0,0 +1,224 @@
+// src/utils/printLayout.ts
+
+import { marked } from "marked";
+import { escapeXml, loadManuscript, Manuscript } from "./manuscript";
+
+export type TrimSizeId = "5x8" | "5.25x8" | "5.5x8.5" | "6x9" | "a5" | "letter";
+export type PrintFontId = "garamond" | "georgia" | "palatino" | "baskerville" | "times";
+
+export interface PrintLayout {
+  trimSize: TrimSizeId;
+  // Margins in inches; inside is the gutter next to the spine
+  marginTop: number;
+  marginBottom: number;
+  marginInside: number;
+  marginOutside: number;
+  bodyFont: PrintFontId;
+  headingFont: PrintFontId;
+  fontSize: number; // pt
+  lineHeight: number;
+  runningHeads: boolean;
+  pageNumbers: boolean;
+  dropCaps: boolean;
+  chaptersOnRecto: boolean; // start every chapter on a right-hand page
+}
+
+export const TRIM_SIZES: Record<TrimSizeId, { label: string; width: string; height: string }> = {
+  "5x8": { label: '5" × 8"', width: "5in", height: "8in" },
+  "5.25x8": { label: '5.25" × 8"', width: "5.25in", height: "8in" },
+  "5.5x8.5": { label: '5.5" × 8.5"', width: "5.5in", height: "8.5in" },
+  "6x9": { label: '6" × 9"', width: "6in", height: "9in" },
+  a5: { label: "A5", width: "148mm", height: "210mm" },
+  letter: { label: "US Letter", width: "8.5in", height: "11in" },
+};
+
+export const PRINT_FONTS: Record<PrintFontId, { label: string; stack: string }> = {
+  garamond: {
+    label: "Garamond",
+    stack: '"EB Garamond", Garamond, "Adobe Garamond Pro", "Times New Roman", serif',
+  },
+  georgia: { label: "Georgia", stack: "Georgia, serif" },
+  palatino: {
+    label: "Palatino",
+    stack: '"Palatino Linotype", Palatino, "Book Antiqua", serif',
+  },
+  baskerville: {
+    label: "Baskerville",
+    stack: 'Baskerville, "Libre Baskerville", "Baskerville Old Face", serif',
+  },
+  times: { label: "Times New Roman", stack: '"Times New Roman", Times, serif' },
+};
+
+export const DEFAULT_PRINT_LAYOUT: PrintLayout = {
+  trimSize: "5.5x8.5",
+  marginTop: 0.75,
+  marginBottom: 0.75,
+  marginInside: 0.875,
+  marginOutside: 0.625,
+  bodyFont: "garamond",
+  headingFont: "garamond",
+  fontSize: 11,
+  lineHeight: 1.4,
+  runningHeads: true,
+  pageNumbers: true,
+  dropCaps: true,
+  chaptersOnRecto: false,
+};
+
+// Quote text for use as a CSS string value
+function cssString(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\s+/g, " ")}"`;
+}
+
+function pageStyles(manuscript: Manuscript, layout: PrintLayout): string {
+  const trim = TRIM_SIZES[layout.trimSize];
+  const marginBox = `font-family: ${PRINT_FONTS[layout.headingFont].stack}; font-size: ${
+    layout.fontSize - 2
+  }pt; font-variant: small-caps; letter-spacing: 0.05em;`;
+  const pageNumber = layout.pageNumbers
+    ? `@bottom-center { content: counter(page); ${marginBox} }`
+    : "";
+
+  const rules = [
+    `@page {
+  size: ${trim.width} ${trim.height};
+  margin-top: ${layout.marginTop}in;
+  margin-bottom: ${layout.marginBottom}in;
+  ${pageNumber}
+}
+@page :left { margin-left: ${layout.marginOutside}in; margin-right: ${layout.marginInside}in; }
+@page :right { margin-left: ${layout.marginInside}in; margin-right: ${layout.marginOutside}in; }
+@page front { @bottom-center { content: none; } }`,
+  ];
+
+  // Each chapter gets its own named page so the recto head can carry its title;
+  // the verso head always shows the book title
+  if (layout.runningHeads) {
+    manuscript.chapters.forEach((chapter, index) => {
+      rules.push(`@page chapter-${index + 1}:left { @top-left { content: ${cssString(
+        manuscript.book.name
+      )}; ${marginBox} } }
+@page chapter-${index + 1}:right { @top-right { content: ${cssString(chapter.title)}; ${marginBox} } }`);
+    });
+  }
+
+  return rules.join("\n");
+}
+
+function bodyStyles(manuscript: Manuscript, layout: PrintLayout): string {
+  const chapterPages = manuscript.chapters
+    .map((_, index) => `.chapter-${index + 1} { page: chapter-${index + 1}; }`)
+    .join("\n");
+
+  const dropCaps = layout.dropCaps
+    ? `.chapter > h1 + p::first-letter {
+  float: left;
+  font-size: ${(layout.lineHeight * 3).toFixed(2)}em;
+  line-height: 0.85;
+  padding: 0.05em 0.08em 0 0;
+  font-family: ${PRINT_FONTS[layout.headingFont].stack};
+}`
+    : "";
+
+  return `html { font-family: ${PRINT_FONTS[layout.bodyFont].stack}; font-size: ${layout.fontSize}pt; }
+body { margin: 0; line-height: ${layout.lineHeight}; hyphens: auto; widows: 2; orphans: 2; }
+.front { page: front; text-align: center; }
+.title-page { break-after: page; padding-top: 30%; }
+.title-page h1 { font-size: 2.4em; font-weight: normal; margin: 0 0 0.5em; }
+.title-page .author { font-size: 1.3em; font-variant: small-caps; letter-spacing: 0.05em; }
+.chapter { break-before: ${layout.chaptersOnRecto ? "right" : "page"}; }
+.chapter > h1 {
+  font-family: ${PRINT_FONTS[layout.headingFont].stack};
+  font-weight: normal;
+  font-size: 1.8em;
+  text-align: center;
+  margin: 25% 0 2em;
+}
+h2, h3 { font-family: ${PRINT_FONTS[layout.headingFont].stack}; font-weight: normal; text-align: center; break-after: avoid; }
+p { margin: 0; text-indent: 1.5em; text-align: justify; }
+h1 + p, h2 + p, h3 + p, hr + p { text-indent: 0; }
+hr { border: none; margin: 1em 0; text-align: center; break-after: avoid; }
+hr::after { content: "*   *   *"; }
+blockquote { margin: 1em 2em; font-style: italic; }
+img { max-width: 100%; }
+${dropCaps}
+${chapterPages}`;
+}
+
+// Build a standalone HTML document of the whole book, typeset for print
+export function buildPrintHtml(
+  manuscript: Manuscript,
+  layout: PrintLayout,
+  author?: string
+): string {
+  const chapters = manuscript.chapters
+    .map((chapter, index) => {
+      // Chapters normally open with their own heading; add one when missing
+      const heading = /^\s*#\s/.test(chapter.content)
+        ? ""
+        : `<h1>${escapeXml(chapter.title)}</h1>\n`;
+      return `<section class="chapter chapter-${index + 1}">\n${heading}${marked(
+        chapter.content
+      )}</section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="${escapeXml(navigator.language || "en")}">
+<head>
+<meta charset="UTF-8" />
+<meta http-equiv="Content-Security-Policy" content="script-src 'none'; object-src 'none'" />
+<title>${escapeXml(manuscript.book.name)}</title>
+<style>
+${pageStyles(manuscript, layout)}
+${bodyStyles(manuscript, layout)}
+</style>
+</head>
+<body>
+<section class="front title-page">
+<h1>${escapeXml(manuscript.book.name)}</h1>
+${author ? `<p class="author">${escapeXml(author)}</p>` : ""}
+</section>
+${chapters}
+</body>
+</html>
+`;
+}
+
+// Typeset a book in a hidden frame and open the browser's print dialog,
+// where it can be saved as PDF
+export async function printBookToPdf(bookId: string, layout: PrintLayout, author?: string) {
+  const manuscript = await loadManuscript(bookId);
+  const html = buildPrintHtml(manuscript, layout, author);
+
+  // Chapters can come from imported files, so nothing in them may run: the
+  // sandbox blocks scripts and only lets this page reach in to print
+  const frame = document.createElement("iframe");
+  frame.setAttribute("sandbox", "allow-same-origin allow-modals");
+  frame.setAttribute("aria-hidden", "true");
+  frame.style.position = "fixed";
+  frame.style.right = "0";
+  frame.style.bottom = "0";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+
+  await new Promise<void>((resolve) => {
+    frame.onload = () => resolve();
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+
+  const printWindow = frame.contentWindow;
+  if (!printWindow) {
+    frame.remove();
+    throw new Error("Could not prepare the print preview");
+  }
+
+  // Wait for web fonts so the layout doesn't shift while printing
+  await printWindow.document.fonts?.ready;
+
+  printWindow.addEventListener("afterprint", () => frame.remove());
+  printWindow.focus();
+  printWindow.print();
+}
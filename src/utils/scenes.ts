@@ -0,0 +1,110 @@
+// src/utils/scenes.ts
+
+import { Scene } from "../services/indexedDB";
+
+// A chapter with several scenes stores each one after a marker line:
+//
+//   # Chapter title
+//
+//   <!-- scene:<id> -->
+//
+//   Scene text...
+//
+// A chapter with a single scene has no markers, so chapters written before
+// scenes existed are already valid single-scene chapters.
+const SCENE_MARKER = /^<!--\s*scene:([\w-]+)\s*-->[ \t]*$/;
+
+export function sceneMarker(sceneId: string): string {
+  return `<!-- scene:${sceneId} -->`;
+}
+
+export function isSceneMarker(line: string): boolean {
+  return SCENE_MARKER.test(line);
+}
+
+export interface ChapterSections {
+  preamble: string; // the chapter heading and anything else before the first scene
+  bodies: Record<string, string>;
+}
+
+// Split chapter content into the text of each scene
+export function splitScenes(content: string, scenes: Scene[]): ChapterSections {
+  const bodies: Record<string, string> = {};
+  for (const scene of scenes) bodies[scene.id] = "";
+
+  const lines = content.split("\n");
+  if (!lines.some((line) => SCENE_MARKER.test(line))) {
+    // Without markers everything after the chapter heading is the first scene
+    const headingIndex = lines.findIndex((line) => line.trim() !== "");
+    const hasHeading = headingIndex !== -1 && /^#[ \t]/.test(lines[headingIndex]);
+    const preamble = hasHeading ? lines.slice(0, headingIndex + 1).join("\n").trim() : "";
+    const body = (hasHeading ? lines.slice(headingIndex + 1) : lines).join("\n").trim();
+    if (scenes.length > 0) bodies[scenes[0].id] = body;
+    return { preamble, bodies };
+  }
+
+  const preambleLines: string[] = [];
+  let current: string[] = preambleLines;
+  const sections: Record<string, string[]> = {};
+
+  for (const line of lines) {
+    const match = line.match(SCENE_MARKER);
+    // Markers for scenes the config doesn't know are treated as plain text
+    if (match && match[1] in bodies && !(match[1] in sections)) {
+      current = sections[match[1]] = [];
+    } else {
+      current.push(line);
+    }
+  }
+
+  for (const [sceneId, sectionLines] of Object.entries(sections)) {
+    bodies[sceneId] = sectionLines.join("\n").trim();
+  }
+  return { preamble: preambleLines.join("\n").trim(), bodies };
+}
+
+// Rebuild chapter content from its scenes' text, in scene order
+export function joinScenes(preamble: string, scenes: Scene[], bodies: Record<string, string>) {
+  const parts = preamble ? [preamble] : [];
+
+  if (scenes.length === 1) {
+    if (bodies[scenes[0].id]) parts.push(bodies[scenes[0].id]);
+  } else {
+    for (const scene of scenes) {
+      parts.push(sceneMarker(scene.id));
+      if (bodies[scene.id]) parts.push(bodies[scene.id]);
+    }
+  }
+
+  return parts.join("\n\n");
+}
+
+export function getSceneBody(content: string, scenes: Scene[], sceneId: string): string {
+  return splitScenes(content, scenes).bodies[sceneId] ?? "";
+}
+
+export function replaceSceneBody(
+  content: string,
+  scenes: Scene[],
+  sceneId: string,
+  body: string
+): string {
+  const { preamble, bodies } = splitScenes(content, scenes);
+  return joinScenes(preamble, scenes, { ...bodies, [sceneId]: body.trim() });
+}
+
+// Reading text of a chapter: markers are dropped and every scene after the
+// first is set off with a scene break
+export function stripSceneMarkers(content: string): string {
+  let seenScene = false;
+  return content
+    .split("\n")
+    .map((line) => {
+      if (!SCENE_MARKER.test(line)) return line;
+      const replacement = seenScene ? "---" : null;
+      seenScene = true;
+      return replacement;
+    })
+    .filter((line): line is string => line !== null)
+    .join("\n");
+}
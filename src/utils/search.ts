@@ -0,0 +1,144 @@
+// src/utils/search.ts
+
+import { isSceneMarker } from "./scenes";
+
+export interface SearchOptions {
+  query: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export interface SearchMatch {
+  index: number; // offset in the chapter file
+  length: number;
+  line: number; // 1-based
+  before: string;
+  text: string;
+  after: string;
+  groups: string[]; // capture groups, for $1 style replacements
+  namedGroups: Record<string, string>;
+}
+
+const CONTEXT_CHARS = 40;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Build the pattern for a query. Throws a SyntaxError for an invalid regex.
+export function buildSearchPattern(options: SearchOptions): RegExp {
+  // Compile the user's regex alone first so errors point at their pattern
+  if (options.regex) new RegExp(options.query, "u");
+
+  let source = options.regex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) {
+    // \b only knows ASCII letters, so look for non-word neighbours instead
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  }
+  return new RegExp(source, options.caseSensitive ? "gu" : "giu");
+}
+
+// Find every non-empty match in a chapter, skipping scene marker lines
+export function findMatches(content: string, pattern: RegExp, limit = Infinity): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  const flags = pattern.flags.includes("g") ? pattern.flags : pattern.flags + "g";
+  const regex = new RegExp(pattern.source, flags);
+
+  let line = 1;
+  let lineStart = 0;
+  let scanned = 0;
+
+  for (const match of content.matchAll(regex)) {
+    if (matches.length >= limit) break;
+    if (match[0].length === 0) continue;
+
+    const index = match.index!;
+    for (; scanned < index; scanned++) {
+      if (content[scanned] === "\n") {
+        line++;
+        lineStart = scanned + 1;
+      }
+    }
+
+    const lineEnd = content.indexOf("\n", index);
+    const lineStop = lineEnd === -1 ? content.length : lineEnd;
+    if (isSceneMarker(content.slice(lineStart, lineStop))) continue;
+
+    matches.push({
+      ...describeMatch(content, index, match[0].length, line, lineStart, lineStop),
+      groups: match.slice(1).map((group) => group ?? ""),
+      namedGroups: { ...match.groups },
+    });
+  }
+
+  return matches;
+}
+
+// A match with the rest of its line around it, trimmed to a short excerpt
+function describeMatch(
+  content: string,
+  index: number,
+  length: number,
+  line: number,
+  lineStart: number,
+  lineStop: number
+) {
+  const end = index + length;
+  const contextStart = Math.max(lineStart, index - CONTEXT_CHARS);
+  const contextEnd = Math.min(lineStop, end + CONTEXT_CHARS);
+
+  return {
+    index,
+    length,
+    line,
+    before: (contextStart > lineStart ? "…" : "") + content.slice(contextStart, index),
+    text: content.slice(index, end),
+    after: content.slice(end, contextEnd) + (contextEnd < lineStop ? "…" : ""),
+  };
+}
+
+// Describe a known stretch of a chapter the way findMatches would
+export function matchAt(content: string, index: number, length: number): SearchMatch {
+  const lineStart = content.lastIndexOf("\n", index - 1) + 1;
+  const lineEnd = content.indexOf("\n", index);
+  const line = content.slice(0, lineStart).split("\n").length;
+
+  return {
+    ...describeMatch(
+      content,
+      index,
+      length,
+      line,
+      lineStart,
+      lineEnd === -1 ? content.length : lineEnd
+    ),
+    groups: [],
+    namedGroups: {},
+  };
+}
+
+// Expand $&, $1, $<name> and $$ in a regex replacement, like String.replace
+export function expandReplacement(template: string, match: SearchMatch): string {
+  return template.replace(/\$(\$|&|<([^>]*)>|\d{1,2})/g, (token, ref: string, name?: string) => {
+    if (ref === "$") return "$";
+    if (ref === "&") return match.text;
+    if (name !== undefined) return match.namedGroups[name] ?? token;
+    const group = Number(ref);
+    return group >= 1 && group <= match.groups.length ? match.groups[group - 1] : token;
+  });
+}
+
+// Apply non-overlapping edits to a text, given as offsets into the original
+export function applyEdits(
+  content: string,
+  edits: { index: number; length: number; text: string }[]
+): string {
+  let result = "";
+  let position = 0;
+  for (const edit of [...edits].sort((a, b) => a.index - b.index)) {
+    result += content.slice(position, edit.index) + edit.text;
+    position = edit.index + edit.length;
+  }
+  return result + content.slice(position);
+}
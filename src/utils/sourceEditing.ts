@@ -0,0 +1,252 @@
+// src/utils/sourceEditing.ts
+
+// Edits of markdown source text in code mode. Each function takes the text
+// with its selection and returns the edited text and where the selection goes,
+// or null when the editor should let the keystroke through unchanged.
+
+export interface SourceState {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const LINE_PREFIX = /^((?:[ \t]*>[ \t]?)*)([ \t]*)(?:([-*+]|\d{1,9}[.)])([ \t]+)(\[[ xX]\][ \t]+)?)?/;
+const LIST_MARKER = /^([ \t]*)([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+const INDENT = "  ";
+
+// Brackets close themselves as they open; emphasis characters only wrap a selection
+const PAIRS: Record<string, string> = { "(": ")", "[": "]", "{": "}", "`": "`", '"': '"' };
+const WRAPS = ["*", "_", "~"];
+
+const lineStart = (text: string, index: number) => text.lastIndexOf("\n", index - 1) + 1;
+
+const lineEnd = (text: string, index: number) => {
+  const end = text.indexOf("\n", index);
+  return end === -1 ? text.length : end;
+};
+
+function replace(
+  state: SourceState,
+  from: number,
+  to: number,
+  insert: string,
+  start = from + insert.length,
+  end = start
+): SourceState {
+  return { text: state.text.slice(0, from) + insert + state.text.slice(to), start, end };
+}
+
+export const insertText = (state: SourceState, text: string) =>
+  replace(state, state.start, state.end, text);
+
+// Rewrite every line the selection touches. Lines only change at their start,
+// so the selection moves with the text it was on.
+function mapLines(state: SourceState, map: (line: string, index: number) => string): SourceState {
+  const { text, start, end } = state;
+  const from = lineStart(text, start);
+  const lastEnd = end > start && text[end - 1] === "\n" ? end - 1 : end;
+  const to = lineEnd(text, lastEnd);
+  const lines = text.slice(from, to).split("\n");
+  const next = lines.map(map);
+
+  const delta = (i: number) => next[i].length - lines[i].length;
+  const total = next.reduce((sum, _line, i) => sum + delta(i), 0);
+  const lastStart = from + next.slice(0, -1).reduce((sum, line) => sum + line.length + 1, 0);
+
+  const newStart = Math.max(from, start + delta(0));
+  const newEnd = start === end ? newStart : Math.max(lastStart, end + total);
+  return replace(state, from, to, next.join("\n"), newStart, newEnd);
+}
+
+// Enter continues a list item or quote on the next line with the same prefix,
+// and ends the list or quote on an empty item
+export function continueBlock(state: SourceState): SourceState | null {
+  const { text, start, end } = state;
+  if (start !== end) return null;
+
+  const from = lineStart(text, start);
+  const line = text.slice(from, lineEnd(text, start));
+  const [prefix, quote, indent, marker, space, task] = line.match(LINE_PREFIX)!;
+  if (!quote && !marker && !indent) return null;
+  if (start < from + prefix.length) return null;
+
+  if (!line.slice(prefix.length).trim() && (quote || marker)) {
+    // An empty item leaves the list, an empty quote line the quote
+    const kept = marker ? quote : quote.replace(/[ \t]*>[ \t]?$/, "");
+    return replace(state, from, from + line.length, kept);
+  }
+
+  let next = marker || "";
+  const number = marker?.match(/^(\d+)([.)])$/);
+  if (number) next = `${Number(number[1]) + 1}${number[2]}`;
+
+  const continuation = quote + indent + (marker ? next + space + (task ? "[ ] " : "") : "");
+  return insertText(state, "\n" + continuation);
+}
+
+// Tab indents list items by the width of their marker, so they nest under the
+// item above; other lines by two spaces. Shift+Tab takes the indent back out.
+export function indentLines(state: SourceState, outdent: boolean): SourceState | null {
+  const { text, start, end } = state;
+  const from = lineStart(text, start);
+  const item = text.slice(from, lineEnd(text, start)).match(LIST_MARKER);
+
+  if (start === end && !outdent && !item) return insertText(state, INDENT);
+
+  const width = item ? item[2].length + Math.max(1, item[3].length) : INDENT.length;
+  return mapLines(state, (line) => {
+    if (!outdent) return line.trim() ? " ".repeat(width) + line : line;
+    const leading = line.match(/^[ \t]*/)![0];
+    const remove = leading.startsWith("\t") ? 1 : Math.min(width, leading.length);
+    return line.slice(remove);
+  });
+}
+
+// Typing an opening bracket or quote adds its closing partner, typing the
+// closing one over an added partner steps past it, and a selection is wrapped
+export function pairInput(state: SourceState, char: string): SourceState | null {
+  const { text, start, end } = state;
+
+  if (start !== end) {
+    const close = PAIRS[char] || (WRAPS.includes(char) ? char : null);
+    if (!close) return null;
+    const selected = text.slice(start, end);
+    return replace(state, start, end, char + selected + close, start + 1, end + 1);
+  }
+
+  const previous = text[start - 1];
+  const next = text[start];
+
+  if (next === char && Object.values(PAIRS).includes(char)) {
+    const open = Object.keys(PAIRS).find((key) => PAIRS[key] === char)!;
+    // Only step over a partner that has its opening character on the line
+    if (text.slice(lineStart(text, start), start).includes(open)) {
+      return { text, start: start + 1, end: start + 1 };
+    }
+  }
+
+  const close = PAIRS[char];
+  if (!close) return null;
+  if (next !== undefined && !/[\s)\]}.,;:!?]/.test(next)) return null;
+  // Quotes and backticks pair only at the start of a word, so a fence or an
+  // apostrophe-like use types normally
+  if (close === char && previous !== undefined && !/[\s([{]/.test(previous)) return null;
+
+  return replace(state, start, end, char + close, start + 1);
+}
+
+// Backspace between a pair that was just opened removes both
+export function deletePair(state: SourceState): SourceState | null {
+  const { text, start, end } = state;
+  if (start !== end || start === 0) return null;
+  const close = PAIRS[text[start - 1]];
+  if (!close || text[start] !== close) return null;
+  return replace(state, start - 1, start + 1, "");
+}
+
+// Length of the run of `char` that ends at `index`
+const runBefore = (text: string, index: number, char: string) => {
+  let length = 0;
+  while (index - length > 0 && text[index - length - 1] === char) length++;
+  return length;
+};
+
+const runAfter = (text: string, index: number, char: string) => {
+  let length = 0;
+  while (text[index + length] === char) length++;
+  return length;
+};
+
+// Wrap the selection in an inline delimiter, or unwrap it when it already is.
+// "*" around "**bold**" is italic added inside, not half of the bold taken off.
+export function toggleWrap(state: SourceState, wrap: string): SourceState {
+  const { text, start, end } = state;
+  const char = wrap[0];
+  const before = runBefore(text, start, char);
+  const after = runAfter(text, end, char);
+  const single = wrap.length === 1 && (char === "*" || char === "_");
+  const wrapped = single
+    ? before % 2 === 1 && after % 2 === 1
+    : before >= wrap.length && after >= wrap.length;
+
+  if (wrapped) {
+    const unwrapped = text.slice(0, start - wrap.length) + text.slice(start, end);
+    return {
+      text: unwrapped + text.slice(end + wrap.length),
+      start: start - wrap.length,
+      end: end - wrap.length,
+    };
+  }
+
+  const selected = text.slice(start, end);
+  return replace(state, start, end, wrap + selected + wrap, start + wrap.length, end + wrap.length);
+}
+
+export function toggleHeading(state: SourceState, level: number): SourceState {
+  const prefix = "#".repeat(level) + " ";
+  const { text, start } = state;
+  const current = text.slice(lineStart(text, start), lineEnd(text, start));
+  const remove = current.startsWith(prefix);
+
+  return mapLines(state, (line) => {
+    const cleaned = line.replace(/^#{1,6}[ \t]+/, "");
+    return remove || !line.trim() ? cleaned : prefix + cleaned;
+  });
+}
+
+export function toggleQuote(state: SourceState): SourceState {
+  const { text, start, end } = state;
+  const from = lineStart(text, start);
+  const lines = text.slice(from, lineEnd(text, end)).split("\n");
+  const quoted = lines.every((line) => !line.trim() || /^[ \t]*>/.test(line));
+
+  return mapLines(state, (line) => {
+    if (quoted) return line.replace(/^([ \t]*)>[ \t]?/, "$1");
+    return line.trim() ? `> ${line}` : line;
+  });
+}
+
+export function toggleList(state: SourceState, ordered: boolean): SourceState {
+  const { text, start, end } = state;
+  const from = lineStart(text, start);
+  const lines = text.slice(from, lineEnd(text, end)).split("\n");
+  const pattern = ordered ? /^([ \t]*)\d+[.)][ \t]/ : /^([ \t]*)[-*+][ \t]/;
+  const listed = lines.every((line) => !line.trim() || pattern.test(line));
+
+  let count = 1;
+  return mapLines(state, (line) => {
+    if (!line.trim()) return line;
+    if (listed) return line.replace(pattern, "$1");
+    // Switching list type swaps the marker instead of stacking a second one
+    const content = line.replace(/^([ \t]*)(?:[-*+]|\d+[.)])[ \t]+/, "$1");
+    const indent = content.match(/^[ \t]*/)![0];
+    const marker = ordered ? `${count++}.` : "-";
+    return `${indent}${marker} ${content.slice(indent.length)}`;
+  });
+}
+
+// Strip inline and line formatting from the selected text
+export function clearFormatting(state: SourceState): SourceState {
+  const { text, start, end } = state;
+  const cleaned = text
+    .slice(start, end)
+    .replace(/\*\*(.*?)\*\*/g, "$1")
+    .replace(/__(.*?)__/g, "$1")
+    .replace(/\*(.*?)\*/g, "$1")
+    .replace(/~~(.*?)~~/g, "$1")
+    .replace(/`(.*?)`/g, "$1")
+    .replace(/\[(.*?)\]\(.*?\)/g, "$1")
+    .replace(/^#{1,6}\s/gm, "")
+    .replace(/^>\s?/gm, "")
+    .replace(/^[-*+]\s/gm, "")
+    .replace(/^\d+\.\s/gm, "");
+  return replace(state, start, end, cleaned, start, start + cleaned.length);
+}
+
+// Link the selection, or a placeholder label, and select the "url" to type over
+export function insertLink(state: SourceState): SourceState {
+  const { text, start, end } = state;
+  const label = text.slice(start, end) || "link text";
+  const urlStart = start + label.length + 3;
+  return replace(state, start, end, `[${label}](url)`, urlStart, urlStart + 3);
+}
@@ -0,0 +1,30 @@
+// src/utils/sprint.ts
+
+import { SprintRecord } from "../services/indexedDB";
+
+export interface SprintOptions {
+  minutes: number; // length of each sprint
+  breakMinutes: number; // rest between sprints
+  rounds: number; // sprints in a row, with a break between each
+}
+
+export const DEFAULT_SPRINT_OPTIONS: SprintOptions = {
+  minutes: 25,
+  breakMinutes: 5,
+  rounds: 1,
+};
+
+// mm:ss, or h:mm:ss for an hour or more
+export function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const minutes = `${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+  return seconds >= 3600 ? `${Math.floor(seconds / 3600)}:${minutes}` : minutes;
+}
+
+// Net words per minute of writing across the rounds
+export function wordsPerMinute(rounds: SprintRecord[]): number {
+  const minutes = rounds.reduce((sum, round) => sum + (round.end - round.start), 0) / 60000;
+  const words = rounds.reduce((sum, round) => sum + round.words, 0);
+  return minutes > 0 ? Math.round(words / minutes) : 0;
+}
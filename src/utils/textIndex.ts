@@ -0,0 +1,247 @@
+// src/utils/textIndex.ts
+
+import { isSceneMarker } from "./scenes";
+
+// A word of a chapter as it is stored in the full-text index
+export interface IndexToken {
+  term: string; // normalized and stemmed
+  index: number; // offset of the word in the chapter file
+  length: number;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+
+// Too common to say anything about a chapter
+const STOP_WORDS = new Set(
+  (
+    "a about above after again against all am an and any are as at be because been before " +
+    "being below between both but by can could did do does doing down during each few for " +
+    "from further had has have having he her here hers herself him himself his how i if in " +
+    "into is it its itself just me more most my myself no nor not now of off on once only or " +
+    "other our ours ourselves out over own same she should so some such than that the their " +
+    "theirs them themselves then there these they this those through to too under until up " +
+    "very was we were what when where which while who whom why will with would you your " +
+    "yours yourself yourselves"
+  ).split(" ")
+);
+
+// Porter stemmer (https://tartarus.org/martin/PorterStemmer/), for English words
+
+function isConsonant(word: string, i: number): boolean {
+  const ch = word[i];
+  if ("aeiou".includes(ch)) return false;
+  if (ch === "y") return i === 0 || !isConsonant(word, i - 1);
+  return true;
+}
+
+// Number of vowel-consonant sequences, the "m" of the algorithm
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  while (i < stem.length && isConsonant(stem, i)) i++;
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++;
+    if (i >= stem.length) break;
+    while (i < stem.length && isConsonant(stem, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+// Consonant-vowel-consonant, where the last consonant is not w, x or y
+function endsWithCvc(word: string): boolean {
+  const n = word.length;
+  return (
+    n >= 3 &&
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !"wxy".includes(word[n - 1])
+  );
+}
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: "ate",
+  tional: "tion",
+  enci: "ence",
+  anci: "ance",
+  izer: "ize",
+  bli: "ble",
+  alli: "al",
+  entli: "ent",
+  eli: "e",
+  ousli: "ous",
+  ization: "ize",
+  ation: "ate",
+  ator: "ate",
+  alism: "al",
+  iveness: "ive",
+  fulness: "ful",
+  ousness: "ous",
+  aliti: "al",
+  iviti: "ive",
+  biliti: "ble",
+  logi: "log",
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: "ic",
+  ative: "",
+  alize: "al",
+  iciti: "ic",
+  ical: "ic",
+  ful: "",
+  ness: "",
+};
+
+const STEP4_SUFFIXES = [
+  "al",
+  "ance",
+  "ence",
+  "er",
+  "ic",
+  "able",
+  "ible",
+  "ant",
+  "ement",
+  "ment",
+  "ent",
+  "ion",
+  "ou",
+  "ism",
+  "ate",
+  "iti",
+  "ous",
+  "ive",
+  "ize",
+];
+
+// Only the longest matching suffix counts, whether or not its condition holds
+function longestSuffix(word: string, suffixes: string[]): string | null {
+  let found: string | null = null;
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix) && suffix.length > (found?.length || 0)) found = suffix;
+  }
+  return found;
+}
+
+export function stem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+
+  // Step 1a: plurals
+  if (word.endsWith("sses") || word.endsWith("ies")) word = word.slice(0, -2);
+  else if (word.endsWith("s") && !word.endsWith("ss")) word = word.slice(0, -1);
+
+  // Step 1b: -eed, -ed, -ing
+  if (word.endsWith("eed")) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else {
+    const suffix = word.endsWith("ed") ? "ed" : word.endsWith("ing") ? "ing" : null;
+    if (suffix && hasVowel(word.slice(0, -suffix.length))) {
+      word = word.slice(0, -suffix.length);
+      if (word.endsWith("at") || word.endsWith("bl") || word.endsWith("iz")) {
+        word += "e";
+      } else if (endsWithDoubleConsonant(word) && !"lsz".includes(word[word.length - 1])) {
+        word = word.slice(0, -1);
+      } else if (measure(word) === 1 && endsWithCvc(word)) {
+        word += "e";
+      }
+    }
+  }
+
+  // Step 1c: y to i
+  if (word.endsWith("y") && hasVowel(word.slice(0, -1))) word = word.slice(0, -1) + "i";
+
+  // Steps 2 and 3: map double and single suffixes to simpler ones
+  for (const suffixes of [STEP2_SUFFIXES, STEP3_SUFFIXES]) {
+    const suffix = longestSuffix(word, Object.keys(suffixes));
+    if (suffix && measure(word.slice(0, -suffix.length)) > 0) {
+      word = word.slice(0, -suffix.length) + suffixes[suffix];
+    }
+  }
+
+  // Step 4: drop suffixes from long enough stems
+  const suffix = longestSuffix(word, STEP4_SUFFIXES);
+  if (suffix) {
+    const rest = word.slice(0, -suffix.length);
+    if (measure(rest) > 1 && (suffix !== "ion" || /[st]$/.test(rest))) word = rest;
+  }
+
+  // Step 5: tidy up a final -e and -ll
+  if (word.endsWith("e")) {
+    const rest = word.slice(0, -1);
+    const m = measure(rest);
+    if (m > 1 || (m === 1 && !endsWithCvc(rest))) word = rest;
+  }
+  if (word.endsWith("ll") && measure(word) > 1) word = word.slice(0, -1);
+
+  return word;
+}
+
+// Lowercase a word and drop apostrophes and a possessive 's
+export function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/['’]s$/, "")
+    .replace(/['’]/g, "");
+}
+
+// The index term for a word, or null for a stop word
+export function indexTerm(word: string): string | null {
+  const normalized = normalizeWord(word);
+  if (!normalized || STOP_WORDS.has(normalized)) return null;
+  return stem(normalized);
+}
+
+// Every indexed word of a chapter, skipping scene marker lines
+export function tokenize(content: string): IndexToken[] {
+  // Blank out marker lines so offsets still point into the file
+  const text = content.replace(/^.*$/gm, (line) =>
+    isSceneMarker(line) ? " ".repeat(line.length) : line
+  );
+
+  const tokens: IndexToken[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const term = indexTerm(match[0]);
+    if (term) tokens.push({ term, index: match.index!, length: match[0].length });
+  }
+  return tokens;
+}
+
+// How often each term occurs in a chapter
+export function countTerms(tokens: IndexToken[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token.term, (counts.get(token.term) || 0) + 1);
+  }
+  return counts;
+}
+
+// A word of a search query, matched as its term or as the start of longer ones
+export interface QueryWord {
+  term: string;
+  prefix: string; // the word as typed, normalized
+}
+
+export function parseQuery(query: string): QueryWord[] {
+  const words: QueryWord[] = [];
+  for (const match of query.matchAll(WORD_PATTERN)) {
+    const term = indexTerm(match[0]);
+    if (term && !words.some((word) => word.term === term)) {
+      words.push({ term, prefix: normalizeWord(match[0]) });
+    }
+  }
+  return words;
+}
@@ -0,0 +1,88 @@
+// src/utils/writingFocus.ts
+
+// Focus mode dims the text around the one being written: everything but the
+// paragraph with the cursor, or everything but its sentence.
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// A sentence ends at its punctuation, with any closing quotes or brackets,
+// before a space or the end of the paragraph
+const SENTENCE_END = /[.!?…]+["'”’)\]*_]*(?=\s|$)/g;
+
+// Lines that begin a block of their own in markdown source, even without a
+// blank line before them
+const BLOCK_START = /^[ \t]*(?:[-*+]|\d{1,9}[.)])(?:[ \t]|$)|^ {0,3}(?:#{1,6}(?:[ \t]|$)|```|~~~)/;
+const HEADING = /^ {0,3}#{1,6}(?:[ \t]|$)/;
+
+// The sentence of a paragraph's text the cursor is in. A cursor just after a
+// sentence's punctuation is still in it.
+export function sentenceAt(text: string, offset: number): TextSpan {
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    if (end >= offset) return { start, end };
+    start = end + text.slice(end).search(/\S|$/);
+  }
+  return { start, end: text.length };
+}
+
+// The lines of markdown source, from `start` up to `end`, that make up the
+// paragraph of `line`: text between blank lines, where a list item or heading
+// starts a new one
+export function paragraphAt(lines: string[], line: number): TextSpan {
+  if (!lines[line]?.trim()) return { start: line, end: line + 1 };
+  if (HEADING.test(lines[line])) return { start: line, end: line + 1 };
+
+  let start = line;
+  while (
+    start > 0 &&
+    !BLOCK_START.test(lines[start]) &&
+    lines[start - 1].trim() &&
+    !HEADING.test(lines[start - 1])
+  ) {
+    start--;
+  }
+
+  let end = line + 1;
+  while (end < lines.length && lines[end].trim() && !BLOCK_START.test(lines[end])) end++;
+  return { start, end };
+}
+
+// The CSS Custom Highlight API, which not every browser (nor TypeScript's DOM
+// types) knows yet. Without it focus mode dims whole paragraphs only.
+type RangeSet = Set<AbstractRange>;
+const highlightApi = () => {
+  const Highlight = (window as { Highlight?: new () => RangeSet }).Highlight;
+  const registry = (CSS as { highlights?: Map<string, RangeSet> }).highlights;
+  return Highlight && registry ? { Highlight, registry } : null;
+};
+
+let dimmed: RangeSet | null = null;
+
+// Text an editor dims with the `focus-dim` highlight. Every editor on the
+// page adds its ranges to the same highlight and takes back only its own.
+export function createFocusDimmer() {
+  let ranges: AbstractRange[] = [];
+
+  const set = (next: AbstractRange[]) => {
+    const api = highlightApi();
+    if (!api) return;
+    if (!dimmed) {
+      dimmed = new api.Highlight();
+      api.registry.set("focus-dim", dimmed);
+    }
+    for (const range of ranges) dimmed.delete(range);
+    for (const range of next) dimmed.add(range);
+    ranges = next;
+  };
+
+  return { set, clear: () => set([]) };
+}
+
+// Keys that move the cursor without changing the text, after which
+// typewriter scrolling centers the cursor's line again
+export const movesCaret = (event: KeyboardEvent) =>
+  /^(Arrow|Page)|^(Home|End)$/.test(event.key);
@@ -0,0 +1,166 @@
+// src/utils/writingStats.ts
+
+import { WritingDay, WritingSession } from "../services/indexedDB";
+
+// Words per minute, read silently and read aloud
+export const READING_WPM = 250;
+export const SPEAKING_WPM = 150;
+
+// A save after a longer pause starts a new session
+export const SESSION_GAP_MS = 30 * 60 * 1000;
+
+export interface DayTotal {
+  date: string;
+  words: number; // net words added
+}
+
+export interface HistogramBucket {
+  from: number;
+  to: number; // exclusive
+  count: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// YYYY-MM-DD in local time
+export function dateKey(time: number | Date): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function parseDateKey(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addDays(date: string, days: number): string {
+  const next = parseDateKey(date);
+  next.setDate(next.getDate() + days);
+  return dateKey(next);
+}
+
+export function netWords(day: WritingDay): number {
+  return day.added - day.removed;
+}
+
+function writtenDates(days: WritingDay[]): Set<string> {
+  return new Set(days.filter((day) => day.added > 0).map((day) => day.date));
+}
+
+// Consecutive days with writing up to today. Today does not break the
+// streak until it is over.
+export function currentStreak(days: WritingDay[], today: string): number {
+  const written = writtenDates(days);
+  let date = written.has(today) ? today : addDays(today, -1);
+  let streak = 0;
+  while (written.has(date)) {
+    streak++;
+    date = addDays(date, -1);
+  }
+  return streak;
+}
+
+export function longestStreak(days: WritingDay[]): number {
+  const dates = [...writtenDates(days)].sort();
+  let longest = 0;
+  let streak = 0;
+  dates.forEach((date, i) => {
+    streak = i > 0 && addDays(dates[i - 1], 1) === date ? streak + 1 : 1;
+    longest = Math.max(longest, streak);
+  });
+  return longest;
+}
+
+// Net words for each of the last `count` days, oldest first
+export function dailyTotals(days: WritingDay[], today: string, count: number): DayTotal[] {
+  const byDate = new Map(days.map((day) => [day.date, netWords(day)]));
+  return Array.from({ length: count }, (_, i) => {
+    const date = addDays(today, i - count + 1);
+    return { date, words: byDate.get(date) || 0 };
+  });
+}
+
+// Most recent sessions first
+export function recentSessions(days: WritingDay[], count: number): WritingSession[] {
+  return days
+    .flatMap((day) => day.sessions)
+    .sort((a, b) => b.start - a.start)
+    .slice(0, count);
+}
+
+// Group lengths into at most `maxBuckets` buckets of a round size
+export function lengthHistogram(lengths: number[], maxBuckets = 10): HistogramBucket[] {
+  if (lengths.length === 0) return [];
+
+  const longest = Math.max(...lengths);
+  const size =
+    [100, 250, 500, 1000, 2000, 2500, 5000, 10000].find(
+      (candidate) => Math.floor(longest / candidate) < maxBuckets
+    ) || Math.ceil((longest + 1) / maxBuckets);
+
+  const buckets = Array.from({ length: Math.floor(longest / size) + 1 }, (_, i) => ({
+    from: i * size,
+    to: (i + 1) * size,
+    count: 0,
+  }));
+  for (const length of lengths) {
+    buckets[Math.floor(length / size)].count++;
+  }
+  return buckets;
+}
+
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.max(1, Math.round(minutes));
+  if (rounded < 60) return `${rounded} min`;
+  const hours = Math.floor(rounded / 60);
+  return rounded % 60 ? `${hours} h ${rounded % 60} min` : `${hours} h`;
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / 86400000);
+}
+
+// The latest session if it is still going, i.e. the last save was recent
+export function activeSession(days: WritingDay[], now: number): WritingSession | null {
+  const [latest] = recentSessions(days, 1);
+  return latest && now - latest.end <= SESSION_GAP_MS ? latest : null;
+}
+
+export interface GoalPace {
+  remaining: number; // words still to write
+  daysLeft: number; // including today; 0 or less once the deadline has passed
+  dailyTarget: number | null; // today's share of the remaining words, without a passed deadline
+  wordsToday: number;
+  recentPace: number; // average net words per day over the last week
+  projectedFinish: string | null; // when the target is reached at the recent pace
+}
+
+// Spread the words left at the start of today evenly over the days until the
+// deadline, so the daily target holds steady while writing today
+export function goalPace(
+  targetWords: number,
+  deadline: string | undefined,
+  bookWords: number,
+  days: WritingDay[],
+  today: string
+): GoalPace {
+  const week = dailyTotals(days, today, 7);
+  const wordsToday = week[week.length - 1].words;
+  const recentPace = Math.round(week.reduce((sum, day) => sum + day.words, 0) / week.length);
+  const remaining = Math.max(0, targetWords - bookWords);
+  const daysLeft = deadline ? daysBetween(today, deadline) + 1 : 0;
+
+  const remainingAtStart = Math.max(0, targetWords - (bookWords - wordsToday));
+  let projectedFinish: string | null = null;
+  if (remaining === 0) projectedFinish = today;
+  else if (recentPace > 0) projectedFinish = addDays(today, Math.ceil(remaining / recentPace) - 1);
+
+  return {
+    remaining,
+    daysLeft,
+    dailyTarget: deadline && daysLeft > 0 ? Math.ceil(remainingAtStart / daysLeft) : null,
+    wordsToday,
+    recentPace,
+    projectedFinish,
+  };
+}
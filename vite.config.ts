@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import solid from "vite-plugin-solid";
 import { fileURLToPath, URL } from "node:url";
@@ -22,4 +23,8 @@ export default defineConfig({
   },
   // Copy service worker to public directory during build
   publicDir: "public",
+  // Tests cover plain modules, without a DOM
+  test: {
+    environment: "node",
+  },
 });